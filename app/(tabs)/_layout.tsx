@@ -1,14 +1,38 @@
 import React, { useState } from 'react';
 import { View } from 'react-native';
-import { Tabs, usePathname } from 'expo-router';
+import { Tabs, usePathname, useRouter } from 'expo-router';
 import { ChartBar as BarChart3, BookOpen, TrendingUp, Settings } from 'lucide-react-native';
 import { StatusBar } from 'expo-status-bar';
 import AppHeader from '@/components/AppHeader';
 import ProfileModal from '@/components/ProfileModal';
+import { useData } from '@/contexts/DataContext';
+import { useToast } from '@/contexts/ToastContext';
+import { UserProfile, Promotion } from '@/types/profile';
 
 export default function TabLayout() {
   const pathname = usePathname();
+  const router = useRouter();
   const [showProfileModal, setShowProfileModal] = useState(false);
+  const { profile, promotions, updateProfile, removePromotion } = useData();
+  const { showSuccess, showError } = useToast();
+
+  const handleProfileSave = async (newProfile: UserProfile, promotion?: Promotion) => {
+    try {
+      await updateProfile(newProfile, promotion);
+      showSuccess(promotion && profile ? 'Promotion recorded. Congratulations!' : 'Profile updated successfully!');
+    } catch {
+      showError('Failed to update profile. Please try again.');
+    }
+  };
+
+  const handleDeletePromotion = async (promotionId: string) => {
+    try {
+      await removePromotion(promotionId);
+      showSuccess('Promotion removed');
+    } catch {
+      showError('Failed to remove promotion. Please try again.');
+    }
+  };
 
   // Map pathname to title
   const getPageTitle = (pathname: string) => {
@@ -32,6 +56,7 @@ export default function TabLayout() {
       <View style={{ flex: 1, backgroundColor: '#f8fafc' }}>
         <AppHeader 
           title={getPageTitle(pathname)} 
+          onSearchPress={() => router.push('/search')}
           onProfilePress={() => setShowProfileModal(true)}
         />
         <Tabs
@@ -93,8 +118,10 @@ export default function TabLayout() {
         
         <ProfileModal
           visible={showProfileModal}
-          profile={null}
-          onSave={() => {}}
+          profile={profile}
+          promotions={promotions}
+          onSave={handleProfileSave}
+          onDeletePromotion={handleDeletePromotion}
           onClose={() => setShowProfileModal(false)}
         />
       </View>
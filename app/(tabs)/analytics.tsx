@@ -14,10 +14,14 @@ import {
 import {
   PieChart,
 } from 'react-native-chart-kit';
-import { Target, Award, Zap, Trophy, Activity, ChartPie as PieChartIcon, ChevronDown, Filter } from 'lucide-react-native';
+import { Target, Award, Zap, Trophy, Activity, ChartPie as PieChartIcon, ChevronDown, Filter, Medal, CalendarDays, Dumbbell, Gauge, Flag } from 'lucide-react-native';
 import { TrainingSession } from '@/types/session';
 import { Technique } from '@/types/technique';
 import { useData } from '@/contexts/DataContext';
+import { getTechniques, getSessions } from '@/services/api';
+import { useAllRecords } from '@/hooks/useAllRecords';
+import PromotionTimeline from '@/components/PromotionTimeline';
+import { calculateRankProgress, formatBeltRank, formatTimeInGrade } from '@/utils/rankProgress';
 
 const { width: screenWidth } = Dimensions.get('window');
 const chartWidth = screenWidth - 50; // Increased padding to prevent overflow
@@ -281,7 +285,20 @@ const calculateAnalyticsData = (sessions: TrainingSession[], techniques: Techniq
 };
 
 export default function Analytics() {
-  const { sessions, techniques, isInitialLoading } = useData();
+  const { promotions, dataVersion, isInitialLoading: isProfileLoading } = useData();
+  const {
+    records: sessions,
+    isLoading: sessionsLoading,
+    error: sessionsError,
+    reload: reloadSessions,
+  } = useAllRecords(getSessions, dataVersion);
+  const {
+    records: techniques,
+    isLoading: techniquesLoading,
+    error: techniquesError,
+    reload: reloadTechniques,
+  } = useAllRecords(getTechniques, dataVersion);
+  const isInitialLoading = isProfileLoading || sessionsLoading || techniquesLoading;
   const [analyticsData, setAnalyticsData] = useState<AnalyticsData | null>(null);
   const [selectedTimeframe, setSelectedTimeframe] = useState<'all' | 'week' | 'month' | 'year'>('all');
   const [hasLoadedOnce, setHasLoadedOnce] = useState(false);
@@ -295,6 +312,9 @@ export default function Analytics() {
     return null;
   }, [sessions, techniques, selectedTimeframe]);
 
+  // Rank progress always covers the whole history, whatever the timeframe
+  const rankProgress = useMemo(() => calculateRankProgress(promotions, sessions), [promotions, sessions]);
+
   // Update analytics data and loaded state when memoized data changes
   useEffect(() => {
     if (memoizedAnalyticsData) {
@@ -372,6 +392,28 @@ export default function Analytics() {
     );
   }
 
+  // Stats over partial data would be wrong, so a failed load shows nothing
+  if (sessionsError || techniquesError) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Activity size={48} color="#9ca3af" />
+          <Text style={styles.loadingText}>Failed to load your training data</Text>
+          <TouchableOpacity
+            style={styles.retryButton}
+            onPress={() => {
+              reloadSessions();
+              reloadTechniques();
+            }}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.retryButtonText}>Try Again</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   // If we have loaded but don't have data, show empty state
   if (!analyticsData) {
     return (
@@ -550,6 +592,55 @@ export default function Analytics() {
           </View>
         )} */}
 
+        {/* Rank Progress */}
+        {rankProgress && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, styles.sectionTitleSpacing]}>Rank Progress</Text>
+            <View style={styles.statsGrid}>
+              {renderStatCard(
+                <CalendarDays size={20} color="#8b5cf6" />,
+                rankProgress.current.stripes > 0 ? 'Days at Current Stripe' : 'Days at Current Belt',
+                rankProgress.daysAtCurrentStripe,
+                formatBeltRank(rankProgress.current.beltRank, rankProgress.current.stripes),
+                '#8b5cf6'
+              )}
+              {renderStatCard(
+                <Dumbbell size={20} color="#10b981" />,
+                'Sessions Since Promotion',
+                rankProgress.sessionsSinceLastPromotion,
+                undefined,
+                '#10b981'
+              )}
+              {renderStatCard(
+                <Gauge size={20} color="#3b82f6" />,
+                'Avg Sessions per Stripe',
+                rankProgress.averageSessionsPerStripe,
+                rankProgress.paceSource === 'personal'
+                  ? `Your pace · about ${formatTimeInGrade(rankProgress.averageDaysPerStripe)} per stripe`
+                  : 'Typical academy pace until your first promotion',
+                '#3b82f6'
+              )}
+              {rankProgress.next && renderStatCard(
+                <Flag size={20} color="#f59e0b" />,
+                rankProgress.next.rank.stripes > 0 ? 'Estimated Next Stripe' : 'Estimated Next Belt',
+                rankProgress.next.sessionsRemaining === 0 && rankProgress.next.estimatedDate <= new Date()
+                  ? 'Due now'
+                  : rankProgress.next.estimatedDate.toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
+                `${formatBeltRank(rankProgress.next.rank.beltRank, rankProgress.next.rank.stripes)} · ${rankProgress.next.sessionsRemaining} sessions to go`,
+                '#f59e0b'
+              )}
+            </View>
+
+            <View style={[styles.chartContainer, styles.timelineContainer]}>
+              <View style={styles.chartHeader}>
+                <Medal size={20} color="#5271ff" />
+                <Text style={styles.chartTitle}>Promotion Timeline</Text>
+              </View>
+              <PromotionTimeline segments={rankProgress.timeline} />
+            </View>
+          </View>
+        )}
+
         {/* Distribution Charts */}
         <View style={styles.distributionContainer}>
           {renderPieChart(analyticsData?.submissionDistribution ?? [], 'Submissions')}
@@ -654,6 +745,17 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     fontWeight: '500',
   },
+  retryButton: {
+    backgroundColor: '#000000',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   emptySubtext: {
     fontSize: 14,
     color: '#9ca3af',
@@ -675,6 +777,9 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#1f2937',
   },
+  sectionTitleSpacing: {
+    marginBottom: 16,
+  },
   statsGrid: {
     gap: 12,
   },
@@ -779,6 +884,10 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#1f2937',
   },
+  timelineContainer: {
+    marginHorizontal: 0,
+    marginTop: 12,
+  },
   distributionContainer: {
     gap: 0,
   },
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -7,14 +7,18 @@ import {
   StyleSheet,
   SafeAreaView,
   Alert,
-  ScrollView,
+  FlatList,
+  ActivityIndicator,
   RefreshControl,
   Keyboard,
   TouchableWithoutFeedback,
   Platform,
 } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { Search, X, Plus, BookOpen, Filter } from 'lucide-react-native';
-import { Technique, TechniqueCategory } from '@/types/technique';
+import { Technique, TechniqueCategory, TechniqueFilters } from '@/types/technique';
+import { TRASH_RETENTION_DAYS } from '@/types/trash';
+import { PageCursor } from '@/types/pagination';
 import TechniqueFilterModal from '@/components/TechniqueFilterModal';
 import TechniqueItem from '@/components/TechniqueItem';
 import TechniqueModal from '@/components/TechniqueModal';
@@ -26,33 +30,42 @@ import CrossPlatformTouchable from '@/components/CrossPlatformTouchable';
 import { useToast } from '@/contexts/ToastContext';
 import { useData } from '@/contexts/DataContext';
 import { CATEGORY_COLORS } from '@/constants/colors';
+import { getTechniquesPage } from '@/services/api';
+import { usePagedList } from '@/hooks/usePagedList';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
 
 export default function TechniquesPage() {
   const { showSuccess, showError } = useToast();
   const { 
-    techniques, 
-    isInitialLoading,
+    dataVersion,
     isLoading, 
     updateTechnique, 
     removeTechnique, 
-    refreshTechniques,
+    restoreTechnique,
     error,
     clearError
   } = useData();
-  const [hasLoadedOnce, setHasLoadedOnce] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [filteredTechniques, setFilteredTechniques] = useState<Technique[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
-  const [filters, setFilters] = useState({
-    category: null as TechniqueCategory | null,
-    tags: [] as string[]
-  });
+  const [filters, setFilters] = useState<TechniqueFilters>({ category: null, tags: [] });
   const [editingTechnique, setEditingTechnique] = useState<Technique | null>(null);
   const [showTechniqueModal, setShowTechniqueModal] = useState(false);
   const [techniqueModalMode, setTechniqueModalMode] = useState<'add' | 'edit'>('add');
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [selectedTechnique, setSelectedTechnique] = useState<Technique | null>(null);
   const [showFilterModal, setShowFilterModal] = useState(false);
+  const router = useRouter();
+  const { tag: tagParam } = useLocalSearchParams<{ tag?: string }>();
+
+  // Opened from global search with a tag: show just that tag, then drop the param so
+  // the user can change the filters freely
+  useEffect(() => {
+    if (tagParam) {
+      setSearchQuery('');
+      setFilters({ category: null, tags: [tagParam] });
+      router.setParams({ tag: undefined });
+    }
+  }, [tagParam, router]);
 
   // Handle errors from data context
   useEffect(() => {
@@ -62,66 +75,32 @@ export default function TechniquesPage() {
     }
   }, [error, showError, clearError]);
 
-  // Track when we've loaded data at least once
-  useEffect(() => {
-    if (techniques.length > 0 || (!isInitialLoading && techniques.length === 0)) {
-      setHasLoadedOnce(true);
-    }
-  }, [techniques.length, isInitialLoading]);
-
-  const filterTechniques = React.useCallback(() => {
-    let filtered = [...techniques];
-
-    // Filter by search query
-    if (searchQuery.trim()) {
-      filtered = filtered.filter(technique =>
-        technique.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        technique.tags.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase()))
-      );
-    }
-
-    // Filter by category
-    if (filters.category) {
-      filtered = filtered.filter(technique => technique.category === filters.category);
-    }
-
-    // Filter by tags (all selected tags must be present)
-    if (filters.tags.length > 0) {
-      filtered = filtered.filter(technique =>
-        filters.tags.every(selectedTag =>
-          technique.tags.some(tag => tag.toLowerCase() === selectedTag.toLowerCase())
-        )
-      );
-    }
-
-    // Sort with priority: name matches first, then tag matches, then by date
-    filtered.sort((a, b) => {
-      const searchLower = searchQuery.toLowerCase().trim();
-      
-      // If there's a search query, prioritize name matches
-      if (searchLower) {
-        const aNameMatch = a.name.toLowerCase().includes(searchLower);
-        const bNameMatch = b.name.toLowerCase().includes(searchLower);
-        
-        // If one has name match and other doesn't, prioritize name match
-        if (aNameMatch && !bNameMatch) return -1;
-        if (!aNameMatch && bNameMatch) return 1;
-      }
-      
-      // Otherwise, sort by most recent first
-      return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
-    });
-
-    setFilteredTechniques(filtered);
-  }, [techniques, searchQuery, filters]);
+  // Search and filters run in the database, name matches ranked ahead of tag matches;
+  // the list pages through the results. Any change to the data reloads the pages
+  // already shown.
+  const debouncedSearch = useDebouncedValue(searchQuery);
+  const fetchTechniquesPage = useCallback(
+    (cursor: PageCursor | null, limit: number) =>
+      getTechniquesPage({ search: debouncedSearch, filters, cursor, limit }),
+    [debouncedSearch, filters]
+  );
+  const {
+    items: pagedTechniques,
+    totalCount,
+    isLoading: isLoadingPage,
+    isLoadingMore,
+    error: pageError,
+    loadMore,
+    reload,
+  } = usePagedList(fetchTechniquesPage, dataVersion);
 
   useEffect(() => {
-    filterTechniques();
-  }, [filterTechniques]);
-
-
+    if (pageError) {
+      showError('Failed to load techniques. Pull down to try again.');
+    }
+  }, [pageError, showError]);
 
-  const handleApplyFilters = React.useCallback((newFilters: { category: TechniqueCategory | null; tags: string[] }) => {
+  const handleApplyFilters = React.useCallback((newFilters: TechniqueFilters) => {
     setFilters(newFilters);
   }, []);
 
@@ -160,22 +139,30 @@ export default function TechniquesPage() {
       } catch {
         showError('Failed to update technique. Please try again.');
       }
-    } else if (techniqueModalMode === 'add') {
-      // Add mode - just refresh the techniques list
-      await refreshTechniques();
+    }
+    // Added techniques were saved by the modal, which reloads the list
+  };
+
+  const handleRestoreRevision = async (restoredTechnique: Technique) => {
+    try {
+      await updateTechnique(restoredTechnique);
+      setSelectedTechnique(restoredTechnique);
+      showSuccess(`Restored an earlier version of "${restoredTechnique.name}"`);
+    } catch {
+      showError('Failed to restore this version. Please try again.');
     }
   };
 
   const handleRefresh = async () => {
     setIsRefreshing(true);
-    await refreshTechniques();
+    await reload();
     setIsRefreshing(false);
   };
 
   const handleDeleteTechnique = (technique: Technique) => {
     Alert.alert(
       'Delete Technique',
-      `Are you sure you want to delete "${technique.name}"?`,
+      `Move "${technique.name}" to the trash? You can restore it from Settings for ${TRASH_RETENTION_DAYS} days.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -184,7 +171,16 @@ export default function TechniquesPage() {
           onPress: async () => {
             try {
               await removeTechnique(technique.id);
-              showSuccess(`"${technique.name}" deleted successfully!`);
+              showSuccess(`"${technique.name}" deleted`, {
+                action: {
+                  label: 'Undo',
+                  onPress: () => {
+                    restoreTechnique(technique).catch(() => {
+                      showError('Failed to restore technique. Please try again.');
+                    });
+                  },
+                },
+              });
             } catch {
               showError('Failed to delete technique. Please try again.');
             }
@@ -202,6 +198,8 @@ export default function TechniquesPage() {
 
 
   const hasActiveFiltersForClear = searchQuery.trim() || filters.category || filters.tags.length > 0;
+  // An empty list with nothing filtered out means there are no techniques at all
+  const hasNoTechniques = !hasActiveFiltersForClear;
 
   const renderTechniqueItem = ({ item }: { item: Technique }) => (
     <View style={styles.techniqueItemContainer}>
@@ -307,48 +305,56 @@ export default function TechniquesPage() {
       {/* Techniques List */}
       <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
         <View style={styles.content}>
-          <ScrollView 
+          <FlatList
             style={styles.content}
+            data={pagedTechniques}
+            keyExtractor={item => item.id}
+            renderItem={renderTechniqueItem}
+            contentContainerStyle={styles.techniquesList}
+            onEndReached={loadMore}
+            onEndReachedThreshold={0.5}
             refreshControl={
               <RefreshControl refreshing={isRefreshing || isLoading} onRefresh={handleRefresh} />
             }
             keyboardShouldPersistTaps="handled"
-          >
-        {(isInitialLoading && !hasLoadedOnce) ? (
-          <View style={styles.loadingContainer}>
-            <Text style={styles.loadingText}>Loading techniques...</Text>
-          </View>
-        ) : (
-          <View style={styles.techniquesList}>
-            <View style={styles.techniquesHeader}>
-              <Text style={styles.techniquesTitle}>
-                {hasActiveFilters() 
-                  ? `Techniques (${filteredTechniques.length})`
-                  : `Techniques (${techniques.length})`
-                }
-              </Text>
-              <View style={styles.categoryDropdownContainer}>
-                <CategoryDropdown
-                  selectedCategory={filters.category}
-                  onCategorySelect={handleCategorySelect}
-                  onClearCategory={handleClearCategory}
-                  showAllOption={true}
-                />
+            ListHeaderComponent={isLoadingPage && pagedTechniques.length === 0 ? null : (
+              <View style={styles.techniquesHeader}>
+                <Text style={styles.techniquesTitle}>
+                  {`Techniques (${totalCount})`}
+                </Text>
+                <View style={styles.categoryDropdownContainer}>
+                  <CategoryDropdown
+                    selectedCategory={filters.category}
+                    onCategorySelect={handleCategorySelect}
+                    onClearCategory={handleClearCategory}
+                    showAllOption={true}
+                  />
+                </View>
               </View>
-            </View>
-            {filteredTechniques.length === 0 ? (
+            )}
+            ListEmptyComponent={isLoadingPage ? (
+              <View style={styles.loadingContainer}>
+                <Text style={styles.loadingText}>Loading techniques...</Text>
+              </View>
+            ) : pageError ? (
+              <View style={styles.emptyContainer}>
+                <BookOpen size={64} color="#9ca3af" />
+                <Text style={styles.emptyTitle}>Failed to Load Techniques</Text>
+                <Text style={styles.emptyDescription}>Pull down to try again</Text>
+              </View>
+            ) : (
               <View style={styles.emptyContainer}>
                 <BookOpen size={64} color="#9ca3af" />
                 <Text style={styles.emptyTitle}>
-                  {techniques.length === 0 ? 'No Techniques Yet' : 'No Matching Techniques'}
+                  {hasNoTechniques ? 'No Techniques Yet' : 'No Matching Techniques'}
                 </Text>
                 <Text style={styles.emptyDescription}>
-                  {techniques.length === 0 
+                  {hasNoTechniques
                     ? 'Start adding techniques to build your BJJ library'
                     : 'Try adjusting your search or filters'
                   }
                 </Text>
-                {techniques.length === 0 && (
+                {hasNoTechniques && (
                   <TouchableOpacity
                     style={styles.createTechniqueButton}
                     onPress={() => {
@@ -372,20 +378,15 @@ export default function TechniquesPage() {
                   </TouchableOpacity>
                 )}
               </View>
-            ) : (
+            )}
+            ListFooterComponent={pagedTechniques.length > 0 ? (
               <>
-                {filteredTechniques.map((item) => (
-                  <View key={item.id}>
-                    {renderTechniqueItem({ item })}
-                  </View>
-                ))}
+                {isLoadingMore && <ActivityIndicator style={styles.loadingMore} color="#5271ff" />}
                 {/* Empty space at bottom for better scrolling */}
                 <View style={styles.bottomSpacer} />
               </>
-            )}
-          </View>
-        )}
-          </ScrollView>
+            ) : null}
+          />
         </View>
       </TouchableWithoutFeedback>
 
@@ -411,6 +412,7 @@ export default function TechniquesPage() {
         }}
         onEdit={handleEditTechnique}
         onDelete={handleDeleteTechnique}
+        onRestoreRevision={handleRestoreRevision}
       />
 
       {/* Filter Modal */}
@@ -648,6 +650,9 @@ const styles = StyleSheet.create({
     paddingHorizontal: 24, // Increased from 20 to 24 to allow shadow space
     paddingVertical: 12,
   },
+  loadingMore: {
+    marginVertical: 16,
+  },
   techniquesHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
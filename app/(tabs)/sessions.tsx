@@ -1,11 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { 
   View, 
   Text, 
   StyleSheet, 
   SafeAreaView, 
-  ScrollView, 
+  FlatList, 
   TouchableOpacity,
+  ActivityIndicator,
   RefreshControl,
   Alert,
   TouchableWithoutFeedback,
@@ -13,8 +14,11 @@ import {
   TextInput,
   Platform,
 } from 'react-native';
-import { Calendar, Plus, MapPin, Clock, Filter, Search, X } from 'lucide-react-native';
-import { TrainingSession, SessionType } from '@/types/session';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Calendar, Plus, MapPin, Clock, Filter, Search, X, Download } from 'lucide-react-native';
+import { TrainingSession, SessionFilters, EMPTY_SESSION_FILTERS } from '@/types/session';
+import { TRASH_RETENTION_DAYS } from '@/types/trash';
+import { PageCursor } from '@/types/pagination';
 import SessionModal from '@/components/SessionModal';
 import SessionDetailModal from '@/components/SessionDetailModal';
 import SessionFilterModal from '@/components/SessionFilterModal';
@@ -23,33 +27,23 @@ import SwipeableCard from '@/components/SwipeableCard';
 import { useToast } from '@/contexts/ToastContext';
 import { useData } from '@/contexts/DataContext';
 import StarRating from '@/components/StarRating';
-
-interface SessionFilters {
-  dateRange: {
-    startDate: Date | null;
-    endDate: Date | null;
-  };
-  location: string;
-  sessionTypes: SessionType[];
-  submission: string;
-  satisfaction: number | null;
-}
+import { exportSessionsCsv } from '@/services/csvExport';
+import { getSessionsPage } from '@/services/api';
+import { usePagedList } from '@/hooks/usePagedList';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
 
 export default function Sessions() {
   const { showSuccess, showError } = useToast();
   const {
-    sessions,
-    isInitialLoading,
+    dataVersion,
     isLoading,
-    refreshSessions,
     createSession,
     updateSession,
     removeSession,
+    restoreSession,
     error,
     clearError
   } = useData();
-  const [hasLoadedOnce, setHasLoadedOnce] = useState(false);
-  const [filteredSessions, setFilteredSessions] = useState<TrainingSession[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showSessionModal, setShowSessionModal] = useState(false);
   const [sessionModalMode, setSessionModalMode] = useState<'create' | 'edit'>('create');
@@ -58,14 +52,25 @@ export default function Sessions() {
   const [selectedSession, setSelectedSession] = useState<TrainingSession | null>(null);
   const [showFilterModal, setShowFilterModal] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const [filters, setFilters] = useState<SessionFilters>({
-    dateRange: { startDate: null, endDate: null },
-    location: '',
-    sessionTypes: [],
-    submission: '',
-    satisfaction: null,
-  });
+  const [filters, setFilters] = useState<SessionFilters>(EMPTY_SESSION_FILTERS);
   const [lastLocation, setLastLocation] = useState('');
+  const router = useRouter();
+  const { location: locationParam, submission: submissionParam } =
+    useLocalSearchParams<{ location?: string; submission?: string }>();
+
+  // Opened from global search with a location or submission: show just those sessions,
+  // then drop the params so the user can change the filters freely
+  useEffect(() => {
+    if (locationParam || submissionParam) {
+      setSearchQuery('');
+      setFilters({
+        ...EMPTY_SESSION_FILTERS,
+        location: locationParam ?? '',
+        submission: submissionParam ?? '',
+      });
+      router.setParams({ location: undefined, submission: undefined });
+    }
+  }, [locationParam, submissionParam, router]);
 
   // Handle errors from data context
   useEffect(() => {
@@ -75,86 +80,46 @@ export default function Sessions() {
     }
   }, [error, showError, clearError]);
 
-  // Track when we've loaded data at least once
+  // New sessions start at the location of the latest one
   useEffect(() => {
-    if (sessions.length > 0 || (!isInitialLoading && sessions.length === 0)) {
-      setHasLoadedOnce(true);
-    }
-  }, [sessions.length, isInitialLoading]);
+    getSessionsPage({ limit: 1 })
+      .then(page => {
+        if (page.items[0]?.location) {
+          setLastLocation(page.items[0].location);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading last location:', error);
+      });
+  }, [dataVersion]);
+
+  // Search and filters run in the database; the list pages through the results.
+  // Any change to the data reloads the pages already shown.
+  const debouncedSearch = useDebouncedValue(searchQuery);
+  const fetchSessionsPage = useCallback(
+    (cursor: PageCursor | null, limit: number) =>
+      getSessionsPage({ search: debouncedSearch, filters, cursor, limit }),
+    [debouncedSearch, filters]
+  );
+  const {
+    items: pagedSessions,
+    totalCount,
+    isLoading: isLoadingPage,
+    isLoadingMore,
+    error: pageError,
+    loadMore,
+    reload,
+  } = usePagedList(fetchSessionsPage, dataVersion);
 
-  // Update last location when sessions change
   useEffect(() => {
-    if (sessions.length > 0 && sessions[0].location) {
-      setLastLocation(sessions[0].location);
-    }
-  }, [sessions]);
-
-  const applyFilters = React.useCallback((sessions: TrainingSession[], filters: SessionFilters, searchQuery: string) => {
-    let filtered = [...sessions];
-
-    // Filter by search query
-    if (searchQuery.trim()) {
-      filtered = filtered.filter(session =>
-        session.location?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        session.submissions.some(submission => 
-          submission.toLowerCase().includes(searchQuery.toLowerCase())
-        ) ||
-        session.notes?.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-    }
-
-    // Filter by date range
-    if (filters.dateRange.startDate) {
-      filtered = filtered.filter(session => session.date >= filters.dateRange.startDate!);
-    }
-    if (filters.dateRange.endDate) {
-      const endOfDay = new Date(filters.dateRange.endDate);
-      endOfDay.setHours(23, 59, 59, 999);
-      filtered = filtered.filter(session => session.date <= endOfDay);
-    }
-
-    // Filter by location
-    if (filters.location.trim()) {
-      filtered = filtered.filter(session => 
-        session.location?.toLowerCase() === filters.location.toLowerCase()
-      );
-    }
-
-    // Filter by session types
-    if (filters.sessionTypes.length > 0) {
-      filtered = filtered.filter(session => 
-        filters.sessionTypes.includes(session.type)
-      );
-    }
-
-    // Filter by submission
-    if (filters.submission.trim()) {
-      filtered = filtered.filter(session => 
-        session.submissions.some(submission => 
-          submission.toLowerCase().includes(filters.submission.toLowerCase())
-        )
-      );
-    }
-
-    // Filter by satisfaction
-    if (filters.satisfaction !== null) {
-      filtered = filtered.filter(session => 
-        session.satisfaction >= filters.satisfaction!
-      );
+    if (pageError) {
+      showError('Failed to load sessions. Pull down to try again.');
     }
-
-    return filtered;
-  }, []);
-
-  // Apply filters whenever sessions, filters, or search query change
-  useEffect(() => {
-    const filtered = applyFilters(sessions, filters, searchQuery);
-    setFilteredSessions(filtered);
-  }, [sessions, filters, searchQuery, applyFilters]);
+  }, [pageError, showError]);
 
   const handleRefresh = async () => {
     setIsRefreshing(true);
-    await refreshSessions();
+    await reload();
     setIsRefreshing(false);
   };
 
@@ -197,7 +162,7 @@ export default function Sessions() {
   const handleDeleteSession = (session: TrainingSession) => {
     Alert.alert(
       'Delete Session',
-      `Are you sure you want to delete this session from ${formatDate(session.date)}?`,
+      `Move this session from ${formatDate(session.date)} to the trash? You can restore it from Settings for ${TRASH_RETENTION_DAYS} days.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -206,7 +171,16 @@ export default function Sessions() {
           onPress: async () => {
             try {
               await removeSession(session.id);
-              showSuccess('Session deleted successfully!');
+              showSuccess('Session deleted', {
+                action: {
+                  label: 'Undo',
+                  onPress: () => {
+                    restoreSession(session).catch(() => {
+                      showError('Failed to restore session. Please try again.');
+                    });
+                  },
+                },
+              });
             } catch {
               showError('Failed to delete session. Please try again.');
             }
@@ -249,6 +223,82 @@ export default function Sessions() {
     return Object.values(session.submissionCounts || {}).reduce((total, count) => total + count, 0);
   };
 
+  const handleExportCsv = async () => {
+    try {
+      // Export exactly what the list shows, including search and filters and
+      // pages not scrolled to yet
+      const page = await getSessionsPage({ search: debouncedSearch, filters, limit: Math.max(totalCount, 1) });
+      await exportSessionsCsv(page.items);
+    } catch (error) {
+      showError('Failed to export sessions. Please try again.');
+      console.error('Error exporting sessions CSV:', error);
+    }
+  };
+
+  const renderSession = ({ item: session }: { item: TrainingSession }) => (
+    <View style={styles.sessionItemContainer}>
+      <SwipeableCard
+        onSwipeLeft={() => handleEditSession(session)}
+        onSwipeRight={() => handleDeleteSession(session)}
+      >
+        <TouchableOpacity 
+          style={styles.sessionCard}
+          onPress={() => handleShowSessionDetail(session)}
+          activeOpacity={1}
+        >
+        <View style={styles.sessionHeader}>
+          <View style={styles.sessionMainInfo}>
+            <Text style={styles.sessionDate}>{formatDate(session.date)}</Text>
+            <View style={styles.locationTimeContainer}>
+              {session.location && (
+                <View style={styles.locationContainer}>
+                  <MapPin size={14} color="#6b7280" />
+                  <Text style={styles.sessionLocation}>{session.location}</Text>
+                </View>
+              )}
+              <View style={styles.timeContainer}>
+                <Clock size={14} color="#6b7280" />
+                <Text style={styles.sessionTime}>
+                  {session.date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </Text>
+              </View>
+            </View>
+          </View>
+        </View>
+
+
+      <View style={styles.sessionTypeContainer}>
+        <View style={[
+          styles.sessionTypeBadge, 
+          { backgroundColor: getSessionTypeColor(session.type) }
+        ]}>
+          <Text style={styles.sessionTypeText}>
+            {getSessionTypeLabel(session.type)}
+          </Text>
+        </View>
+        <View style={styles.sessionStat}>
+          <Text style={styles.sessionStatNumber}>{getTotalSubmissionCount(session)}</Text>
+          <Text style={styles.sessionStatLabel}>Submissions</Text>
+        </View>
+      </View>
+
+      <View style={styles.sessionRating}>
+        <View style={styles.satisfactionContainer}>
+          <Text style={styles.ratingLabel}>Satisfaction:</Text>
+          <StarRating
+            mode="display"
+            rating={session.satisfaction}
+            size={16}
+            alignment="left"
+          />
+        </View>
+      </View>
+
+        </TouchableOpacity>
+      </SwipeableCard>
+    </View>
+  );
+
   const handleApplyFilters = (newFilters: SessionFilters) => {
     setFilters(newFilters);
   };
@@ -311,152 +361,92 @@ export default function Sessions() {
       
       <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
         <View style={styles.content}>
-          <ScrollView 
+          <FlatList
             style={styles.content}
+            data={pagedSessions}
+            keyExtractor={session => session.id}
+            renderItem={renderSession}
+            contentContainerStyle={pagedSessions.length > 0 ? styles.sessionsList : undefined}
+            onEndReached={loadMore}
+            onEndReachedThreshold={0.5}
             refreshControl={
               <RefreshControl refreshing={isRefreshing || isLoading} onRefresh={handleRefresh} />
             }
             keyboardShouldPersistTaps="handled"
-          >
-
-        {/* Sessions List */}
-        {(isInitialLoading && !hasLoadedOnce) ? (
-          <View style={styles.emptyState}>
-            <Calendar size={64} color="#9ca3af" />
-            <Text style={styles.emptyTitle}>Loading sessions...</Text>
-          </View>
-        ) : filteredSessions.length === 0 ? (
-          <View style={styles.emptyState}>
-            <Calendar size={64} color="#9ca3af" />
-            <Text style={styles.emptyTitle}>
-              {sessions.length === 0 ? 'No Sessions Yet' : 'No Matching Sessions'}
-            </Text>
-            <Text style={styles.emptyDescription}>
-              {sessions.length === 0 
-                ? 'Create your first training session to start tracking your BJJ progress'
-                : 'Try adjusting your filters to find sessions'
-              }
-            </Text>
-            {sessions.length === 0 ? (
-              <TouchableOpacity 
-                style={styles.createSessionButton}
-                onPress={() => {
-                  setSessionModalMode('create');
-                  setEditingSession(null);
-                  setShowSessionModal(true);
-                }}
-              >
-                <Plus size={20} color="#fff" />
-                <Text style={styles.createSessionText}>Create Session</Text>
-              </TouchableOpacity>
-            ) : hasActiveFilters() ? (
-              <TouchableOpacity 
-                style={styles.clearFiltersButtonLarge}
-                onPress={() => {
-                  setSearchQuery('');
-                  setFilters({
-                    dateRange: { startDate: null, endDate: null },
-                    location: '',
-                    sessionTypes: [],
-                    submission: '',
-                    satisfaction: null,
-                  });
-                }}
-              >
-                <Text style={styles.clearFiltersButtonText}>Clear Filters</Text>
-              </TouchableOpacity>
-            ) : (
-              <TouchableOpacity 
-                style={styles.createSessionButton}
-                onPress={() => {
-                  setSessionModalMode('create');
-                  setEditingSession(null);
-                  setShowSessionModal(true);
-                }}
-              >
-                <Plus size={20} color="#fff" />
-                <Text style={styles.createSessionText}>Create Session</Text>
-              </TouchableOpacity>
-            )}
-          </View>
-        ) : (
-          <View style={styles.sessionsList}>
-            <View style={styles.sessionsHeader}>
-              <Text style={styles.sessionsTitle}>
-                {hasActiveFilters() 
-                  ? `Filtered Sessions (${filteredSessions.length})`
-                  : `Sessions (${sessions.length})`
-                }
-              </Text>
-            </View>
-            {filteredSessions.map((session) => (
-              <View key={session.id} style={styles.sessionItemContainer}>
-                <SwipeableCard
-                  onSwipeLeft={() => handleEditSession(session)}
-                  onSwipeRight={() => handleDeleteSession(session)}
+            ListHeaderComponent={pagedSessions.length > 0 ? (
+              <View style={styles.sessionsHeader}>
+                <Text style={styles.sessionsTitle}>
+                  {hasActiveFilters() 
+                    ? `Filtered Sessions (${totalCount})`
+                    : `Sessions (${totalCount})`
+                  }
+                </Text>
+                <TouchableOpacity
+                  style={styles.exportButton}
+                  onPress={handleExportCsv}
+                  activeOpacity={0.7}
                 >
+                  <Download size={16} color="#5271ff" />
+                  <Text style={styles.exportButtonText}>CSV</Text>
+                </TouchableOpacity>
+              </View>
+            ) : null}
+            ListEmptyComponent={isLoadingPage ? (
+              <View style={styles.emptyState}>
+                <Calendar size={64} color="#9ca3af" />
+                <Text style={styles.emptyTitle}>Loading sessions...</Text>
+              </View>
+            ) : pageError ? (
+              <View style={styles.emptyState}>
+                <Calendar size={64} color="#9ca3af" />
+                <Text style={styles.emptyTitle}>Failed to Load Sessions</Text>
+                <Text style={styles.emptyDescription}>Pull down to try again</Text>
+              </View>
+            ) : (
+              <View style={styles.emptyState}>
+                <Calendar size={64} color="#9ca3af" />
+                <Text style={styles.emptyTitle}>
+                  {hasActiveFilters() ? 'No Matching Sessions' : 'No Sessions Yet'}
+                </Text>
+                <Text style={styles.emptyDescription}>
+                  {hasActiveFilters()
+                    ? 'Try adjusting your filters to find sessions'
+                    : 'Create your first training session to start tracking your BJJ progress'
+                  }
+                </Text>
+                {hasActiveFilters() ? (
                   <TouchableOpacity 
-                    style={styles.sessionCard}
-                    onPress={() => handleShowSessionDetail(session)}
-                    activeOpacity={1}
+                    style={styles.clearFiltersButtonLarge}
+                    onPress={() => {
+                      setSearchQuery('');
+                      setFilters(EMPTY_SESSION_FILTERS);
+                    }}
                   >
-                  <View style={styles.sessionHeader}>
-                    <View style={styles.sessionMainInfo}>
-                      <Text style={styles.sessionDate}>{formatDate(session.date)}</Text>
-                      <View style={styles.locationTimeContainer}>
-                        {session.location && (
-                          <View style={styles.locationContainer}>
-                            <MapPin size={14} color="#6b7280" />
-                            <Text style={styles.sessionLocation}>{session.location}</Text>
-                          </View>
-                        )}
-                        <View style={styles.timeContainer}>
-                          <Clock size={14} color="#6b7280" />
-                          <Text style={styles.sessionTime}>
-                            {session.date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                          </Text>
-                        </View>
-                      </View>
-                    </View>
-                  </View>
-
-
-                <View style={styles.sessionTypeContainer}>
-                  <View style={[
-                    styles.sessionTypeBadge, 
-                    { backgroundColor: getSessionTypeColor(session.type) }
-                  ]}>
-                    <Text style={styles.sessionTypeText}>
-                      {getSessionTypeLabel(session.type)}
-                    </Text>
-                  </View>
-                  <View style={styles.sessionStat}>
-                    <Text style={styles.sessionStatNumber}>{getTotalSubmissionCount(session)}</Text>
-                    <Text style={styles.sessionStatLabel}>Submissions</Text>
-                  </View>
-                </View>
-
-                <View style={styles.sessionRating}>
-                  <View style={styles.satisfactionContainer}>
-                    <Text style={styles.ratingLabel}>Satisfaction:</Text>
-                    <StarRating
-                      mode="display"
-                      rating={session.satisfaction}
-                      size={16}
-                      alignment="left"
-                    />
-                  </View>
-                </View>
-
+                    <Text style={styles.clearFiltersButtonText}>Clear Filters</Text>
+                  </TouchableOpacity>
+                ) : (
+                  <TouchableOpacity 
+                    style={styles.createSessionButton}
+                    onPress={() => {
+                      setSessionModalMode('create');
+                      setEditingSession(null);
+                      setShowSessionModal(true);
+                    }}
+                  >
+                    <Plus size={20} color="#fff" />
+                    <Text style={styles.createSessionText}>Create Session</Text>
                   </TouchableOpacity>
-                </SwipeableCard>
+                )}
               </View>
-            ))}
-            {/* Bottom spacing to ensure last item is visible */}
-            <View style={{ height: 100 }} />
-          </View>
-        )}
-          </ScrollView>
+            )}
+            ListFooterComponent={pagedSessions.length > 0 ? (
+              <>
+                {isLoadingMore && <ActivityIndicator style={styles.loadingMore} color="#5271ff" />}
+                {/* Bottom spacing to ensure last item is visible */}
+                <View style={{ height: 100 }} />
+              </>
+            ) : null}
+          />
         </View>
       </TouchableWithoutFeedback>
       
@@ -563,9 +553,12 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     paddingVertical: 12,
   },
+  loadingMore: {
+    marginVertical: 16,
+  },
   sessionsHeader: {
     flexDirection: 'row',
-    justifyContent: 'flex-start',
+    justifyContent: 'space-between',
     alignItems: 'center',
     marginBottom: 12,
   },
@@ -574,6 +567,20 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#374151',
   },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+    gap: 4,
+  },
+  exportButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#5271ff',
+  },
   filterButtonMain: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { 
   View, 
   Text, 
@@ -18,6 +18,16 @@ import {
   Shield, 
   Download, 
   Upload,
+  FileSpreadsheet,
+  Archive,
+  RotateCcw,
+  Timer,
+  Stethoscope,
+  ShieldAlert,
+  Lock,
+  CloudUpload,
+  RefreshCw,
+  GitMerge,
   HelpCircle, 
   Info, 
   ChevronRight,
@@ -28,12 +38,56 @@ import {
 } from 'lucide-react-native';
 import { useData } from '@/contexts/DataContext';
 import { useToast } from '@/contexts/ToastContext';
+import { useAppLock } from '@/contexts/AppLockContext';
+import { useCompatibility } from '@/contexts/CompatibilityContext';
 import ProfileModal from '@/components/ProfileModal';
 import PrivacyPolicyModal from '@/components/PrivacyPolicyModal';
 import ContactSupportModal from '@/components/ContactSupportModal';
 import TermsOfServiceModal from '@/components/TermsOfServiceModal';
-import { UserProfile } from '@/types/profile';
+import { UserProfile, Promotion } from '@/types/profile';
+import { HealthStatus } from '@/types/health';
 import { loadTestData } from '@/services/testData';
+import { runQueryBenchmark, BENCHMARK_SESSION_COUNT, LoaderTiming } from '@/services/queryBenchmark';
+import { apiClient, getTechniques, getSessions, getTechniquesPage, getSessionsPage } from '@/services/api';
+import { exportDataAsJson } from '@/services/dataExport';
+import { exportSessionsCsv, exportTechniquesCsv } from '@/services/csvExport';
+import {
+  parseImportDocument,
+  buildImportPreview,
+  applyImport,
+  canDecryptImportNotes,
+  decryptImportNotes,
+  ImportData,
+  ImportPreview,
+  ImportOptions,
+} from '@/services/dataImport';
+import { pickTextFile } from '@/utils/fileSharing';
+import ImportDataModal from '@/components/ImportDataModal';
+import BackupsModal from '@/components/BackupsModal';
+import ClearDataModal from '@/components/ClearDataModal';
+import TrashModal from '@/components/TrashModal';
+import DiagnosticsModal from '@/components/DiagnosticsModal';
+import OutboxModal from '@/components/OutboxModal';
+import QuarantineModal from '@/components/QuarantineModal';
+import SyncConflictsModal from '@/components/SyncConflictsModal';
+import AppLockModal from '@/components/AppLockModal';
+import PinEntryModal from '@/components/PinEntryModal';
+import {
+  BackupInfo,
+  isBackupSupported,
+  restoreBackup,
+  getRecoverableWipe,
+  getWipeGraceDeadline,
+  WIPE_GRACE_PERIOD_DAYS,
+} from '@/services/backup';
+import { syncNow } from '@/services/sync';
+import { formatDetailDate, formatTime } from '@/utils/dateFormatters';
+
+const HEALTH_STATUS_LABELS: Record<HealthStatus, string> = {
+  healthy: 'Healthy',
+  degraded: 'Degraded',
+  down: 'Unavailable',
+};
 
 interface SettingItem {
   id: string;
@@ -47,8 +101,21 @@ interface SettingItem {
 }
 
 export default function SettingsPage() {
-  const { profile, updateProfile, refreshData } = useData();
+  const {
+    profile,
+    promotions,
+    updateProfile,
+    removePromotion,
+    refreshData,
+    clearAllData,
+    outbox,
+    sync,
+    athletes,
+    activeAthlete,
+  } = useData();
   const { showSuccess, showError } = useToast();
+  const appLock = useAppLock();
+  const { compatibility } = useCompatibility();
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
   const [darkModeEnabled, setDarkModeEnabled] = useState(false);
   const [soundEnabled, setSoundEnabled] = useState(true);
@@ -58,53 +125,253 @@ export default function SettingsPage() {
   const [showPrivacyModal, setShowPrivacyModal] = useState(false);
   const [showContactModal, setShowContactModal] = useState(false);
   const [showTermsModal, setShowTermsModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showBackupsModal, setShowBackupsModal] = useState(false);
+  const [showClearModal, setShowClearModal] = useState(false);
+  const [clearCounts, setClearCounts] = useState({ techniques: 0, sessions: 0 });
+  const [showTrashModal, setShowTrashModal] = useState(false);
+  const [showDiagnosticsModal, setShowDiagnosticsModal] = useState(false);
+  const [showOutboxModal, setShowOutboxModal] = useState(false);
+  const [showQuarantineModal, setShowQuarantineModal] = useState(false);
+  const [showConflictsModal, setShowConflictsModal] = useState(false);
+  const [showAppLockModal, setShowAppLockModal] = useState(false);
+  const [recoverableWipe, setRecoverableWipe] = useState<BackupInfo | null>(null);
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    data: ImportData;
+    preview: ImportPreview;
+  } | null>(null);
+  // An import file whose notes were encrypted under a different PIN
+  const [lockedImport, setLockedImport] = useState<{ fileName: string; data: ImportData } | null>(null);
+
+  const loadRecoverableWipe = useCallback(async () => {
+    setRecoverableWipe(await getRecoverableWipe());
+  }, []);
+
+  useEffect(() => {
+    loadRecoverableWipe();
+  }, [loadRecoverableWipe]);
+
+  // Exports hold the active athlete's data only; they're named for them once there are several
+  const exportAthleteName = athletes.length > 1 ? activeAthlete?.name : undefined;
+
+  const runExport = async (encryptNotes: boolean) => {
+    try {
+      const counts = await exportDataAsJson({ encryptNotes, athleteName: exportAthleteName });
+      showSuccess(`Exported ${counts.techniques} techniques and ${counts.sessions} sessions`);
+    } catch (error) {
+      showError('Failed to export data. Please try again.');
+      console.error('Error exporting data:', error);
+    }
+  };
 
   const handleExportData = () => {
+    if (appLock.settings.encryptNotes) {
+      Alert.alert(
+        'Export Data',
+        'Your notes are encrypted. Keep them encrypted in the export? ' +
+          'Importing an encrypted file needs the PIN you have now.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Plain Text', onPress: () => runExport(false) },
+          { text: 'Encrypted', onPress: () => runExport(true) },
+        ]
+      );
+      return;
+    }
+
     Alert.alert(
       'Export Data',
-      'Export your techniques and sessions data to a JSON file?',
+      exportAthleteName
+        ? `Export ${exportAthleteName}'s techniques and sessions data to a JSON file?`
+        : 'Export your techniques and sessions data to a JSON file?',
       [
         { text: 'Cancel', style: 'cancel' },
-        { text: 'Export', onPress: () => console.log('Export data') }
+        { 
+          text: 'Export', 
+          onPress: () => runExport(false)
+        }
       ]
     );
   };
 
-  const handleImportData = () => {
-    Alert.alert(
-      'Import Data',
-      'This will replace your current data. Are you sure?',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        { text: 'Import', style: 'destructive', onPress: () => console.log('Import data') }
-      ]
-    );
+  const handleExportCsv = async (kind: 'sessions' | 'techniques') => {
+    try {
+      const sessions = await getSessions();
+      if (kind === 'sessions') {
+        await exportSessionsCsv(sessions);
+      } else {
+        await exportTechniquesCsv(await getTechniques(), sessions);
+      }
+    } catch (error) {
+      showError('Failed to export CSV. Please try again.');
+      console.error('Error exporting CSV:', error);
+    }
+  };
+
+  const handleImportData = async () => {
+    try {
+      const file = await pickTextFile(['application/json']);
+      if (!file) return;
+
+      const { data, errors } = parseImportDocument(file.contents);
+      if (!data) {
+        const shownErrors = errors.slice(0, 5).join('\n');
+        const moreErrors = errors.length > 5 ? `\n...and ${errors.length - 5} more` : '';
+        Alert.alert('Invalid Import File', `${shownErrors}${moreErrors}`);
+        return;
+      }
+
+      if (!canDecryptImportNotes(data)) {
+        setLockedImport({ fileName: file.fileName, data });
+        return;
+      }
+
+      const decrypted = await decryptImportNotes(data);
+      if (decrypted) {
+        await showImportPreview(file.fileName, decrypted);
+      }
+    } catch (error) {
+      showError('Failed to read import file. Please try again.');
+      console.error('Error reading import file:', error);
+    }
+  };
+
+  const showImportPreview = async (fileName: string, data: ImportData) => {
+    const preview = await buildImportPreview(data);
+    setPendingImport({ fileName, data, preview });
+    setShowImportModal(true);
+  };
+
+  const handleUnlockImport = async (pin: string): Promise<string | null> => {
+    if (!lockedImport) return null;
+
+    try {
+      const decrypted = await decryptImportNotes(lockedImport.data, pin);
+      if (!decrypted) return 'Incorrect PIN';
+
+      const { fileName } = lockedImport;
+      setLockedImport(null);
+      await showImportPreview(fileName, decrypted);
+      return null;
+    } catch (error) {
+      setLockedImport(null);
+      showError(error instanceof Error ? error.message : 'Failed to read import file. Please try again.');
+      console.error('Error decrypting import file:', error);
+      return null;
+    }
+  };
+
+  const handleConfirmImport = async (options: ImportOptions) => {
+    if (!pendingImport) return;
+
+    try {
+      const result = await applyImport(pendingImport.data, options);
+      await refreshData();
+      setShowImportModal(false);
+      setPendingImport(null);
+      const kept = result.conflictsKept > 0 ? `. Kept ${result.conflictsKept} items on this device with no edit time to compare` : '';
+      showSuccess(`Imported ${result.techniquesWritten} techniques and ${result.sessionsWritten} sessions${kept}`);
+    } catch (error) {
+      showError('Import failed. No changes were made.');
+      console.error('Error importing data:', error);
+    }
+  };
+
+  // The modal says how much will be deleted, so the counts are read before it opens
+  const handleClearData = async () => {
+    try {
+      const [techniquesPage, sessionsPage] = await Promise.all([
+        getTechniquesPage({ limit: 1 }),
+        getSessionsPage({ limit: 1 }),
+      ]);
+      setClearCounts({ techniques: techniquesPage.totalCount, sessions: sessionsPage.totalCount });
+      setShowClearModal(true);
+    } catch (error) {
+      showError('Failed to load your data. Please try again.');
+      console.error('Error counting data to clear:', error);
+    }
+  };
+
+  const handleConfirmClear = async () => {
+    try {
+      const snapshot = await clearAllData();
+      setRecoverableWipe(snapshot);
+      setShowClearModal(false);
+      showSuccess('All data cleared');
+    } catch (error) {
+      showError('Failed to clear data. Please try again.');
+      console.error('Error clearing data:', error);
+    }
   };
 
-  const handleClearData = () => {
+  const handleSyncNow = async () => {
+    try {
+      const result = await syncNow();
+      if (result.conflicts > 0) {
+        showError(`${result.conflicts} ${result.conflicts === 1 ? 'item was' : 'items were'} changed on another device too. Review them under Sync Conflicts.`);
+      } else {
+        showSuccess('Everything is up to date');
+      }
+    } catch (error) {
+      console.error('Error syncing:', error);
+      showError('Could not reach the server. Changes will sync when you are back online.');
+    }
+  };
+
+  const handleUndoClear = () => {
+    if (!recoverableWipe) return;
+
     Alert.alert(
-      'Clear All Data',
-      'This will permanently delete all your techniques and sessions. This action cannot be undone.',
+      'Undo Clear Data',
+      'Restore the data that was cleared? Anything added since will be replaced.',
       [
         { text: 'Cancel', style: 'cancel' },
-        { 
-          text: 'Clear Data', 
-          style: 'destructive', 
-          onPress: () => console.log('Clear all data') 
+        {
+          text: 'Restore',
+          onPress: async () => {
+            try {
+              const restored = await restoreBackup(recoverableWipe.id);
+              if (!restored) {
+                showError('This data was saved under an earlier PIN. Restore it from Backups to enter that PIN.');
+                return;
+              }
+              await refreshData();
+              setRecoverableWipe(null);
+              showSuccess('Your data has been restored');
+            } catch (error) {
+              showError('Failed to restore data. Please try again.');
+              console.error('Error undoing clear data:', error);
+            }
+          }
         }
       ]
     );
   };
 
-  const handleProfileSave = async (newProfile: UserProfile) => {
+  const handleBackupRestored = async () => {
+    await refreshData();
+    await loadRecoverableWipe();
+  };
+
+  const handleProfileSave = async (newProfile: UserProfile, promotion?: Promotion) => {
     try {
-      await updateProfile(newProfile);
-      showSuccess('Profile updated successfully!');
+      await updateProfile(newProfile, promotion);
+      showSuccess(promotion && profile ? 'Promotion recorded. Congratulations!' : 'Profile updated successfully!');
     } catch {
       showError('Failed to update profile. Please try again.');
     }
   };
 
+  const handleDeletePromotion = async (promotionId: string) => {
+    try {
+      await removePromotion(promotionId);
+      showSuccess('Promotion removed');
+    } catch {
+      showError('Failed to remove promotion. Please try again.');
+    }
+  };
+
   const getProfileSubtitle = () => {
     if (profile) {
       const beltName = profile.beltRank.charAt(0).toUpperCase() + profile.beltRank.slice(1);
@@ -113,10 +380,25 @@ export default function SettingsPage() {
     return 'Set up your profile';
   };
 
-  const handleAbout = () => {
+  const handleAbout = async () => {
+    const info = apiClient.getInfo();
+    const health = await apiClient.healthCheck();
+    const status = HEALTH_STATUS_LABELS[health.status];
+
+    const details = health.database
+      ? `Database: ${status}\nSchema version ${health.database.schemaVersion}, ` +
+        `${health.database.rowCounts.techniques} techniques, ${health.database.rowCounts.sessions} sessions, ` +
+        `${(health.database.fileSizeBytes / (1024 * 1024)).toFixed(1)} MB`
+      : `${health.isLocal ? 'Database' : 'Server'}: ${status}` +
+        (health.latencyMs !== undefined ? ` (${health.latencyMs}ms)` : '');
+    const issues = health.issues.length > 0 ? `\n${health.issues.join('\n')}` : '';
+    const update = compatibility?.updateAvailable && compatibility.latestClientVersion
+      ? `\nVersion ${compatibility.latestClientVersion} is available`
+      : '';
+
     Alert.alert(
       'About FlowRoll',
-      'Version 1.0.0\n\nTrack your BJJ journey with techniques, sessions, and analytics.\n\n© 2025 FlowRoll. All rights reserved.',
+      `Version ${info.clientVersion} (API ${info.version})${update}\n\n${details}${issues}\n\nTrack your BJJ journey with techniques, sessions, and analytics.\n\n© 2025 FlowRoll. All rights reserved.`,
       [
         { text: 'OK' }
       ]
@@ -146,6 +428,37 @@ export default function SettingsPage() {
     );
   };
 
+  const handleRunBenchmark = () => {
+    Alert.alert(
+      'Benchmark Queries',
+      `This seeds a scratch database with ${BENCHMARK_SESSION_COUNT} sessions and times the data loaders. Your data is not touched. It may take a minute.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Run',
+          onPress: async () => {
+            try {
+              const result = await runQueryBenchmark();
+              const formatTiming = (label: string, timing: LoaderTiming) =>
+                `${label} (${timing.rows}): ${timing.legacyMs}ms → ${timing.currentMs}ms`;
+              Alert.alert(
+                'Benchmark Results',
+                [
+                  formatTiming('Sessions', result.sessions),
+                  formatTiming('Techniques', result.techniques),
+                  `Seeding took ${result.seedMs}ms`,
+                ].join('\n')
+              );
+            } catch (error) {
+              showError('Benchmark failed');
+              console.error('Error running benchmark:', error);
+            }
+          }
+        }
+      ]
+    );
+  };
+
   const settings: SettingItem[] = [
     // Account & Profile
     {
@@ -196,23 +509,106 @@ export default function SettingsPage() {
     //   onPress: () => console.log('Navigate to language settings')
     // },
 
-    // Data & Storage (Commented out until implementation)
-    // {
-    //   id: 'export',
-    //   title: 'Export Data',
-    //   subtitle: 'Download your data as JSON',
-    //   icon: <Download size={20} color="#059669" />,
-    //   type: 'action',
-    //   onPress: handleExportData
-    // },
-    // {
-    //   id: 'import',
-    //   title: 'Import Data',
-    //   subtitle: 'Restore from backup file',
-    //   icon: <Upload size={20} color="#0891b2" />,
-    //   type: 'action',
-    //   onPress: handleImportData
-    // },
+    // Data & Storage
+    {
+      id: 'export',
+      title: 'Export Data',
+      subtitle: 'Download your data as JSON',
+      icon: <Download size={20} color="#059669" />,
+      type: 'action',
+      onPress: handleExportData
+    },
+    {
+      id: 'export-sessions-csv',
+      title: 'Export Sessions (CSV)',
+      subtitle: 'One row per session for spreadsheets',
+      icon: <FileSpreadsheet size={20} color="#059669" />,
+      type: 'action',
+      onPress: () => handleExportCsv('sessions')
+    },
+    {
+      id: 'export-techniques-csv',
+      title: 'Export Techniques (CSV)',
+      subtitle: 'One row per technique for spreadsheets',
+      icon: <FileSpreadsheet size={20} color="#059669" />,
+      type: 'action',
+      onPress: () => handleExportCsv('techniques')
+    },
+    {
+      id: 'import',
+      title: 'Import Data',
+      subtitle: 'Restore from backup file',
+      icon: <Upload size={20} color="#0891b2" />,
+      type: 'action',
+      onPress: handleImportData
+    },
+    {
+      id: 'backups',
+      title: 'Backups',
+      subtitle: 'Daily snapshots kept on this device',
+      icon: <Archive size={20} color="#5271ff" />,
+      type: 'navigate',
+      onPress: () => setShowBackupsModal(true)
+    },
+    {
+      id: 'trash',
+      title: 'Trash',
+      subtitle: 'Restore recently deleted items',
+      icon: <Trash2 size={20} color="#6b7280" />,
+      type: 'navigate',
+      onPress: () => setShowTrashModal(true)
+    },
+    {
+      id: 'pending-changes',
+      title: 'Pending Changes',
+      subtitle: outbox.pending === 0 && outbox.failed === 0
+        ? 'All changes sent to the server'
+        : [
+            outbox.pending > 0 ? `${outbox.pending} waiting to send` : null,
+            outbox.failed > 0 ? `${outbox.failed} failed` : null,
+          ].filter(Boolean).join(', '),
+      icon: <CloudUpload size={20} color={outbox.failed > 0 ? '#ef4444' : '#0284c7'} />,
+      type: 'navigate',
+      onPress: () => setShowOutboxModal(true)
+    },
+    {
+      id: 'sync',
+      title: 'Sync Now',
+      subtitle: sync.isSyncing
+        ? 'Syncing...'
+        : sync.lastSyncedAt
+          ? `Last synced ${formatDetailDate(sync.lastSyncedAt)} at ${formatTime(sync.lastSyncedAt)}`
+          : 'Not synced with the server yet',
+      icon: <RefreshCw size={20} color="#0284c7" />,
+      type: 'action',
+      onPress: handleSyncNow
+    },
+    {
+      id: 'sync-conflicts',
+      title: 'Sync Conflicts',
+      subtitle: sync.conflicts === 0
+        ? 'Nothing to review'
+        : `${sync.conflicts} ${sync.conflicts === 1 ? 'item needs' : 'items need'} review`,
+      icon: <GitMerge size={20} color={sync.conflicts > 0 ? '#ef4444' : '#0284c7'} />,
+      type: 'navigate',
+      onPress: () => setShowConflictsModal(true)
+    },
+    {
+      id: 'diagnostics',
+      title: 'Check Data Integrity',
+      subtitle: 'Find and repair broken links in your data',
+      icon: <Stethoscope size={20} color="#059669" />,
+      type: 'navigate',
+      onPress: () => setShowDiagnosticsModal(true)
+    },
+    {
+      id: 'quarantine',
+      title: 'Invalid Records',
+      subtitle: 'Records hidden because they failed validation',
+      icon: <ShieldAlert size={20} color="#059669" />,
+      type: 'navigate',
+      onPress: () => setShowQuarantineModal(true)
+    },
     {
       id: 'storage',
       title: 'Data Storage',
@@ -223,6 +619,16 @@ export default function SettingsPage() {
     },
 
     // Privacy & Security
+    {
+      id: 'app-lock',
+      title: 'App Lock',
+      subtitle: appLock.settings.enabled
+        ? `On${appLock.settings.encryptNotes ? ', notes encrypted' : ''}`
+        : 'Protect the app with a PIN',
+      icon: <Lock size={20} color="#0891b2" />,
+      type: 'navigate',
+      onPress: () => setShowAppLockModal(true)
+    },
     {
       id: 'privacy',
       title: 'Privacy Policy',
@@ -259,10 +665,18 @@ export default function SettingsPage() {
     },
 
     // Danger Zone
+    ...recoverableWipe ? [{
+      id: 'undo-clear',
+      title: 'Undo Clear Data',
+      subtitle: `Available until ${formatDetailDate(getWipeGraceDeadline(recoverableWipe))}`,
+      icon: <RotateCcw size={20} color="#5271ff" />,
+      type: 'action' as const,
+      onPress: handleUndoClear
+    }] : [],
     {
       id: 'clear',
       title: 'Clear All Data',
-      subtitle: 'Permanently delete everything',
+      subtitle: 'Delete everything on this device',
       icon: <Trash2 size={20} color="#ef4444" />,
       type: 'action',
       onPress: handleClearData
@@ -275,6 +689,13 @@ export default function SettingsPage() {
       icon: <Database size={20} color="#5271ff" />,
       type: 'action' as const,
       onPress: handleLoadTestData
+    }, {
+      id: 'benchmark',
+      title: 'Benchmark Queries',
+      subtitle: `Time data loading on ${BENCHMARK_SESSION_COUNT} synthetic sessions`,
+      icon: <Timer size={20} color="#5271ff" />,
+      type: 'action' as const,
+      onPress: handleRunBenchmark
     }] : []
   ];
 
@@ -324,13 +745,20 @@ export default function SettingsPage() {
     //   title: 'App Preferences',
     //   items: settings.filter(s => ['darkmode', 'language'].includes(s.id))
     // },
-    // {
-    //   title: 'Data & Storage',
-    //   items: settings.filter(s => ['export', 'import', 'storage'].includes(s.id))
-    // },
+    {
+      title: 'Data & Storage',
+      items: settings.filter(s =>
+        ['export', 'export-sessions-csv', 'export-techniques-csv', 'import', 'trash', 'diagnostics'].includes(s.id) ||
+        (s.id === 'backups' && isBackupSupported()) ||
+        (['sync', 'sync-conflicts', 'pending-changes'].includes(s.id) && !apiClient.isLocal())
+      )
+    },
     {
       title: 'Privacy & Security',
-      items: settings.filter(s => ['privacy', 'terms'].includes(s.id))
+      items: settings.filter(s =>
+        ['privacy', 'terms'].includes(s.id) ||
+        (s.id === 'app-lock' && appLock.isSupported)
+      )
     },
     {
       title: 'Support',
@@ -338,7 +766,7 @@ export default function SettingsPage() {
     },
     {
       title: 'Danger Zone',
-      items: settings.filter(s => ['clear', 'loadtest'].includes(s.id))
+      items: settings.filter(s => ['undo-clear', 'clear', 'loadtest', 'benchmark'].includes(s.id))
     }
   ];
 
@@ -369,7 +797,9 @@ export default function SettingsPage() {
       <ProfileModal
         visible={showProfileModal}
         profile={profile}
+        promotions={promotions}
         onSave={handleProfileSave}
+        onDeletePromotion={handleDeletePromotion}
         onClose={() => setShowProfileModal(false)}
       />
       
@@ -387,6 +817,91 @@ export default function SettingsPage() {
         visible={showTermsModal}
         onClose={() => setShowTermsModal(false)}
       />
+
+      <ImportDataModal
+        visible={showImportModal}
+        fileName={pendingImport?.fileName ?? ''}
+        exportedAt={pendingImport?.data.exportedAt ?? null}
+        preview={pendingImport?.preview ?? null}
+        onConfirm={handleConfirmImport}
+        onClose={() => {
+          setShowImportModal(false);
+          setPendingImport(null);
+        }}
+      />
+
+      <PinEntryModal
+        visible={lockedImport !== null}
+        title="Encrypted Notes"
+        message="Notes in this file are encrypted. Enter the PIN that was set when it was exported."
+        submitLabel="Unlock"
+        onSubmit={handleUnlockImport}
+        onClose={() => setLockedImport(null)}
+      />
+
+      <BackupsModal
+        visible={showBackupsModal}
+        onClose={() => setShowBackupsModal(false)}
+        onRestored={handleBackupRestored}
+        onSuccess={showSuccess}
+        onError={showError}
+      />
+
+      <TrashModal
+        visible={showTrashModal}
+        onClose={() => setShowTrashModal(false)}
+        onRestored={refreshData}
+        onSuccess={showSuccess}
+        onError={showError}
+      />
+
+      <DiagnosticsModal
+        visible={showDiagnosticsModal}
+        onClose={() => setShowDiagnosticsModal(false)}
+        onRepaired={refreshData}
+        onSuccess={showSuccess}
+        onError={showError}
+      />
+
+      <QuarantineModal
+        visible={showQuarantineModal}
+        onClose={() => setShowQuarantineModal(false)}
+        onDiscarded={refreshData}
+        onSuccess={showSuccess}
+        onError={showError}
+      />
+
+      <AppLockModal
+        visible={showAppLockModal}
+        onClose={() => setShowAppLockModal(false)}
+        onSuccess={showSuccess}
+        onError={showError}
+      />
+
+      <OutboxModal
+        visible={showOutboxModal}
+        onClose={() => setShowOutboxModal(false)}
+        onDiscarded={refreshData}
+        onSuccess={showSuccess}
+        onError={showError}
+      />
+
+      <SyncConflictsModal
+        visible={showConflictsModal}
+        onClose={() => setShowConflictsModal(false)}
+        onResolved={refreshData}
+        onSuccess={showSuccess}
+        onError={showError}
+      />
+
+      <ClearDataModal
+        visible={showClearModal}
+        techniqueCount={clearCounts.techniques}
+        sessionCount={clearCounts.sessions}
+        undoDays={isBackupSupported() ? WIPE_GRACE_PERIOD_DAYS : null}
+        onConfirm={handleConfirmClear}
+        onClose={() => setShowClearModal(false)}
+      />
     </SafeAreaView>
   );
 }
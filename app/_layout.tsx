@@ -7,6 +7,8 @@ import KeyboardDismissButton from '@/components/KeyboardDismissButton';
 import { ToastProvider } from '@/contexts/ToastContext';
 import { DataProvider } from '@/contexts/DataContext';
 import { FilterModalProvider } from '@/contexts/FilterModalContext';
+import { AppLockProvider } from '@/contexts/AppLockContext';
+import { CompatibilityProvider } from '@/contexts/CompatibilityContext';
 
 export default function RootLayout() {
   useFrameworkReady();
@@ -14,20 +16,25 @@ export default function RootLayout() {
   return (
     <SafeAreaView style={{ flex: 1, backgroundColor: '#ffffff' }}>
       <GestureHandlerRootView style={{ flex: 1, backgroundColor: '#ffffff' }}>
-        <DataProvider>
-          <ToastProvider>
-            <FilterModalProvider>
-              <View style={{ flex: 1, backgroundColor: '#ffffff' }}>
-                <StatusBar style="dark" backgroundColor="#ffffff"  translucent={true} />
-                <Stack screenOptions={{ headerShown: false }}>
-                  <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-                  <Stack.Screen name="+not-found" />
-                </Stack>
-                <KeyboardDismissButton />
-              </View>
-            </FilterModalProvider>
-          </ToastProvider>
-        </DataProvider>
+        <CompatibilityProvider>
+          <AppLockProvider>
+            <DataProvider>
+              <ToastProvider>
+                <FilterModalProvider>
+                  <View style={{ flex: 1, backgroundColor: '#ffffff' }}>
+                    <StatusBar style="dark" backgroundColor="#ffffff"  translucent={true} />
+                    <Stack screenOptions={{ headerShown: false }}>
+                      <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                      <Stack.Screen name="search" options={{ headerShown: false, animation: 'fade' }} />
+                      <Stack.Screen name="+not-found" />
+                    </Stack>
+                    <KeyboardDismissButton />
+                  </View>
+                </FilterModalProvider>
+              </ToastProvider>
+            </DataProvider>
+          </AppLockProvider>
+        </CompatibilityProvider>
       </GestureHandlerRootView>
     </SafeAreaView>
   );
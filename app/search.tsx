@@ -0,0 +1,441 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  SectionList,
+  ActivityIndicator,
+  Keyboard,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { ArrowLeft, Search, X, BookOpen, Calendar, Tag, MapPin, Award, ChevronRight } from 'lucide-react-native';
+import { Technique } from '@/types/technique';
+import { TrainingSession } from '@/types/session';
+import {
+  SearchResult,
+  TechniqueSearchResult,
+  SessionSearchResult,
+  NameMatch,
+  NameSearchResults,
+  SnippetSegment,
+} from '@/types/search';
+import { search, searchNames, getTechniques, getSessions } from '@/services/api';
+import { useData } from '@/contexts/DataContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { useAllRecords } from '@/hooks/useAllRecords';
+import TechniqueDetailModal from '@/components/TechniqueDetailModal';
+import SessionDetailModal from '@/components/SessionDetailModal';
+import { getCategoryColor, getSessionTypeColor, getSessionTypeLabel } from '@/constants/colors';
+import { formatSessionCardDate } from '@/utils/dateFormatters';
+
+type NameKind = 'tag' | 'location' | 'submission';
+
+type SearchRow =
+  | { kind: 'technique'; result: TechniqueSearchResult }
+  | { kind: 'session'; result: SessionSearchResult }
+  | { kind: NameKind; match: NameMatch };
+
+interface SearchSection {
+  key: string;
+  title: string;
+  data: SearchRow[];
+}
+
+const EMPTY_NAME_RESULTS: NameSearchResults = { tags: [], locations: [], submissions: [] };
+
+const NAME_ICONS = {
+  tag: Tag,
+  location: MapPin,
+  submission: Award,
+};
+
+export default function SearchScreen() {
+  const router = useRouter();
+  const { dataVersion } = useData();
+  // Results carry only what the list shows; tapping one opens the full record
+  const { records: techniques } = useAllRecords(getTechniques, dataVersion);
+  const { records: sessions } = useAllRecords(getSessions, dataVersion);
+  const { showError } = useToast();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [nameResults, setNameResults] = useState<NameSearchResults>(EMPTY_NAME_RESULTS);
+  const [isSearching, setIsSearching] = useState(false);
+  const [selectedTechnique, setSelectedTechnique] = useState<Technique | null>(null);
+  const [selectedSession, setSelectedSession] = useState<TrainingSession | null>(null);
+  const debouncedQuery = useDebouncedValue(query);
+
+  // Results of a superseded query are dropped
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+
+    if (!debouncedQuery.trim()) {
+      setResults([]);
+      setNameResults(EMPTY_NAME_RESULTS);
+      setIsSearching(false);
+      return;
+    }
+
+    setIsSearching(true);
+    Promise.all([search(debouncedQuery), searchNames(debouncedQuery)])
+      .then(([entityResults, names]) => {
+        if (requestId !== requestIdRef.current) return;
+        setResults(entityResults);
+        setNameResults(names);
+      })
+      .catch(error => {
+        console.error('Error running search:', error);
+      })
+      .finally(() => {
+        if (requestId === requestIdRef.current) {
+          setIsSearching(false);
+        }
+      });
+  }, [debouncedQuery]);
+
+  const sections = useMemo(() => {
+    const techniqueRows: SearchRow[] = [];
+    const sessionRows: SearchRow[] = [];
+    results.forEach(result => {
+      if (result.type === 'technique') {
+        techniqueRows.push({ kind: 'technique', result });
+      } else {
+        sessionRows.push({ kind: 'session', result });
+      }
+    });
+
+    const allSections: SearchSection[] = [
+      { key: 'techniques', title: 'Techniques', data: techniqueRows },
+      { key: 'sessions', title: 'Sessions', data: sessionRows },
+      { key: 'tags', title: 'Tags', data: nameResults.tags.map(match => ({ kind: 'tag' as const, match })) },
+      { key: 'locations', title: 'Locations', data: nameResults.locations.map(match => ({ kind: 'location' as const, match })) },
+      { key: 'submissions', title: 'Submissions', data: nameResults.submissions.map(match => ({ kind: 'submission' as const, match })) },
+    ];
+
+    return allSections.filter(section => section.data.length > 0);
+  }, [results, nameResults]);
+
+  const handleOpenTechnique = (result: TechniqueSearchResult) => {
+    const technique = techniques.find(t => t.id === result.id);
+    if (!technique) {
+      showError('This technique is no longer available.');
+      return;
+    }
+    Keyboard.dismiss();
+    setSelectedTechnique(technique);
+  };
+
+  const handleOpenSession = (result: SessionSearchResult) => {
+    const session = sessions.find(s => s.id === result.id);
+    if (!session) {
+      showError('This session is no longer available.');
+      return;
+    }
+    Keyboard.dismiss();
+    setSelectedSession(session);
+  };
+
+  // Tags open the Techniques tab and locations and submissions the Sessions tab,
+  // with the list already filtered to the match
+  const handleOpenName = (kind: NameKind, name: string) => {
+    Keyboard.dismiss();
+    if (kind === 'tag') {
+      router.navigate({ pathname: '/', params: { tag: name } });
+    } else {
+      router.navigate({ pathname: '/sessions', params: { [kind]: name } });
+    }
+  };
+
+  const renderSnippet = (segments: SnippetSegment[]) => (
+    <Text style={styles.snippet} numberOfLines={2}>
+      {segments.map((segment, index) => (
+        <Text key={index} style={segment.highlighted ? styles.snippetHighlight : undefined}>
+          {segment.text}
+        </Text>
+      ))}
+    </Text>
+  );
+
+  const renderRow = ({ item }: { item: SearchRow }) => {
+    if (item.kind === 'technique') {
+      const { result } = item;
+      return (
+        <TouchableOpacity style={styles.resultCard} onPress={() => handleOpenTechnique(result)} activeOpacity={0.7}>
+          <View style={[styles.accent, { backgroundColor: getCategoryColor(result.category) }]} />
+          <View style={styles.resultInfo}>
+            <Text style={styles.resultTitle} numberOfLines={1}>{result.name}</Text>
+            {renderSnippet(result.snippet)}
+          </View>
+        </TouchableOpacity>
+      );
+    }
+
+    if (item.kind === 'session') {
+      const { result } = item;
+      return (
+        <TouchableOpacity style={styles.resultCard} onPress={() => handleOpenSession(result)} activeOpacity={0.7}>
+          <View style={[styles.accent, { backgroundColor: getSessionTypeColor(result.sessionType) }]} />
+          <View style={styles.resultInfo}>
+            <Text style={styles.resultTitle} numberOfLines={1}>
+              {formatSessionCardDate(result.date)} · {getSessionTypeLabel(result.sessionType)}
+              {result.location ? ` · ${result.location}` : ''}
+            </Text>
+            {renderSnippet(result.snippet)}
+          </View>
+        </TouchableOpacity>
+      );
+    }
+
+    const Icon = NAME_ICONS[item.kind];
+    const unit = item.kind === 'tag' ? 'technique' : 'session';
+    return (
+      <TouchableOpacity
+        style={styles.nameRow}
+        onPress={() => handleOpenName(item.kind, item.match.name)}
+        activeOpacity={0.7}
+      >
+        <Icon size={18} color="#5271ff" />
+        <Text style={styles.nameText} numberOfLines={1}>{item.match.name}</Text>
+        <Text style={styles.nameCount}>
+          {item.match.count} {unit}{item.match.count === 1 ? '' : 's'}
+        </Text>
+        <ChevronRight size={18} color="#9ca3af" />
+      </TouchableOpacity>
+    );
+  };
+
+  const hasQuery = debouncedQuery.trim().length > 0;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton} accessibilityLabel="Back">
+          <ArrowLeft size={24} color="#1f2937" />
+        </TouchableOpacity>
+        <View style={styles.searchContainer}>
+          <Search size={20} color="#9ca3af" />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search everything"
+            placeholderTextColor="#9ca3af"
+            value={query}
+            onChangeText={setQuery}
+            returnKeyType="search"
+            autoFocus
+            autoCorrect={false}
+          />
+          {query.length > 0 && (
+            <TouchableOpacity onPress={() => setQuery('')} style={styles.clearSearchButton}>
+              <X size={16} color="#9ca3af" />
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      <SectionList
+        sections={sections}
+        keyExtractor={(item, index) =>
+          item.kind === 'technique' || item.kind === 'session'
+            ? `${item.kind}-${item.result.id}`
+            : `${item.kind}-${item.match.name}-${index}`
+        }
+        renderItem={renderRow}
+        renderSectionHeader={({ section }) => (
+          <Text style={styles.sectionTitle}>
+            {section.title} ({section.data.length})
+          </Text>
+        )}
+        stickySectionHeadersEnabled={false}
+        keyboardShouldPersistTaps="handled"
+        contentContainerStyle={styles.resultsList}
+        ListEmptyComponent={
+          isSearching ? (
+            <ActivityIndicator style={styles.loading} color="#5271ff" />
+          ) : (
+            <View style={styles.emptyState}>
+              {hasQuery ? (
+                <>
+                  <Search size={48} color="#9ca3af" />
+                  <Text style={styles.emptyTitle}>No Results</Text>
+                  <Text style={styles.emptyDescription}>
+                    {`Nothing matches "${debouncedQuery.trim()}". Try fewer or different words.`}
+                  </Text>
+                </>
+              ) : (
+                <>
+                  <View style={styles.emptyIcons}>
+                    <BookOpen size={32} color="#9ca3af" />
+                    <Calendar size={32} color="#9ca3af" />
+                  </View>
+                  <Text style={styles.emptyDescription}>
+                    Search technique names, notes, tags and links, and session notes, locations and submissions.
+                  </Text>
+                </>
+              )}
+            </View>
+          )
+        }
+      />
+
+      <TechniqueDetailModal
+        visible={selectedTechnique !== null}
+        technique={selectedTechnique}
+        onClose={() => setSelectedTechnique(null)}
+      />
+
+      <SessionDetailModal
+        visible={selectedSession !== null}
+        session={selectedSession}
+        onClose={() => setSelectedSession(null)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    gap: 12,
+  },
+  backButton: {
+    padding: 4,
+  },
+  searchContainer: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f3f4f6',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    height: Platform.select({
+      ios: 34,
+      android: 44, // Taller height for Android
+    }),
+    gap: 10,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 18,
+    color: '#1f2937',
+    ...Platform.select({
+      ios: {
+        // iOS default styling
+      },
+      android: {
+        padding: 0,
+        textAlignVertical: 'center',
+        includeFontPadding: false,
+      },
+    }),
+  },
+  clearSearchButton: {
+    padding: 4,
+  },
+  resultsList: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  resultCard: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  accent: {
+    width: 4,
+    alignSelf: 'stretch',
+    borderRadius: 2,
+    marginRight: 12,
+  },
+  resultInfo: {
+    flex: 1,
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 4,
+  },
+  snippet: {
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+  },
+  snippetHighlight: {
+    color: '#1f2937',
+    fontWeight: '600',
+    backgroundColor: '#e0e7ff',
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    gap: 12,
+  },
+  nameText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1f2937',
+  },
+  nameCount: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    marginTop: 60,
+  },
+  emptyIcons: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 12,
+  },
+  emptyDescription: {
+    fontSize: 15,
+    color: '#6b7280',
+    textAlign: 'center',
+    lineHeight: 22,
+    marginTop: 8,
+  },
+});
@@ -1,13 +1,23 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Image, Platform, StatusBar } from 'react-native';
-import { User } from 'lucide-react-native';
+import { User, Search } from 'lucide-react-native';
+import { useData } from '@/contexts/DataContext';
+import AthleteSwitcherModal from './AthleteSwitcherModal';
 
 interface AppHeaderProps {
   title: string;
+  onSearchPress: () => void;
   onProfilePress: () => void;
 }
 
-export default function AppHeader({ title, onProfilePress }: AppHeaderProps) {
+// "Sam Smith" becomes "SS"
+const getInitials = (name: string): string =>
+  name.trim().split(/\s+/).slice(0, 2).map(word => word[0]).join('').toUpperCase();
+
+export default function AppHeader({ title, onSearchPress, onProfilePress }: AppHeaderProps) {
+  const { activeAthlete } = useData();
+  const [showAthleteSwitcher, setShowAthleteSwitcher] = useState(false);
+
   return (
     <View style={styles.header}>
       <Image 
@@ -15,13 +25,35 @@ export default function AppHeader({ title, onProfilePress }: AppHeaderProps) {
         style={styles.logo}
       />
       <Text style={styles.title}>{title}</Text>
-      <TouchableOpacity 
-        style={styles.profileButton}
-        onPress={onProfilePress}
-        activeOpacity={0.7}
-      >
-        <User size={20} color="#000000" />
-      </TouchableOpacity>
+      <View style={styles.actions}>
+        <TouchableOpacity 
+          style={styles.profileButton}
+          onPress={onSearchPress}
+          activeOpacity={0.7}
+          accessibilityLabel="Search"
+        >
+          <Search size={20} color="#000000" />
+        </TouchableOpacity>
+        <TouchableOpacity 
+          style={[styles.profileButton, styles.athleteButton]}
+          onPress={() => setShowAthleteSwitcher(true)}
+          activeOpacity={0.7}
+          accessibilityLabel="Switch profile"
+        >
+          <Text style={styles.athleteInitials}>{getInitials(activeAthlete?.name ?? '')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity 
+          style={styles.profileButton}
+          onPress={onProfilePress}
+          activeOpacity={0.7}
+        >
+          <User size={20} color="#000000" />
+        </TouchableOpacity>
+      </View>
+      <AthleteSwitcherModal
+        visible={showAthleteSwitcher}
+        onClose={() => setShowAthleteSwitcher(false)}
+      />
     </View>
   );
 }
@@ -68,6 +100,11 @@ const styles = StyleSheet.create({
     flex: 1,
     textAlign: 'center',
   },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   profileButton: {
     width: 32,
     height: 32,
@@ -76,4 +113,12 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  athleteButton: {
+    backgroundColor: '#5271ff',
+  },
+  athleteInitials: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
 });
\ No newline at end of file
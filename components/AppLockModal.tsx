@@ -0,0 +1,473 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  Switch,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { X, LockKeyhole, Check } from 'lucide-react-native';
+import { LOCK_TIMEOUT_OPTIONS, PIN_MAX_LENGTH, PinCheckResult } from '@/types/appLock';
+import {
+  enableAppLock,
+  changePin,
+  disableAppLock,
+  setLockTimeout,
+  setNotesEncryption,
+  describePinFailure,
+} from '@/services/appLock';
+import { useAppLock } from '@/contexts/AppLockContext';
+import { validatePin } from '@/utils/inputValidation';
+
+interface AppLockModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+type Mode = 'overview' | 'set-pin' | 'change-pin' | 'turn-off';
+
+const FORM_TITLES: Record<Exclude<Mode, 'overview'>, string> = {
+  'set-pin': 'Set PIN',
+  'change-pin': 'Change PIN',
+  'turn-off': 'Turn Off App Lock',
+};
+
+export default function AppLockModal({ visible, onClose, onSuccess, onError }: AppLockModalProps) {
+  const { settings, refreshSettings } = useAppLock();
+  const [mode, setMode] = useState<Mode>('overview');
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const resetForm = (nextMode: Mode) => {
+    setMode(nextMode);
+    setCurrentPin('');
+    setNewPin('');
+    setConfirmPin('');
+    setFormError(null);
+  };
+
+  useEffect(() => {
+    if (visible) {
+      resetForm('overview');
+      setIsSaving(false);
+    }
+  }, [visible]);
+
+  const needsCurrentPin = mode === 'change-pin' || mode === 'turn-off';
+  const needsNewPin = mode === 'set-pin' || mode === 'change-pin';
+
+  // Runs a PIN-checked change, keeping the form open with the reason if the PIN was wrong
+  const runPinCheckedChange = async (change: () => Promise<PinCheckResult>, successMessage: string) => {
+    const result = await change();
+    if (result.status !== 'unlocked') {
+      setFormError(describePinFailure(result));
+      setCurrentPin('');
+      return;
+    }
+
+    await refreshSettings();
+    resetForm('overview');
+    onSuccess(successMessage);
+  };
+
+  const handleSubmitForm = async () => {
+    if (needsNewPin) {
+      const validation = validatePin(newPin, confirmPin);
+      if (!validation.isValid) {
+        setFormError(validation.error!);
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      if (mode === 'set-pin') {
+        await enableAppLock(newPin);
+        await refreshSettings();
+        resetForm('overview');
+        onSuccess('App lock turned on');
+      } else if (mode === 'change-pin') {
+        await runPinCheckedChange(() => changePin(currentPin, newPin), 'PIN changed');
+      } else if (mode === 'turn-off') {
+        await runPinCheckedChange(() => disableAppLock(currentPin), 'App lock turned off');
+      }
+    } catch (error) {
+      console.error('Error updating app lock:', error);
+      onError(error instanceof Error ? `${error.message}. Please try again.` : 'Something went wrong. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSelectTimeout = async (timeoutMs: number) => {
+    if (timeoutMs === settings.timeoutMs) return;
+
+    try {
+      await setLockTimeout(timeoutMs);
+      await refreshSettings();
+    } catch (error) {
+      console.error('Error saving lock timeout:', error);
+      onError('Failed to save lock timeout. Please try again.');
+    }
+  };
+
+  const applyNotesEncryption = async (enabled: boolean) => {
+    setIsSaving(true);
+    try {
+      await setNotesEncryption(enabled);
+      await refreshSettings();
+      onSuccess(enabled ? 'Notes are now encrypted' : 'Notes are no longer encrypted');
+    } catch (error) {
+      console.error('Error changing notes encryption:', error);
+      onError(`Failed to ${enabled ? 'encrypt' : 'decrypt'} notes. No changes were made.`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleEncryption = (enabled: boolean) => {
+    Alert.alert(
+      enabled ? 'Encrypt Notes' : 'Stop Encrypting Notes',
+      enabled
+        ? 'Notes on techniques, sessions and promotions will be encrypted with a key protected by your PIN. ' +
+          'Encrypted notes don\'t show up in search, and can\'t be recovered if you forget your PIN.'
+        : 'Notes will be stored as plain text again and show up in search.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: enabled ? 'Encrypt' : 'Decrypt', onPress: () => applyNotesEncryption(enabled) },
+      ]
+    );
+  };
+
+  const renderPinInput = (label: string, value: string, onChange: (pin: string) => void, autoFocus = false) => (
+    <View style={styles.inputGroup}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        value={value}
+        onChangeText={text => {
+          onChange(text.replace(/\D/g, ''));
+          setFormError(null);
+        }}
+        placeholder="••••"
+        placeholderTextColor="#9ca3af"
+        keyboardType="number-pad"
+        secureTextEntry
+        maxLength={PIN_MAX_LENGTH}
+        autoFocus={autoFocus}
+        editable={!isSaving}
+      />
+    </View>
+  );
+
+  const renderOverview = () => (
+    <>
+      <View style={styles.statusCard}>
+        <LockKeyhole size={24} color={settings.enabled ? '#10b981' : '#9ca3af'} />
+        <Text style={styles.statusText}>
+          {settings.enabled
+            ? 'App lock is on. FlowRoll asks for your PIN when it opens and after it has been in the background.'
+            : 'Protect your training journal with a PIN. FlowRoll will ask for it when it opens and after it has been in the background.'}
+        </Text>
+      </View>
+
+      {settings.enabled && (
+        <>
+          <Text style={styles.sectionTitle}>Lock</Text>
+          <View style={styles.optionList}>
+            {LOCK_TIMEOUT_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={styles.optionRow}
+                onPress={() => handleSelectTimeout(option.value)}
+                disabled={isSaving}
+              >
+                <Text style={styles.optionText}>{option.label}</Text>
+                {option.value === settings.timeoutMs && <Check size={20} color="#5271ff" />}
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.sectionTitle}>Notes</Text>
+          <View style={styles.optionList}>
+            <View style={styles.optionRow}>
+              <View style={styles.optionInfo}>
+                <Text style={styles.optionText}>Encrypt Notes</Text>
+                <Text style={styles.optionSubtext}>Encrypted notes aren&apos;t searchable</Text>
+              </View>
+              {isSaving ? (
+                <ActivityIndicator color="#5271ff" />
+              ) : (
+                <Switch
+                  value={settings.encryptNotes}
+                  onValueChange={handleToggleEncryption}
+                  trackColor={{ false: '#e5e7eb', true: '#5271ff' }}
+                  thumbColor={settings.encryptNotes ? '#fff' : '#f4f3f4'}
+                />
+              )}
+            </View>
+          </View>
+        </>
+      )}
+    </>
+  );
+
+  const renderForm = () => (
+    <>
+      {needsCurrentPin && renderPinInput('Current PIN', currentPin, setCurrentPin, true)}
+      {needsNewPin && renderPinInput('New PIN', newPin, setNewPin, mode === 'set-pin')}
+      {needsNewPin && renderPinInput('Confirm New PIN', confirmPin, setConfirmPin)}
+      {mode === 'turn-off' && settings.encryptNotes && (
+        <Text style={styles.hint}>Your notes will be decrypted and stored as plain text.</Text>
+      )}
+      {needsNewPin && <Text style={styles.hint}>Use 4 to 6 digits.</Text>}
+      {formError && <Text style={styles.errorText}>{formError}</Text>}
+    </>
+  );
+
+  const renderFooter = () => {
+    if (mode !== 'overview') {
+      return (
+        <>
+          <TouchableOpacity
+            style={[styles.primaryButton, mode === 'turn-off' && styles.dangerButton, isSaving && styles.buttonDisabled]}
+            onPress={handleSubmitForm}
+            disabled={isSaving}
+          >
+            {isSaving ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.primaryButtonText}>{FORM_TITLES[mode]}</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => resetForm('overview')} disabled={isSaving}>
+            <Text style={styles.secondaryButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        </>
+      );
+    }
+
+    if (!settings.enabled) {
+      return (
+        <TouchableOpacity style={styles.primaryButton} onPress={() => resetForm('set-pin')}>
+          <Text style={styles.primaryButtonText}>Set PIN</Text>
+        </TouchableOpacity>
+      );
+    }
+
+    return (
+      <>
+        <TouchableOpacity
+          style={[styles.primaryButton, isSaving && styles.buttonDisabled]}
+          onPress={() => resetForm('change-pin')}
+          disabled={isSaving}
+        >
+          <Text style={styles.primaryButtonText}>Change PIN</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => resetForm('turn-off')} disabled={isSaving}>
+          <Text style={styles.dangerText}>Turn Off App Lock</Text>
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <KeyboardAvoidingView
+          style={styles.container}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <View style={styles.header}>
+            <View style={styles.headerLeft}>
+              <Text style={styles.headerTitle}>{mode === 'overview' ? 'App Lock' : FORM_TITLES[mode]}</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton} disabled={isSaving}>
+              <X size={24} color="#6b7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+            {mode === 'overview' ? renderOverview() : renderForm()}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            {renderFooter()}
+          </View>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  headerLeft: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  statusCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  statusText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+    lineHeight: 20,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 8,
+  },
+  optionList: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginBottom: 24,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  optionInfo: {
+    flex: 1,
+  },
+  optionText: {
+    fontSize: 16,
+    color: '#1f2937',
+  },
+  optionSubtext: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 20,
+    letterSpacing: 8,
+    backgroundColor: '#fff',
+    color: '#1f2937',
+  },
+  hint: {
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ef4444',
+    marginTop: 4,
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+    backgroundColor: '#fff',
+    gap: 8,
+  },
+  primaryButton: {
+    backgroundColor: '#5271ff',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  dangerButton: {
+    backgroundColor: '#ef4444',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#6b7280',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  dangerText: {
+    color: '#ef4444',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,294 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { X, Check, Trash2 } from 'lucide-react-native';
+import { Athlete, DEFAULT_ATHLETE_ID } from '@/types/athlete';
+import { useData } from '@/contexts/DataContext';
+import { useToast } from '@/contexts/ToastContext';
+import { INPUT_LIMITS, validateProfileName, sanitizeInput } from '@/utils/inputValidation';
+
+interface AthleteSwitcherModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export default function AthleteSwitcherModal({ visible, onClose }: AthleteSwitcherModalProps) {
+  const { athletes, activeAthlete, switchAthlete, addAthlete, removeAthlete } = useData();
+  const { showSuccess, showError } = useToast();
+  const [newName, setNewName] = useState('');
+  const [busyAthleteId, setBusyAthleteId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  // The app reloads for the new profile, which closes this modal along with everything else
+  const handleSwitch = async (athlete: Athlete) => {
+    if (athlete.id === activeAthlete?.id) {
+      onClose();
+      return;
+    }
+
+    setBusyAthleteId(athlete.id);
+    try {
+      await switchAthlete(athlete.id);
+    } catch (error) {
+      console.error('Error switching profile:', error);
+      showError('Failed to switch profile. Please try again.');
+      setBusyAthleteId(null);
+    }
+  };
+
+  const handleAdd = async () => {
+    const validation = validateProfileName(newName);
+    if (!validation.isValid) {
+      showError(validation.error || 'Invalid name');
+      return;
+    }
+
+    setIsAdding(true);
+    try {
+      await addAthlete(sanitizeInput(newName));
+    } catch (error) {
+      console.error('Error adding profile:', error);
+      showError('Failed to add profile. Please try again.');
+      setIsAdding(false);
+    }
+  };
+
+  const handleDelete = (athlete: Athlete) => {
+    Alert.alert(
+      'Delete Profile',
+      `Delete ${athlete.name} and all of their techniques, sessions and backups? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setBusyAthleteId(athlete.id);
+            try {
+              await removeAthlete(athlete.id);
+              showSuccess(`${athlete.name} deleted`);
+            } catch (error) {
+              console.error('Error deleting profile:', error);
+              showError('Failed to delete profile. Please try again.');
+            } finally {
+              setBusyAthleteId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderAthlete = (athlete: Athlete) => {
+    const isActive = athlete.id === activeAthlete?.id;
+    // The default profile holds the data from before there were profiles, so it always stays
+    const canDelete = !isActive && athlete.id !== DEFAULT_ATHLETE_ID;
+
+    return (
+      <TouchableOpacity
+        key={athlete.id}
+        style={[styles.itemCard, isActive && styles.itemCardActive]}
+        onPress={() => handleSwitch(athlete)}
+        disabled={busyAthleteId !== null || isAdding}
+        activeOpacity={0.7}
+      >
+        <View style={styles.itemInfo}>
+          <Text style={styles.itemTitle} numberOfLines={1}>{athlete.name}</Text>
+          {isActive && <Text style={styles.itemMeta}>In use</Text>}
+        </View>
+        <View style={styles.itemActions}>
+          {busyAthleteId === athlete.id ? (
+            <ActivityIndicator color="#5271ff" />
+          ) : isActive ? (
+            <Check size={20} color="#5271ff" />
+          ) : canDelete ? (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => handleDelete(athlete)}
+              disabled={busyAthleteId !== null || isAdding}
+              activeOpacity={0.7}
+              accessibilityLabel={`Delete ${athlete.name}`}
+            >
+              <Trash2 size={18} color="#ef4444" />
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const canAdd = newName.trim().length > 0 && !isAdding && busyAthleteId === null;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerLeft}>
+            <Text style={styles.headerTitle}>Profiles</Text>
+          </View>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <X size={24} color="#6b7280" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.description}>
+            Each profile keeps its own techniques, sessions, tags, locations and belt rank.
+            Exports and backups only hold the profile in use.
+          </Text>
+
+          {athletes.map(renderAthlete)}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TextInput
+            style={styles.input}
+            value={newName}
+            onChangeText={setNewName}
+            placeholder="New profile name"
+            placeholderTextColor="#9ca3af"
+            autoCapitalize="words"
+            returnKeyType="done"
+            maxLength={INPUT_LIMITS.PROFILE_NAME}
+            onSubmitEditing={() => canAdd && handleAdd()}
+          />
+          <TouchableOpacity
+            style={[styles.addButton, !canAdd && styles.addButtonDisabled]}
+            onPress={handleAdd}
+            disabled={!canAdd}
+          >
+            {isAdding ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.addButtonText}>Add Profile</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  headerLeft: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  description: {
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  itemCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  itemCardActive: {
+    borderColor: '#5271ff',
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  itemMeta: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginLeft: 12,
+  },
+  actionButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#f3f4f6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  footer: {
+    padding: 20,
+    gap: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1f2937',
+  },
+  addButton: {
+    backgroundColor: '#5271ff',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,359 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { X, Archive, RotateCcw, Trash2 } from 'lucide-react-native';
+import { BackupInfo, BackupReason, listBackups, createBackup, restoreBackup, deleteBackup } from '@/services/backup';
+import { formatDetailDate } from '@/utils/dateFormatters';
+import PinEntryModal from './PinEntryModal';
+
+interface BackupsModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onRestored: () => Promise<void>;
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+const REASON_LABELS: Record<BackupReason, string> = {
+  scheduled: 'Automatic',
+  manual: 'Manual',
+  'pre-restore': 'Before restore',
+  'pre-wipe': 'Before clearing data',
+};
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export default function BackupsModal({ visible, onClose, onRestored, onError, onSuccess }: BackupsModalProps) {
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyBackupId, setBusyBackupId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  // A backup whose notes were encrypted under a PIN that is no longer set
+  const [pinBackup, setPinBackup] = useState<BackupInfo | null>(null);
+
+  const loadBackups = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setBackups(await listBackups());
+    } catch (error) {
+      console.error('Error loading backups:', error);
+      setBackups([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (visible) {
+      loadBackups();
+    }
+  }, [visible, loadBackups]);
+
+  const handleCreateBackup = async () => {
+    setIsCreating(true);
+    try {
+      await createBackup('manual');
+      await loadBackups();
+      onSuccess('Backup created');
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      onError('Failed to create backup. Please try again.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRestore = (backup: BackupInfo) => {
+    Alert.alert(
+      'Restore Backup',
+      `Replace all current techniques and sessions with the backup from ${backup.createdAt.toLocaleString()}? ` +
+        'A backup of your current data will be taken first.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          style: 'destructive',
+          onPress: async () => {
+            setBusyBackupId(backup.id);
+            try {
+              if (!(await restoreBackup(backup.id))) {
+                setPinBackup(backup);
+                return;
+              }
+              await onRestored();
+              await loadBackups();
+              onSuccess('Backup restored');
+            } catch (error) {
+              console.error('Error restoring backup:', error);
+              onError('Failed to restore backup. No changes were made.');
+            } finally {
+              setBusyBackupId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRestoreWithPin = async (pin: string): Promise<string | null> => {
+    if (!pinBackup) return null;
+
+    try {
+      if (!(await restoreBackup(pinBackup.id, pin))) {
+        return 'Incorrect PIN';
+      }
+      setPinBackup(null);
+      await onRestored();
+      await loadBackups();
+      onSuccess('Backup restored');
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      setPinBackup(null);
+      onError('Failed to restore backup. No changes were made.');
+    }
+    return null;
+  };
+
+  const handleDelete = (backup: BackupInfo) => {
+    Alert.alert(
+      'Delete Backup',
+      `Delete the backup from ${backup.createdAt.toLocaleString()}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteBackup(backup.id);
+              await loadBackups();
+            } catch (error) {
+              console.error('Error deleting backup:', error);
+              onError('Failed to delete backup.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderBackup = (backup: BackupInfo) => (
+    <View key={backup.id} style={styles.backupCard}>
+      <View style={styles.backupInfo}>
+        <Text style={styles.backupDate}>{formatDetailDate(backup.createdAt)}</Text>
+        <Text style={styles.backupMeta}>
+          {backup.createdAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} · {REASON_LABELS[backup.reason]} · {formatSize(backup.size)}
+        </Text>
+        <Text style={styles.backupMeta}>
+          {backup.techniqueCount} techniques · {backup.sessionCount} sessions
+        </Text>
+      </View>
+      <View style={styles.backupActions}>
+        {busyBackupId === backup.id ? (
+          <ActivityIndicator color="#5271ff" />
+        ) : (
+          <>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => handleRestore(backup)}
+              disabled={busyBackupId !== null}
+              activeOpacity={0.7}
+            >
+              <RotateCcw size={18} color="#5271ff" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => handleDelete(backup)}
+              disabled={busyBackupId !== null}
+              activeOpacity={0.7}
+            >
+              <Trash2 size={18} color="#ef4444" />
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerLeft}>
+            <Text style={styles.headerTitle}>Backups</Text>
+          </View>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <X size={24} color="#6b7280" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content}>
+          <Text style={styles.description}>
+            A backup is taken automatically once a day when you open the app. The last 7 backups are kept on this device.
+          </Text>
+
+          {isLoading && backups.length === 0 ? (
+            <ActivityIndicator style={styles.loading} color="#5271ff" />
+          ) : backups.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Archive size={48} color="#9ca3af" />
+              <Text style={styles.emptyTitle}>No Backups Yet</Text>
+            </View>
+          ) : (
+            backups.map(renderBackup)
+          )}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.backupButton, isCreating && styles.backupButtonDisabled]}
+            onPress={handleCreateBackup}
+            disabled={isCreating}
+          >
+            {isCreating ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.backupButtonText}>Back Up Now</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <PinEntryModal
+          visible={pinBackup !== null}
+          title="Enter Backup PIN"
+          message="This backup's notes were encrypted with a PIN that is no longer set. Enter that PIN to restore it."
+          submitLabel="Restore Backup"
+          onSubmit={handleRestoreWithPin}
+          onClose={() => setPinBackup(null)}
+        />
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  headerLeft: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  description: {
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    marginTop: 40,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 12,
+  },
+  backupCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  backupInfo: {
+    flex: 1,
+  },
+  backupDate: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 4,
+  },
+  backupMeta: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  backupActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginLeft: 12,
+  },
+  actionButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#f3f4f6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  backupButton: {
+    backgroundColor: '#5271ff',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  backupButtonDisabled: {
+    opacity: 0.6,
+  },
+  backupButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,214 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { X, AlertTriangle } from 'lucide-react-native';
+
+const CONFIRMATION_PHRASE = 'DELETE';
+
+interface ClearDataModalProps {
+  visible: boolean;
+  techniqueCount: number;
+  sessionCount: number;
+  undoDays: number | null; // null when no pre-wipe snapshot can be taken
+  onConfirm: () => Promise<void>;
+  onClose: () => void;
+}
+
+export default function ClearDataModal({
+  visible,
+  techniqueCount,
+  sessionCount,
+  undoDays,
+  onConfirm,
+  onClose,
+}: ClearDataModalProps) {
+  const [confirmation, setConfirmation] = useState('');
+  const [isClearing, setIsClearing] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setConfirmation('');
+      setIsClearing(false);
+    }
+  }, [visible]);
+
+  const isConfirmed = confirmation.trim() === CONFIRMATION_PHRASE;
+
+  const handleConfirm = async () => {
+    if (!isConfirmed) return;
+
+    setIsClearing(true);
+    try {
+      await onConfirm();
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <KeyboardAvoidingView
+          style={styles.container}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <View style={styles.header}>
+            <View style={styles.headerLeft}>
+              <Text style={styles.headerTitle}>Clear All Data</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton} disabled={isClearing}>
+              <X size={24} color="#6b7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+            <View style={styles.warningCard}>
+              <AlertTriangle size={24} color="#ef4444" />
+              <Text style={styles.warningText}>
+                This deletes {techniqueCount} techniques, {sessionCount} sessions, your profile, locations and custom tags from this device.
+              </Text>
+            </View>
+
+            <Text style={styles.description}>
+              {undoDays !== null
+                ? `A snapshot of your data is saved first. You can undo this from Settings for ${undoDays} days.`
+                : 'Undo is not available on this platform. Export your data first if you might need it again.'}
+            </Text>
+
+            <Text style={styles.label}>Type {CONFIRMATION_PHRASE} to confirm</Text>
+            <TextInput
+              style={styles.input}
+              value={confirmation}
+              onChangeText={setConfirmation}
+              placeholder={CONFIRMATION_PHRASE}
+              placeholderTextColor="#9ca3af"
+              autoCapitalize="characters"
+              autoCorrect={false}
+              editable={!isClearing}
+            />
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.clearButton, (!isConfirmed || isClearing) && styles.clearButtonDisabled]}
+              onPress={handleConfirm}
+              disabled={!isConfirmed || isClearing}
+            >
+              {isClearing ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.clearButtonText}>Clear All Data</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  headerLeft: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  warningCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#991b1b',
+    lineHeight: 21,
+  },
+  description: {
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    color: '#1f2937',
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  clearButton: {
+    backgroundColor: '#ef4444',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  clearButtonDisabled: {
+    opacity: 0.5,
+  },
+  clearButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
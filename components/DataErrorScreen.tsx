@@ -0,0 +1,304 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { DatabaseZap, RotateCcw } from 'lucide-react-native';
+import { DataError, DataErrorKind } from '@/types/dataError';
+import {
+  BackupInfo,
+  listBackups,
+  isBackupSupported,
+  restoreBackupToNewDatabase,
+  exportDatabaseFile,
+} from '@/services/backup';
+import { formatDetailDate } from '@/utils/dateFormatters';
+import PinEntryModal from './PinEntryModal';
+
+interface DataErrorScreenProps {
+  error: DataError;
+  onRetry: () => Promise<void>;
+}
+
+const TITLES: Record<DataErrorKind, string> = {
+  'not-initialized': "Can't Open Your Data",
+  corrupt: 'Your Data Is Damaged',
+  constraint: "Can't Load Your Data",
+  validation: "Can't Load Your Data",
+  network: "Can't Reach the Server",
+  server: 'Server Error',
+  unknown: "Can't Load Your Data",
+};
+
+const DESCRIPTIONS: Record<DataErrorKind, string> = {
+  'not-initialized': "The database on this device couldn't be opened. Nothing has been deleted.",
+  corrupt: 'The database on this device is damaged and only part of it, or none of it, can be read.',
+  constraint: 'Some stored records conflict with each other. Nothing has been deleted.',
+  validation: 'Some stored records are invalid. Nothing has been deleted.',
+  network: 'Check your connection and try again. Changes made on this device are kept until they sync.',
+  server: 'The server ran into a problem. Try again in a few minutes.',
+  unknown: 'Something went wrong while loading. Nothing has been deleted.',
+};
+
+// Only a local database can be replaced from a backup or exported
+const isLocalFailure = (kind: DataErrorKind): boolean => kind !== 'network' && kind !== 'server';
+
+export default function DataErrorScreen({ error, onRetry }: DataErrorScreenProps) {
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [busyBackupId, setBusyBackupId] = useState<string | null>(null);
+  // A backup whose notes were encrypted under a PIN that is no longer set
+  const [pinBackup, setPinBackup] = useState<BackupInfo | null>(null);
+
+  const canRecover = isLocalFailure(error.kind) && isBackupSupported();
+
+  useEffect(() => {
+    if (!canRecover) return;
+
+    listBackups()
+      .then(setBackups)
+      .catch(listError => {
+        console.error('Error loading backups:', listError);
+      });
+  }, [canRecover]);
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    try {
+      await onRetry();
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await exportDatabaseFile();
+    } catch (exportError) {
+      console.error('Error exporting database file:', exportError);
+      Alert.alert('Export Failed', exportError instanceof Error ? exportError.message : 'Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const restore = async (backup: BackupInfo, pin?: string): Promise<boolean> => {
+    setBusyBackupId(backup.id);
+    try {
+      if (!(await restoreBackupToNewDatabase(backup.id, pin))) return false;
+      await onRetry();
+    } catch (restoreError) {
+      console.error('Error restoring backup:', restoreError);
+      Alert.alert('Restore Failed', restoreError instanceof Error ? restoreError.message : 'Please try again.');
+    } finally {
+      setBusyBackupId(null);
+    }
+    return true;
+  };
+
+  const handleRestore = (backup: BackupInfo) => {
+    Alert.alert(
+      'Restore Backup',
+      `Start over from the backup of ${backup.createdAt.toLocaleString()}? ` +
+        'The current database is kept on this device under a new name, and can still be exported.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          style: 'destructive',
+          onPress: async () => {
+            if (!(await restore(backup))) {
+              setPinBackup(backup);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRestoreWithPin = async (pin: string): Promise<string | null> => {
+    if (!pinBackup) return null;
+    if (!(await restore(pinBackup, pin))) return 'Incorrect PIN';
+    setPinBackup(null);
+    return null;
+  };
+
+  const renderBackup = (backup: BackupInfo) => (
+    <TouchableOpacity
+      key={backup.id}
+      style={styles.backupCard}
+      onPress={() => handleRestore(backup)}
+      disabled={busyBackupId !== null}
+      activeOpacity={0.7}
+    >
+      <View style={styles.backupInfo}>
+        <Text style={styles.backupDate}>
+          {formatDetailDate(backup.createdAt)} · {backup.createdAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </Text>
+        <Text style={styles.backupMeta}>
+          {backup.techniqueCount} techniques · {backup.sessionCount} sessions
+        </Text>
+      </View>
+      {busyBackupId === backup.id ? (
+        <ActivityIndicator color="#5271ff" />
+      ) : (
+        <RotateCcw size={18} color="#5271ff" />
+      )}
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.iconCircle}>
+          <DatabaseZap size={32} color="#ef4444" />
+        </View>
+        <Text style={styles.title}>{TITLES[error.kind]}</Text>
+        <Text style={styles.subtitle}>{DESCRIPTIONS[error.kind]}</Text>
+        <Text style={styles.detail}>{error.message}</Text>
+
+        <TouchableOpacity style={styles.primaryButton} onPress={handleRetry} disabled={isRetrying}>
+          {isRetrying ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Try Again</Text>
+          )}
+        </TouchableOpacity>
+
+        {canRecover && (
+          <>
+            <TouchableOpacity style={styles.secondaryButton} onPress={handleExport} disabled={isExporting}>
+              {isExporting ? (
+                <ActivityIndicator color="#5271ff" />
+              ) : (
+                <Text style={styles.secondaryButtonText}>Export Raw Data</Text>
+              )}
+            </TouchableOpacity>
+
+            <Text style={styles.sectionTitle}>Restore a Backup</Text>
+            {backups.length === 0 ? (
+              <Text style={styles.sectionEmpty}>No backups on this device.</Text>
+            ) : (
+              backups.map(renderBackup)
+            )}
+          </>
+        )}
+      </ScrollView>
+
+      <PinEntryModal
+        visible={pinBackup !== null}
+        title="Enter Backup PIN"
+        message="This backup's notes were encrypted with a PIN that is no longer set. Enter that PIN to restore it."
+        submitLabel="Restore Backup"
+        onSubmit={handleRestoreWithPin}
+        onClose={() => setPinBackup(null)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  content: {
+    paddingTop: 72,
+    paddingHorizontal: 24,
+    paddingBottom: 24,
+  },
+  iconCircle: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: '#fef2f2',
+    alignItems: 'center',
+    justifyContent: 'center',
+    alignSelf: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#1f2937',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#374151',
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 12,
+  },
+  detail: {
+    fontSize: 13,
+    color: '#9ca3af',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  primaryButton: {
+    backgroundColor: '#5271ff',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    minHeight: 44,
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    color: '#5271ff',
+    fontWeight: '500',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  sectionEmpty: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  backupCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  backupInfo: {
+    flex: 1,
+  },
+  backupDate: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 4,
+  },
+  backupMeta: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+});
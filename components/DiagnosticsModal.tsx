@@ -0,0 +1,326 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { X, ShieldCheck, TriangleAlert, RefreshCw } from 'lucide-react-native';
+import { IntegrityReport, IntegrityIssue } from '@/types/integrity';
+import { checkIntegrity, repairIntegrity } from '@/services/api';
+import { formatDateTime } from '@/utils/dateFormatters';
+
+interface DiagnosticsModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onRepaired: () => Promise<void>;
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+export default function DiagnosticsModal({ visible, onClose, onRepaired, onError, onSuccess }: DiagnosticsModalProps) {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isRepairing, setIsRepairing] = useState(false);
+  const [checkFailed, setCheckFailed] = useState(false);
+
+  const runCheck = useCallback(async () => {
+    setIsChecking(true);
+    setCheckFailed(false);
+    try {
+      setReport(await checkIntegrity());
+    } catch (error) {
+      console.error('Error checking data integrity:', error);
+      setCheckFailed(true);
+    } finally {
+      setIsChecking(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (visible) {
+      setReport(null);
+      runCheck();
+    }
+  }, [visible, runCheck]);
+
+  const repairableIssues = report?.issues.filter(issue => issue.repairable) ?? [];
+
+  const handleRepair = () => {
+    Alert.alert(
+      'Repair Data',
+      'Fix the problems marked as repairable? All repairs run together and nothing is changed if one fails. Consider exporting a backup first.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Repair',
+          onPress: async () => {
+            setIsRepairing(true);
+            try {
+              const result = await repairIntegrity();
+              setReport(result.report);
+              await onRepaired();
+              onSuccess(`Repaired ${result.rowsRepaired} ${result.rowsRepaired === 1 ? 'row' : 'rows'}`);
+            } catch (error) {
+              console.error('Error repairing data integrity:', error);
+              onError('Repair failed. No changes were made.');
+            } finally {
+              setIsRepairing(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderIssue = (issue: IntegrityIssue) => (
+    <View key={issue.kind} style={styles.issueCard}>
+      <View style={[styles.accent, { backgroundColor: issue.repairable ? '#f59e0b' : '#ef4444' }]} />
+      <View style={styles.issueInfo}>
+        <View style={styles.issueHeader}>
+          <Text style={styles.issueTitle}>{issue.title}</Text>
+          <View style={styles.countBadge}>
+            <Text style={styles.countBadgeText}>{issue.count}</Text>
+          </View>
+        </View>
+        <Text style={styles.issueDescription}>{issue.description}</Text>
+        {issue.examples.map((example, index) => (
+          <Text key={index} style={styles.issueExample} numberOfLines={1}>• {example}</Text>
+        ))}
+        {issue.count > issue.examples.length && (
+          <Text style={styles.issueExample}>and {issue.count - issue.examples.length} more</Text>
+        )}
+        {!issue.repairable && (
+          <Text style={styles.notRepairableText}>Can&apos;t be repaired automatically</Text>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerLeft}>
+            <Text style={styles.headerTitle}>Data Integrity</Text>
+          </View>
+          <TouchableOpacity
+            onPress={runCheck}
+            style={styles.headerButton}
+            disabled={isChecking || isRepairing}
+          >
+            <RefreshCw size={22} color={isChecking || isRepairing ? '#d1d5db' : '#5271ff'} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <X size={24} color="#6b7280" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content}>
+          <Text style={styles.description}>
+            Checks the database file and the links between your techniques, sessions, tags and locations.
+          </Text>
+
+          {checkFailed && !isChecking ? (
+            <View style={styles.statusState}>
+              <TriangleAlert size={48} color="#ef4444" />
+              <Text style={styles.statusTitle}>Check Failed</Text>
+              <Text style={styles.statusText}>Tap refresh to try again.</Text>
+            </View>
+          ) : isChecking || !report ? (
+            <View style={styles.statusState}>
+              <ActivityIndicator color="#5271ff" />
+              <Text style={styles.statusText}>Checking your data...</Text>
+            </View>
+          ) : report.issues.length === 0 ? (
+            <View style={styles.statusState}>
+              <ShieldCheck size={48} color="#10b981" />
+              <Text style={styles.statusTitle}>No Problems Found</Text>
+              <Text style={styles.statusText}>Checked {formatDateTime(report.checkedAt)}</Text>
+            </View>
+          ) : (
+            <>
+              <View style={styles.summaryRow}>
+                <TriangleAlert size={20} color="#f59e0b" />
+                <Text style={styles.summaryText}>
+                  {report.issues.length} {report.issues.length === 1 ? 'problem' : 'problems'} found · checked {formatDateTime(report.checkedAt)}
+                </Text>
+              </View>
+              {report.issues.map(renderIssue)}
+            </>
+          )}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.repairButton, (repairableIssues.length === 0 || isChecking || isRepairing) && styles.repairButtonDisabled]}
+            onPress={handleRepair}
+            disabled={repairableIssues.length === 0 || isChecking || isRepairing}
+          >
+            {isRepairing ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.repairButtonText}>
+                {repairableIssues.length > 0 ? `Repair ${repairableIssues.length} ${repairableIssues.length === 1 ? 'Problem' : 'Problems'}` : 'Nothing to Repair'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    backgroundColor: '#fff',
+    gap: 12,
+  },
+  headerLeft: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  headerButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  description: {
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  statusState: {
+    alignItems: 'center',
+    marginTop: 40,
+    gap: 12,
+  },
+  statusTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  statusText: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  summaryText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  issueCard: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  accent: {
+    width: 4,
+    alignSelf: 'stretch',
+    borderRadius: 2,
+    marginRight: 12,
+  },
+  issueInfo: {
+    flex: 1,
+  },
+  issueHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    marginBottom: 4,
+  },
+  issueTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  countBadge: {
+    backgroundColor: '#f3f4f6',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  countBadgeText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  issueDescription: {
+    fontSize: 13,
+    color: '#6b7280',
+    lineHeight: 18,
+    marginBottom: 8,
+  },
+  issueExample: {
+    fontSize: 13,
+    color: '#374151',
+    lineHeight: 20,
+  },
+  notRepairableText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ef4444',
+    marginTop: 8,
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  repairButton: {
+    backgroundColor: '#5271ff',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  repairButtonDisabled: {
+    opacity: 0.5,
+  },
+  repairButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,345 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { X, FileText } from 'lucide-react-native';
+import { ImportPreview, ImportOptions, ImportStrategy, EntityImportSummary } from '@/services/dataImport';
+
+interface ImportDataModalProps {
+  visible: boolean;
+  fileName: string;
+  exportedAt: Date | null;
+  preview: ImportPreview | null;
+  onConfirm: (options: ImportOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+const STRATEGIES: { value: ImportStrategy; label: string; description: string }[] = [
+  { value: 'skip-existing', label: 'Skip Existing', description: 'Only add items that are not on this device' },
+  { value: 'newest-wins', label: 'Newest Wins', description: 'Keep whichever version was edited last' },
+  { value: 'replace-all', label: 'Replace All', description: 'Delete everything on this device and use the file' },
+];
+
+export default function ImportDataModal({
+  visible,
+  fileName,
+  exportedAt,
+  preview,
+  onConfirm,
+  onClose,
+}: ImportDataModalProps) {
+  const [techniqueStrategy, setTechniqueStrategy] = useState<ImportStrategy>('skip-existing');
+  const [sessionStrategy, setSessionStrategy] = useState<ImportStrategy>('skip-existing');
+  const [overwriteProfile, setOverwriteProfile] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setTechniqueStrategy('skip-existing');
+      setSessionStrategy('skip-existing');
+      setOverwriteProfile(false);
+      setIsImporting(false);
+    }
+  }, [visible]);
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      await onConfirm({
+        techniques: techniqueStrategy,
+        sessions: sessionStrategy,
+        overwriteProfile,
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const renderSummary = (
+    title: string,
+    summary: EntityImportSummary,
+    strategy: ImportStrategy,
+    onStrategyChange: (strategy: ImportStrategy) => void
+  ) => {
+    const existing = summary.unchanged + summary.conflicts;
+    const selectedStrategy = STRATEGIES.find(s => s.value === strategy)!;
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.label}>{title}</Text>
+        <View style={styles.summaryCard}>
+          <View style={styles.summaryRow}>
+            <View style={styles.summaryStat}>
+              <Text style={styles.summaryNumber}>{summary.new}</Text>
+              <Text style={styles.summaryLabel}>New</Text>
+            </View>
+            <View style={styles.summaryStat}>
+              <Text style={styles.summaryNumber}>{existing}</Text>
+              <Text style={styles.summaryLabel}>Already Exist</Text>
+            </View>
+            <View style={styles.summaryStat}>
+              <Text style={[styles.summaryNumber, summary.conflicts > 0 && styles.conflictNumber]}>
+                {summary.conflicts}
+              </Text>
+              <Text style={styles.summaryLabel}>Conflicts</Text>
+            </View>
+          </View>
+
+          <View style={styles.strategyButtons}>
+            {STRATEGIES.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[
+                  styles.strategyButton,
+                  strategy === option.value && styles.strategyButtonActive,
+                  strategy === option.value && option.value === 'replace-all' && styles.strategyButtonDanger,
+                ]}
+                onPress={() => onStrategyChange(option.value)}
+                activeOpacity={0.7}
+              >
+                <Text style={[
+                  styles.strategyButtonText,
+                  strategy === option.value && styles.strategyButtonTextActive,
+                ]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.strategyDescription}>{selectedStrategy.description}</Text>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerLeft}>
+            <Text style={styles.headerTitle}>Import Data</Text>
+          </View>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton} disabled={isImporting}>
+            <X size={24} color="#6b7280" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content}>
+          <View style={styles.fileCard}>
+            <FileText size={20} color="#0891b2" />
+            <View style={styles.fileInfo}>
+              <Text style={styles.fileName} numberOfLines={1}>{fileName}</Text>
+              {exportedAt && (
+                <Text style={styles.fileMeta}>Exported {exportedAt.toLocaleString()}</Text>
+              )}
+            </View>
+          </View>
+
+          {preview && (
+            <>
+              {renderSummary('Techniques', preview.techniques, techniqueStrategy, setTechniqueStrategy)}
+              {renderSummary('Sessions', preview.sessions, sessionStrategy, setSessionStrategy)}
+
+              {preview.profileConflict && (
+                <View style={styles.section}>
+                  <Text style={styles.label}>Profile</Text>
+                  <View style={[styles.summaryCard, styles.profileRow]}>
+                    <Text style={styles.profileText}>Overwrite my profile with the one in this file</Text>
+                    <Switch
+                      value={overwriteProfile}
+                      onValueChange={setOverwriteProfile}
+                      trackColor={{ false: '#e5e7eb', true: '#5271ff' }}
+                      thumbColor={overwriteProfile ? '#fff' : '#f4f3f4'}
+                    />
+                  </View>
+                </View>
+              )}
+            </>
+          )}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.importButton, isImporting && styles.importButtonDisabled]}
+            onPress={handleImport}
+            disabled={isImporting || !preview}
+          >
+            {isImporting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.importButtonText}>Import</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  headerLeft: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  fileCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  fileInfo: {
+    flex: 1,
+  },
+  fileName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  fileMeta: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  summaryCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: 16,
+  },
+  summaryStat: {
+    alignItems: 'center',
+  },
+  summaryNumber: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#1f2937',
+  },
+  conflictNumber: {
+    color: '#ea580c',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  strategyButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  strategyButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+    alignItems: 'center',
+  },
+  strategyButtonActive: {
+    backgroundColor: '#5271ff',
+  },
+  strategyButtonDanger: {
+    backgroundColor: '#ef4444',
+  },
+  strategyButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  strategyButtonTextActive: {
+    color: '#fff',
+  },
+  strategyDescription: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  profileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  profileText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  importButton: {
+    backgroundColor: '#5271ff',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  importButtonDisabled: {
+    opacity: 0.6,
+  },
+  importButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,275 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { LockKeyhole, Delete } from 'lucide-react-native';
+import { PinCheckResult, PIN_MAX_LENGTH } from '@/types/appLock';
+import { getLockoutEnd, describePinFailure } from '@/services/appLock';
+
+interface LockScreenProps {
+  pinLength: number;
+  onUnlock: (pin: string) => Promise<PinCheckResult>;
+  onErase: () => Promise<void>;
+}
+
+const KEYPAD_ROWS = [
+  ['1', '2', '3'],
+  ['4', '5', '6'],
+  ['7', '8', '9'],
+  ['', '0', 'delete'],
+];
+
+export default function LockScreen({ pinLength, onUnlock, onErase }: LockScreenProps) {
+  const [pin, setPin] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [lockedUntil, setLockedUntil] = useState<Date | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [isChecking, setIsChecking] = useState(false);
+  const [isErasing, setIsErasing] = useState(false);
+
+  // Settings that couldn't be read have no length, so accept the longest PIN
+  const length = pinLength || PIN_MAX_LENGTH;
+
+  useEffect(() => {
+    getLockoutEnd().then(setLockedUntil);
+  }, []);
+
+  // Tick while locked out so the countdown stays current
+  useEffect(() => {
+    if (!lockedUntil) return;
+
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (lockedUntil.getTime() <= Date.now()) {
+        setLockedUntil(null);
+        setMessage(null);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
+
+  const isLockedOut = lockedUntil !== null && lockedUntil.getTime() > now;
+  const isDisabled = isChecking || isErasing || isLockedOut;
+
+  const submit = async (entered: string) => {
+    setIsChecking(true);
+    try {
+      const result = await onUnlock(entered);
+      if (result.status === 'locked-out') {
+        setLockedUntil(result.until);
+        setNow(Date.now());
+      }
+      if (result.status !== 'unlocked') {
+        setMessage(describePinFailure(result));
+        setPin('');
+      }
+    } catch (error) {
+      console.error('Error checking PIN:', error);
+      setMessage('Couldn\'t check your PIN. Please try again.');
+      setPin('');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleKey = (key: string) => {
+    if (isDisabled) return;
+
+    if (key === 'delete') {
+      setPin(prev => prev.slice(0, -1));
+      return;
+    }
+
+    const entered = pin + key;
+    setPin(entered);
+    if (entered.length === length) {
+      submit(entered);
+    }
+  };
+
+  const handleForgotPin = () => {
+    Alert.alert(
+      'Forgot PIN?',
+      'Your PIN can\'t be recovered, and encrypted notes can\'t be read without it. ' +
+        'You can erase all data on this device, including backups, and start again without a PIN. This can\'t be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Erase Everything',
+          style: 'destructive',
+          onPress: async () => {
+            setIsErasing(true);
+            try {
+              await onErase();
+            } catch (error) {
+              console.error('Error erasing data:', error);
+              setMessage('Failed to erase data. Please try again.');
+              setIsErasing(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const statusText = isLockedOut && lockedUntil
+    ? describePinFailure({ status: 'locked-out', until: lockedUntil }, now)
+    : message;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.top}>
+        <View style={styles.iconCircle}>
+          <LockKeyhole size={32} color="#5271ff" />
+        </View>
+        <Text style={styles.title}>Enter PIN</Text>
+        <Text style={styles.subtitle}>FlowRoll is locked</Text>
+
+        <View style={styles.dots}>
+          {Array.from({ length }, (_, index) => (
+            <View key={index} style={[styles.dot, index < pin.length && styles.dotFilled]} />
+          ))}
+        </View>
+
+        <View style={styles.statusRow}>
+          {isChecking || isErasing ? (
+            <ActivityIndicator color="#5271ff" />
+          ) : statusText ? (
+            <Text style={styles.statusText}>{statusText}</Text>
+          ) : null}
+        </View>
+      </View>
+
+      <View style={styles.keypad}>
+        {KEYPAD_ROWS.map((row, rowIndex) => (
+          <View key={rowIndex} style={styles.keypadRow}>
+            {row.map((key, keyIndex) =>
+              key === '' ? (
+                <View key={keyIndex} style={styles.key} />
+              ) : (
+                <TouchableOpacity
+                  key={keyIndex}
+                  style={[styles.key, key !== 'delete' && styles.digitKey, isDisabled && styles.keyDisabled]}
+                  onPress={() => handleKey(key)}
+                  disabled={isDisabled}
+                  activeOpacity={0.6}
+                >
+                  {key === 'delete' ? (
+                    <Delete size={26} color="#374151" />
+                  ) : (
+                    <Text style={styles.keyText}>{key}</Text>
+                  )}
+                </TouchableOpacity>
+              )
+            )}
+          </View>
+        ))}
+      </View>
+
+      <TouchableOpacity onPress={handleForgotPin} style={styles.forgotButton} disabled={isChecking || isErasing}>
+        <Text style={styles.forgotText}>Forgot PIN?</Text>
+      </TouchableOpacity>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+    justifyContent: 'space-between',
+    paddingVertical: 24,
+  },
+  top: {
+    alignItems: 'center',
+    paddingTop: 48,
+    paddingHorizontal: 24,
+  },
+  iconCircle: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: '#eef2ff',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#1f2937',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#6b7280',
+    marginBottom: 28,
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 2,
+    borderColor: '#5271ff',
+  },
+  dotFilled: {
+    backgroundColor: '#5271ff',
+  },
+  statusRow: {
+    minHeight: 44,
+    justifyContent: 'center',
+    marginTop: 16,
+  },
+  statusText: {
+    fontSize: 14,
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  keypad: {
+    alignItems: 'center',
+    gap: 16,
+  },
+  keypadRow: {
+    flexDirection: 'row',
+    gap: 28,
+  },
+  key: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  digitKey: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  keyDisabled: {
+    opacity: 0.4,
+  },
+  keyText: {
+    fontSize: 28,
+    fontWeight: '500',
+    color: '#1f2937',
+  },
+  forgotButton: {
+    alignSelf: 'center',
+    padding: 12,
+  },
+  forgotText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#5271ff',
+  },
+});
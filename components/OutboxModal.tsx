@@ -0,0 +1,349 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { X, CloudUpload, RotateCcw, Trash2 } from 'lucide-react-native';
+import { OutboxEntry } from '@/types/outbox';
+import {
+  getOutboxEntries,
+  subscribeToOutbox,
+  processOutbox,
+  retryOutboxEntry,
+  discardOutboxEntry,
+} from '@/services/outbox';
+import { SESSION_TYPE_LABELS } from '@/constants/colors';
+import { formatDetailDate, formatTime } from '@/utils/dateFormatters';
+
+interface OutboxModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onDiscarded: () => Promise<void>;
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+const OPERATION_LABELS: Record<OutboxEntry['operation'], string> = {
+  create: 'Add',
+  update: 'Edit',
+  delete: 'Delete',
+  restore: 'Restore',
+  purge: 'Permanently delete',
+};
+
+const describeEntry = (entry: OutboxEntry): string => {
+  const action = OPERATION_LABELS[entry.operation];
+  switch (entry.entity) {
+    case 'technique':
+      return 'payload' in entry ? `${action} technique "${entry.payload.name}"` : `${action} technique`;
+    case 'session':
+      return 'payload' in entry
+        ? `${action} ${SESSION_TYPE_LABELS[entry.payload.type]} session · ${formatDetailDate(entry.payload.date)}`
+        : `${action} session`;
+    case 'profile':
+      return entry.operation === 'delete' ? 'Delete profile' : 'Update profile';
+    case 'promotion':
+      return 'Delete promotion';
+  }
+};
+
+const describeStatus = (entry: OutboxEntry): string => {
+  if (entry.status === 'failed') {
+    return `Failed${entry.lastError ? `: ${entry.lastError}` : ''}`;
+  }
+  if (entry.attempts > 0) {
+    return `Retrying at ${formatTime(entry.nextAttemptAt)} · ${entry.attempts} failed ${entry.attempts === 1 ? 'attempt' : 'attempts'}`;
+  }
+  return 'Waiting to send';
+};
+
+export default function OutboxModal({ visible, onClose, onDiscarded, onError, onSuccess }: OutboxModalProps) {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyEntryId, setBusyEntryId] = useState<number | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await getOutboxEntries());
+    } catch (error) {
+      console.error('Error loading outbox:', error);
+      setEntries([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Entries leave the list as they are sent in the background
+  useEffect(() => {
+    if (!visible) return;
+    return subscribeToOutbox(() => {
+      loadEntries();
+    });
+  }, [visible, loadEntries]);
+
+  const handleSendNow = async () => {
+    setIsSending(true);
+    try {
+      await processOutbox({ ignoreBackoff: true });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleRetry = async (entry: OutboxEntry) => {
+    setBusyEntryId(entry.id);
+    try {
+      await retryOutboxEntry(entry.id);
+    } catch (error) {
+      console.error('Error retrying queued change:', error);
+      onError('Failed to retry. Please try again.');
+    } finally {
+      setBusyEntryId(null);
+    }
+  };
+
+  const handleDiscard = (entry: OutboxEntry) => {
+    Alert.alert(
+      'Discard Change',
+      `Discard "${describeEntry(entry)}"? It won't be sent to the server, and will be undone the next time data is loaded from the server.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            setBusyEntryId(entry.id);
+            try {
+              await discardOutboxEntry(entry.id);
+              await onDiscarded();
+              onSuccess('Change discarded');
+            } catch (error) {
+              console.error('Error discarding queued change:', error);
+              onError('Failed to discard. Please try again.');
+            } finally {
+              setBusyEntryId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderEntry = (entry: OutboxEntry) => (
+    <View key={entry.id} style={styles.itemCard}>
+      <View style={[styles.accent, { backgroundColor: entry.status === 'failed' ? '#ef4444' : '#f59e0b' }]} />
+      <View style={styles.itemInfo}>
+        <Text style={styles.itemTitle} numberOfLines={1}>{describeEntry(entry)}</Text>
+        <Text style={[styles.itemMeta, entry.status === 'failed' && styles.itemMetaFailed]} numberOfLines={2}>
+          {describeStatus(entry)}
+        </Text>
+      </View>
+      {entry.status === 'failed' && (
+        <View style={styles.itemActions}>
+          {busyEntryId === entry.id ? (
+            <ActivityIndicator color="#5271ff" />
+          ) : (
+            <>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => handleRetry(entry)}
+                disabled={busyEntryId !== null}
+                activeOpacity={0.7}
+              >
+                <RotateCcw size={18} color="#5271ff" />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => handleDiscard(entry)}
+                disabled={busyEntryId !== null}
+                activeOpacity={0.7}
+              >
+                <Trash2 size={18} color="#ef4444" />
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+
+  const isEmpty = entries.length === 0;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerLeft}>
+            <Text style={styles.headerTitle}>Pending Changes</Text>
+          </View>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <X size={24} color="#6b7280" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content}>
+          <Text style={styles.description}>
+            Changes are saved on this device first, then sent to the server in the order you made them.
+            Changes that failed hold back later changes to the same item until you retry or discard them.
+          </Text>
+
+          {isLoading && isEmpty ? (
+            <ActivityIndicator style={styles.loading} color="#5271ff" />
+          ) : isEmpty ? (
+            <View style={styles.emptyState}>
+              <CloudUpload size={48} color="#9ca3af" />
+              <Text style={styles.emptyTitle}>All Changes Sent</Text>
+            </View>
+          ) : (
+            entries.map(renderEntry)
+          )}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.sendButton, (isEmpty || isSending) && styles.sendButtonDisabled]}
+            onPress={handleSendNow}
+            disabled={isEmpty || isSending}
+          >
+            {isSending ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.sendButtonText}>Send Now</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  headerLeft: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  description: {
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    marginTop: 40,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 12,
+  },
+  itemCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  accent: {
+    width: 4,
+    alignSelf: 'stretch',
+    borderRadius: 2,
+    marginRight: 12,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 4,
+  },
+  itemMeta: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  itemMetaFailed: {
+    color: '#ef4444',
+  },
+  itemActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginLeft: 12,
+  },
+  actionButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#f3f4f6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  sendButton: {
+    backgroundColor: '#5271ff',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.5,
+  },
+  sendButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
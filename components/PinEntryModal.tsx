@@ -0,0 +1,210 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { X, KeyRound } from 'lucide-react-native';
+import { PIN_MIN_LENGTH, PIN_MAX_LENGTH } from '@/types/appLock';
+
+interface PinEntryModalProps {
+  visible: boolean;
+  title: string;
+  message: string;
+  submitLabel: string;
+  // Resolves to an error to show under the PIN, or null when the PIN was accepted
+  onSubmit: (pin: string) => Promise<string | null>;
+  onClose: () => void;
+}
+
+export default function PinEntryModal({ visible, title, message, submitLabel, onSubmit, onClose }: PinEntryModalProps) {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setPin('');
+      setError(null);
+      setIsSubmitting(false);
+    }
+  }, [visible]);
+
+  const canSubmit = pin.length >= PIN_MIN_LENGTH && !isSubmitting;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const submitError = await onSubmit(pin);
+      if (submitError) {
+        setError(submitError);
+        setPin('');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <KeyboardAvoidingView
+          style={styles.container}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <View style={styles.header}>
+            <View style={styles.headerLeft}>
+              <Text style={styles.headerTitle}>{title}</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton} disabled={isSubmitting}>
+              <X size={24} color="#6b7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+            <View style={styles.infoCard}>
+              <KeyRound size={24} color="#5271ff" />
+              <Text style={styles.infoText}>{message}</Text>
+            </View>
+
+            <Text style={styles.label}>PIN</Text>
+            <TextInput
+              style={styles.input}
+              value={pin}
+              onChangeText={text => setPin(text.replace(/\D/g, ''))}
+              onSubmitEditing={handleSubmit}
+              placeholder="Enter PIN"
+              placeholderTextColor="#9ca3af"
+              keyboardType="number-pad"
+              secureTextEntry
+              maxLength={PIN_MAX_LENGTH}
+              autoFocus
+              editable={!isSubmitting}
+            />
+            {error && <Text style={styles.errorText}>{error}</Text>}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.submitButton, !canSubmit && styles.submitButtonDisabled]}
+              onPress={handleSubmit}
+              disabled={!canSubmit}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.submitButtonText}>{submitLabel}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  headerLeft: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  infoCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#eef2ff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: '#c7d2fe',
+  },
+  infoText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#3730a3',
+    lineHeight: 21,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 20,
+    letterSpacing: 8,
+    backgroundColor: '#fff',
+    color: '#1f2937',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ef4444',
+    marginTop: 8,
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  submitButton: {
+    backgroundColor: '#5271ff',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -12,22 +12,37 @@ import {
   Keyboard,
   TouchableWithoutFeedback,
 } from 'react-native';
-import { X, ChevronDown } from 'lucide-react-native';
-import { UserProfile, BeltRank, BELT_RANKS, MAX_STRIPES } from '@/types/profile';
+import { X, ChevronDown, Trash2 } from 'lucide-react-native';
+import { UserProfile, Promotion, BeltRank, BELT_RANKS, MAX_STRIPES } from '@/types/profile';
 import { INPUT_LIMITS, validateProfileName, sanitizeInput } from '@/utils/inputValidation';
+import { formatDetailDate } from '@/utils/dateFormatters';
+import { formatBeltRank } from '@/utils/rankProgress';
+import SimpleDatePicker from '@/components/SimpleDatePicker';
 
 interface ProfileModalProps {
   visible: boolean;
   profile: UserProfile | null;
-  onSave: (profile: UserProfile) => void;
+  promotions: Promotion[]; // Latest first
+  onSave: (profile: UserProfile, promotion?: Promotion) => void;
+  onDeletePromotion: (promotionId: string) => void;
   onClose: () => void;
 }
 
-export default function ProfileModal({ visible, profile, onSave, onClose }: ProfileModalProps) {
+export default function ProfileModal({
+  visible,
+  profile,
+  promotions,
+  onSave,
+  onDeletePromotion,
+  onClose,
+}: ProfileModalProps) {
   const [name, setName] = useState('');
   const [beltRank, setBeltRank] = useState<BeltRank>('white');
   const [stripes, setStripes] = useState(0);
   const [showBeltDropdown, setShowBeltDropdown] = useState(false);
+  const [promotionDate, setPromotionDate] = useState(new Date());
+  const [instructor, setInstructor] = useState('');
+  const [promotionNotes, setPromotionNotes] = useState('');
 
   useEffect(() => {
     if (visible && profile) {
@@ -40,8 +55,16 @@ export default function ProfileModal({ visible, profile, onSave, onClose }: Prof
       setBeltRank('white');
       setStripes(0);
     }
+    if (visible) {
+      setPromotionDate(new Date());
+      setInstructor('');
+      setPromotionNotes('');
+    }
   }, [visible, profile]);
 
+  // A new rank is recorded as a promotion; the previous ones stay in the history
+  const isNewRank = !profile || beltRank !== profile.beltRank || stripes !== profile.stripes;
+
   const handleSave = () => {
     const nameValidation = validateProfileName(name);
     if (!nameValidation.isValid) {
@@ -55,10 +78,32 @@ export default function ProfileModal({ visible, profile, onSave, onClose }: Prof
       stripes,
     };
 
-    onSave(newProfile);
+    const promotion: Promotion | undefined = isNewRank
+      ? {
+          id: Date.now().toString(),
+          beltRank,
+          stripes,
+          date: promotionDate,
+          instructor: sanitizeInput(instructor).trim() || undefined,
+          notes: promotionNotes.trim() || undefined,
+        }
+      : undefined;
+
+    onSave(newProfile, promotion);
     onClose();
   };
 
+  const handleDeletePromotion = (promotion: Promotion) => {
+    Alert.alert(
+      'Delete Promotion',
+      `Remove ${formatBeltRank(promotion.beltRank, promotion.stripes)} on ${formatDetailDate(promotion.date)} from your history?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => onDeletePromotion(promotion.id) },
+      ]
+    );
+  };
+
   const handleBeltSelect = (selectedBelt: BeltRank) => {
     setBeltRank(selectedBelt);
     setStripes(0); // Reset stripes when belt changes
@@ -212,7 +257,80 @@ export default function ProfileModal({ visible, profile, onSave, onClose }: Prof
             {/* Stripes Selector */}
             <View style={styles.section}>
               {renderStripesSelector()}
+              {profile && (
+                <Text style={styles.hintText}>
+                  Changing your belt or stripes records a new promotion. Your history is kept.
+                </Text>
+              )}
             </View>
+
+            {/* Promotion Details */}
+            {isNewRank && (
+              <View style={styles.section}>
+                <Text style={styles.label}>{profile ? 'Promoted On' : 'Holding This Rank Since'}</Text>
+                <SimpleDatePicker
+                  value={promotionDate}
+                  onChange={setPromotionDate}
+                  maxDate={new Date()}
+                />
+
+                <Text style={[styles.label, styles.fieldSpacing]}>Awarded By (optional)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={instructor}
+                  onChangeText={setInstructor}
+                  placeholder="Instructor"
+                  placeholderTextColor="#9ca3af"
+                  autoCapitalize="words"
+                  maxLength={INPUT_LIMITS.INSTRUCTOR}
+                />
+
+                <Text style={[styles.label, styles.fieldSpacing]}>Notes (optional)</Text>
+                <TextInput
+                  style={[styles.input, styles.notesInput]}
+                  value={promotionNotes}
+                  onChangeText={setPromotionNotes}
+                  placeholder="How it happened, what it took"
+                  placeholderTextColor="#9ca3af"
+                  multiline
+                  maxLength={INPUT_LIMITS.PROMOTION_NOTES}
+                />
+              </View>
+            )}
+
+            {/* Promotion History */}
+            {promotions.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.label}>Promotion History</Text>
+                {promotions.map(promotion => (
+                  <View key={promotion.id} style={styles.promotionCard}>
+                    <View
+                      style={[
+                        styles.beltColorIndicator,
+                        { backgroundColor: BELT_RANKS.find(belt => belt.value === promotion.beltRank)?.color },
+                      ]}
+                    />
+                    <View style={styles.promotionInfo}>
+                      <Text style={styles.promotionRank}>{formatBeltRank(promotion.beltRank, promotion.stripes)}</Text>
+                      <Text style={styles.promotionMeta}>
+                        {formatDetailDate(promotion.date)}
+                        {promotion.instructor ? ` · ${promotion.instructor}` : ''}
+                      </Text>
+                      {promotion.notes && <Text style={styles.promotionNotes}>{promotion.notes}</Text>}
+                    </View>
+                    {promotions.length > 1 && (
+                      <TouchableOpacity
+                        style={styles.promotionDelete}
+                        onPress={() => handleDeletePromotion(promotion)}
+                        activeOpacity={0.7}
+                      >
+                        <Trash2 size={16} color="#ef4444" />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))}
+              </View>
+            )}
           </ScrollView>
         </TouchableWithoutFeedback>
 
@@ -400,6 +518,52 @@ const styles = StyleSheet.create({
     color: '#059669',
     fontWeight: '600',
   },
+  hintText: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 12,
+    lineHeight: 18,
+  },
+  fieldSpacing: {
+    marginTop: 16,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  promotionCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  promotionInfo: {
+    flex: 1,
+  },
+  promotionRank: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  promotionMeta: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  promotionNotes: {
+    fontSize: 14,
+    color: '#374151',
+    marginTop: 6,
+    lineHeight: 20,
+  },
+  promotionDelete: {
+    padding: 4,
+    marginLeft: 8,
+  },
   stripesSelector: {
     alignItems: 'flex-start',
   },
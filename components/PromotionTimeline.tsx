@@ -0,0 +1,158 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { BELT_RANKS } from '@/types/profile';
+import { TimelineSegment, formatBeltRank, formatTimeInGrade } from '@/utils/rankProgress';
+
+interface PromotionTimelineProps {
+  segments: TimelineSegment[]; // Oldest first
+}
+
+const getBeltColor = (beltRank: string) => BELT_RANKS.find(belt => belt.value === beltRank)?.color ?? '#ffffff';
+
+const formatPromotionDate = (date: Date) =>
+  date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export default function PromotionTimeline({ segments }: PromotionTimelineProps) {
+  if (segments.length === 0) return null;
+
+  const renderStripes = (count: number, beltRank: string) => (
+    <View style={[styles.rankBar, beltRank === 'black' && styles.rankBarBlack]}>
+      {Array.from({ length: count }, (_, index) => (
+        <View key={index} style={styles.stripe} />
+      ))}
+    </View>
+  );
+
+  return (
+    <View>
+      {/* Time spent at each rank, to scale */}
+      <View style={styles.belt}>
+        {segments.map(segment => (
+          <View
+            key={segment.promotion.id}
+            style={[
+              styles.beltSegment,
+              { flex: Math.max(segment.days, 1), backgroundColor: getBeltColor(segment.promotion.beltRank) },
+            ]}
+          >
+            {segment.promotion.stripes > 0 && renderStripes(segment.promotion.stripes, segment.promotion.beltRank)}
+          </View>
+        ))}
+      </View>
+      <View style={styles.beltLabels}>
+        <Text style={styles.beltLabelText}>{formatPromotionDate(segments[0].promotion.date)}</Text>
+        <Text style={styles.beltLabelText}>Today</Text>
+      </View>
+
+      {/* Milestones, latest first */}
+      {[...segments].reverse().map((segment, index) => {
+        const isCurrent = index === 0;
+        return (
+          <View key={segment.promotion.id} style={styles.milestone}>
+            <View style={styles.milestoneMarker}>
+              <View style={[styles.milestoneDot, { backgroundColor: getBeltColor(segment.promotion.beltRank) }]} />
+              {index < segments.length - 1 && <View style={styles.milestoneLine} />}
+            </View>
+            <View style={styles.milestoneContent}>
+              <Text style={styles.milestoneRank}>
+                {formatBeltRank(segment.promotion.beltRank, segment.promotion.stripes)}
+              </Text>
+              <Text style={styles.milestoneMeta}>
+                {formatPromotionDate(segment.promotion.date)}
+                {segment.promotion.instructor ? ` · ${segment.promotion.instructor}` : ''}
+              </Text>
+              <Text style={styles.milestoneDuration}>
+                {isCurrent ? 'Current rank for ' : ''}
+                {formatTimeInGrade(segment.days)} · {segment.sessions} session{segment.sessions === 1 ? '' : 's'}
+              </Text>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  belt: {
+    flexDirection: 'row',
+    height: 20,
+    borderRadius: 6,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+  },
+  beltSegment: {
+    justifyContent: 'center',
+    alignItems: 'flex-end',
+    borderRightWidth: 1,
+    borderRightColor: '#e5e7eb',
+  },
+  rankBar: {
+    flexDirection: 'row',
+    height: '100%',
+    backgroundColor: '#111827',
+    paddingHorizontal: 2,
+    gap: 2,
+    alignItems: 'center',
+  },
+  rankBarBlack: {
+    backgroundColor: '#dc2626',
+  },
+  stripe: {
+    width: 2,
+    height: '80%',
+    backgroundColor: '#ffffff',
+  },
+  beltLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+    marginBottom: 16,
+  },
+  beltLabelText: {
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  milestone: {
+    flexDirection: 'row',
+  },
+  milestoneMarker: {
+    width: 24,
+    alignItems: 'center',
+  },
+  milestoneDot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 2,
+    borderColor: '#d1d5db',
+    marginTop: 3,
+  },
+  milestoneLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#e5e7eb',
+    marginVertical: 2,
+  },
+  milestoneContent: {
+    flex: 1,
+    paddingLeft: 8,
+    paddingBottom: 16,
+  },
+  milestoneRank: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  milestoneMeta: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  milestoneDuration: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 2,
+  },
+});
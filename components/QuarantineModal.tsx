@@ -0,0 +1,260 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { X, ShieldCheck, Trash2 } from 'lucide-react-native';
+import { QuarantinedRecord, QuarantineEntity } from '@/types/quarantine';
+import { getQuarantinedRecords, discardQuarantinedRecord } from '@/services/api';
+import { isRecord, isNonEmptyString, parseDate } from '@/utils/recordValidation';
+import { formatDetailDate, formatDateTime } from '@/utils/dateFormatters';
+
+interface QuarantineModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onDiscarded: () => Promise<void>;
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+const ENTITY_LABELS: Record<QuarantineEntity, string> = {
+  technique: 'Technique',
+  session: 'Session',
+  profile: 'Profile',
+};
+
+// The payload failed validation, so only fields that still look right are shown
+const describeRecord = (record: QuarantinedRecord): string => {
+  const label = ENTITY_LABELS[record.entity];
+  if (!isRecord(record.payload)) return label;
+
+  if (isNonEmptyString(record.payload.name)) {
+    return `${label} "${record.payload.name}"`;
+  }
+  const date = parseDate(record.payload.date);
+  return date ? `${label} · ${formatDetailDate(date)}` : label;
+};
+
+const describeSource = (record: QuarantinedRecord): string =>
+  `${record.source === 'database' ? 'Found on this device' : 'Sent by the server'} · ${formatDateTime(record.detectedAt)}`;
+
+export default function QuarantineModal({ visible, onClose, onDiscarded, onError, onSuccess }: QuarantineModalProps) {
+  const [records, setRecords] = useState<QuarantinedRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyRecordId, setBusyRecordId] = useState<number | null>(null);
+
+  const loadRecords = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setRecords(await getQuarantinedRecords());
+    } catch (error) {
+      console.error('Error loading quarantined records:', error);
+      setRecords([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (visible) {
+      loadRecords();
+    }
+  }, [visible, loadRecords]);
+
+  const handleDiscard = (record: QuarantinedRecord) => {
+    const message = record.source === 'database'
+      ? `Delete "${describeRecord(record)}" from this device? It can't be shown until it is fixed, and this can't be undone.`
+      : `Discard "${describeRecord(record)}"? It was never saved on this device.`;
+
+    Alert.alert('Discard Record', message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Discard',
+        style: 'destructive',
+        onPress: async () => {
+          setBusyRecordId(record.id);
+          try {
+            await discardQuarantinedRecord(record.id);
+            await loadRecords();
+            await onDiscarded();
+            onSuccess('Record discarded');
+          } catch (error) {
+            console.error('Error discarding quarantined record:', error);
+            onError('Failed to discard. Please try again.');
+          } finally {
+            setBusyRecordId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderRecord = (record: QuarantinedRecord) => (
+    <View key={record.id} style={styles.itemCard}>
+      <View style={styles.accent} />
+      <View style={styles.itemInfo}>
+        <Text style={styles.itemTitle} numberOfLines={1}>{describeRecord(record)}</Text>
+        <Text style={styles.itemMeta}>{describeSource(record)}</Text>
+        {record.errors.map((error, index) => (
+          <Text key={index} style={styles.itemError} numberOfLines={2}>• {error}</Text>
+        ))}
+      </View>
+      <View style={styles.itemActions}>
+        {busyRecordId === record.id ? (
+          <ActivityIndicator color="#5271ff" />
+        ) : (
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleDiscard(record)}
+            disabled={busyRecordId !== null}
+            activeOpacity={0.7}
+          >
+            <Trash2 size={18} color="#ef4444" />
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerLeft}>
+            <Text style={styles.headerTitle}>Invalid Records</Text>
+          </View>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <X size={24} color="#6b7280" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content}>
+          <Text style={styles.description}>
+            These records have values the app doesn&apos;t understand, so they are hidden instead of shown.
+            A record comes back on its own once a valid version is saved or synced.
+          </Text>
+
+          {isLoading && records.length === 0 ? (
+            <ActivityIndicator style={styles.loading} color="#5271ff" />
+          ) : records.length === 0 ? (
+            <View style={styles.emptyState}>
+              <ShieldCheck size={48} color="#9ca3af" />
+              <Text style={styles.emptyTitle}>All Records Valid</Text>
+            </View>
+          ) : (
+            records.map(renderRecord)
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  headerLeft: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  description: {
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    marginTop: 40,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 12,
+  },
+  itemCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  accent: {
+    width: 4,
+    alignSelf: 'stretch',
+    borderRadius: 2,
+    marginRight: 12,
+    backgroundColor: '#ef4444',
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 4,
+  },
+  itemMeta: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginBottom: 4,
+  },
+  itemError: {
+    fontSize: 13,
+    color: '#ef4444',
+  },
+  itemActions: {
+    marginLeft: 12,
+  },
+  actionButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#f3f4f6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
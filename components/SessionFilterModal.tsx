@@ -14,25 +14,14 @@ import {
 } from 'react-native';
 import { PanGestureHandler, State } from 'react-native-gesture-handler';
 import { X, Calendar, MapPin, Target, RotateCcw, ChevronDown } from 'lucide-react-native';
-import { SessionType } from '@/types/session';
-import { getLocationsFromDb, getUniqueSubmissionsFromDb } from '@/services/database';
+import { SessionType, SessionFilters } from '@/types/session';
+import { getLocations, getUniqueSubmissions } from '@/services/storage';
 import KeyboardDismissButton from '@/components/KeyboardDismissButton';
 import SimpleDatePicker from '@/components/SimpleDatePicker';
 import { useFilterModal } from '@/contexts/FilterModalContext';
 import { useModalAnimation } from '@/hooks/useModalAnimation';
 import StarRating from '@/components/StarRating';
 
-interface SessionFilters {
-  dateRange: {
-    startDate: Date | null;
-    endDate: Date | null;
-  };
-  location: string;
-  sessionTypes: SessionType[];
-  submission: string;
-  satisfaction: number | null;
-}
-
 interface SessionFilterModalProps {
   visible: boolean;
   filters: SessionFilters;
@@ -89,8 +78,8 @@ export default function SessionFilterModal({
   const loadData = async () => {
     try {
       const [locations, submissions] = await Promise.all([
-        getLocationsFromDb(),
-        getUniqueSubmissionsFromDb()
+        getLocations(),
+        getUniqueSubmissions()
       ]);
       setAvailableLocations(locations);
       setAvailableSubmissions(submissions);
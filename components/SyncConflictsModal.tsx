@@ -0,0 +1,321 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { X, GitMerge, Smartphone, Cloud } from 'lucide-react-native';
+import { Technique } from '@/types/technique';
+import { TrainingSession } from '@/types/session';
+import { SyncConflict, SyncRecord, ConflictSide } from '@/types/sync';
+import { getSyncConflicts, resolveSyncConflict } from '@/services/sync';
+import { getSessionTypeLabel } from '@/constants/colors';
+import { formatDetailDate } from '@/utils/dateFormatters';
+
+interface SyncConflictsModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onResolved: () => Promise<void>;
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  deleted: 'Deleted',
+  name: 'Name',
+  category: 'Category',
+  notes: 'Notes',
+  timestamp: 'Date added',
+  sessionId: 'Session',
+  date: 'Date',
+  location: 'Location',
+  type: 'Type',
+  satisfaction: 'Satisfaction',
+};
+
+const describeConflict = (conflict: SyncConflict): string => {
+  if (conflict.entity === 'technique') {
+    return `Technique "${(conflict.merged as Technique).name}"`;
+  }
+  const session = conflict.merged as TrainingSession;
+  return `${getSessionTypeLabel(session.type)} session · ${formatDetailDate(session.date)}`;
+};
+
+const formatValue = (record: SyncRecord, field: string): string => {
+  if (field === 'deleted') return record.deletedAt ? 'Deleted' : 'Kept and edited';
+
+  const value = (record as unknown as Record<string, unknown>)[field];
+  if (value instanceof Date) return formatDetailDate(value);
+  if (field === 'type') return getSessionTypeLabel(value as TrainingSession['type']);
+  if (field === 'satisfaction') return `${value} / 5`;
+  if (field === 'sessionId') return value ? 'Linked to a session' : 'No session';
+  if (value === null || value === undefined || value === '') return 'None';
+  return String(value);
+};
+
+export default function SyncConflictsModal({ visible, onClose, onResolved, onError, onSuccess }: SyncConflictsModalProps) {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [choices, setChoices] = useState<Record<number, Record<string, ConflictSide>>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [savingId, setSavingId] = useState<number | null>(null);
+
+  const loadConflicts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setConflicts(await getSyncConflicts());
+    } catch (error) {
+      console.error('Error loading sync conflicts:', error);
+      setConflicts([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (visible) {
+      setChoices({});
+      loadConflicts();
+    }
+  }, [visible, loadConflicts]);
+
+  const choose = (conflictId: number, field: string, side: ConflictSide) => {
+    setChoices(prev => ({ ...prev, [conflictId]: { ...prev[conflictId], [field]: side } }));
+  };
+
+  const handleSave = async (conflict: SyncConflict) => {
+    setSavingId(conflict.id);
+    try {
+      await resolveSyncConflict(conflict, choices[conflict.id] ?? {});
+      await loadConflicts();
+      await onResolved();
+      onSuccess('Conflict resolved');
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error);
+      onError('Failed to save. Please try again.');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const renderOption = (conflict: SyncConflict, field: string, side: ConflictSide) => {
+    const record = side === 'local' ? conflict.local : conflict.remote;
+    const isSelected = (choices[conflict.id]?.[field] ?? 'local') === side;
+    const Icon = side === 'local' ? Smartphone : Cloud;
+
+    return (
+      <TouchableOpacity
+        key={side}
+        style={[styles.option, isSelected && styles.optionSelected]}
+        onPress={() => choose(conflict.id, field, side)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.optionHeader}>
+          <Icon size={14} color={isSelected ? '#5271ff' : '#6b7280'} />
+          <Text style={[styles.optionLabel, isSelected && styles.optionLabelSelected]}>
+            {side === 'local' ? 'This device' : 'Other device'}
+          </Text>
+        </View>
+        <Text style={styles.optionValue} numberOfLines={4}>{formatValue(record, field)}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderConflict = (conflict: SyncConflict) => (
+    <View key={conflict.id} style={styles.itemCard}>
+      <Text style={styles.itemTitle} numberOfLines={1}>{describeConflict(conflict)}</Text>
+      <Text style={styles.itemMeta}>Changed on both devices</Text>
+
+      {conflict.fields.map(field => (
+        <View key={field} style={styles.field}>
+          <Text style={styles.fieldLabel}>{FIELD_LABELS[field] ?? field}</Text>
+          <View style={styles.options}>
+            {renderOption(conflict, field, 'local')}
+            {renderOption(conflict, field, 'remote')}
+          </View>
+        </View>
+      ))}
+
+      <TouchableOpacity
+        style={[styles.saveButton, savingId !== null && styles.saveButtonDisabled]}
+        onPress={() => handleSave(conflict)}
+        disabled={savingId !== null}
+      >
+        {savingId === conflict.id ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={styles.saveButtonText}>Keep Selected</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerLeft}>
+            <Text style={styles.headerTitle}>Sync Conflicts</Text>
+          </View>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <X size={24} color="#6b7280" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content}>
+          <Text style={styles.description}>
+            These were changed on this device and on another one before they could sync.
+            Everything else was merged. Pick which version of each field to keep.
+          </Text>
+
+          {isLoading && conflicts.length === 0 ? (
+            <ActivityIndicator style={styles.loading} color="#5271ff" />
+          ) : conflicts.length === 0 ? (
+            <View style={styles.emptyState}>
+              <GitMerge size={48} color="#9ca3af" />
+              <Text style={styles.emptyTitle}>Nothing to Review</Text>
+            </View>
+          ) : (
+            conflicts.map(renderConflict)
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  headerLeft: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  description: {
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    marginTop: 40,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 12,
+  },
+  itemCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 4,
+  },
+  itemMeta: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  field: {
+    marginTop: 16,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  options: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  option: {
+    flex: 1,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f9fafb',
+    padding: 12,
+  },
+  optionSelected: {
+    borderColor: '#5271ff',
+    backgroundColor: '#eef2ff',
+  },
+  optionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 6,
+  },
+  optionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  optionLabelSelected: {
+    color: '#5271ff',
+  },
+  optionValue: {
+    fontSize: 14,
+    color: '#1f2937',
+  },
+  saveButton: {
+    backgroundColor: '#5271ff',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
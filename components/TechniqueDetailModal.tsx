@@ -11,12 +11,13 @@ import {
   TouchableOpacity,
 } from 'react-native';
 import { PanGestureHandler, State } from 'react-native-gesture-handler';
-import { Pencil, Trash2, FileText, Calendar, Link2, ExternalLink } from 'lucide-react-native';
+import { Pencil, Trash2, FileText, Calendar, Link2, ExternalLink, History } from 'lucide-react-native';
 import { Technique } from '@/types/technique';
 import * as Linking from 'expo-linking';
 import { useModalAnimation } from '@/hooks/useModalAnimation';
 import { CATEGORY_COLORS } from '@/constants/colors';
 import { FloatingCloseButton } from './FloatingCloseButton';
+import TechniqueHistoryModal from './TechniqueHistoryModal';
 
 interface TechniqueDetailModalProps {
   visible: boolean;
@@ -24,6 +25,7 @@ interface TechniqueDetailModalProps {
   onClose: () => void;
   onEdit?: (technique: Technique) => void;
   onDelete?: (technique: Technique) => void;
+  onRestoreRevision?: (technique: Technique) => Promise<void>;
 }
 
 const { height: screenHeight } = Dimensions.get('window');
@@ -34,9 +36,11 @@ export default function TechniqueDetailModal({
   onClose,
   onEdit,
   onDelete,
+  onRestoreRevision,
 }: TechniqueDetailModalProps) {
   const lastGestureY = useRef(0);
   const [showCloseButton, setShowCloseButton] = useState(true);
+  const [showHistory, setShowHistory] = useState(false);
   
   const modalAnimation = useModalAnimation(visible, { type: 'slide', duration: 300 });
   const { 
@@ -51,6 +55,8 @@ export default function TechniqueDetailModal({
   useEffect(() => {
     if (visible) {
       setShowCloseButton(true);
+    } else {
+      setShowHistory(false);
     }
   }, [visible]);
 
@@ -143,6 +149,14 @@ export default function TechniqueDetailModal({
               <View style={styles.headerWithClose}>
                 <Text style={styles.headerTitle}>{technique.name}</Text>
                 <View style={styles.actionButtons}>
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.historyButton]}
+                    onPress={() => setShowHistory(true)}
+                    activeOpacity={0.7}
+                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                  >
+                    <History size={20} color="#5271ff" />
+                  </TouchableOpacity>
                   {onEdit && (
                     <TouchableOpacity
                       style={[styles.actionButton, styles.editButton]}
@@ -275,6 +289,13 @@ export default function TechniqueDetailModal({
         </View>
       </Animated.View>
       {showCloseButton && <FloatingCloseButton onPress={animateClose} />}
+
+      <TechniqueHistoryModal
+        visible={showHistory}
+        technique={technique}
+        onClose={() => setShowHistory(false)}
+        onRestore={onRestoreRevision}
+      />
     </Modal>
   );
 }
@@ -349,6 +370,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     borderWidth: 1,
   },
+  historyButton: {
+    borderColor: '#5271ff',
+  },
   editButton: {
     borderColor: '#3b82f6',
   },
@@ -14,17 +14,12 @@ import {
 import { useModalAnimation } from '@/hooks/useModalAnimation';
 import { PanGestureHandler, State } from 'react-native-gesture-handler';
 import { X, RotateCcw, ChevronDown, Search } from 'lucide-react-native';
-import { TechniqueCategory } from '@/types/technique';
-import { getAllTagsFromDb } from '@/services/database';
+import { TechniqueCategory, TechniqueFilters } from '@/types/technique';
+import { TagService } from '@/services/tagService';
 import KeyboardDismissButton from '@/components/KeyboardDismissButton';
 import { useFilterModal } from '@/contexts/FilterModalContext';
 import { CATEGORY_COLORS } from '@/constants/colors';
 
-interface TechniqueFilters {
-  category: TechniqueCategory | null;
-  tags: string[];
-}
-
 interface TechniqueFilterModalProps {
   visible: boolean;
   filters: TechniqueFilters;
@@ -82,7 +77,7 @@ export default function TechniqueFilterModal({
 
   const loadTags = async () => {
     try {
-      const tags = await getAllTagsFromDb();
+      const tags = await TagService.getAllTags();
       // Filter to only show tags that are actually used in techniques
       const usedTags = tags.filter(tag => tag.usageCount > 0);
       const tagNames = usedTags.map(tag => tag.name);
@@ -0,0 +1,465 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { X, History, RotateCcw } from 'lucide-react-native';
+import { Technique, TechniqueLink, TechniqueRevision } from '@/types/technique';
+import { getTechniqueRevisions } from '@/services/api';
+import { formatDateTime } from '@/utils/dateFormatters';
+import { diffLinesSideBySide, DiffSegment } from '@/utils/textDiff';
+
+interface TechniqueHistoryModalProps {
+  visible: boolean;
+  technique: Technique;
+  onClose: () => void;
+  onRestore?: (technique: Technique) => Promise<void>;
+}
+
+type RevisionContent = Pick<Technique, 'name' | 'category' | 'tags' | 'notes' | 'links'>;
+
+const linkLabel = (link: { url: string; title?: string }) => link.title || link.url;
+
+const linksKey = (links?: TechniqueLink[]) => (links ?? []).map(link => `${link.url} ${link.title ?? ''}`).join('\n');
+
+const isSameContent = (a: RevisionContent, b: RevisionContent): boolean =>
+  a.name === b.name &&
+  a.category === b.category &&
+  (a.notes || '') === (b.notes || '') &&
+  a.tags.join('\n') === b.tags.join('\n') &&
+  linksKey(a.links) === linksKey(b.links);
+
+const describeChanges = (revision: TechniqueRevision, previous?: TechniqueRevision): string => {
+  if (!previous) return 'First saved version';
+
+  const changed: string[] = [];
+  if (revision.name !== previous.name) changed.push('name');
+  if (revision.category !== previous.category) changed.push('category');
+  if (revision.tags.join('\n') !== previous.tags.join('\n')) changed.push('tags');
+  if ((revision.notes || '') !== (previous.notes || '')) changed.push('notes');
+  if (linksKey(revision.links) !== linksKey(previous.links)) changed.push('links');
+
+  return changed.length > 0 ? `Changed ${changed.join(', ')}` : 'No changes';
+};
+
+export default function TechniqueHistoryModal({ visible, technique, onClose, onRestore }: TechniqueHistoryModalProps) {
+  const [revisions, setRevisions] = useState<TechniqueRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await getTechniqueRevisions(technique.id);
+      setRevisions(result);
+      setSelectedId(result[0]?.id ?? null);
+    } catch (error) {
+      console.error('Error loading technique revisions:', error);
+      setRevisions([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [technique.id]);
+
+  useEffect(() => {
+    if (visible) {
+      loadRevisions();
+    }
+  }, [visible, loadRevisions]);
+
+  const handleRestore = (revision: TechniqueRevision) => {
+    if (!onRestore) return;
+
+    Alert.alert(
+      'Restore Version',
+      `Replace the current name, category, tags, notes and links with the version from ${formatDateTime(revision.createdAt)}? The current version stays in the history.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          onPress: async () => {
+            setIsRestoring(true);
+            try {
+              await onRestore({
+                ...technique,
+                name: revision.name,
+                category: revision.category,
+                tags: revision.tags,
+                notes: revision.notes,
+                links: revision.links,
+              });
+              await loadRevisions();
+            } finally {
+              setIsRestoring(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderSegments = (segments: DiffSegment[], highlightStyle: object) =>
+    segments.map((segment, index) => (
+      <Text key={index} style={segment.changed ? highlightStyle : undefined}>
+        {segment.text}
+      </Text>
+    ));
+
+  const renderNotesDiff = (revision: TechniqueRevision, previous?: TechniqueRevision) => {
+    const before = previous?.notes || '';
+    const after = revision.notes || '';
+
+    if (before === after) {
+      return <Text style={styles.unchangedText}>{after ? 'Notes unchanged' : 'No notes'}</Text>;
+    }
+
+    const rows = diffLinesSideBySide(before, after);
+    return (
+      <View style={styles.diffTable}>
+        <View style={styles.diffRow}>
+          <Text style={[styles.diffHeader, styles.diffCell]}>Before</Text>
+          <Text style={[styles.diffHeader, styles.diffCell]}>This Version</Text>
+        </View>
+        {rows.map((row, index) => (
+          <View key={index} style={styles.diffRow}>
+            <Text
+              style={[
+                styles.diffCell,
+                styles.diffText,
+                row.before && row.type !== 'equal' && styles.removedCell,
+                !row.before && styles.emptyCell,
+              ]}
+            >
+              {row.before && renderSegments(row.before, styles.removedWord)}
+            </Text>
+            <Text
+              style={[
+                styles.diffCell,
+                styles.diffText,
+                row.after && row.type !== 'equal' && styles.addedCell,
+                !row.after && styles.emptyCell,
+              ]}
+            >
+              {row.after && renderSegments(row.after, styles.addedWord)}
+            </Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderFieldChanges = (revision: TechniqueRevision, previous?: TechniqueRevision) => {
+    if (!previous) return null;
+
+    const changes: string[] = [];
+    if (revision.name !== previous.name) changes.push(`Name: ${previous.name} → ${revision.name}`);
+    if (revision.category !== previous.category) changes.push(`Category: ${previous.category} → ${revision.category}`);
+
+    const addedTags = revision.tags.filter(tag => !previous.tags.includes(tag));
+    const removedTags = previous.tags.filter(tag => !revision.tags.includes(tag));
+    if (addedTags.length > 0) changes.push(`Tags added: ${addedTags.join(', ')}`);
+    if (removedTags.length > 0) changes.push(`Tags removed: ${removedTags.join(', ')}`);
+
+    const previousLinks = (previous.links ?? []).map(linkLabel);
+    const revisionLinks = (revision.links ?? []).map(linkLabel);
+    const addedLinks = revisionLinks.filter(link => !previousLinks.includes(link));
+    const removedLinks = previousLinks.filter(link => !revisionLinks.includes(link));
+    if (addedLinks.length > 0) changes.push(`Links added: ${addedLinks.join(', ')}`);
+    if (removedLinks.length > 0) changes.push(`Links removed: ${removedLinks.join(', ')}`);
+
+    if (changes.length === 0) return null;
+
+    return (
+      <View style={styles.fieldChanges}>
+        {changes.map(change => (
+          <Text key={change} style={styles.fieldChangeText}>{change}</Text>
+        ))}
+      </View>
+    );
+  };
+
+  // A restored version appears twice; only its newest copy is the current one
+  const currentIndex = revisions.findIndex(revision => isSameContent(revision, technique));
+
+  const renderRevision = (revision: TechniqueRevision, index: number) => {
+    const previous = revisions[index + 1];
+    const isSelected = revision.id === selectedId;
+    const isCurrent = index === currentIndex;
+    const canRestore = onRestore && !isSameContent(revision, technique);
+
+    return (
+      <View key={revision.id} style={[styles.revisionCard, isSelected && styles.revisionCardSelected]}>
+        <TouchableOpacity
+          onPress={() => setSelectedId(isSelected ? null : revision.id)}
+          activeOpacity={0.7}
+        >
+          <View style={styles.revisionHeader}>
+            <Text style={styles.revisionDate}>{formatDateTime(revision.createdAt)}</Text>
+            {isCurrent && (
+              <View style={styles.currentBadge}>
+                <Text style={styles.currentBadgeText}>Current</Text>
+              </View>
+            )}
+          </View>
+          <Text style={styles.revisionSummary}>{describeChanges(revision, previous)}</Text>
+        </TouchableOpacity>
+
+        {isSelected && (
+          <View style={styles.revisionDetail}>
+            {renderFieldChanges(revision, previous)}
+            {renderNotesDiff(revision, previous)}
+
+            {canRestore && (
+              <TouchableOpacity
+                style={[styles.restoreButton, isRestoring && styles.restoreButtonDisabled]}
+                onPress={() => handleRestore(revision)}
+                disabled={isRestoring}
+                activeOpacity={0.7}
+              >
+                {isRestoring ? (
+                  <ActivityIndicator color="#5271ff" />
+                ) : (
+                  <>
+                    <RotateCcw size={16} color="#5271ff" />
+                    <Text style={styles.restoreButtonText}>Restore This Version</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerLeft}>
+            <Text style={styles.headerTitle}>History</Text>
+            <Text style={styles.headerSubtitle} numberOfLines={1}>{technique.name}</Text>
+          </View>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <X size={24} color="#6b7280" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content}>
+          {isLoading && revisions.length === 0 ? (
+            <ActivityIndicator style={styles.loading} color="#5271ff" />
+          ) : revisions.length === 0 ? (
+            <View style={styles.emptyState}>
+              <History size={48} color="#9ca3af" />
+              <Text style={styles.emptyTitle}>No Earlier Versions</Text>
+              <Text style={styles.emptyText}>
+                A new version is saved each time you change this technique&apos;s name, category, tags, notes or links.
+              </Text>
+            </View>
+          ) : (
+            <>
+              <Text style={styles.description}>
+                Tap a version to see what changed from the one before it.
+              </Text>
+              {revisions.map(renderRevision)}
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  headerLeft: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  description: {
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    marginTop: 40,
+    paddingHorizontal: 20,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    lineHeight: 20,
+    marginTop: 8,
+  },
+  revisionCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  revisionCardSelected: {
+    borderColor: '#5271ff',
+  },
+  revisionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  revisionDate: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  revisionSummary: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  currentBadge: {
+    backgroundColor: '#eef2ff',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  currentBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#5271ff',
+  },
+  revisionDetail: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f3f4f6',
+    gap: 12,
+  },
+  fieldChanges: {
+    gap: 4,
+  },
+  fieldChangeText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  unchangedText: {
+    fontSize: 14,
+    color: '#9ca3af',
+    fontStyle: 'italic',
+  },
+  diffTable: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  diffRow: {
+    flexDirection: 'row',
+  },
+  diffCell: {
+    flex: 1,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  diffHeader: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6b7280',
+    backgroundColor: '#f9fafb',
+  },
+  diffText: {
+    fontSize: 13,
+    color: '#374151',
+    lineHeight: 18,
+  },
+  removedCell: {
+    backgroundColor: '#fef2f2',
+  },
+  addedCell: {
+    backgroundColor: '#f0fdf4',
+  },
+  emptyCell: {
+    backgroundColor: '#f9fafb',
+  },
+  removedWord: {
+    backgroundColor: '#fecaca',
+    textDecorationLine: 'line-through',
+  },
+  addedWord: {
+    backgroundColor: '#bbf7d0',
+  },
+  restoreButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#5271ff',
+  },
+  restoreButtonDisabled: {
+    opacity: 0.5,
+  },
+  restoreButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#5271ff',
+  },
+});
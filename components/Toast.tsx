@@ -10,12 +10,18 @@ import { CheckCircle, AlertCircle, X } from 'lucide-react-native';
 
 export type ToastType = 'success' | 'error';
 
+export interface ToastAction {
+  label: string;
+  onPress: () => void;
+}
+
 interface ToastProps {
   message: string;
   type: ToastType;
   visible: boolean;
   onClose: () => void;
   duration?: number;
+  action?: ToastAction;
 }
 
 export default function Toast({
@@ -24,6 +30,7 @@ export default function Toast({
   visible,
   onClose,
   duration = 3000,
+  action,
 }: ToastProps) {
   const translateY = useRef(new Animated.Value(-100)).current;
   const opacity = useRef(new Animated.Value(0)).current;
@@ -104,6 +111,11 @@ export default function Toast({
 
   const config = getToastConfig();
 
+  const handleActionPress = () => {
+    action?.onPress();
+    hideToast();
+  };
+
   if (!visible) {
     return null;
   }
@@ -122,6 +134,15 @@ export default function Toast({
       <View style={styles.content}>
         {config.icon}
         <Text style={styles.message}>{message}</Text>
+        {action && (
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={handleActionPress}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.actionText}>{action.label}</Text>
+          </TouchableOpacity>
+        )}
         <TouchableOpacity
           style={styles.closeButton}
           onPress={hideToast}
@@ -165,6 +186,17 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     lineHeight: 20,
   },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  actionText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
   closeButton: {
     padding: 4,
   },
@@ -0,0 +1,379 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { X, Trash2, RotateCcw } from 'lucide-react-native';
+import { TrashContents, TRASH_RETENTION_DAYS } from '@/types/trash';
+import { getTrash, restoreTechnique, restoreSession, purgeTechnique, purgeSession, emptyTrash } from '@/services/api';
+import { getCategoryColor, SESSION_TYPE_LABELS } from '@/constants/colors';
+import { formatDetailDate } from '@/utils/dateFormatters';
+
+interface TrashModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onRestored: () => Promise<void>;
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getDaysLeft = (deletedAt: Date): number =>
+  Math.max(0, Math.ceil((deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS - Date.now()) / DAY_MS));
+
+export default function TrashModal({ visible, onClose, onRestored, onError, onSuccess }: TrashModalProps) {
+  const [trash, setTrash] = useState<TrashContents>({ techniques: [], sessions: [] });
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+  const [isEmptying, setIsEmptying] = useState(false);
+
+  const loadTrash = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setTrash(await getTrash());
+    } catch (error) {
+      console.error('Error loading trash:', error);
+      setTrash({ techniques: [], sessions: [] });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (visible) {
+      loadTrash();
+    }
+  }, [visible, loadTrash]);
+
+  const isEmpty = trash.techniques.length === 0 && trash.sessions.length === 0;
+
+  const handleRestore = async (kind: 'technique' | 'session', id: string) => {
+    setBusyItemId(id);
+    try {
+      if (kind === 'technique') {
+        await restoreTechnique(id);
+      } else {
+        await restoreSession(id);
+      }
+      await onRestored();
+      await loadTrash();
+      onSuccess(kind === 'technique' ? 'Technique restored' : 'Session restored');
+    } catch (error) {
+      console.error('Error restoring from trash:', error);
+      onError('Failed to restore. Please try again.');
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  const handlePurge = (kind: 'technique' | 'session', id: string, label: string) => {
+    Alert.alert(
+      'Delete Permanently',
+      `Permanently delete ${label}? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setBusyItemId(id);
+            try {
+              if (kind === 'technique') {
+                await purgeTechnique(id);
+              } else {
+                await purgeSession(id);
+              }
+              await loadTrash();
+            } catch (error) {
+              console.error('Error purging from trash:', error);
+              onError('Failed to delete. Please try again.');
+            } finally {
+              setBusyItemId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      'Empty Trash',
+      'Permanently delete everything in the trash? This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty Trash',
+          style: 'destructive',
+          onPress: async () => {
+            setIsEmptying(true);
+            try {
+              const purged = await emptyTrash();
+              await loadTrash();
+              onSuccess(`Permanently deleted ${purged} items`);
+            } catch (error) {
+              console.error('Error emptying trash:', error);
+              onError('Failed to empty trash. Please try again.');
+            } finally {
+              setIsEmptying(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderItem = (
+    kind: 'technique' | 'session',
+    id: string,
+    title: string,
+    accentColor: string,
+    deletedAt: Date
+  ) => (
+    <View key={id} style={styles.itemCard}>
+      <View style={[styles.accent, { backgroundColor: accentColor }]} />
+      <View style={styles.itemInfo}>
+        <Text style={styles.itemTitle} numberOfLines={1}>{title}</Text>
+        <Text style={styles.itemMeta}>
+          Deleted {formatDetailDate(deletedAt)} · {getDaysLeft(deletedAt)} days left
+        </Text>
+      </View>
+      <View style={styles.itemActions}>
+        {busyItemId === id ? (
+          <ActivityIndicator color="#5271ff" />
+        ) : (
+          <>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => handleRestore(kind, id)}
+              disabled={busyItemId !== null || isEmptying}
+              activeOpacity={0.7}
+            >
+              <RotateCcw size={18} color="#5271ff" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => handlePurge(kind, id, `"${title}"`)}
+              disabled={busyItemId !== null || isEmptying}
+              activeOpacity={0.7}
+            >
+              <Trash2 size={18} color="#ef4444" />
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerLeft}>
+            <Text style={styles.headerTitle}>Trash</Text>
+          </View>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <X size={24} color="#6b7280" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content}>
+          <Text style={styles.description}>
+            Deleted techniques and sessions are kept here for {TRASH_RETENTION_DAYS} days, then removed permanently.
+          </Text>
+
+          {isLoading && isEmpty ? (
+            <ActivityIndicator style={styles.loading} color="#5271ff" />
+          ) : isEmpty ? (
+            <View style={styles.emptyState}>
+              <Trash2 size={48} color="#9ca3af" />
+              <Text style={styles.emptyTitle}>Trash is Empty</Text>
+            </View>
+          ) : (
+            <>
+              {trash.sessions.length > 0 && (
+                <View style={styles.section}>
+                  <Text style={styles.label}>Sessions</Text>
+                  {trash.sessions.map(session =>
+                    renderItem(
+                      'session',
+                      session.id,
+                      `${SESSION_TYPE_LABELS[session.type]} · ${formatDetailDate(session.date)}${session.location ? ` · ${session.location}` : ''}`,
+                      '#5271ff',
+                      session.deletedAt
+                    )
+                  )}
+                </View>
+              )}
+
+              {trash.techniques.length > 0 && (
+                <View style={styles.section}>
+                  <Text style={styles.label}>Techniques</Text>
+                  {trash.techniques.map(technique =>
+                    renderItem(
+                      'technique',
+                      technique.id,
+                      technique.name,
+                      getCategoryColor(technique.category),
+                      technique.deletedAt
+                    )
+                  )}
+                </View>
+              )}
+            </>
+          )}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.emptyButton, (isEmpty || isEmptying) && styles.emptyButtonDisabled]}
+            onPress={handleEmptyTrash}
+            disabled={isEmpty || isEmptying}
+          >
+            {isEmptying ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.emptyButtonText}>Empty Trash</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  headerLeft: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  description: {
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    marginTop: 40,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 12,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  itemCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  accent: {
+    width: 4,
+    alignSelf: 'stretch',
+    borderRadius: 2,
+    marginRight: 12,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 4,
+  },
+  itemMeta: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  itemActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginLeft: 12,
+  },
+  actionButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#f3f4f6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  emptyButton: {
+    backgroundColor: '#ef4444',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  emptyButtonDisabled: {
+    opacity: 0.5,
+  },
+  emptyButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  Linking,
+  ActivityIndicator,
+} from 'react-native';
+import { CircleArrowUp } from 'lucide-react-native';
+import { CompatibilityReport } from '@/types/health';
+
+interface UpdateRequiredScreenProps {
+  report: CompatibilityReport;
+  onRetry: () => Promise<void>;
+}
+
+export default function UpdateRequiredScreen({ report, onRetry }: UpdateRequiredScreenProps) {
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleUpdate = () => {
+    if (!report.updateUrl) return;
+    Linking.openURL(report.updateUrl).catch(error => {
+      console.error('Error opening update link:', error);
+    });
+  };
+
+  const handleRetry = async () => {
+    setIsChecking(true);
+    try {
+      await onRetry();
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.top}>
+        <View style={styles.iconCircle}>
+          <CircleArrowUp size={32} color="#5271ff" />
+        </View>
+        <Text style={styles.title}>Update Required</Text>
+        <Text style={styles.subtitle}>
+          {report.message ?? 'This version of FlowRoll can no longer sync with the server.'}
+        </Text>
+        <Text style={styles.versions}>
+          You have version {report.currentVersion}
+          {report.minClientVersion ? `. Version ${report.minClientVersion} or later is required.` : '.'}
+        </Text>
+        <Text style={styles.note}>Your data is safe on this device and will sync once you update.</Text>
+      </View>
+
+      <View style={styles.actions}>
+        {report.updateUrl && (
+          <TouchableOpacity style={styles.updateButton} onPress={handleUpdate}>
+            <Text style={styles.updateButtonText}>Update FlowRoll</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity onPress={handleRetry} style={styles.retryButton} disabled={isChecking}>
+          {isChecking ? (
+            <ActivityIndicator color="#5271ff" />
+          ) : (
+            <Text style={styles.retryText}>Check Again</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+    justifyContent: 'space-between',
+    paddingVertical: 24,
+  },
+  top: {
+    alignItems: 'center',
+    paddingTop: 96,
+    paddingHorizontal: 32,
+  },
+  iconCircle: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: '#eef2ff',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#374151',
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 16,
+  },
+  versions: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  note: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  actions: {
+    paddingHorizontal: 24,
+    gap: 8,
+  },
+  updateButton: {
+    backgroundColor: '#5271ff',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  updateButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  retryButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    minHeight: 44,
+  },
+  retryText: {
+    fontSize: 15,
+    color: '#5271ff',
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,4 @@
+import Constants from 'expo-constants';
+
+// App version reported in exports and API headers
+export const APP_VERSION = Constants.expoConfig?.version ?? '1.0.0';
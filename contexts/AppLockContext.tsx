@@ -0,0 +1,129 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { AppState, Modal } from 'react-native';
+import { AppLockSettings, APP_LOCK_OFF, PinCheckResult } from '@/types/appLock';
+import { isAppLockSupported, getAppLockSettings, unlockWithPin, resetAppLock } from '@/services/appLock';
+import { clearAllData } from '@/services/api';
+import { deleteAllBackups } from '@/services/backup';
+import { deleteOtherAthleteStorage } from '@/services/storage';
+import LockScreen from '@/components/LockScreen';
+
+interface AppLockContextType {
+  isSupported: boolean;
+  settings: AppLockSettings;
+  // Re-read the settings after changing them through the app lock service
+  refreshSettings: () => Promise<void>;
+}
+
+type LockStatus = 'checking' | 'locked' | 'unlocked';
+
+const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+/**
+ * Shows the lock screen on cold start and when the app returns from the background after
+ * the lock timeout. Nothing below this provider is mounted until the first unlock, so no
+ * data is loaded while encrypted notes can't be read. Later locks cover the app instead.
+ */
+export function AppLockProvider({ children }: { children: ReactNode }) {
+  const [settings, setSettings] = useState<AppLockSettings>(APP_LOCK_OFF);
+  const [status, setStatus] = useState<LockStatus>('checking');
+  const [hasUnlocked, setHasUnlocked] = useState(false);
+  // Bumped when data is erased, so everything below remounts and loads afresh
+  const [dataGeneration, setDataGeneration] = useState(0);
+  const backgroundedAt = useRef<number | null>(null);
+
+  useEffect(() => {
+    const loadLock = async () => {
+      try {
+        const lockSettings = await getAppLockSettings();
+        setSettings(lockSettings);
+        setStatus(lockSettings.enabled ? 'locked' : 'unlocked');
+        setHasUnlocked(!lockSettings.enabled);
+      } catch (error) {
+        // Fail locked. The lock screen still offers to erase everything if the PIN can't be checked.
+        console.error('Error loading app lock settings:', error);
+        setSettings({ ...APP_LOCK_OFF, enabled: true });
+        setStatus('locked');
+      }
+    };
+
+    loadLock();
+  }, []);
+
+  useEffect(() => {
+    if (!settings.enabled) return;
+
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'background') {
+        backgroundedAt.current = Date.now();
+      } else if (nextState === 'active' && backgroundedAt.current !== null) {
+        const awayFor = Date.now() - backgroundedAt.current;
+        backgroundedAt.current = null;
+        if (awayFor >= settings.timeoutMs) {
+          setStatus('locked');
+        }
+      }
+    });
+
+    return () => subscription.remove();
+  }, [settings.enabled, settings.timeoutMs]);
+
+  const refreshSettings = useCallback(async () => {
+    try {
+      setSettings(await getAppLockSettings());
+    } catch (error) {
+      console.error('Error loading app lock settings:', error);
+    }
+  }, []);
+
+  const handleUnlock = useCallback(async (pin: string): Promise<PinCheckResult> => {
+    const result = await unlockWithPin(pin);
+    if (result.status === 'unlocked') {
+      setStatus('unlocked');
+      setHasUnlocked(true);
+    }
+    return result;
+  }, []);
+
+  // Forgotten PIN: nothing encrypted can be read again, so nothing is kept, backups included.
+  // That goes for every athlete; the default one is left, empty.
+  const handleErase = useCallback(async () => {
+    await deleteOtherAthleteStorage();
+    await clearAllData();
+    await deleteAllBackups();
+    await resetAppLock();
+    setSettings(APP_LOCK_OFF);
+    setDataGeneration(prev => prev + 1);
+    setStatus('unlocked');
+    setHasUnlocked(true);
+  }, []);
+
+  const contextValue: AppLockContextType = {
+    isSupported: isAppLockSupported(),
+    settings,
+    refreshSettings,
+  };
+
+  const lockScreen = (
+    <LockScreen pinLength={settings.pinLength} onUnlock={handleUnlock} onErase={handleErase} />
+  );
+
+  return (
+    <AppLockContext.Provider value={contextValue}>
+      {hasUnlocked && <React.Fragment key={dataGeneration}>{children}</React.Fragment>}
+      {status === 'locked' && (hasUnlocked ? (
+        // A modal covers any modal the app has open
+        <Modal visible animationType="fade" onRequestClose={() => {}}>
+          {lockScreen}
+        </Modal>
+      ) : lockScreen)}
+    </AppLockContext.Provider>
+  );
+}
+
+export function useAppLock(): AppLockContextType {
+  const context = useContext(AppLockContext);
+  if (context === undefined) {
+    throw new Error('useAppLock must be used within an AppLockProvider');
+  }
+  return context;
+}
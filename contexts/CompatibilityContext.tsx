@@ -0,0 +1,65 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { AppState, Modal } from 'react-native';
+import { CompatibilityReport } from '@/types/health';
+import { apiClient } from '@/services/api';
+import UpdateRequiredScreen from '@/components/UpdateRequiredScreen';
+
+interface CompatibilityContextType {
+  // Null until the first check finishes
+  compatibility: CompatibilityReport | null;
+  recheck: () => Promise<void>;
+}
+
+const CompatibilityContext = createContext<CompatibilityContextType | undefined>(undefined);
+
+/**
+ * Asks the server whether this build is still supported on start and whenever the app
+ * returns to the foreground. If it isn't, a blocking update screen covers the app. The
+ * app stays usable when the server can't be asked. Local mode never needs an update.
+ */
+export function CompatibilityProvider({ children }: { children: ReactNode }) {
+  const [compatibility, setCompatibility] = useState<CompatibilityReport | null>(null);
+
+  const recheck = useCallback(async () => {
+    const report = await apiClient.checkCompatibility();
+    // An unanswered check says nothing new, so keep what the server said last
+    setCompatibility(prev => (report.checked || !prev ? report : prev));
+  }, []);
+
+  useEffect(() => {
+    recheck();
+    if (apiClient.isLocal()) return;
+
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'active') {
+        recheck();
+      }
+    });
+    return () => subscription.remove();
+  }, [recheck]);
+
+  const contextValue: CompatibilityContextType = {
+    compatibility,
+    recheck,
+  };
+
+  return (
+    <CompatibilityContext.Provider value={contextValue}>
+      {children}
+      {compatibility?.upgradeRequired && (
+        // A modal covers any modal the app has open
+        <Modal visible animationType="fade" onRequestClose={() => {}}>
+          <UpdateRequiredScreen report={compatibility} onRetry={recheck} />
+        </Modal>
+      )}
+    </CompatibilityContext.Provider>
+  );
+}
+
+export function useCompatibility(): CompatibilityContextType {
+  const context = useContext(CompatibilityContext);
+  if (context === undefined) {
+    throw new Error('useCompatibility must be used within a CompatibilityProvider');
+  }
+  return context;
+}
@@ -1,41 +1,77 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
+import { Modal } from 'react-native';
 import { Technique } from '@/types/technique';
 import { TrainingSession } from '@/types/session';
-import { UserProfile } from '@/types/profile';
-import { getTechniques, getSessions, saveTechnique, saveSession, deleteTechnique, deleteSession, getProfile, saveProfile, getTechniquesBySession } from '@/services/api';
+import { UserProfile, Promotion } from '@/types/profile';
+import { OutboxCounts } from '@/types/outbox';
+import { SyncStatus } from '@/types/sync';
+import { DataError } from '@/types/dataError';
+import { Athlete, DEFAULT_ATHLETE_ID } from '@/types/athlete';
+import { saveTechnique, saveSession, deleteTechnique, deleteSession, getProfile, saveProfile, getPromotions, deletePromotion, getTechniquesBySession, clearAllData as clearAllStoredData, restoreTechnique as restoreStoredTechnique, restoreSession as restoreStoredSession, apiClient } from '@/services/api';
+import { subscribeToOutbox } from '@/services/outbox';
+import { startSync, subscribeToSync } from '@/services/sync';
+import { BackupInfo, runScheduledBackup, isBackupSupported, createBackup, markWipeRecoverable } from '@/services/backup';
+import { toDataError } from '@/services/storageErrors';
+import { openAthleteStorage, deleteAthleteStorage } from '@/services/storage';
+import { listAthletes, loadActiveAthleteId, getActiveAthleteId, createAthlete, renameAthlete } from '@/services/athletes';
+import DataErrorScreen from '@/components/DataErrorScreen';
 
 interface DataContextType {
   // Data
-  techniques: Technique[];
-  sessions: TrainingSession[];
   profile: UserProfile | null;
+  promotions: Promotion[]; // Latest first
+  
+  // Everyone whose training is logged on this device. All data above is the active athlete's.
+  athletes: Athlete[];
+  activeAthlete: Athlete | null;
+  
+  // Bumped whenever techniques or sessions may have changed. Screens load the records
+  // they show themselves and reload them when this changes.
+  dataVersion: number;
   
   // Loading states
   isLoading: boolean;
   isInitialLoading: boolean;
-  techniquesLoading: boolean;
-  sessionsLoading: boolean;
   
   // Actions
   refreshData: () => Promise<void>;
-  refreshTechniques: () => Promise<void>;
-  refreshSessions: () => Promise<void>;
   
-  // CRUD operations with automatic cache updates
+  // CRUD operations that bump dataVersion
   createTechnique: (technique: Technique) => Promise<void>;
   updateTechnique: (technique: Technique) => Promise<void>;
   removeTechnique: (techniqueId: string) => Promise<void>;
+  restoreTechnique: (technique: Technique) => Promise<void>;
   
   createSession: (session: TrainingSession) => Promise<void>;
   updateSession: (session: TrainingSession) => Promise<void>;
   removeSession: (sessionId: string) => Promise<void>;
+  restoreSession: (session: TrainingSession) => Promise<void>;
   
   // Profile operations
-  updateProfile: (profile: UserProfile) => Promise<void>;
+  updateProfile: (profile: UserProfile, promotion?: Promotion) => Promise<void>;
+  removePromotion: (promotionId: string) => Promise<void>;
+  
+  // Athlete operations; adding an athlete switches to them
+  switchAthlete: (athleteId: string) => Promise<void>;
+  addAthlete: (name: string) => Promise<void>;
+  removeAthlete: (athleteId: string) => Promise<void>;
+  
+  // Wipe all data after taking a pre-wipe snapshot (null where backups are unsupported)
+  clearAllData: () => Promise<BackupInfo | null>;
+  
+  // Writes waiting to reach the server; always zero in local mode
+  outbox: OutboxCounts;
+  
+  // Last sync with the server and conflicts waiting for review; never synced in local mode
+  sync: SyncStatus;
   
   // Error handling
   error: string | null;
   clearError: () => void;
+  
+  // Why the initial load failed; the error screen covers the app until a retry succeeds
+  loadError: DataError | null;
+  retryLoad: () => Promise<void>;
 }
 
 const DataContext = createContext<DataContextType | undefined>(undefined);
@@ -45,230 +81,363 @@ interface DataProviderProps {
 }
 
 export function DataProvider({ children }: DataProviderProps) {
-  const [techniques, setTechniques] = useState<Technique[]>([]);
-  const [sessions, setSessions] = useState<TrainingSession[]>([]);
   const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [athletes, setAthletes] = useState<Athlete[]>([]);
+  const [activeAthleteId, setActiveAthleteId] = useState(DEFAULT_ATHLETE_ID);
   const [isLoading, setIsLoading] = useState(false);
   const [isInitialLoading, setIsInitialLoading] = useState(true);
-  const [techniquesLoading, setTechniquesLoading] = useState(false);
-  const [sessionsLoading, setSessionsLoading] = useState(false);
+  const [dataVersion, setDataVersion] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<DataError | null>(null);
+  const [outbox, setOutbox] = useState<OutboxCounts>({ pending: 0, failed: 0 });
+  const [sync, setSync] = useState<SyncStatus>({ lastSyncedAt: null, isSyncing: false, conflicts: 0 });
 
-  // Load all data on mount
-  useEffect(() => {
-    loadInitialData();
+  // Athletes are listed by the name on their profile once they have one
+  const refreshAthletes = useCallback(async (profileName?: string) => {
+    if (profileName?.trim()) {
+      await renameAthlete(getActiveAthleteId(), profileName);
+    }
+    setAthletes(await listAthletes());
   }, []);
 
-  const loadInitialData = async () => {
+  const markDataChanged = useCallback(() => {
+    setDataVersion(version => version + 1);
+  }, []);
+
+  const loadInitialData = useCallback(async () => {
     try {
       setIsInitialLoading(true);
       setError(null);
+      setActiveAthleteId(await loadActiveAthleteId());
       
-      // Load techniques, sessions, and profile concurrently
-      const [techniquesData, sessionsData, profileData] = await Promise.all([
-        getTechniques(),
-        getSessions(),
-        getProfile()
+      // Only the profile is loaded up front; it opens the database, so a store that can't
+      // be read fails here. Lists page in what they show once they mount.
+      const [profileData, promotionsData] = await Promise.all([
+        getProfile(),
+        getPromotions()
       ]);
       
-      setTechniques(techniquesData);
-      setSessions(sessionsData);
       setProfile(profileData);
+      setPromotions(promotionsData);
+      await refreshAthletes(profileData?.name);
+      setLoadError(null);
+      // Lists that failed to load while the error screen was up try again
+      markDataChanged();
+
+      // Snapshot in the background once the database is known to be readable
+      runScheduledBackup();
     } catch (err) {
       console.error('Error loading initial data:', err);
-      setError('Failed to load data. Please try again.');
+      // Empty lists would look like the data is gone, so the error screen is shown instead
+      setLoadError(toDataError(err));
     } finally {
       setIsInitialLoading(false);
     }
-  };
+  }, [refreshAthletes, markDataChanged]);
+
+  // Load the profile on mount
+  useEffect(() => {
+    loadInitialData();
+  }, [loadInitialData]);
 
   const refreshData = useCallback(async () => {
     try {
       setIsLoading(true);
       setError(null);
       
-      const [techniquesData, sessionsData, profileData] = await Promise.all([
-        getTechniques(),
-        getSessions(),
-        getProfile()
+      const [profileData, promotionsData] = await Promise.all([
+        getProfile(),
+        getPromotions()
       ]);
       
-      setTechniques(techniquesData);
-      setSessions(sessionsData);
       setProfile(profileData);
+      setPromotions(promotionsData);
     } catch (err) {
       console.error('Error refreshing data:', err);
       setError('Failed to refresh data. Please try again.');
     } finally {
+      markDataChanged();
       setIsLoading(false);
     }
-  }, []);
+  }, [markDataChanged]);
 
-  const refreshTechniques = useCallback(async () => {
-    try {
-      setTechniquesLoading(true);
-      setError(null);
-      
-      const techniquesData = await getTechniques();
-      setTechniques(techniquesData);
-    } catch (err) {
-      console.error('Error refreshing techniques:', err);
-      setError('Failed to refresh techniques. Please try again.');
-    } finally {
-      setTechniquesLoading(false);
-    }
-  }, []);
+  // In remote mode, data syncs with the server in the background for as long as the app
+  // runs. Changes pulled from other devices reload the profile and whatever lists are shown. Switching athletes starts
+  // over with the new athlete's outbox and sync state.
+  useEffect(() => {
+    if (apiClient.isLocal()) return;
 
-  const refreshSessions = useCallback(async () => {
-    try {
-      setSessionsLoading(true);
-      setError(null);
-      
-      const sessionsData = await getSessions();
-      setSessions(sessionsData);
-    } catch (err) {
-      console.error('Error refreshing sessions:', err);
-      setError('Failed to refresh sessions. Please try again.');
-    } finally {
-      setSessionsLoading(false);
-    }
-  }, []);
+    const stopSync = startSync(refreshData);
+    const unsubscribeOutbox = subscribeToOutbox(setOutbox);
+    const unsubscribeSync = subscribeToSync(setSync);
+    return () => {
+      unsubscribeSync();
+      unsubscribeOutbox();
+      stopSync();
+    };
+  }, [refreshData, activeAthleteId]);
 
   // Technique CRUD operations
+  // Lists reload whether or not the write went through, so they show what was stored
   const createTechnique = useCallback(async (technique: Technique) => {
     try {
       await saveTechnique(technique);
-      // Optimistically update the local state
-      setTechniques(prev => [technique, ...prev]);
       setError(null);
     } catch (err) {
       console.error('Error creating technique:', err);
       setError('Failed to create technique. Please try again.');
-      // Refresh from storage in case of error
-      await refreshTechniques();
       throw err;
+    } finally {
+      markDataChanged();
     }
-  }, [refreshTechniques]);
+  }, [markDataChanged]);
 
   const updateTechnique = useCallback(async (technique: Technique) => {
     try {
-      await saveTechnique(technique);
-      // Optimistically update the local state
-      setTechniques(prev => prev.map(t => t.id === technique.id ? technique : t));
+      await apiClient.updateTechnique(technique);
       setError(null);
     } catch (err) {
       console.error('Error updating technique:', err);
       setError('Failed to update technique. Please try again.');
-      // Refresh from storage in case of error
-      await refreshTechniques();
       throw err;
+    } finally {
+      markDataChanged();
     }
-  }, [refreshTechniques]);
+  }, [markDataChanged]);
 
   const removeTechnique = useCallback(async (techniqueId: string) => {
     try {
       await deleteTechnique(techniqueId);
-      // Optimistically update the local state
-      setTechniques(prev => prev.filter(t => t.id !== techniqueId));
       setError(null);
     } catch (err) {
       console.error('Error deleting technique:', err);
       setError('Failed to delete technique. Please try again.');
-      // Refresh from storage in case of error
-      await refreshTechniques();
       throw err;
+    } finally {
+      markDataChanged();
     }
-  }, [refreshTechniques]);
+  }, [markDataChanged]);
+
+  // Deleted techniques are only trashed, so restoring brings back their tags, links and session links as-is
+  const restoreTechnique = useCallback(async (technique: Technique) => {
+    try {
+      await restoreStoredTechnique(technique.id);
+      setError(null);
+    } catch (err) {
+      console.error('Error restoring technique:', err);
+      setError('Failed to restore technique. Please try again.');
+      throw err;
+    } finally {
+      markDataChanged();
+    }
+  }, [markDataChanged]);
 
   // Session CRUD operations
   const createSession = useCallback(async (session: TrainingSession) => {
     try {
       await saveSession(session);
-      // Optimistically update the local state (add to beginning for most recent first)
-      setSessions(prev => [session, ...prev]);
       setError(null);
     } catch (err) {
       console.error('Error creating session:', err);
       setError('Failed to create session. Please try again.');
-      // Refresh from storage in case of error
-      await refreshSessions();
       throw err;
+    } finally {
+      markDataChanged();
     }
-  }, [refreshSessions]);
+  }, [markDataChanged]);
 
   const updateSession = useCallback(async (session: TrainingSession) => {
     try {
-      await saveSession(session);
-      // Optimistically update the local state
-      setSessions(prev => prev.map(s => s.id === session.id ? session : s));
+      await apiClient.updateSession(session);
       setError(null);
     } catch (err) {
       console.error('Error updating session:', err);
       setError('Failed to update session. Please try again.');
-      // Refresh from storage in case of error
-      await refreshSessions();
       throw err;
+    } finally {
+      markDataChanged();
     }
-  }, [refreshSessions]);
+  }, [markDataChanged]);
 
   const removeSession = useCallback(async (sessionId: string) => {
     try {
       await deleteSession(sessionId);
-      // Optimistically update the local state
-      setSessions(prev => prev.filter(s => s.id !== sessionId));
       setError(null);
     } catch (err) {
       console.error('Error deleting session:', err);
       setError('Failed to delete session. Please try again.');
-      // Refresh from storage in case of error
-      await refreshSessions();
       throw err;
+    } finally {
+      markDataChanged();
+    }
+  }, [markDataChanged]);
+
+  // Restores the trashed session with its submissions and technique links
+  const restoreSession = useCallback(async (session: TrainingSession) => {
+    try {
+      await restoreStoredSession(session.id);
+      setError(null);
+    } catch (err) {
+      console.error('Error restoring session:', err);
+      setError('Failed to restore session. Please try again.');
+      throw err;
+    } finally {
+      markDataChanged();
     }
-  }, [refreshSessions]);
+  }, [markDataChanged]);
 
   // Profile operations
-  const updateProfile = useCallback(async (newProfile: UserProfile) => {
+  // Rank is derived from the latest promotion, and a back-dated promotion may not be the
+  // latest, so the profile is re-read rather than updated optimistically
+  const reloadProfile = useCallback(async () => {
+    const [profileData, promotionsData] = await Promise.all([getProfile(), getPromotions()]);
+    setProfile(profileData);
+    setPromotions(promotionsData);
+  }, []);
+
+  const updateProfile = useCallback(async (newProfile: UserProfile, promotion?: Promotion) => {
     try {
-      await saveProfile(newProfile);
-      // Optimistically update the local state
-      setProfile(newProfile);
+      await saveProfile(newProfile, promotion);
+      await reloadProfile();
+      await refreshAthletes(newProfile.name);
       setError(null);
     } catch (err) {
       console.error('Error updating profile:', err);
       setError('Failed to update profile. Please try again.');
       throw err;
     }
-  }, []);
+  }, [reloadProfile, refreshAthletes]);
+
+  const removePromotion = useCallback(async (promotionId: string) => {
+    try {
+      // Optimistically update the local state
+      setPromotions(prev => prev.filter(p => p.id !== promotionId));
+      await deletePromotion(promotionId);
+      await reloadProfile();
+      setError(null);
+    } catch (err) {
+      console.error('Error deleting promotion:', err);
+      setError('Failed to delete promotion. Please try again.');
+      // Refresh from storage in case of error
+      await reloadProfile();
+      throw err;
+    }
+  }, [reloadProfile]);
+
+  const clearAllData = useCallback(async (): Promise<BackupInfo | null> => {
+    try {
+      // The snapshot must succeed before anything is deleted
+      const snapshot = isBackupSupported() ? await createBackup('pre-wipe') : null;
+
+      await clearAllStoredData();
+      if (snapshot) {
+        await markWipeRecoverable(snapshot.id);
+      }
+
+      setProfile(null);
+      setPromotions([]);
+      markDataChanged();
+      setError(null);
+      return snapshot;
+    } catch (err) {
+      console.error('Error clearing all data:', err);
+      setError('Failed to clear data. Please try again.');
+      // Refresh from storage in case the wipe stopped partway
+      await refreshData();
+      throw err;
+    }
+  }, [refreshData, markDataChanged]);
+
+  // Athlete operations
+  // Children remount for the new athlete (see the render below), so nothing they loaded
+  // for the previous one is left on screen
+  const switchAthlete = useCallback(async (athleteId: string) => {
+    if (athleteId === getActiveAthleteId()) return;
+
+    try {
+      await openAthleteStorage(athleteId);
+      setProfile(null);
+      setPromotions([]);
+      await loadInitialData();
+    } catch (err) {
+      console.error('Error switching profile:', err);
+      setError('Failed to switch profile. Please try again.');
+      throw err;
+    }
+  }, [loadInitialData]);
+
+  const addAthlete = useCallback(async (name: string) => {
+    try {
+      const athlete = await createAthlete(name);
+      setAthletes(prev => [...prev, athlete]);
+      await switchAthlete(athlete.id);
+    } catch (err) {
+      console.error('Error adding profile:', err);
+      setError('Failed to add profile. Please try again.');
+      throw err;
+    }
+  }, [switchAthlete]);
+
+  const removeAthlete = useCallback(async (athleteId: string) => {
+    try {
+      await deleteAthleteStorage(athleteId);
+      // Optimistically update the local state
+      setAthletes(prev => prev.filter(a => a.id !== athleteId));
+      setError(null);
+    } catch (err) {
+      console.error('Error deleting profile:', err);
+      setError('Failed to delete profile. Please try again.');
+      // Refresh in case the profile was only partly deleted
+      await refreshAthletes();
+      throw err;
+    }
+  }, [refreshAthletes]);
 
   const clearError = useCallback(() => {
     setError(null);
   }, []);
 
   const contextValue: DataContextType = {
-    techniques,
-    sessions,
     profile,
+    promotions,
+    athletes,
+    activeAthlete: athletes.find(a => a.id === activeAthleteId) ?? null,
+    dataVersion,
     isLoading,
     isInitialLoading,
-    techniquesLoading,
-    sessionsLoading,
     refreshData,
-    refreshTechniques,
-    refreshSessions,
     createTechnique,
     updateTechnique,
     removeTechnique,
+    restoreTechnique,
     createSession,
     updateSession,
     removeSession,
+    restoreSession,
     updateProfile,
+    removePromotion,
+    switchAthlete,
+    addAthlete,
+    removeAthlete,
+    clearAllData,
+    outbox,
+    sync,
     error,
     clearError,
+    loadError,
+    retryLoad: loadInitialData,
   };
 
   return (
     <DataContext.Provider value={contextValue}>
-      {children}
+      <React.Fragment key={activeAthleteId}>{children}</React.Fragment>
+      {loadError && (
+        // A modal covers any modal the app has open
+        <Modal visible animationType="fade" onRequestClose={() => {}}>
+          <DataErrorScreen error={loadError} onRetry={loadInitialData} />
+        </Modal>
+      )}
     </DataContext.Provider>
   );
 }
@@ -1,12 +1,21 @@
 import React, { createContext, useContext, useState, ReactNode } from 'react';
-import Toast, { ToastType } from '@/components/Toast';
+import Toast, { ToastType, ToastAction } from '@/components/Toast';
+
+interface ToastOptions {
+  action?: ToastAction;
+  duration?: number;
+}
 
 interface ToastContextType {
-  showToast: (message: string, type: ToastType) => void;
-  showSuccess: (message: string) => void;
-  showError: (message: string) => void;
+  showToast: (message: string, type: ToastType, options?: ToastOptions) => void;
+  showSuccess: (message: string, options?: ToastOptions) => void;
+  showError: (message: string, options?: ToastOptions) => void;
 }
 
+// Toasts with an action stay up longer so there's time to reach the button
+const DEFAULT_DURATION = 3000;
+const ACTION_DURATION = 6000;
+
 const ToastContext = createContext<ToastContextType | undefined>(undefined);
 
 interface ToastProviderProps {
@@ -14,39 +23,49 @@ interface ToastProviderProps {
 }
 
 interface ToastState {
+  id: number;
   visible: boolean;
   message: string;
   type: ToastType;
+  action?: ToastAction;
+  duration: number;
 }
 
 export function ToastProvider({ children }: ToastProviderProps) {
   const [toast, setToast] = useState<ToastState>({
+    id: 0,
     visible: false,
     message: '',
     type: 'success',
+    duration: DEFAULT_DURATION,
   });
 
-  const showToast = (message: string, type: ToastType) => {
-    setToast({
+  const showToast = (message: string, type: ToastType, options: ToastOptions = {}) => {
+    setToast(prev => ({
+      // A new id remounts the toast, restarting its timer even if one is already showing
+      id: prev.id + 1,
       visible: true,
       message,
       type,
-    });
+      action: options.action,
+      duration: options.duration ?? (options.action ? ACTION_DURATION : DEFAULT_DURATION),
+    }));
   };
 
-  const showSuccess = (message: string) => {
-    showToast(message, 'success');
+  const showSuccess = (message: string, options?: ToastOptions) => {
+    showToast(message, 'success', options);
   };
 
-  const showError = (message: string) => {
-    showToast(message, 'error');
+  const showError = (message: string, options?: ToastOptions) => {
+    showToast(message, 'error', options);
   };
 
-  const hideToast = () => {
-    setToast(prev => ({
+  // Only hide the toast that asked to close, not one that has replaced it since
+  const hideToast = (id: number) => {
+    setToast(prev => prev.id === id ? {
       ...prev,
       visible: false,
-    }));
+    } : prev);
   };
 
   const contextValue: ToastContextType = {
@@ -59,10 +78,13 @@ export function ToastProvider({ children }: ToastProviderProps) {
     <ToastContext.Provider value={contextValue}>
       {children}
       <Toast
+        key={toast.id}
         message={toast.message}
         type={toast.type}
         visible={toast.visible}
-        onClose={hideToast}
+        duration={toast.duration}
+        action={toast.action}
+        onClose={() => hideToast(toast.id)}
       />
     </ToastContext.Provider>
   );
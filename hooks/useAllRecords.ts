@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+interface AllRecordsReturn<T> {
+  records: T[];
+  // Only until the first load finishes; later loads replace the records in place
+  isLoading: boolean;
+  // Why the last load failed, until a load succeeds
+  error: Error | null;
+  reload: () => void;
+}
+
+/**
+ * Every record a fetcher returns, for screens that work over the whole collection
+ * (e.g. analytics) rather than paging through it. Loads when the screen mounts and
+ * again whenever `refreshKey` changes.
+ */
+export function useAllRecords<T>(fetchAll: () => Promise<T[]>, refreshKey: unknown): AllRecordsReturn<T> {
+  const [records, setRecords] = useState<T[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  // Results of superseded requests are dropped
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+
+    fetchAll()
+      .then(loaded => {
+        if (requestId !== requestIdRef.current) return;
+        setRecords(loaded);
+        setError(null);
+      })
+      .catch(err => {
+        console.error('Error loading records:', err);
+        if (requestId === requestIdRef.current) {
+          setError(err instanceof Error ? err : new Error(String(err)));
+        }
+      })
+      .finally(() => {
+        if (requestId === requestIdRef.current) {
+          setIsLoading(false);
+        }
+      });
+  }, [fetchAll, refreshKey, attempt]);
+
+  const reload = useCallback(() => setAttempt(count => count + 1), []);
+
+  return { records, isLoading, error, reload };
+}
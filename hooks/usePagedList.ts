@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Page, PageCursor, DEFAULT_PAGE_SIZE } from '@/types/pagination';
+
+export type PageFetcher<T> = (cursor: PageCursor | null, limit: number) => Promise<Page<T>>;
+
+interface PagedListReturn<T> {
+  items: T[];
+  totalCount: number;
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  hasMore: boolean;
+  // Why the last load failed, until a load succeeds
+  error: Error | null;
+  loadMore: () => void;
+  reload: () => Promise<void>;
+}
+
+/**
+ * Infinite-scroll state for a cursor-paged query.
+ *
+ * A new `fetchPage` (e.g. the search or filters changed) starts again from the first
+ * page. A change to `refreshKey` (e.g. data was edited elsewhere) reloads everything
+ * currently shown in place, so the list doesn't jump back to the top. A failed load
+ * keeps whatever was shown and reports the failure in `error`.
+ */
+export function usePagedList<T>(
+  fetchPage: PageFetcher<T>,
+  refreshKey: unknown,
+  pageSize: number = DEFAULT_PAGE_SIZE
+): PagedListReturn<T> {
+  const [items, setItems] = useState<T[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<PageCursor | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Results of superseded requests are dropped
+  const requestIdRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+  const loadedCountRef = useRef(0);
+  const lastFetchPageRef = useRef<PageFetcher<T> | null>(null);
+
+  const loadFirst = useCallback(async (limit: number, showLoading: boolean) => {
+    const requestId = ++requestIdRef.current;
+    loadingMoreRef.current = false;
+    setIsLoadingMore(false);
+    if (showLoading) {
+      setIsLoading(true);
+    }
+
+    try {
+      const page = await fetchPage(null, limit);
+      if (requestId !== requestIdRef.current) return;
+
+      loadedCountRef.current = page.items.length;
+      setItems(page.items);
+      setTotalCount(page.totalCount);
+      setNextCursor(page.nextCursor);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading page:', err);
+      if (requestId === requestIdRef.current) {
+        setError(err instanceof Error ? err : new Error(String(err)));
+      }
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [fetchPage]);
+
+  useEffect(() => {
+    const isNewQuery = lastFetchPageRef.current !== fetchPage;
+    lastFetchPageRef.current = fetchPage;
+
+    if (isNewQuery) {
+      loadFirst(pageSize, true);
+    } else {
+      loadFirst(Math.max(loadedCountRef.current, pageSize), false);
+    }
+  }, [fetchPage, refreshKey, pageSize, loadFirst]);
+
+  const loadMore = useCallback(() => {
+    if (!nextCursor || loadingMoreRef.current) return;
+
+    const requestId = requestIdRef.current;
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+
+    fetchPage(nextCursor, pageSize)
+      .then(page => {
+        if (requestId !== requestIdRef.current) return;
+
+        setItems(prev => {
+          const next = [...prev, ...page.items];
+          loadedCountRef.current = next.length;
+          return next;
+        });
+        setTotalCount(page.totalCount);
+        setNextCursor(page.nextCursor);
+        setError(null);
+      })
+      .catch(err => {
+        console.error('Error loading next page:', err);
+        if (requestId === requestIdRef.current) {
+          setError(err instanceof Error ? err : new Error(String(err)));
+        }
+      })
+      .finally(() => {
+        if (requestId === requestIdRef.current) {
+          loadingMoreRef.current = false;
+          setIsLoadingMore(false);
+        }
+      });
+  }, [fetchPage, nextCursor, pageSize]);
+
+  const reload = useCallback(
+    () => loadFirst(Math.max(loadedCountRef.current, pageSize), false),
+    [loadFirst, pageSize]
+  );
+
+  return {
+    items,
+    totalCount,
+    isLoading,
+    isLoadingMore,
+    hasMore: nextCursor !== null,
+    error,
+    loadMore,
+    reload,
+  };
+}
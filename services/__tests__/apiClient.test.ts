@@ -0,0 +1,244 @@
+import { describe, it, expect, jest, beforeAll, beforeEach, afterEach, afterAll } from '@jest/globals';
+import { startStandInServer, StandInServer } from '@/test/standInServer';
+import { makeTechnique, makeSession, makeProfile, makePromotion } from '@/test/fixtures';
+
+type ApiModule = typeof import('../api');
+type OutboxModule = typeof import('../outbox');
+type StorageModule = typeof import('../storage');
+type MemoryAdapterModule = typeof import('../memoryAdapter');
+
+// The same tests run against local storage and against the stand-in server, since the
+// client picks its mode from EXPO_PUBLIC_API_URL when it loads
+describe.each(['local', 'remote'] as const)('ApiClient in %s mode', mode => {
+  let server: StandInServer | null = null;
+  let api: ApiModule;
+  let outbox: OutboxModule;
+  let storage: StorageModule;
+  let memoryAdapter: MemoryAdapterModule;
+  let stopOutbox: () => void = () => {};
+
+  // Queued writes reach the server; nothing is queued in local mode
+  const settle = () => outbox.processOutbox({ ignoreBackoff: true });
+
+  beforeAll(async () => {
+    if (mode === 'remote') {
+      server = await startStandInServer();
+      process.env.EXPO_PUBLIC_API_URL = server.baseUrl;
+    } else {
+      delete process.env.EXPO_PUBLIC_API_URL;
+    }
+
+    jest.isolateModules(() => {
+      api = require('../api');
+      outbox = require('../outbox');
+      storage = require('../storage');
+      memoryAdapter = require('../memoryAdapter');
+    });
+  });
+
+  beforeEach(async () => {
+    server?.reset();
+    await storage.setStorageAdapter(memoryAdapter.createMemoryAdapter());
+    if (mode === 'remote') {
+      stopOutbox = outbox.startOutbox();
+    }
+  });
+
+  afterEach(async () => {
+    await settle();
+    stopOutbox();
+  });
+
+  afterAll(async () => {
+    delete process.env.EXPO_PUBLIC_API_URL;
+    await server?.close();
+  });
+
+  it('reports its mode', () => {
+    expect(api.apiClient.isLocal()).toBe(mode === 'local');
+  });
+
+  it('saves, updates and deletes techniques', async () => {
+    await api.saveTechnique(makeTechnique({ id: 't1', name: 'Armbar' }));
+    await api.saveTechnique(makeTechnique({ id: 't2', name: 'Triangle', timestamp: new Date('2025-03-02T10:00:00.000Z') }));
+    await settle();
+    expect((await api.getTechniques()).map(technique => technique.name)).toEqual(['Triangle', 'Armbar']);
+
+    await api.updateTechnique(makeTechnique({ id: 't1', name: 'Straight armbar' }));
+    await settle();
+    const [, updated] = await api.getTechniques();
+    expect(updated).toMatchObject({ id: 't1', name: 'Straight armbar', notes: 'Pinch the knees' });
+    expect(updated.timestamp).toBeInstanceOf(Date);
+
+    await api.deleteTechnique('t2');
+    await settle();
+    expect((await api.getTechniques()).map(technique => technique.id)).toEqual(['t1']);
+  });
+
+  it('saves, updates and deletes sessions', async () => {
+    await api.saveSession(makeSession({ id: 's1' }));
+    await api.saveSession(makeSession({ id: 's2', date: new Date('2025-03-05T18:00:00.000Z'), type: 'nogi' }));
+    await settle();
+    expect((await api.getSessions()).map(session => session.id)).toEqual(['s2', 's1']);
+
+    await api.updateSession(makeSession({ id: 's1', satisfaction: 2 }));
+    await api.deleteSession('s2');
+    await settle();
+    const sessions = await api.getSessions();
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toMatchObject({ id: 's1', satisfaction: 2, location: 'Main Academy' });
+    expect(sessions[0].date).toBeInstanceOf(Date);
+  });
+
+  it('saves the profile with its promotions and deletes it', async () => {
+    expect(await api.getProfile()).toBeNull();
+
+    await api.saveProfile(makeProfile({ name: 'Sam' }), makePromotion());
+    await settle();
+    expect(await api.getProfile()).toMatchObject({ name: 'Sam' });
+    expect((await api.getPromotions()).map(promotion => promotion.id)).toEqual(['promotion_1']);
+
+    await api.deleteProfile();
+    await settle();
+    expect(await api.getProfile()).toBeNull();
+    expect(await api.getPromotions()).toEqual([]);
+  });
+
+  it('restores and purges trashed techniques and sessions', async () => {
+    await api.saveTechnique(makeTechnique({ id: 't1' }));
+    await api.saveSession(makeSession({ id: 's1' }));
+    await api.deleteTechnique('t1');
+    await api.deleteSession('s1');
+    await settle();
+    const trash = await api.getTrash();
+    expect(trash.techniques.map(technique => technique.id)).toEqual(['t1']);
+    expect(trash.sessions.map(session => session.id)).toEqual(['s1']);
+
+    await api.restoreTechnique('t1');
+    await api.purgeSession('s1');
+    await settle();
+    expect((await api.getTechniques()).map(technique => technique.id)).toEqual(['t1']);
+    expect(await api.getTrash()).toEqual({ techniques: [], sessions: [] });
+  });
+
+  it('empties the trash', async () => {
+    await api.saveTechnique(makeTechnique({ id: 't1' }));
+    await api.saveTechnique(makeTechnique({ id: 't2' }));
+    await api.deleteTechnique('t1');
+    await api.deleteTechnique('t2');
+    await settle();
+
+    expect(await api.emptyTrash()).toBe(2);
+    await settle();
+    expect(await api.getTrash()).toEqual({ techniques: [], sessions: [] });
+  });
+
+  if (mode === 'remote') {
+    it('sends each write to the server for the active athlete', async () => {
+      await api.saveTechnique(makeTechnique({ id: 't1' }));
+      await settle();
+
+      expect(server!.records('techniques')).toEqual([expect.objectContaining({ id: 't1', version: 1 })]);
+      const write = server!.requests.find(request => request.method === 'POST');
+      expect(write?.headers['x-athlete-id']).toBe('default');
+      expect(write?.headers['x-api-version']).toBe('v1');
+    });
+
+    it('keeps writes the server failed to take and retries them', async () => {
+      server!.failNext(503);
+      await api.saveTechnique(makeTechnique({ id: 't1' }));
+      await settle();
+
+      const [queued] = await outbox.getOutboxEntries();
+      expect(queued).toMatchObject({ entityId: 't1', status: 'pending', attempts: 1 });
+      expect(server!.records('techniques')).toEqual([]);
+      // Still listed while it waits
+      expect((await api.getTechniques()).map(technique => technique.id)).toEqual(['t1']);
+
+      await settle();
+      expect(await outbox.getOutboxEntries()).toEqual([]);
+      expect(server!.records('techniques')).toEqual([expect.objectContaining({ id: 't1' })]);
+    });
+
+    it('marks writes the server turns down as failed', async () => {
+      server!.failNext(422);
+      await api.saveTechnique(makeTechnique({ id: 't1' }));
+      await settle();
+
+      expect(await outbox.getOutboxCounts()).toEqual({ pending: 0, failed: 1 });
+      const [failed] = await outbox.getOutboxEntries();
+      expect(failed.lastError).toBe('Stand-in failure 422');
+    });
+
+    it('sends a restore after the delete it undoes, even when the delete had to wait', async () => {
+      await api.saveTechnique(makeTechnique({ id: 't1' }));
+      await settle();
+
+      server!.failNext(503);
+      await api.deleteTechnique('t1');
+      await settle();
+      await api.restoreTechnique('t1');
+      // The run the restore started finds the delete still backing off
+      await outbox.processOutbox();
+      expect((await outbox.getOutboxEntries()).map(entry => entry.operation)).toEqual(['delete', 'restore']);
+
+      await settle();
+      expect(await outbox.getOutboxEntries()).toEqual([]);
+      expect(server!.requests.filter(request => request.method !== 'GET').map(request => `${request.method} ${request.path}`))
+        .toEqual(['POST /techniques', 'DELETE /techniques/t1?version=1', 'DELETE /techniques/t1?version=1', 'POST /trash/techniques/t1/restore']);
+      expect(server!.records('techniques')).toEqual([expect.not.objectContaining({ deletedAt: expect.anything() })]);
+    });
+
+    it('reads the trash locally while the server is unreachable', async () => {
+      await api.saveTechnique(makeTechnique({ id: 't1' }));
+      await api.deleteTechnique('t1');
+      await settle();
+
+      server!.failNext(503);
+      expect((await api.getTrash()).techniques.map(technique => technique.id)).toEqual(['t1']);
+    });
+
+    it('pages local data while writes are queued or the server is unreachable', async () => {
+      server!.failNext(503);
+      await api.saveSession(makeSession({ id: 's1' }));
+      await settle();
+      expect((await api.getSessionsPage()).items.map(session => session.id)).toEqual(['s1']);
+
+      await settle();
+      server!.failNext(503);
+      expect(await api.getSessionsPage()).toMatchObject({ items: [expect.objectContaining({ id: 's1' })], totalCount: 1 });
+    });
+
+    it('reads local data while the server is unreachable', async () => {
+      await api.saveSession(makeSession({ id: 's1' }));
+      await settle();
+
+      server!.failNext(503, 2);
+      expect((await api.getSessions()).map(session => session.id)).toEqual(['s1']);
+      expect(await api.getProfile()).toBeNull();
+    });
+
+    it('searches local data while the server is unreachable', async () => {
+      await api.saveTechnique(makeTechnique({ id: 't1', name: 'Armbar' }));
+      await settle();
+
+      server!.failNext(503, 2);
+      expect((await api.search('armbar')).map(result => result.id)).toEqual(['t1']);
+      expect((await api.getTechniqueRevisions('t1')).map(revision => revision.name)).toEqual(['Armbar']);
+    });
+
+    it('leaves out malformed promotions, search results and names from the server', async () => {
+      server!.replyNext([makePromotion({ id: 'p1' }), { id: 'p2', beltRank: 'plaid' }]);
+      expect((await api.getPromotions()).map(promotion => promotion.id)).toEqual(['p1']);
+
+      server!.replyNext([{ type: 'technique', id: 't1', date: '2025-03-01T12:00:00.000Z', snippet: [], score: 1 }]);
+      expect(await api.search('armbar')).toEqual([]);
+
+      server!.replyNext({ tags: [{ name: 'guard', count: 2 }, { name: '' }], locations: [], submissions: [] });
+      expect((await api.searchNames('gu')).tags).toEqual([{ name: 'guard', count: 2 }]);
+
+      server!.replyNext({ revisions: [] });
+      await expect(api.getTechniqueRevisions('t1')).rejects.toThrow('Expected a list of revision records');
+    });
+  }
+});
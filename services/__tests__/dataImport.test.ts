@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { makeTechnique, makeSession } from '@/test/fixtures';
+import { applyImport, ImportData } from '../dataImport';
+import { setStorageAdapter, getTechniques, getSessions, saveTechnique } from '../storage';
+import { createMemoryAdapter } from '../memoryAdapter';
+
+const importFile = (overrides: Partial<ImportData>): ImportData => ({
+  exportedAt: new Date('2025-03-10T12:00:00.000Z'),
+  appVersion: '1.0.0',
+  techniques: [],
+  sessions: [],
+  profile: null,
+  promotions: [],
+  locations: [],
+  customTags: [],
+  notesEncryption: null,
+  ...overrides,
+});
+
+const newestWins = { techniques: 'newest-wins', sessions: 'newest-wins', overwriteProfile: false } as const;
+
+describe('applyImport', () => {
+  beforeEach(async () => {
+    await setStorageAdapter(createMemoryAdapter());
+  });
+
+  it('takes a newer export over an older one imported earlier', async () => {
+    const older = new Date('2025-03-01T12:00:00.000Z');
+    const newer = new Date('2025-03-05T12:00:00.000Z');
+
+    await applyImport(importFile({
+      techniques: [makeTechnique({ id: 't1', name: 'Armbar', updatedAt: older })],
+      sessions: [makeSession({ id: 's1', satisfaction: 3, updatedAt: older })],
+    }), newestWins);
+    expect((await getTechniques())[0].updatedAt).toEqual(older);
+
+    const result = await applyImport(importFile({
+      techniques: [makeTechnique({ id: 't1', name: 'Straight armbar', updatedAt: newer })],
+      sessions: [makeSession({ id: 's1', satisfaction: 5, updatedAt: newer })],
+    }), newestWins);
+
+    expect(result).toMatchObject({ techniquesWritten: 1, sessionsWritten: 1, conflictsKept: 0 });
+    expect((await getTechniques())[0]).toMatchObject({ name: 'Straight armbar', updatedAt: newer });
+    expect((await getSessions())[0]).toMatchObject({ satisfaction: 5, updatedAt: newer });
+  });
+
+  it('keeps edits made on this device after the exported copy', async () => {
+    await saveTechnique(makeTechnique({ id: 't1', name: 'Edited here' }));
+
+    const result = await applyImport(importFile({
+      techniques: [makeTechnique({ id: 't1', name: 'Armbar', updatedAt: new Date('2025-03-01T12:00:00.000Z') })],
+    }), newestWins);
+
+    expect(result.techniquesWritten).toBe(0);
+    expect((await getTechniques())[0].name).toBe('Edited here');
+  });
+});
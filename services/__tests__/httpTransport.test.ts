@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from '@jest/globals';
+import { HttpTransport, buildQuery } from '../httpTransport';
+import {
+  ApiAuthError,
+  ApiConflictError,
+  ApiNetworkError,
+  ApiNotFoundError,
+  ApiServerError,
+  ApiTimeoutError,
+  ApiValidationError,
+  isTransientApiError,
+} from '../apiErrors';
+import { startStandInServer, StandInServer } from '@/test/standInServer';
+
+describe('HttpTransport', () => {
+  let server: StandInServer;
+  let athleteId = 'default';
+
+  const createTransport = (timeout: number = 2000) =>
+    new HttpTransport({
+      baseUrl: `${server.baseUrl}/`,
+      apiVersion: 'v1',
+      clientVersion: '1.2.3',
+      timeout,
+      getHeaders: () => ({ 'X-Athlete-Id': athleteId }),
+    });
+
+  beforeAll(async () => {
+    server = await startStandInServer();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    athleteId = 'default';
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('sends the version and athlete headers with each request', async () => {
+    const transport = createTransport();
+    await transport.get('/techniques');
+    athleteId = 'athlete_2';
+    await transport.post('/techniques', { id: 't1', name: 'Armbar', timestamp: '2025-01-01T00:00:00.000Z' });
+
+    const [first, second] = server.requests;
+    expect(first.headers['x-api-version']).toBe('v1');
+    expect(first.headers['x-client-version']).toBe('1.2.3');
+    expect(first.headers['x-athlete-id']).toBe('default');
+    expect(second.headers['x-athlete-id']).toBe('athlete_2');
+    expect(second.headers['content-type']).toBe('application/json');
+    expect(server.records('techniques', 'athlete_2')).toHaveLength(1);
+    expect(server.records('techniques')).toHaveLength(0);
+  });
+
+  it('parses JSON bodies and resolves empty responses to undefined', async () => {
+    const transport = createTransport();
+    const saved = await transport.post<{ id: string; version: number }>('/techniques', { id: 't1', timestamp: '2025-01-01' });
+    expect(saved).toMatchObject({ id: 't1', version: 1 });
+
+    await expect(transport.delete('/techniques/t1')).resolves.toBeUndefined();
+  });
+
+  it.each([
+    [400, ApiValidationError],
+    [422, ApiValidationError],
+    [401, ApiAuthError],
+    [403, ApiAuthError],
+    [404, ApiNotFoundError],
+    [409, ApiConflictError],
+    [500, ApiServerError],
+    [503, ApiServerError],
+  ])('maps status %i to its typed error', async (status, ErrorClass) => {
+    server.failNext(status);
+    const error = await createTransport().get('/techniques').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toMatchObject({
+      status,
+      code: 'stand_in',
+      endpoint: '/techniques',
+      message: `Stand-in failure ${status}`,
+    });
+  });
+
+  it('keeps the server message and code for real failures', async () => {
+    const transport = createTransport();
+    await transport.post('/techniques', { id: 't1', timestamp: '2025-01-01', version: 0 });
+
+    const error = await transport.put('/techniques/t1', { id: 't1', timestamp: '2025-01-01', version: 0 }).catch(caught => caught);
+    expect(error).toBeInstanceOf(ApiConflictError);
+    expect(error).toMatchObject({ code: 'version_conflict', message: 'Record changed on the server' });
+  });
+
+  it('aborts requests that run past the timeout', async () => {
+    server.stallNext(500);
+    const error = await createTransport(50).get('/techniques').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ApiTimeoutError);
+    expect(error).toMatchObject({ message: 'Request timed out after 50ms' });
+  });
+
+  it('reports a server that cannot be reached as a network error', async () => {
+    const transport = new HttpTransport({ baseUrl: 'http://127.0.0.1:1', apiVersion: 'v1', clientVersion: '1.0.0', timeout: 2000 });
+    await expect(transport.get('/techniques')).rejects.toBeInstanceOf(ApiNetworkError);
+  });
+
+  it('sends requests to the API version it was switched to', async () => {
+    const transport = createTransport();
+    transport.setApiVersion('v2');
+    await transport.get('/techniques').catch(() => undefined);
+
+    expect(server.requests[0].path).toBe('/api/v2/techniques');
+    expect(server.requests[0].headers['x-api-version']).toBe('v2');
+  });
+});
+
+describe('isTransientApiError', () => {
+  it('retries timeouts, network failures and 5xx, but not rejections', () => {
+    expect(isTransientApiError(new ApiTimeoutError('/techniques', 100))).toBe(true);
+    expect(isTransientApiError(new ApiNetworkError('/techniques'))).toBe(true);
+    expect(isTransientApiError(new ApiServerError('Down', '/techniques', 503))).toBe(true);
+    expect(isTransientApiError(new ApiValidationError('Bad', '/techniques', 400))).toBe(false);
+    expect(isTransientApiError(new ApiConflictError('Stale', '/techniques'))).toBe(false);
+    expect(isTransientApiError(new Error('Something else'))).toBe(false);
+  });
+});
+
+describe('buildQuery', () => {
+  it('skips empty params and repeats list params', () => {
+    expect(buildQuery({ q: 'arm bar', tag: ['guard', 'sweep'], cursorId: undefined, limit: 10, location: '' }))
+      .toBe('?q=arm%20bar&tag=guard&tag=sweep&limit=10');
+    expect(buildQuery({ q: null })).toBe('');
+  });
+});
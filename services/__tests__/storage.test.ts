@@ -0,0 +1,67 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { DEFAULT_ATHLETE_ID } from '@/types/athlete';
+import { makeTechnique } from '@/test/fixtures';
+import { openAthleteStorage, rewriteNotes, runForActiveAthlete, saveTechnique, getTechniques } from '../storage';
+import { createAthlete, getActiveAthleteId } from '../athletes';
+
+// Each athlete's SQLite store becomes an in-memory one that records when its notes are rewritten
+jest.mock('../sqliteAdapter', () => {
+  const { createMemoryAdapter } = jest.requireActual<typeof import('../memoryAdapter')>('../memoryAdapter');
+  const rewrittenAthletes: string[] = [];
+  const rewriteAthleteNotes = async (athleteId: string) => {
+    rewrittenAthletes.push(athleteId);
+    return 1;
+  };
+  return {
+    rewrittenAthletes,
+    rewriteAthleteNotes,
+    createSqliteAdapter: (athleteId: string) => ({
+      ...createMemoryAdapter(),
+      rewriteNotes: () => rewriteAthleteNotes(athleteId),
+    }),
+  };
+});
+
+const { rewrittenAthletes } = jest.requireMock<{ rewrittenAthletes: string[] }>('../sqliteAdapter');
+
+describe('rewriteNotes', () => {
+  it("rewrites every athlete's notes and keeps the active athlete's data open", async () => {
+    const athlete = await createAthlete('Alex');
+    await openAthleteStorage(athlete.id);
+    await saveTechnique(makeTechnique({ id: 't1' }));
+
+    expect(await rewriteNotes()).toBe(2);
+    expect(rewrittenAthletes).toEqual([athlete.id, DEFAULT_ATHLETE_ID]);
+
+    expect(getActiveAthleteId()).toBe(athlete.id);
+    expect((await getTechniques()).map(technique => technique.id)).toEqual(['t1']);
+  });
+});
+
+describe('openAthleteStorage', () => {
+  it('waits for work running against the current athlete and skips work started meanwhile', async () => {
+    const athlete = await createAthlete('Jo');
+    await openAthleteStorage(DEFAULT_ATHLETE_ID);
+
+    let finishWork: () => void = () => {};
+    const workedFor: string[] = [];
+    const work = runForActiveAthlete(async athleteId => {
+      await new Promise<void>(resolve => { finishWork = resolve; });
+      workedFor.push(athleteId);
+    });
+    // Let the work start before switching
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const switched = openAthleteStorage(athlete.id);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(getActiveAthleteId()).toBe(DEFAULT_ATHLETE_ID);
+    expect(await runForActiveAthlete(async () => 'ran')).toBeUndefined();
+
+    finishWork();
+    await work;
+    await switched;
+    expect(workedFor).toEqual([DEFAULT_ATHLETE_ID]);
+    expect(getActiveAthleteId()).toBe(athlete.id);
+    expect(await runForActiveAthlete(async athleteId => athleteId)).toBe(athlete.id);
+  });
+});
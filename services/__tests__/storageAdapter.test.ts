@@ -0,0 +1,352 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { StorageAdapter } from '@/types/storage';
+import { createMemoryAdapter } from '../memoryAdapter';
+import { makeTechnique, makeSession, makeProfile, makePromotion } from '@/test/fixtures';
+
+// What every StorageAdapter promises, whatever it keeps data in. The SQLite adapter needs
+// a device, so only the in-memory one runs here.
+const adapters: [string, () => StorageAdapter][] = [
+  ['memory', createMemoryAdapter],
+];
+
+const day = (date: number) => new Date(`2025-03-${String(date).padStart(2, '0')}T12:00:00.000Z`);
+
+describe.each(adapters)('%s storage adapter', (_name, createAdapter) => {
+  let adapter: StorageAdapter;
+
+  beforeEach(async () => {
+    adapter = createAdapter();
+    await adapter.initialize();
+  });
+
+  afterEach(async () => {
+    await adapter.close();
+  });
+
+  describe('techniques', () => {
+    it('reads back saved techniques newest first, with dates and tags', async () => {
+      await adapter.saveTechnique(makeTechnique({ id: 't1', timestamp: day(1) }));
+      await adapter.saveTechnique(makeTechnique({ id: 't2', name: 'Kimura', tags: ['side control'], timestamp: day(3) }));
+
+      const techniques = await adapter.getTechniques();
+      expect(techniques.map(technique => technique.id)).toEqual(['t2', 't1']);
+      expect(techniques[0]).toMatchObject({ name: 'Kimura', tags: ['side control'], notes: 'Pinch the knees' });
+      expect(techniques[0].timestamp).toEqual(day(3));
+      expect((await adapter.getRecentTechniques(1)).map(technique => technique.id)).toEqual(['t2']);
+    });
+
+    it('keeps a revision for each edit', async () => {
+      await adapter.saveTechnique(makeTechnique({ id: 't1', name: 'Armbar' }));
+      await adapter.saveTechnique(makeTechnique({ id: 't1', name: 'Straight armbar' }));
+
+      const [technique] = await adapter.getTechniques();
+      expect(technique.name).toBe('Straight armbar');
+      const revisions = await adapter.getTechniqueRevisions('t1');
+      expect(revisions.map(revision => revision.name)).toEqual(['Straight armbar', 'Armbar']);
+    });
+
+    it('pages with a cursor and filters at the query level', async () => {
+      for (let date = 1; date <= 5; date++) {
+        await adapter.saveTechnique(makeTechnique({
+          id: `t${date}`,
+          name: `Technique ${date}`,
+          category: date % 2 === 0 ? 'Sweep' : 'Submission',
+          timestamp: day(date),
+        }));
+      }
+
+      const first = await adapter.getTechniquesPage({ limit: 2 });
+      expect(first.items.map(technique => technique.id)).toEqual(['t5', 't4']);
+      expect(first.totalCount).toBe(5);
+      const second = await adapter.getTechniquesPage({ limit: 2, cursor: first.nextCursor });
+      expect(second.items.map(technique => technique.id)).toEqual(['t3', 't2']);
+      const last = await adapter.getTechniquesPage({ limit: 2, cursor: second.nextCursor });
+      expect(last.items.map(technique => technique.id)).toEqual(['t1']);
+      expect(last.nextCursor).toBeNull();
+
+      const sweeps = await adapter.getTechniquesPage({ filters: { category: 'Sweep', tags: [] } });
+      expect(sweeps.items.map(technique => technique.id)).toEqual(['t4', 't2']);
+      expect(sweeps.totalCount).toBe(2);
+    });
+  });
+
+  describe('sessions', () => {
+    it('reads back saved sessions newest first and pages them', async () => {
+      await adapter.saveSession(makeSession({ id: 's1', date: day(1) }));
+      await adapter.saveSession(makeSession({ id: 's2', date: day(2), type: 'nogi', location: 'Garage' }));
+      await adapter.saveSession(makeSession({ id: 's3', date: day(3) }));
+
+      expect((await adapter.getSessions()).map(session => session.id)).toEqual(['s3', 's2', 's1']);
+
+      const first = await adapter.getSessionsPage({ limit: 2 });
+      expect(first.items.map(session => session.id)).toEqual(['s3', 's2']);
+      const second = await adapter.getSessionsPage({ limit: 2, cursor: first.nextCursor });
+      expect(second.items.map(session => session.id)).toEqual(['s1']);
+      expect(second.nextCursor).toBeNull();
+
+      const nogi = await adapter.getSessionsPage({
+        filters: {
+          dateRange: { startDate: null, endDate: null },
+          location: '',
+          sessionTypes: ['nogi'],
+          submission: '',
+          satisfaction: null,
+        },
+      });
+      expect(nogi.items.map(session => session.id)).toEqual(['s2']);
+    });
+
+    it('links techniques to the session they were learned in', async () => {
+      await adapter.saveSession(makeSession({ id: 's1' }));
+      await adapter.saveTechnique(makeTechnique({ id: 't1', sessionId: 's1' }));
+      await adapter.saveTechnique(makeTechnique({ id: 't2' }));
+
+      expect((await adapter.getTechniquesBySession('s1')).map(technique => technique.id)).toEqual(['t1']);
+    });
+
+    it('lists locations and submissions from sessions', async () => {
+      await adapter.saveSession(makeSession({ id: 's1', location: 'Garage', submissions: ['Armbar'], submissionCounts: { Armbar: 2 } }));
+      await adapter.saveSession(makeSession({ id: 's2', location: 'Garage', date: day(4) }));
+
+      expect(await adapter.getLocations()).toContain('Garage');
+      expect(await adapter.getUniqueSubmissions()).toEqual(['Armbar']);
+    });
+  });
+
+  describe('trash', () => {
+    it('trashes, restores and purges techniques', async () => {
+      await adapter.saveTechnique(makeTechnique({ id: 't1' }));
+      await adapter.deleteTechnique('t1');
+
+      expect(await adapter.getTechniques()).toEqual([]);
+      const trash = await adapter.getTrash();
+      expect(trash.techniques).toEqual([expect.objectContaining({ id: 't1', name: 'Armbar' })]);
+      expect(trash.techniques[0].deletedAt).toBeInstanceOf(Date);
+
+      await adapter.restoreTechnique('t1');
+      expect((await adapter.getTechniques()).map(technique => technique.id)).toEqual(['t1']);
+
+      await adapter.deleteTechnique('t1');
+      expect(await adapter.purgeTrash({ techniqueIds: ['t1'] })).toBe(1);
+      expect((await adapter.getTrash()).techniques).toEqual([]);
+    });
+
+    it('hides links to a trashed session until it is restored', async () => {
+      await adapter.saveSession(makeSession({ id: 's1', techniqueIds: ['t1'] }));
+      await adapter.saveTechnique(makeTechnique({ id: 't1', sessionId: 's1' }));
+
+      await adapter.deleteSession('s1');
+      expect(await adapter.getSessions()).toEqual([]);
+      expect((await adapter.getTechniques())[0].sessionId).toBeUndefined();
+
+      await adapter.restoreSession('s1');
+      expect((await adapter.getTechniques())[0].sessionId).toBe('s1');
+      expect((await adapter.getSessions())[0].techniqueIds).toEqual(['t1']);
+    });
+
+    it('keeps the link when a technique is edited while its session is trashed', async () => {
+      await adapter.saveSession(makeSession({ id: 's1', techniqueIds: ['t1'] }));
+      await adapter.saveTechnique(makeTechnique({ id: 't1', sessionId: 's1' }));
+      await adapter.deleteSession('s1');
+
+      const [technique] = await adapter.getTechniques();
+      await adapter.saveTechnique({ ...technique, name: 'Renamed' });
+
+      await adapter.restoreSession('s1');
+      expect((await adapter.getTechniques())[0]).toMatchObject({ name: 'Renamed', sessionId: 's1' });
+    });
+
+    it('purges only what was trashed before the cutoff', async () => {
+      await adapter.saveSession(makeSession({ id: 's1' }));
+      await adapter.deleteSession('s1');
+
+      expect(await adapter.purgeTrash({ deletedBefore: new Date(Date.now() - 60 * 1000) })).toBe(0);
+      expect(await adapter.purgeTrash({ deletedBefore: new Date(Date.now() + 60 * 1000) })).toBe(1);
+      expect((await adapter.getTrash()).sessions).toEqual([]);
+    });
+  });
+
+  describe('search', () => {
+    it('finds techniques and sessions by their words, best match first', async () => {
+      await adapter.saveTechnique(makeTechnique({ id: 't1', name: 'Armbar', notes: 'From guard' }));
+      await adapter.saveTechnique(makeTechnique({ id: 't2', name: 'Kimura', notes: 'Armbar setup from side control' }));
+      await adapter.saveSession(makeSession({ id: 's1', notes: 'Hit an armbar in the last round' }));
+
+      const results = await adapter.search('armb', 10);
+      expect(results.map(result => result.id).sort()).toEqual(['s1', 't1', 't2']);
+      expect(results[0]).toMatchObject({ type: 'technique', id: 't1' });
+      expect(results[0].snippet.some(segment => segment.highlighted)).toBe(true);
+    });
+
+    it('ranks a name match above a notes match', async () => {
+      await adapter.saveTechnique(makeTechnique({ id: 't1', name: 'Kimura', notes: 'Finish with an omoplata' }));
+      await adapter.saveTechnique(makeTechnique({ id: 't2', name: 'Omoplata', notes: 'From closed guard' }));
+
+      expect((await adapter.search('omoplata', 10)).map(result => result.id)).toEqual(['t2', 't1']);
+    });
+
+    it('finds tag, location and submission names', async () => {
+      await adapter.saveTechnique(makeTechnique({ id: 't1', tags: ['closed guard'] }));
+      await adapter.saveSession(makeSession({ id: 's1', location: 'Guardian Academy', submissions: ['Guillotine'] }));
+
+      const names = await adapter.searchNames('gu', 10);
+      expect(names.tags).toEqual([{ name: 'closed guard', count: 1 }]);
+      expect(names.locations).toEqual([{ name: 'Guardian Academy', count: 1 }]);
+      expect(names.submissions).toEqual([{ name: 'Guillotine', count: 1 }]);
+    });
+  });
+
+  describe('profile', () => {
+    it('takes rank from the latest promotion', async () => {
+      expect(await adapter.getProfile()).toBeNull();
+
+      await adapter.saveProfile(makeProfile({ beltRank: 'white', stripes: 0 }), makePromotion({ id: 'p1', beltRank: 'blue', stripes: 0, date: day(1) }));
+      await adapter.saveProfile(makeProfile(), makePromotion({ id: 'p2', beltRank: 'blue', stripes: 1, date: day(5) }));
+
+      expect(await adapter.getProfile()).toMatchObject({ name: 'Sam', beltRank: 'blue', stripes: 1 });
+      expect((await adapter.getPromotions()).map(promotion => promotion.id)).toEqual(['p2', 'p1']);
+
+      await adapter.deletePromotion('p2');
+      expect(await adapter.getProfile()).toMatchObject({ beltRank: 'blue', stripes: 0 });
+
+      await adapter.deleteProfile();
+      expect(await adapter.getProfile()).toBeNull();
+      expect(await adapter.getPromotions()).toEqual([]);
+    });
+  });
+
+  describe('tags', () => {
+    it('counts tag use and keeps custom tags', async () => {
+      await adapter.saveTechnique(makeTechnique({ id: 't1', tags: ['pressure'] }));
+      await adapter.saveTechnique(makeTechnique({ id: 't2', tags: ['pressure', 'underhook'] }));
+      await adapter.createCustomTag('worm guard');
+
+      expect(await adapter.getPopularTags(1)).toEqual(['pressure']);
+      expect(await adapter.searchTags('worm', 5)).toEqual(['worm guard']);
+      const tags = await adapter.getAllTags();
+      expect(tags.find(tag => tag.name === 'worm guard')).toMatchObject({ isCustom: true });
+    });
+  });
+
+  describe('import and clear', () => {
+    it('replaces existing rows when asked and clears everything', async () => {
+      await adapter.saveTechnique(makeTechnique({ id: 'old' }));
+      await adapter.importData({
+        replaceTechniques: true,
+        replaceSessions: false,
+        techniques: [makeTechnique({ id: 'imported' })],
+        sessions: [makeSession({ id: 's1' })],
+        locations: [],
+        customTags: [],
+      });
+
+      expect((await adapter.getTechniques()).map(technique => technique.id)).toEqual(['imported']);
+      expect((await adapter.getSessions()).map(session => session.id)).toEqual(['s1']);
+
+      await adapter.clearAllData();
+      expect(await adapter.getTechniques()).toEqual([]);
+      expect(await adapter.getSessions()).toEqual([]);
+      expect(await adapter.getProfile()).toBeNull();
+    });
+
+    it('writes the profile with its promotion history', async () => {
+      await adapter.saveProfile(makeProfile({ name: 'Old' }));
+      await adapter.importData({
+        replaceTechniques: false,
+        replaceSessions: false,
+        techniques: [],
+        sessions: [],
+        locations: [],
+        customTags: [],
+        profile: { profile: makeProfile({ name: 'Sam' }), promotions: [makePromotion({ id: 'p1' })] },
+      });
+
+      expect(await adapter.getProfile()).toMatchObject({ name: 'Sam' });
+      expect((await adapter.getPromotions()).map(promotion => promotion.id)).toEqual(['p1']);
+    });
+  });
+
+  describe('outbox', () => {
+    it('keeps entries oldest first until they are deleted', async () => {
+      const first = await adapter.addOutboxEntry({ entity: 'technique', operation: 'delete', entityId: 't1' });
+      await adapter.addOutboxEntry({ entity: 'session', operation: 'create', entityId: 's1', payload: makeSession({ id: 's1' }) });
+
+      const entries = await adapter.getOutbox();
+      expect(entries.map(entry => entry.entityId)).toEqual(['t1', 's1']);
+      expect(entries[0]).toMatchObject({ status: 'pending', attempts: 0 });
+      expect(entries[1]).toMatchObject({ entity: 'session', operation: 'create', payload: expect.objectContaining({ date: makeSession().date }) });
+
+      const nextAttemptAt = new Date(Date.now() + 1000);
+      await adapter.updateOutboxEntry(first, { status: 'failed', attempts: 3, nextAttemptAt, lastError: 'Down' });
+      expect((await adapter.getOutbox())[0]).toMatchObject({ status: 'failed', attempts: 3, lastError: 'Down', nextAttemptAt });
+
+      await adapter.deleteOutboxEntry(first);
+      expect((await adapter.getOutbox()).map(entry => entry.entityId)).toEqual(['s1']);
+    });
+  });
+
+  describe('sync', () => {
+    it('keeps versions, bases and conflicts per record', async () => {
+      await adapter.saveTechnique(makeTechnique({ id: 't1' }));
+      await adapter.setRecordVersion('technique', 't1', 4);
+      expect(await adapter.getSyncRecord('technique', 't1')).toMatchObject({ id: 't1', version: 4 });
+
+      const base = makeTechnique({ id: 't1', name: 'Base', version: 4 });
+      await adapter.setSyncBase('technique', base);
+      expect(await adapter.getSyncBase('technique', 't1')).toMatchObject({ version: 4, record: expect.objectContaining({ name: 'Base' }) });
+
+      await adapter.saveSyncConflict({
+        entity: 'technique',
+        entityId: 't1',
+        local: makeTechnique({ id: 't1', name: 'Local' }),
+        remote: makeTechnique({ id: 't1', name: 'Remote' }),
+        merged: makeTechnique({ id: 't1', name: 'Local' }),
+        fields: ['name'],
+        detectedAt: day(2),
+      });
+      const conflict = await adapter.getSyncConflict('technique', 't1');
+      expect(conflict).toMatchObject({ fields: ['name'], remote: expect.objectContaining({ name: 'Remote' }) });
+      expect(await adapter.getSyncConflicts()).toHaveLength(1);
+
+      await adapter.deleteSyncConflict(conflict!.id);
+      expect(await adapter.getSyncConflicts()).toEqual([]);
+    });
+
+    it('applies records pulled from the server, deletions included', async () => {
+      await adapter.saveTechnique(makeTechnique({ id: 't1' }));
+      await adapter.applySyncedRecords(
+        [makeTechnique({ id: 't1', deletedAt: day(2) }), makeTechnique({ id: 't2', name: 'From server', version: 1 })],
+        [makeSession({ id: 's1', version: 1 })]
+      );
+
+      expect((await adapter.getTechniques()).map(technique => technique.id)).toEqual(['t2']);
+      expect((await adapter.getSessions()).map(session => session.id)).toEqual(['s1']);
+    });
+  });
+
+  describe('quarantine', () => {
+    it('keeps invalid records until they are discarded', async () => {
+      await adapter.quarantineRecords('server', 'technique', [
+        { entityId: 'bad', payload: { id: 'bad', name: 42 }, errors: ['name must be a string'] },
+      ]);
+
+      const [record] = await adapter.getQuarantinedRecords();
+      expect(record).toMatchObject({ entity: 'technique', entityId: 'bad', source: 'server', errors: ['name must be a string'] });
+
+      await adapter.discardQuarantinedRecord(record.id);
+      expect(await adapter.getQuarantinedRecords()).toEqual([]);
+    });
+  });
+
+  describe('maintenance', () => {
+    it('reports counts and finds nothing wrong with a fresh store', async () => {
+      await adapter.saveTechnique(makeTechnique({ id: 't1' }));
+      await adapter.saveSession(makeSession({ id: 's1' }));
+
+      const stats = await adapter.getStats();
+      expect(stats.rowCounts).toMatchObject({ techniques: 1, sessions: 1 });
+      expect(stats.schemaVersion).toBe(stats.latestSchemaVersion);
+      expect((await adapter.checkIntegrity()).issues).toEqual([]);
+    });
+  });
+});
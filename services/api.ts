@@ -4,29 +4,73 @@
  * This service provides a versioned API interface that can seamlessly
  * switch between local SQLite storage and remote backend calls.
  * 
- * Currently acts as a thin wrapper around the existing storage layer,
- * but provides the foundation for future backend migration.
+ * Without EXPO_PUBLIC_API_URL it is a thin wrapper around the storage layer.
+ * With it, calls go to the v1 endpoints through the HTTP transport, and
+ * failed requests reject with the typed errors in ./apiErrors; local
+ * failures reject with those in ./storageErrors. Writes are
+ * applied locally and sent by the outbox, so they work offline. Each write
+ * carries the server version it was based on, and ./sync pulls other
+ * devices' changes back.
  */
 
-import { Technique } from '@/types/technique';
+import { Technique, TechniqueRevision } from '@/types/technique';
 import { TrainingSession } from '@/types/session';
-import { UserProfile } from '@/types/profile';
+import { UserProfile, Promotion } from '@/types/profile';
+import { TrashContents } from '@/types/trash';
+import { Page } from '@/types/pagination';
+import { SearchResult, NameSearchResults, DEFAULT_SEARCH_LIMIT, DEFAULT_NAME_SEARCH_LIMIT } from '@/types/search';
+import { IntegrityReport, IntegrityRepairResult } from '@/types/integrity';
+import { OutboxMutation } from '@/types/outbox';
+import { SyncEntity, SyncRecord, SyncChanges } from '@/types/sync';
+import { HealthStatus, HealthReport, CompatibilityReport } from '@/types/health';
+import { QuarantineEntity, QuarantinedRecord } from '@/types/quarantine';
+import { reviveTrash } from '@/utils/jsonRevivers';
+import {
+  RecordParser,
+  partitionRecords,
+  isRecord,
+  parseTechnique,
+  parseSession,
+  parseProfile,
+  parsePromotion,
+  parseRevision,
+  parseSearchResult,
+  parseNameMatch,
+} from '@/utils/recordValidation';
+import { isVersionAtLeast } from '@/utils/semver';
+import Constants from 'expo-constants';
+import { TechniquePageQuery, SessionPageQuery } from '@/types/storage';
+import { HttpTransport, buildQuery } from './httpTransport';
+import { ApiError, ApiNotFoundError, ApiServerError, isTransientApiError } from './apiErrors';
+import { enqueueMutation, getOutboxEntries, setOutboxSender } from './outbox';
 import * as Storage from './storage';
+import { getActiveAthleteId } from './athletes';
 
 // API Configuration
 const API_CONFIG = {
   baseUrl: process.env.EXPO_PUBLIC_API_URL || '',
   version: 'v1',
   timeout: 10000,
+  clientVersion: Constants.expoConfig?.version ?? '1.0.0',
   useLocalStorage: !process.env.EXPO_PUBLIC_API_URL, // Use local storage if no API URL
   enableLogging: __DEV__, // Enable logging in development
 };
 
+// Notes are decrypted by the time they get here, so they are left out of anything logged
+const withoutNotes = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(withoutNotes);
+  if (!value || typeof value !== 'object' || Object.getPrototypeOf(value) !== Object.prototype) return value;
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    key === 'notes' && item ? '[redacted]' : withoutNotes(item),
+  ]));
+};
+
 // Enhanced logging utility with performance tracking
 const logRequest = (method: string, endpoint: string, data?: any) => {
   if (API_CONFIG.enableLogging) {
     const timestamp = new Date().toISOString();
-    console.log(`[API] ${timestamp} → ${method} ${endpoint}`, data ? { data } : '');
+    console.log(`[API] ${timestamp} → ${method} ${endpoint}`, data ? { data: withoutNotes(data) } : '');
   }
 };
 
@@ -34,7 +78,7 @@ const logResponse = (method: string, endpoint: string, success: boolean, data?:
   if (API_CONFIG.enableLogging) {
     const timestamp = new Date().toISOString();
     const durationText = duration ? ` (${duration}ms)` : '';
-    console.log(`[API] ${timestamp} ← ${method} ${endpoint} ${success ? '✓' : '✗'}${durationText}`, data ? { data } : '');
+    console.log(`[API] ${timestamp} ← ${method} ${endpoint} ${success ? '✓' : '✗'}${durationText}`, data ? { data: withoutNotes(data) } : '');
   }
 };
 
@@ -45,6 +89,280 @@ const logError = (method: string, endpoint: string, error: any, context?: string
   }
 };
 
+// Health round trips slower than this mark the server degraded
+const HIGH_LATENCY_MS = 2000;
+
+// GET /health. `status` and each service's status are 'ok', 'degraded' or 'down'.
+interface ServerHealth {
+  status: string;
+  services?: Record<string, string>;
+  message?: string;
+}
+
+// GET /compatibility
+interface ServerCompatibility {
+  minClientVersion: string;
+  latestClientVersion?: string;
+  supportedApiVersions?: string[];
+  updateUrl?: string;
+  message?: string;
+}
+
+// Unknown statuses count as degraded rather than healthy
+const toHealthStatus = (status: string): HealthStatus => {
+  if (status === 'ok' || status === 'healthy') return 'healthy';
+  if (status === 'down') return 'down';
+  return 'degraded';
+};
+
+const remote = new HttpTransport({
+  baseUrl: API_CONFIG.baseUrl,
+  apiVersion: API_CONFIG.version,
+  clientVersion: API_CONFIG.clientVersion,
+  timeout: API_CONFIG.timeout,
+  // The server keeps each athlete's data apart, as the device does
+  getHeaders: () => ({ 'X-Athlete-Id': getActiveAthleteId() }),
+});
+
+// Page queries are sent as flat query params; list filters repeat their key
+const cursorParams = (query: TechniquePageQuery | SessionPageQuery) => ({
+  cursorTime: query.cursor?.time,
+  cursorId: query.cursor?.id,
+  cursorRank: query.cursor?.rank,
+  limit: query.limit,
+});
+
+const techniquePageQuery = (query: TechniquePageQuery): string =>
+  buildQuery({
+    q: query.search,
+    category: query.filters?.category,
+    tag: query.filters?.tags,
+    ...cursorParams(query),
+  });
+
+const sessionPageQuery = (query: SessionPageQuery): string =>
+  buildQuery({
+    q: query.search,
+    startDate: query.filters?.dateRange.startDate?.toISOString(),
+    endDate: query.filters?.dateRange.endDate?.toISOString(),
+    location: query.filters?.location,
+    type: query.filters?.sessionTypes,
+    submission: query.filters?.submission,
+    satisfaction: query.filters?.satisfaction,
+    ...cursorParams(query),
+  });
+
+/**
+ * Read from the server, or from the local database when the server can't be reached.
+ * The local database has every write made on this device, so offline edits still show.
+ */
+const readRemote = async <T>(fetchRemote: () => Promise<T>, readLocal: () => Promise<T>): Promise<T> => {
+  try {
+    return await fetchRemote();
+  } catch (error) {
+    if (!isTransientApiError(error)) throw error;
+    console.warn('[API] Server unreachable, reading local data:', error instanceof Error ? error.message : error);
+    return readLocal();
+  }
+};
+
+/**
+ * Check a list from the server before it reaches a screen, reviving its dates. Items that
+ * fail are logged and left out. A response that isn't a list at all fails.
+ */
+const validRemoteItems = <T>(endpoint: string, label: string, items: unknown, parse: RecordParser<T>): T[] => {
+  if (!Array.isArray(items)) {
+    throw new ApiServerError(`Expected a list of ${label} records`, endpoint, 200);
+  }
+
+  const { valid, invalid } = partitionRecords(items, parse, label);
+  if (invalid.length > 0) {
+    console.warn(`[API] Left out ${invalid.length} invalid ${label} records from ${endpoint}:`, invalid.map(item => item.errors));
+  }
+  return valid;
+};
+
+/**
+ * Check records from the server before they reach a screen, reviving their dates. Ones
+ * that fail are quarantined and left out. A response that isn't a list at all fails.
+ */
+const validRemoteRecords = async <T>(
+  endpoint: string,
+  entity: QuarantineEntity,
+  items: unknown,
+  parse: RecordParser<T>
+): Promise<T[]> => {
+  if (!Array.isArray(items)) {
+    throw new ApiServerError(`Expected a list of ${entity} records`, endpoint, 200);
+  }
+
+  const { valid, invalid } = partitionRecords(items, parse, entity);
+  if (invalid.length > 0) {
+    await Storage.quarantineRecords('server', entity, invalid).catch(error => {
+      console.error('[API] Failed to quarantine invalid records:', error);
+    });
+  }
+  return valid;
+};
+
+const validRemotePage = async <T>(
+  endpoint: string,
+  entity: QuarantineEntity,
+  page: Page<unknown>,
+  parse: RecordParser<T>
+): Promise<Page<T>> => ({
+  ...page,
+  items: await validRemoteRecords(endpoint, entity, page?.items, parse),
+});
+
+// Apply writes still waiting in the outbox to a list from the server, so they don't vanish
+// on refresh. A queued restore brings back the record as this device has it.
+const withQueuedWrites = async <T extends Technique | TrainingSession>(
+  items: T[],
+  entity: 'technique' | 'session'
+): Promise<T[]> => {
+  const entries = (await getOutboxEntries()).filter(entry => entry.entity === entity);
+  let result = items;
+
+  for (const entry of entries) {
+    const isListed = result.some(item => item.id === entry.entityId);
+
+    if (entry.operation === 'restore') {
+      const restored = await Storage.getSyncRecord(entity, entry.entityId);
+      if (restored && !restored.deletedAt && !isListed) {
+        result = [restored as T, ...result];
+      }
+    } else if (!('payload' in entry)) {
+      result = result.filter(item => item.id !== entry.entityId);
+    } else {
+      const queued = entry.payload as T;
+      result = isListed
+        ? result.map(item => (item.id === entry.entityId ? queued : item))
+        : [queued, ...result];
+    }
+  }
+
+  return result;
+};
+
+// A page from the server leaves out writes still queued here, and they can't be patched in
+// without the server's search, filters and cursor. Pages are read locally until they are
+// sent, since the local database already has them.
+const hasQueuedWrites = async (entity: SyncEntity): Promise<boolean> =>
+  (await getOutboxEntries()).some(entry => entry.entity === entity);
+
+// Apply queued trash changes to the trash from the server. Queued deletes add what this
+// device trashed; queued restores and purges take items out.
+const withQueuedTrash = async (trash: TrashContents): Promise<TrashContents> => {
+  const entries = await getOutboxEntries();
+  const localTrash = await Storage.getTrash();
+
+  const apply = <T extends { id: string }>(items: T[], localItems: T[], entity: SyncEntity): T[] =>
+    entries
+      .filter(entry => entry.entity === entity)
+      .reduce((result, entry) => {
+        if (entry.operation === 'delete') {
+          const trashed = localItems.find(item => item.id === entry.entityId);
+          return trashed && !result.some(item => item.id === trashed.id) ? [trashed, ...result] : result;
+        }
+        return entry.operation === 'restore' || entry.operation === 'purge'
+          ? result.filter(item => item.id !== entry.entityId)
+          : result;
+      }, items);
+
+  return {
+    techniques: apply(trash.techniques, localTrash.techniques, 'technique'),
+    sessions: apply(trash.sessions, localTrash.sessions, 'session'),
+  };
+};
+
+const withQueuedProfile = async (profile: UserProfile | null): Promise<UserProfile | null> => {
+  const entries = await getOutboxEntries();
+  return entries.reduce<UserProfile | null>((result, entry) => {
+    if (entry.entity !== 'profile') return result;
+    return entry.operation === 'update' ? entry.payload.profile : null;
+  }, profile);
+};
+
+const withQueuedPromotions = async (promotions: Promotion[]): Promise<Promotion[]> => {
+  const entries = await getOutboxEntries();
+  return entries.reduce((result, entry) => {
+    if (entry.entity === 'promotion') {
+      return result.filter(promotion => promotion.id !== entry.entityId);
+    }
+    if (entry.entity === 'profile' && entry.operation === 'delete') {
+      return [];
+    }
+    if (entry.entity === 'profile' && entry.payload.promotion) {
+      const { promotion } = entry.payload;
+      return result.some(existing => existing.id === promotion.id) ? result : [promotion, ...result];
+    }
+    return result;
+  }, promotions);
+};
+
+// Techniques and sessions are written against the server version this device last
+// merged with, so the server can turn down a stale write with a 409
+const baseVersion = async (entity: SyncEntity, entityId: string, payload?: SyncRecord): Promise<number> =>
+  (await Storage.getSyncBase(entity, entityId))?.version ?? payload?.version ?? 0;
+
+// The server answers a write with the record as saved, which both sides now agree on
+const recordSaved = async (path: string, entity: SyncEntity, saved: unknown): Promise<void> => {
+  if (!saved) return;
+  const parse: RecordParser<SyncRecord> = entity === 'technique' ? parseTechnique : parseSession;
+  const [record] = await validRemoteRecords(path, entity, [saved], parse);
+  if (!record) return;
+  await Storage.setSyncBase(entity, record);
+  await Storage.setRecordVersion(entity, record.id, record.version ?? 0);
+};
+
+const sendRecordMutation = async (
+  transport: HttpTransport,
+  path: string,
+  mutation: Extract<OutboxMutation, { entity: SyncEntity }>
+): Promise<void> => {
+  const payload = 'payload' in mutation ? mutation.payload : undefined;
+  const version = await baseVersion(mutation.entity, mutation.entityId, payload);
+
+  if (!('payload' in mutation)) {
+    switch (mutation.operation) {
+      case 'delete':
+        return transport.delete(`${path}/${mutation.entityId}${buildQuery({ version })}`);
+      case 'purge':
+        return transport.delete(`/trash${path}/${mutation.entityId}`);
+      case 'restore':
+        return recordSaved(path, mutation.entity, await transport.post<unknown>(`/trash${path}/${mutation.entityId}/restore`));
+    }
+  }
+
+  const body = { ...mutation.payload, version };
+  const saved = mutation.operation === 'create'
+    ? await transport.post<unknown>(path, body)
+    : await transport.put<unknown>(`${path}/${mutation.entityId}`, body);
+  await recordSaved(path, mutation.entity, saved);
+};
+
+// How the outbox sends each queued write, as the athlete it was made for
+const sendMutation = async (mutation: OutboxMutation, athleteId: string): Promise<void> => {
+  const transport = remote.withHeaders({ 'X-Athlete-Id': athleteId });
+  switch (mutation.entity) {
+    case 'technique':
+      return sendRecordMutation(transport, '/techniques', mutation);
+    case 'session':
+      return sendRecordMutation(transport, '/sessions', mutation);
+    case 'profile':
+      return mutation.operation === 'delete'
+        ? transport.delete('/profile')
+        : transport.post('/profile', mutation.payload);
+    case 'promotion':
+      return transport.delete(`/profile/promotions/${mutation.entityId}`);
+  }
+};
+
+if (!API_CONFIG.useLocalStorage) {
+  setOutboxSender(sendMutation);
+}
+
 // Request wrapper with timing and error handling
 const withTiming = async <T>(
   operation: () => Promise<T>,
@@ -65,8 +383,8 @@ const withTiming = async <T>(
 };
 
 /**
- * Future-proof API client that currently uses local storage
- * but can be easily switched to remote backend
+ * Future-proof API client that uses local storage, or the remote
+ * backend when EXPO_PUBLIC_API_URL is set
  */
 class ApiClient {
   private version: string = API_CONFIG.version;
@@ -80,7 +398,15 @@ class ApiClient {
     
     return withTiming(
       async () => {
-        const result = await Storage.getTechniques();
+        const result = API_CONFIG.useLocalStorage
+          ? await Storage.getTechniques()
+          : await readRemote(
+              async () => withQueuedWrites(
+                await validRemoteRecords(endpoint, 'technique', await remote.get<unknown>(endpoint), parseTechnique),
+                'technique'
+              ),
+              Storage.getTechniques
+            );
         logResponse('GET', endpoint, true, { count: result.length });
         return result;
       },
@@ -89,6 +415,33 @@ class ApiClient {
     );
   }
 
+  /**
+   * Get one page of techniques matching a search and filters
+   */
+  async getTechniquesPage(query: TechniquePageQuery = {}): Promise<Page<Technique>> {
+    const endpoint = `/techniques?cursor=${query.cursor ? query.cursor.id : ''}`;
+    logRequest('GET', endpoint, { search: query.search, filters: query.filters, limit: query.limit });
+    
+    try {
+      const result = API_CONFIG.useLocalStorage || (await hasQueuedWrites('technique'))
+        ? await Storage.getTechniquesPage(query)
+        : await readRemote(
+            async () => validRemotePage(
+              endpoint,
+              'technique',
+              await remote.get<Page<unknown>>(`/techniques${techniquePageQuery(query)}`),
+              parseTechnique
+            ),
+            () => Storage.getTechniquesPage(query)
+          );
+      logResponse('GET', endpoint, true, { count: result.items.length, totalCount: result.totalCount });
+      return result;
+    } catch (error) {
+      logResponse('GET', endpoint, false, error);
+      throw error;
+    }
+  }
+
   /**
    * Get recent techniques with optional limit
    */
@@ -97,7 +450,9 @@ class ApiClient {
     logRequest('GET', endpoint);
     
     try {
-      const result = await Storage.getRecentTechniques(limit);
+      const result = API_CONFIG.useLocalStorage
+        ? await Storage.getRecentTechniques(limit)
+        : await validRemoteRecords(endpoint, 'technique', await remote.get<unknown>(endpoint), parseTechnique);
       logResponse('GET', endpoint, true, { count: result.length });
       return result;
     } catch (error) {
@@ -116,6 +471,9 @@ class ApiClient {
     return withTiming(
       async () => {
         await Storage.saveTechnique(technique);
+        if (!API_CONFIG.useLocalStorage) {
+          await enqueueMutation({ entity: 'technique', operation: 'create', entityId: technique.id, payload: technique });
+        }
         logResponse('POST', endpoint, true, { id: technique.id });
         return technique;
       },
@@ -133,6 +491,9 @@ class ApiClient {
     
     try {
       await Storage.updateTechnique(technique);
+      if (!API_CONFIG.useLocalStorage) {
+        await enqueueMutation({ entity: 'technique', operation: 'update', entityId: technique.id, payload: technique });
+      }
       logResponse('PUT', endpoint, true, { id: technique.id });
       return technique;
     } catch (error) {
@@ -150,6 +511,9 @@ class ApiClient {
     
     try {
       await Storage.deleteTechnique(techniqueId);
+      if (!API_CONFIG.useLocalStorage) {
+        await enqueueMutation({ entity: 'technique', operation: 'delete', entityId: techniqueId });
+      }
       logResponse('DELETE', endpoint, true);
     } catch (error) {
       logResponse('DELETE', endpoint, false, error);
@@ -165,7 +529,34 @@ class ApiClient {
     logRequest('GET', endpoint);
     
     try {
-      const result = await Storage.getTechniquesBySession(sessionId);
+      const result = API_CONFIG.useLocalStorage
+        ? await Storage.getTechniquesBySession(sessionId)
+        : await readRemote(
+            async () => validRemoteRecords(endpoint, 'technique', await remote.get<unknown>(endpoint), parseTechnique),
+            () => Storage.getTechniquesBySession(sessionId)
+          );
+      logResponse('GET', endpoint, true, { count: result.length });
+      return result;
+    } catch (error) {
+      logResponse('GET', endpoint, false, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the revision history of a technique, newest first
+   */
+  async getTechniqueRevisions(techniqueId: string): Promise<TechniqueRevision[]> {
+    const endpoint = `/techniques/${techniqueId}/revisions`;
+    logRequest('GET', endpoint);
+    
+    try {
+      const result = API_CONFIG.useLocalStorage
+        ? await Storage.getTechniqueRevisions(techniqueId)
+        : await readRemote(
+            async () => validRemoteItems(endpoint, 'revision', await remote.get<unknown>(endpoint), parseRevision),
+            () => Storage.getTechniqueRevisions(techniqueId)
+          );
       logResponse('GET', endpoint, true, { count: result.length });
       return result;
     } catch (error) {
@@ -182,7 +573,15 @@ class ApiClient {
     logRequest('GET', endpoint);
     
     try {
-      const result = await Storage.getSessions();
+      const result = API_CONFIG.useLocalStorage
+        ? await Storage.getSessions()
+        : await readRemote(
+            async () => withQueuedWrites(
+                await validRemoteRecords(endpoint, 'session', await remote.get<unknown>(endpoint), parseSession),
+                'session'
+              ),
+            Storage.getSessions
+          );
       logResponse('GET', endpoint, true, { count: result.length });
       return result;
     } catch (error) {
@@ -191,6 +590,33 @@ class ApiClient {
     }
   }
 
+  /**
+   * Get one page of training sessions matching a search and filters
+   */
+  async getSessionsPage(query: SessionPageQuery = {}): Promise<Page<TrainingSession>> {
+    const endpoint = `/sessions?cursor=${query.cursor ? query.cursor.id : ''}`;
+    logRequest('GET', endpoint, { search: query.search, filters: query.filters, limit: query.limit });
+    
+    try {
+      const result = API_CONFIG.useLocalStorage || (await hasQueuedWrites('session'))
+        ? await Storage.getSessionsPage(query)
+        : await readRemote(
+            async () => validRemotePage(
+              endpoint,
+              'session',
+              await remote.get<Page<unknown>>(`/sessions${sessionPageQuery(query)}`),
+              parseSession
+            ),
+            () => Storage.getSessionsPage(query)
+          );
+      logResponse('GET', endpoint, true, { count: result.items.length, totalCount: result.totalCount });
+      return result;
+    } catch (error) {
+      logResponse('GET', endpoint, false, error);
+      throw error;
+    }
+  }
+
   /**
    * Save a training session (create or update)
    */
@@ -200,6 +626,9 @@ class ApiClient {
     
     try {
       await Storage.saveSession(session);
+      if (!API_CONFIG.useLocalStorage) {
+        await enqueueMutation({ entity: 'session', operation: 'create', entityId: session.id, payload: session });
+      }
       logResponse('POST', endpoint, true, { id: session.id });
       return session;
     } catch (error) {
@@ -217,6 +646,9 @@ class ApiClient {
     
     try {
       await Storage.saveSession(session);
+      if (!API_CONFIG.useLocalStorage) {
+        await enqueueMutation({ entity: 'session', operation: 'update', entityId: session.id, payload: session });
+      }
       logResponse('PUT', endpoint, true, { id: session.id });
       return session;
     } catch (error) {
@@ -234,6 +666,169 @@ class ApiClient {
     
     try {
       await Storage.deleteSession(sessionId);
+      if (!API_CONFIG.useLocalStorage) {
+        await enqueueMutation({ entity: 'session', operation: 'delete', entityId: sessionId });
+      }
+      logResponse('DELETE', endpoint, true);
+    } catch (error) {
+      logResponse('DELETE', endpoint, false, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Full-text search across techniques and sessions, best matches first
+   */
+  async search(query: string, limit: number = DEFAULT_SEARCH_LIMIT): Promise<SearchResult[]> {
+    const endpoint = `/search?q=${encodeURIComponent(query)}&limit=${limit}`;
+    logRequest('GET', endpoint);
+    
+    try {
+      const result = API_CONFIG.useLocalStorage
+        ? await Storage.search(query, limit)
+        : await readRemote(
+            async () => validRemoteItems(endpoint, 'search result', await remote.get<unknown>(endpoint), parseSearchResult),
+            () => Storage.search(query, limit)
+          );
+      logResponse('GET', endpoint, true, { count: result.length });
+      return result;
+    } catch (error) {
+      logResponse('GET', endpoint, false, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find tags, locations and submission names containing the query
+   */
+  async searchNames(query: string, limit: number = DEFAULT_NAME_SEARCH_LIMIT): Promise<NameSearchResults> {
+    const endpoint = `/search/names?q=${encodeURIComponent(query)}&limit=${limit}`;
+    logRequest('GET', endpoint);
+    
+    try {
+      const result = API_CONFIG.useLocalStorage
+        ? await Storage.searchNames(query, limit)
+        : await readRemote(
+            async () => {
+              const names = await remote.get<unknown>(endpoint);
+              if (!isRecord(names)) {
+                throw new ApiServerError('Expected tag, location and submission names', endpoint, 200);
+              }
+              return {
+                tags: validRemoteItems(endpoint, 'tag name', names.tags, parseNameMatch),
+                locations: validRemoteItems(endpoint, 'location name', names.locations, parseNameMatch),
+                submissions: validRemoteItems(endpoint, 'submission name', names.submissions, parseNameMatch),
+              };
+            },
+            () => Storage.searchNames(query, limit)
+          );
+      logResponse('GET', endpoint, true, {
+        tags: result.tags.length,
+        locations: result.locations.length,
+        submissions: result.submissions.length,
+      });
+      return result;
+    } catch (error) {
+      logResponse('GET', endpoint, false, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get trashed techniques and sessions
+   */
+  async getTrash(): Promise<TrashContents> {
+    const endpoint = '/trash';
+    logRequest('GET', endpoint);
+    
+    return withTiming(
+      async () => {
+        const result = API_CONFIG.useLocalStorage
+          ? await Storage.getTrash()
+          : await readRemote(
+              async () => withQueuedTrash(reviveTrash(await remote.get<TrashContents>(endpoint))),
+              Storage.getTrash
+            );
+        logResponse('GET', endpoint, true, {
+          techniques: result.techniques.length,
+          sessions: result.sessions.length,
+        });
+        return result;
+      },
+      'GET',
+      endpoint
+    );
+  }
+
+  /**
+   * Restore a technique from the trash
+   */
+  async restoreTechnique(techniqueId: string): Promise<void> {
+    const endpoint = `/trash/techniques/${techniqueId}/restore`;
+    logRequest('POST', endpoint);
+    
+    try {
+      await Storage.restoreTechnique(techniqueId);
+      if (!API_CONFIG.useLocalStorage) {
+        await enqueueMutation({ entity: 'technique', operation: 'restore', entityId: techniqueId });
+      }
+      logResponse('POST', endpoint, true);
+    } catch (error) {
+      logResponse('POST', endpoint, false, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore a session from the trash
+   */
+  async restoreSession(sessionId: string): Promise<void> {
+    const endpoint = `/trash/sessions/${sessionId}/restore`;
+    logRequest('POST', endpoint);
+    
+    try {
+      await Storage.restoreSession(sessionId);
+      if (!API_CONFIG.useLocalStorage) {
+        await enqueueMutation({ entity: 'session', operation: 'restore', entityId: sessionId });
+      }
+      logResponse('POST', endpoint, true);
+    } catch (error) {
+      logResponse('POST', endpoint, false, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete a trashed technique
+   */
+  async purgeTechnique(techniqueId: string): Promise<void> {
+    const endpoint = `/trash/techniques/${techniqueId}`;
+    logRequest('DELETE', endpoint);
+    
+    try {
+      await Storage.purgeTechnique(techniqueId);
+      if (!API_CONFIG.useLocalStorage) {
+        await enqueueMutation({ entity: 'technique', operation: 'purge', entityId: techniqueId });
+      }
+      logResponse('DELETE', endpoint, true);
+    } catch (error) {
+      logResponse('DELETE', endpoint, false, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete a trashed session
+   */
+  async purgeSession(sessionId: string): Promise<void> {
+    const endpoint = `/trash/sessions/${sessionId}`;
+    logRequest('DELETE', endpoint);
+    
+    try {
+      await Storage.purgeSession(sessionId);
+      if (!API_CONFIG.useLocalStorage) {
+        await enqueueMutation({ entity: 'session', operation: 'purge', entityId: sessionId });
+      }
       logResponse('DELETE', endpoint, true);
     } catch (error) {
       logResponse('DELETE', endpoint, false, error);
@@ -241,6 +836,31 @@ class ApiClient {
     }
   }
 
+  /**
+   * Permanently delete everything in the trash
+   */
+  async emptyTrash(): Promise<number> {
+    const endpoint = '/trash';
+    logRequest('DELETE', endpoint);
+    
+    try {
+      // Each item is queued on its own, so it goes out in order with other changes to it
+      const trash = API_CONFIG.useLocalStorage ? null : await Storage.getTrash();
+      const purged = await Storage.emptyTrash();
+      for (const technique of trash?.techniques ?? []) {
+        await enqueueMutation({ entity: 'technique', operation: 'purge', entityId: technique.id });
+      }
+      for (const session of trash?.sessions ?? []) {
+        await enqueueMutation({ entity: 'session', operation: 'purge', entityId: session.id });
+      }
+      logResponse('DELETE', endpoint, true, { purged });
+      return purged;
+    } catch (error) {
+      logResponse('DELETE', endpoint, false, error);
+      throw error;
+    }
+  }
+
   /**
    * Get user profile
    */
@@ -249,7 +869,22 @@ class ApiClient {
     logRequest('GET', endpoint);
     
     try {
-      const result = await Storage.getProfile();
+      const result = API_CONFIG.useLocalStorage
+        ? await Storage.getProfile()
+        : await readRemote(
+            async () => {
+              const profile = await remote.get<unknown>(endpoint).catch(error => {
+                // No profile has been saved yet
+                if (error instanceof ApiNotFoundError) return null;
+                throw error;
+              });
+              const [valid] = profile
+                ? await validRemoteRecords(endpoint, 'profile', [profile], parseProfile)
+                : [];
+              return withQueuedProfile(valid ?? null);
+            },
+            Storage.getProfile
+          );
       logResponse('GET', endpoint, true, { hasProfile: !!result });
       return result;
     } catch (error) {
@@ -259,14 +894,17 @@ class ApiClient {
   }
 
   /**
-   * Save user profile
+   * Save user profile, appending `promotion` to the belt history when given
    */
-  async saveProfile(profile: UserProfile): Promise<UserProfile> {
+  async saveProfile(profile: UserProfile, promotion?: Promotion): Promise<UserProfile> {
     const endpoint = '/profile';
-    logRequest('POST', endpoint, { name: profile.name });
+    logRequest('POST', endpoint, { name: profile.name, promotion: promotion?.id });
     
     try {
-      await Storage.saveProfile(profile);
+      await Storage.saveProfile(profile, promotion);
+      if (!API_CONFIG.useLocalStorage) {
+        await enqueueMutation({ entity: 'profile', operation: 'update', entityId: 'profile', payload: { profile, promotion } });
+      }
       logResponse('POST', endpoint, true);
       return profile;
     } catch (error) {
@@ -284,6 +922,172 @@ class ApiClient {
     
     try {
       await Storage.deleteProfile();
+      if (!API_CONFIG.useLocalStorage) {
+        await enqueueMutation({ entity: 'profile', operation: 'delete', entityId: 'profile' });
+      }
+      logResponse('DELETE', endpoint, true);
+    } catch (error) {
+      logResponse('DELETE', endpoint, false, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get belt promotion history, latest first
+   */
+  async getPromotions(): Promise<Promotion[]> {
+    const endpoint = '/profile/promotions';
+    logRequest('GET', endpoint);
+    
+    try {
+      const result = API_CONFIG.useLocalStorage
+        ? await Storage.getPromotions()
+        : await readRemote(
+            async () => withQueuedPromotions(
+              validRemoteItems(endpoint, 'promotion', await remote.get<unknown>(endpoint), parsePromotion)
+            ),
+            Storage.getPromotions
+          );
+      logResponse('GET', endpoint, true, { count: result.length });
+      return result;
+    } catch (error) {
+      logResponse('GET', endpoint, false, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a promotion recorded by mistake
+   */
+  async deletePromotion(promotionId: string): Promise<void> {
+    const endpoint = `/profile/promotions/${promotionId}`;
+    logRequest('DELETE', endpoint);
+    
+    try {
+      await Storage.deletePromotion(promotionId);
+      if (!API_CONFIG.useLocalStorage) {
+        await enqueueMutation({ entity: 'promotion', operation: 'delete', entityId: promotionId });
+      }
+      logResponse('DELETE', endpoint, true);
+    } catch (error) {
+      logResponse('DELETE', endpoint, false, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get one page of techniques and sessions changed on the server after `since`, a cursor
+   * from an earlier page, oldest change first. Deleted records come back with `deletedAt`
+   * set. Without a server there is nothing to pull.
+   */
+  async getChanges(since: string | null, limit: number = 200): Promise<SyncChanges> {
+    const endpoint = `/sync/changes${buildQuery({ since, limit })}`;
+    logRequest('GET', endpoint);
+    
+    try {
+      const result = API_CONFIG.useLocalStorage
+        ? { techniques: [], sessions: [], cursor: since ?? '', hasMore: false }
+        : await remote.get<SyncChanges>(endpoint);
+      // Invalid records are quarantined rather than merged. The cursor still moves past
+      // them, so a later valid version of the record syncs normally.
+      const changes: SyncChanges = {
+        ...result,
+        techniques: await validRemoteRecords(endpoint, 'technique', result.techniques, parseTechnique),
+        sessions: await validRemoteRecords(endpoint, 'session', result.sessions, parseSession),
+      };
+      logResponse('GET', endpoint, true, {
+        techniques: changes.techniques.length,
+        sessions: changes.sessions.length,
+        hasMore: changes.hasMore,
+      });
+      return changes;
+    } catch (error) {
+      logResponse('GET', endpoint, false, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check the database for damage and stale rows. Always local: it inspects this device's database.
+   */
+  async checkIntegrity(): Promise<IntegrityReport> {
+    const endpoint = '/diagnostics/integrity';
+    logRequest('GET', endpoint);
+    
+    try {
+      const report = await Storage.checkIntegrity();
+      logResponse('GET', endpoint, true, { issues: report.issues.length });
+      return report;
+    } catch (error) {
+      logResponse('GET', endpoint, false, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Repair every repairable integrity issue in one transaction
+   */
+  async repairIntegrity(): Promise<IntegrityRepairResult> {
+    const endpoint = '/diagnostics/integrity/repair';
+    logRequest('POST', endpoint);
+    
+    try {
+      const result = await Storage.repairIntegrity();
+      logResponse('POST', endpoint, true, { rowsRepaired: result.rowsRepaired });
+      return result;
+    } catch (error) {
+      logResponse('POST', endpoint, false, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Records that failed validation, from this device's database or from the server.
+   * Always local: server records are quarantined on this device.
+   */
+  async getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+    const endpoint = '/diagnostics/quarantine';
+    logRequest('GET', endpoint);
+    
+    try {
+      const result = await Storage.getQuarantinedRecords();
+      logResponse('GET', endpoint, true, { count: result.length });
+      return result;
+    } catch (error) {
+      logResponse('GET', endpoint, false, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Drop a quarantined record, deleting it from this device if that's where it was read
+   */
+  async discardQuarantinedRecord(recordId: number): Promise<void> {
+    const endpoint = `/diagnostics/quarantine/${recordId}`;
+    logRequest('DELETE', endpoint);
+    
+    try {
+      await Storage.discardQuarantinedRecord(recordId);
+      logResponse('DELETE', endpoint, true);
+    } catch (error) {
+      logResponse('DELETE', endpoint, false, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete all techniques, sessions and the profile
+   */
+  async clearAllData(): Promise<void> {
+    const endpoint = '/data';
+    logRequest('DELETE', endpoint);
+    
+    try {
+      if (!API_CONFIG.useLocalStorage) {
+        await remote.delete(endpoint);
+      }
+      // Also drops queued writes, which the server no longer wants
+      await Storage.clearAllData();
       logResponse('DELETE', endpoint, true);
     } catch (error) {
       logResponse('DELETE', endpoint, false, error);
@@ -303,6 +1107,7 @@ class ApiClient {
    */
   setVersion(version: string): void {
     this.version = version;
+    remote.setApiVersion(version);
     console.log(`[API] Version set to ${version}`);
   }
 
@@ -318,12 +1123,14 @@ class ApiClient {
    */
   getInfo(): {
     version: string;
+    clientVersion: string;
     isLocal: boolean;
     baseUrl: string;
     loggingEnabled: boolean;
   } {
     return {
       version: this.version,
+      clientVersion: API_CONFIG.clientVersion,
       isLocal: this.isLocal(),
       baseUrl: API_CONFIG.baseUrl,
       loggingEnabled: API_CONFIG.enableLogging,
@@ -331,73 +1138,146 @@ class ApiClient {
   }
 
   /**
-   * Check API compatibility with current client
-   * Currently always returns compatible for local storage
+   * Ask the server whether this build can still talk to it. In remote mode the app version
+   * is compared with the server's `minClientVersion`, and the API version with the ones it
+   * supports. If the server can't be reached the app is assumed compatible, with `checked`
+   * false. Local data is only ever read by this build's own migrations, so local mode is
+   * always compatible.
    */
-  async checkCompatibility(): Promise<{
-    compatible: boolean;
-    minClientVersion: string;
-    currentVersion: string;
-    upgradeRequired: boolean;
-    message?: string;
-  }> {
-    logRequest('GET', '/compatibility');
-    
-    try {
-      // For now, always return compatible since we're using local storage
-      const result = {
+  async checkCompatibility(): Promise<CompatibilityReport> {
+    const endpoint = `/compatibility${buildQuery({ clientVersion: API_CONFIG.clientVersion })}`;
+    logRequest('GET', endpoint);
+    const versions = { currentVersion: API_CONFIG.clientVersion, apiVersion: this.version };
+
+    if (API_CONFIG.useLocalStorage) {
+      const result: CompatibilityReport = {
+        ...versions,
         compatible: true,
-        minClientVersion: '1.0.0',
-        currentVersion: this.version,
         upgradeRequired: false,
-        message: 'Local storage mode - always compatible',
+        updateAvailable: false,
+        checked: true,
+        message: 'Local storage mode',
+      };
+      logResponse('GET', endpoint, true, result);
+      return result;
+    }
+
+    try {
+      const server = await remote.get<ServerCompatibility>(endpoint);
+      const clientSupported = isVersionAtLeast(API_CONFIG.clientVersion, server.minClientVersion);
+      const apiSupported = !server.supportedApiVersions || server.supportedApiVersions.includes(this.version);
+      const compatible = clientSupported && apiSupported;
+
+      const result: CompatibilityReport = {
+        ...versions,
+        compatible,
+        upgradeRequired: !compatible,
+        updateAvailable: !clientSupported || (
+          !!server.latestClientVersion && !isVersionAtLeast(API_CONFIG.clientVersion, server.latestClientVersion)
+        ),
+        checked: true,
+        minClientVersion: server.minClientVersion,
+        latestClientVersion: server.latestClientVersion,
+        updateUrl: server.updateUrl,
+        message: server.message ?? (compatible
+          ? undefined
+          : clientSupported
+            ? `API ${this.version} is no longer supported`
+            : `Version ${server.minClientVersion} or later is required`),
       };
-      
-      logResponse('GET', '/compatibility', true, result);
+      logResponse('GET', endpoint, true, result);
       return result;
     } catch (error) {
-      logResponse('GET', '/compatibility', false, error);
-      
-      // Default to compatible if we can't check
+      logResponse('GET', endpoint, false, error);
+
+      // 426 Upgrade Required: the server turned this client away outright
+      if (error instanceof ApiError && error.status === 426) {
+        return {
+          ...versions,
+          compatible: false,
+          upgradeRequired: true,
+          updateAvailable: true,
+          checked: true,
+          message: error.message,
+        };
+      }
+
       return {
+        ...versions,
         compatible: true,
-        minClientVersion: '1.0.0',
-        currentVersion: this.version,
         upgradeRequired: false,
-        message: 'Compatibility check failed, assuming compatible',
+        updateAvailable: false,
+        checked: false,
+        message: `Compatibility check failed, assuming compatible: ${error instanceof Error ? error.message : 'Unknown error'}`,
       };
     }
   }
 
   /**
-   * Health check for API status
+   * Report whether the backend is usable. In remote mode this is the server's own report,
+   * marked degraded when part of the backend is down or the round trip is slow, and down
+   * when the server can't be reached. In local mode it describes the local database.
    */
-  async healthCheck(): Promise<{
-    status: 'healthy' | 'degraded' | 'down';
-    isLocal: boolean;
-    version: string;
-    timestamp: string;
-  }> {
-    logRequest('GET', '/health');
-    
+  async healthCheck(): Promise<HealthReport> {
+    const endpoint = '/health';
+    logRequest('GET', endpoint);
+    const base = { isLocal: this.isLocal(), version: this.version, timestamp: new Date().toISOString() };
+
+    if (API_CONFIG.useLocalStorage) {
+      let result: HealthReport;
+      try {
+        const database = await Storage.getDatabaseStats();
+        const issues: string[] = [];
+        if (database.schemaVersion < database.latestSchemaVersion) {
+          issues.push(`Database schema is at version ${database.schemaVersion} of ${database.latestSchemaVersion}`);
+        }
+        if (database.rowCounts.quarantine > 0) {
+          issues.push(`${database.rowCounts.quarantine} invalid ${database.rowCounts.quarantine === 1 ? 'record' : 'records'} quarantined`);
+        }
+        result = { ...base, status: issues.length > 0 ? 'degraded' : 'healthy', issues, database };
+      } catch (error) {
+        result = { ...base, status: 'down', issues: [error instanceof Error ? error.message : 'Database unavailable'] };
+      }
+      logResponse('GET', endpoint, result.status !== 'down', result);
+      return result;
+    }
+
+    const startTime = Date.now();
     try {
-      const result = {
-        status: 'healthy' as const,
-        isLocal: this.isLocal(),
-        version: this.version,
-        timestamp: new Date().toISOString(),
-      };
-      
-      logResponse('GET', '/health', true, result);
+      const server = await remote.get<ServerHealth>(endpoint);
+      const latencyMs = Date.now() - startTime;
+      const services = server.services
+        ? Object.fromEntries(
+            Object.entries(server.services).map(([name, status]) => [name, toHealthStatus(status)])
+          )
+        : undefined;
+
+      const issues: string[] = [];
+      let status = toHealthStatus(server.status);
+      if (status !== 'healthy' && server.message) {
+        issues.push(server.message);
+      }
+      Object.entries(services ?? {}).forEach(([name, serviceStatus]) => {
+        if (serviceStatus !== 'healthy') issues.push(`${name} is ${serviceStatus}`);
+      });
+      if (latencyMs > HIGH_LATENCY_MS) {
+        issues.push(`Slow response (${latencyMs}ms)`);
+      }
+      if (status === 'healthy' && issues.length > 0) {
+        status = 'degraded';
+      }
+
+      const result: HealthReport = { ...base, status, issues, latencyMs, services };
+      logResponse('GET', endpoint, true, result, latencyMs);
       return result;
     } catch (error) {
-      logResponse('GET', '/health', false, error);
-      
+      logResponse('GET', endpoint, false, error);
       return {
-        status: 'down' as const,
-        isLocal: this.isLocal(),
-        version: this.version,
-        timestamp: new Date().toISOString(),
+        ...base,
+        status: 'down',
+        issues: [error instanceof Error ? error.message : 'Server unreachable'],
+        // The server answered, just not with a healthy report
+        latencyMs: error instanceof ApiError && error.status !== null ? Date.now() - startTime : undefined,
       };
     }
   }
@@ -409,18 +1289,37 @@ export const apiClient = new ApiClient();
 // Export individual methods for easy migration from storage imports
 export const {
   getTechniques,
+  getTechniquesPage,
   getRecentTechniques,
   saveTechnique,
   updateTechnique,
   deleteTechnique,
   getTechniquesBySession,
+  getTechniqueRevisions,
   getSessions,
+  getSessionsPage,
   saveSession,
   updateSession,
   deleteSession,
   getProfile,
   saveProfile,
   deleteProfile,
+  getPromotions,
+  deletePromotion,
+  getChanges,
+  clearAllData,
+  search,
+  searchNames,
+  getTrash,
+  restoreTechnique,
+  restoreSession,
+  purgeTechnique,
+  purgeSession,
+  emptyTrash,
+  checkIntegrity,
+  repairIntegrity,
+  getQuarantinedRecords,
+  discardQuarantinedRecord,
 } = apiClient;
 
 // Export client for advanced usage
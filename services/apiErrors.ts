@@ -0,0 +1,104 @@
+/**
+ * Errors thrown by the remote API transport. `status` is the HTTP status, or null when
+ * no response arrived. `code` is the error code from the response body, when the server
+ * sent one.
+ */
+export class ApiError extends Error {
+  readonly status: number | null;
+  readonly code: string | null;
+  readonly endpoint: string;
+
+  constructor(message: string, endpoint: string, status: number | null = null, code: string | null = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.endpoint = endpoint;
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// The request didn't finish within the configured timeout and was aborted
+export class ApiTimeoutError extends ApiError {
+  constructor(endpoint: string, timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`, endpoint);
+    this.name = 'ApiTimeoutError';
+  }
+}
+
+// No response at all: offline, DNS failure, connection refused
+export class ApiNetworkError extends ApiError {
+  constructor(endpoint: string, message: string = 'Network request failed') {
+    super(message, endpoint);
+    this.name = 'ApiNetworkError';
+  }
+}
+
+// 400 and 422: the server rejected what was sent
+export class ApiValidationError extends ApiError {
+  constructor(message: string, endpoint: string, status: number, code: string | null = null) {
+    super(message, endpoint, status, code);
+    this.name = 'ApiValidationError';
+  }
+}
+
+// 401 and 403
+export class ApiAuthError extends ApiError {
+  constructor(message: string, endpoint: string, status: number, code: string | null = null) {
+    super(message, endpoint, status, code);
+    this.name = 'ApiAuthError';
+  }
+}
+
+export class ApiNotFoundError extends ApiError {
+  constructor(message: string, endpoint: string, code: string | null = null) {
+    super(message, endpoint, 404, code);
+    this.name = 'ApiNotFoundError';
+  }
+}
+
+// 409: the record changed on the server since it was read
+export class ApiConflictError extends ApiError {
+  constructor(message: string, endpoint: string, code: string | null = null) {
+    super(message, endpoint, 409, code);
+    this.name = 'ApiConflictError';
+  }
+}
+
+// 5xx, and any other status the client doesn't handle specially
+export class ApiServerError extends ApiError {
+  constructor(message: string, endpoint: string, status: number, code: string | null = null) {
+    super(message, endpoint, status, code);
+    this.name = 'ApiServerError';
+  }
+}
+
+/**
+ * The error for a response that came back with a non-2xx status
+ */
+export const errorForStatus = (
+  status: number,
+  endpoint: string,
+  message: string,
+  code: string | null = null
+): ApiError => {
+  switch (status) {
+    case 400:
+    case 422:
+      return new ApiValidationError(message, endpoint, status, code);
+    case 401:
+    case 403:
+      return new ApiAuthError(message, endpoint, status, code);
+    case 404:
+      return new ApiNotFoundError(message, endpoint, code);
+    case 409:
+      return new ApiConflictError(message, endpoint, code);
+    default:
+      return new ApiServerError(message, endpoint, status, code);
+  }
+};
+
+// Worth retrying later: the request may not have reached the server, or the server failed
+export const isTransientApiError = (error: unknown): boolean =>
+  error instanceof ApiTimeoutError ||
+  error instanceof ApiNetworkError ||
+  (error instanceof ApiServerError && error.status !== null && error.status >= 500);
@@ -0,0 +1,245 @@
+import { Platform } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+import {
+  AppLockSettings,
+  APP_LOCK_OFF,
+  PinCheckResult,
+  WrappedDataKey,
+  MAX_PIN_ATTEMPTS,
+  DEFAULT_LOCK_TIMEOUT,
+} from '@/types/appLock';
+import {
+  createDataKey,
+  activateDataKey,
+  rewrapActiveDataKey,
+  clearDataKey,
+  setNotesEncryptionActive,
+} from './encryption';
+import { rewriteNotes } from './storage';
+
+/**
+ * App lock
+ *
+ * The PIN itself is never stored. A PIN is checked by unwrapping the notes data key with
+ * it, so the step that unlocks the app also unlocks encrypted notes. The lock settings
+ * and failed attempt count are kept in the device keychain through SecureStore, which
+ * isn't available on web, so the app lock is native-only.
+ */
+
+const LOCK_KEY = 'flow_roll_app_lock';
+const ATTEMPTS_KEY = 'flow_roll_app_lock_attempts';
+
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+interface StoredLock {
+  pinLength: number;
+  timeoutMs: number;
+  encryptNotes: boolean;
+  dataKey: WrappedDataKey;
+}
+
+interface StoredAttempts {
+  failedAttempts: number;
+  lockedUntil: number | null;
+}
+
+export const isAppLockSupported = (): boolean => Platform.OS !== 'web';
+
+const readLock = async (): Promise<StoredLock | null> => {
+  const lockJson = await SecureStore.getItemAsync(LOCK_KEY);
+  return lockJson ? (JSON.parse(lockJson) as StoredLock) : null;
+};
+
+const writeLock = async (lock: StoredLock): Promise<void> => {
+  await SecureStore.setItemAsync(LOCK_KEY, JSON.stringify(lock));
+};
+
+const requireLock = async (): Promise<StoredLock> => {
+  const lock = await readLock();
+  if (!lock) throw new Error('App lock is not set up');
+  return lock;
+};
+
+const readAttempts = async (): Promise<StoredAttempts> => {
+  const attemptsJson = await SecureStore.getItemAsync(ATTEMPTS_KEY);
+  return attemptsJson ? (JSON.parse(attemptsJson) as StoredAttempts) : { failedAttempts: 0, lockedUntil: null };
+};
+
+// 30 seconds once the attempt limit is reached, doubling with each wrong PIN after it, up to an hour
+const lockoutDuration = (failedAttempts: number): number =>
+  failedAttempts < MAX_PIN_ATTEMPTS
+    ? 0
+    : Math.min(BASE_LOCKOUT_MS * 2 ** (failedAttempts - MAX_PIN_ATTEMPTS), MAX_LOCKOUT_MS);
+
+const formatWait = (until: Date, now: number): string => {
+  const seconds = Math.max(1, Math.ceil((until.getTime() - now) / 1000));
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+// What to tell the user after a PIN check that didn't unlock
+export const describePinFailure = (result: PinCheckResult, now: number = Date.now()): string => {
+  switch (result.status) {
+    case 'wrong-pin':
+      return `Incorrect PIN. ${result.attemptsLeft} ${result.attemptsLeft === 1 ? 'attempt' : 'attempts'} left.`;
+    case 'locked-out':
+      return `Too many attempts. Try again in ${formatWait(result.until, now)}.`;
+    default:
+      return '';
+  }
+};
+
+/**
+ * The lock settings. Throws when they can't be read, so callers fail locked rather than open.
+ */
+export const getAppLockSettings = async (): Promise<AppLockSettings> => {
+  if (!isAppLockSupported()) return APP_LOCK_OFF;
+
+  const lock = await readLock();
+  if (!lock) return APP_LOCK_OFF;
+
+  return {
+    enabled: true,
+    pinLength: lock.pinLength,
+    timeoutMs: lock.timeoutMs,
+    encryptNotes: lock.encryptNotes,
+  };
+};
+
+// When the current lockout ends, or null when PIN entry isn't locked out
+export const getLockoutEnd = async (): Promise<Date | null> => {
+  try {
+    const { lockedUntil } = await readAttempts();
+    return lockedUntil && lockedUntil > Date.now() ? new Date(lockedUntil) : null;
+  } catch (error) {
+    console.error('Error reading PIN lockout:', error);
+    return null;
+  }
+};
+
+/**
+ * Check a PIN and, if it is right, unlock the notes data key. Wrong PINs are counted
+ * across restarts, and PIN entry is locked out once MAX_PIN_ATTEMPTS is reached.
+ */
+export const unlockWithPin = async (pin: string): Promise<PinCheckResult> => {
+  const lock = await requireLock();
+  const attempts = await readAttempts();
+
+  if (attempts.lockedUntil && attempts.lockedUntil > Date.now()) {
+    return { status: 'locked-out', until: new Date(attempts.lockedUntil) };
+  }
+
+  if (await activateDataKey(pin, lock.dataKey)) {
+    setNotesEncryptionActive(lock.encryptNotes);
+    if (attempts.failedAttempts > 0) {
+      await SecureStore.deleteItemAsync(ATTEMPTS_KEY);
+    }
+    return { status: 'unlocked' };
+  }
+
+  const failedAttempts = attempts.failedAttempts + 1;
+  const lockout = lockoutDuration(failedAttempts);
+  const lockedUntil = lockout > 0 ? Date.now() + lockout : null;
+  await SecureStore.setItemAsync(ATTEMPTS_KEY, JSON.stringify({ failedAttempts, lockedUntil }));
+
+  console.log(`Wrong PIN entered (${failedAttempts} in a row)`);
+  return lockedUntil
+    ? { status: 'locked-out', until: new Date(lockedUntil) }
+    : { status: 'wrong-pin', attemptsLeft: MAX_PIN_ATTEMPTS - failedAttempts };
+};
+
+/**
+ * Turn the app lock on with a new PIN. Notes stay as they are until encryption is turned on.
+ */
+export const enableAppLock = async (pin: string): Promise<void> => {
+  try {
+    const dataKey = await createDataKey(pin);
+    await writeLock({ pinLength: pin.length, timeoutMs: DEFAULT_LOCK_TIMEOUT, encryptNotes: false, dataKey });
+    await SecureStore.deleteItemAsync(ATTEMPTS_KEY);
+    console.log('App lock enabled');
+  } catch (error) {
+    console.error('Error enabling app lock:', error);
+    clearDataKey();
+    throw new Error('Failed to set PIN');
+  }
+};
+
+// Only the data key is re-wrapped, so encrypted notes are untouched
+export const changePin = async (currentPin: string, newPin: string): Promise<PinCheckResult> => {
+  const result = await unlockWithPin(currentPin);
+  if (result.status !== 'unlocked') return result;
+
+  try {
+    const lock = await requireLock();
+    const dataKey = await rewrapActiveDataKey(newPin);
+    await writeLock({ ...lock, pinLength: newPin.length, dataKey });
+    console.log('PIN changed');
+    return result;
+  } catch (error) {
+    console.error('Error changing PIN:', error);
+    throw new Error('Failed to change PIN');
+  }
+};
+
+/**
+ * Turn the app lock off. Encrypted notes are decrypted first, since the key goes with the PIN.
+ */
+export const disableAppLock = async (currentPin: string): Promise<PinCheckResult> => {
+  const result = await unlockWithPin(currentPin);
+  if (result.status !== 'unlocked') return result;
+
+  try {
+    setNotesEncryptionActive(false);
+    await rewriteNotes();
+    await SecureStore.deleteItemAsync(LOCK_KEY);
+    await SecureStore.deleteItemAsync(ATTEMPTS_KEY);
+    clearDataKey();
+    console.log('App lock disabled');
+    return result;
+  } catch (error) {
+    console.error('Error disabling app lock:', error);
+    const lock = await readLock();
+    if (lock) setNotesEncryptionActive(lock.encryptNotes);
+    throw new Error('Failed to turn off app lock');
+  }
+};
+
+export const setLockTimeout = async (timeoutMs: number): Promise<void> => {
+  try {
+    const lock = await requireLock();
+    await writeLock({ ...lock, timeoutMs });
+  } catch (error) {
+    console.error('Error saving lock timeout:', error);
+    throw new Error('Failed to save lock timeout');
+  }
+};
+
+/**
+ * Turn notes encryption on or off and rewrite every stored note to match.
+ * The app must be unlocked. If the rewrite fails, nothing changes.
+ */
+export const setNotesEncryption = async (enabled: boolean): Promise<void> => {
+  const lock = await requireLock();
+
+  try {
+    setNotesEncryptionActive(enabled);
+    await rewriteNotes();
+    await writeLock({ ...lock, encryptNotes: enabled });
+    console.log(`Notes encryption turned ${enabled ? 'on' : 'off'}`);
+  } catch (error) {
+    console.error('Error changing notes encryption:', error);
+    setNotesEncryptionActive(lock.encryptNotes);
+    throw new Error(`Failed to ${enabled ? 'encrypt' : 'decrypt'} notes`);
+  }
+};
+
+/**
+ * Forget the PIN and the data key. Encrypted notes can't be read afterwards, so this is
+ * only for after the data they belong to has been erased.
+ */
+export const resetAppLock = async (): Promise<void> => {
+  clearDataKey();
+  await SecureStore.deleteItemAsync(LOCK_KEY);
+  await SecureStore.deleteItemAsync(ATTEMPTS_KEY);
+  console.log('App lock reset');
+};
@@ -0,0 +1,142 @@
+import * as FileSystem from 'expo-file-system';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Athlete, DEFAULT_ATHLETE_ID, DEFAULT_ATHLETE_NAME } from '@/types/athlete';
+import { DB_NAME } from './database';
+
+/**
+ * Athletes
+ *
+ * Parents logging for their kids and coaches logging for private students keep one log
+ * per athlete. Each athlete gets their own database file, backups and sync state, named
+ * by `athleteScopedName`. The default athlete keeps the names from before there could be
+ * more than one, so existing data is theirs without being moved.
+ */
+
+interface StoredAthlete {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+const ATHLETES_KEY = 'flow_roll_athletes';
+const ACTIVE_ATHLETE_KEY = 'flow_roll_active_athlete';
+
+// The database file and the journal files SQLite may have left beside it
+export const DATABASE_FILE_SUFFIXES = ['', '-wal', '-shm', '-journal'];
+
+let activeAthleteId: string | null = null;
+
+// The default athlete until loadActiveAthleteId has run
+export const getActiveAthleteId = (): string => activeAthleteId ?? DEFAULT_ATHLETE_ID;
+
+/**
+ * The name of one athlete's copy of a storage key, directory or file. The default
+ * athlete's is `name` itself.
+ */
+export const athleteScopedName = (name: string, athleteId: string = getActiveAthleteId()): string =>
+  athleteId === DEFAULT_ATHLETE_ID ? name : `${name}_${athleteId}`;
+
+export const getAthleteDatabaseName = (athleteId: string): string =>
+  athleteId === DEFAULT_ATHLETE_ID ? DB_NAME : DB_NAME.replace(/\.db$/, `_${athleteId}.db`);
+
+// expo-sqlite keeps database files in the SQLite folder of the document directory
+export const getAthleteDatabaseUri = (athleteId: string = getActiveAthleteId()): string =>
+  `${FileSystem.documentDirectory}SQLite/${getAthleteDatabaseName(athleteId)}`;
+
+export const getAthleteBackupDirectory = (athleteId: string = getActiveAthleteId()): string =>
+  `${FileSystem.documentDirectory}${athleteScopedName('backups', athleteId)}/`;
+
+const writeAthletes = async (athletes: Athlete[]): Promise<void> => {
+  const stored: StoredAthlete[] = athletes.map(athlete => ({
+    id: athlete.id,
+    name: athlete.name,
+    createdAt: athlete.createdAt.toISOString(),
+  }));
+  await AsyncStorage.setItem(ATHLETES_KEY, JSON.stringify(stored));
+};
+
+/**
+ * Every athlete, oldest first. The default athlete is added the first time this runs,
+ * so data from before there could be more than one athlete is always someone's.
+ */
+export const listAthletes = async (): Promise<Athlete[]> => {
+  const athletesJson = await AsyncStorage.getItem(ATHLETES_KEY);
+  const stored: StoredAthlete[] = athletesJson ? JSON.parse(athletesJson) : [];
+  const athletes = stored.map(athlete => ({ ...athlete, createdAt: new Date(athlete.createdAt) }));
+
+  if (!athletes.some(athlete => athlete.id === DEFAULT_ATHLETE_ID)) {
+    athletes.unshift({ id: DEFAULT_ATHLETE_ID, name: DEFAULT_ATHLETE_NAME, createdAt: new Date() });
+    await writeAthletes(athletes);
+  }
+
+  return athletes;
+};
+
+/**
+ * Read which athlete the app last had open. An athlete that has since been deleted falls
+ * back to the default one.
+ */
+export const loadActiveAthleteId = async (): Promise<string> => {
+  if (activeAthleteId !== null) return activeAthleteId;
+
+  try {
+    const storedId = await AsyncStorage.getItem(ACTIVE_ATHLETE_KEY);
+    const athletes = await listAthletes();
+    activeAthleteId = athletes.some(athlete => athlete.id === storedId) ? storedId! : DEFAULT_ATHLETE_ID;
+  } catch (error) {
+    console.error('Error loading active athlete:', error);
+    activeAthleteId = DEFAULT_ATHLETE_ID;
+  }
+  return activeAthleteId;
+};
+
+// Only the record of which athlete is active; storage.openAthleteStorage switches the data too
+export const setActiveAthleteId = async (athleteId: string): Promise<void> => {
+  activeAthleteId = athleteId;
+  await AsyncStorage.setItem(ACTIVE_ATHLETE_KEY, athleteId);
+};
+
+export const createAthlete = async (name: string): Promise<Athlete> => {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error('Enter a name for the profile');
+  }
+
+  const athlete: Athlete = { id: `athlete_${Date.now()}`, name: trimmedName, createdAt: new Date() };
+  await writeAthletes([...(await listAthletes()), athlete]);
+  return athlete;
+};
+
+export const renameAthlete = async (athleteId: string, name: string): Promise<void> => {
+  const trimmedName = name.trim();
+  if (!trimmedName) return;
+
+  const athletes = await listAthletes();
+  await writeAthletes(athletes.map(athlete =>
+    athlete.id === athleteId ? { ...athlete, name: trimmedName } : athlete
+  ));
+};
+
+/**
+ * Delete an athlete's database files, backups and scoped storage keys, and drop them from
+ * the list. The default athlete and the active one can't be deleted.
+ */
+export const deleteAthleteFiles = async (athleteId: string): Promise<void> => {
+  if (athleteId === DEFAULT_ATHLETE_ID || athleteId === getActiveAthleteId()) {
+    throw new Error("The default profile and the one in use can't be deleted");
+  }
+
+  if (FileSystem.documentDirectory) {
+    for (const fileSuffix of DATABASE_FILE_SUFFIXES) {
+      await FileSystem.deleteAsync(`${getAthleteDatabaseUri(athleteId)}${fileSuffix}`, { idempotent: true });
+    }
+    await FileSystem.deleteAsync(getAthleteBackupDirectory(athleteId), { idempotent: true });
+  }
+
+  const scopedSuffix = athleteScopedName('', athleteId);
+  const keys = (await AsyncStorage.getAllKeys()).filter(key => key.endsWith(scopedSuffix));
+  await AsyncStorage.multiRemove(keys);
+
+  await writeAthletes((await listAthletes()).filter(athlete => athlete.id !== athleteId));
+  console.log('Deleted athlete', athleteId);
+};
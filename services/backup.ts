@@ -0,0 +1,340 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { buildExportDocument } from './dataExport';
+import { parseImportDocument, decryptImportNotes, applyImport, ImportData } from './dataImport';
+import { isNotesEncryptionActive } from './encryption';
+import { closeStorage, isStoragePersistent } from './storage';
+import { athleteScopedName, getAthleteBackupDirectory, getAthleteDatabaseUri, DATABASE_FILE_SUFFIXES } from './athletes';
+import { shareFileCopy, getFileTimestamp } from '@/utils/fileSharing';
+
+/**
+ * Local backups
+ *
+ * Snapshots are JSON dumps in the export format, written to the app's document
+ * directory. Only the most recent MAX_BACKUPS are kept, except pre-wipe snapshots,
+ * which are held for the wipe grace period so a cleared install can be undone.
+ * While notes encryption is on, snapshots keep notes encrypted. The file system is not
+ * available on web, so backups are native-only.
+ */
+
+export type BackupReason = 'scheduled' | 'manual' | 'pre-restore' | 'pre-wipe';
+
+export interface BackupInfo {
+  id: string;
+  fileName: string;
+  createdAt: Date;
+  size: number; // bytes
+  techniqueCount: number;
+  sessionCount: number;
+  reason: BackupReason;
+}
+
+// Each athlete has their own backups; these keys are scoped to the active one
+const BACKUP_INDEX_KEY = 'flow_roll_backup_index';
+const PENDING_WIPE_KEY = 'flow_roll_pending_wipe_backup';
+const MAX_BACKUPS = 7;
+const BACKUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export const WIPE_GRACE_PERIOD_DAYS = 7;
+const WIPE_GRACE_PERIOD_MS = WIPE_GRACE_PERIOD_DAYS * 24 * 60 * 60 * 1000;
+
+// Demo data lives in memory; backing it up would rotate out backups of the real database
+export const isBackupSupported = (): boolean =>
+  Platform.OS !== 'web' && !!FileSystem.documentDirectory && isStoragePersistent();
+
+const getBackupUri = (fileName: string): string => `${getAthleteBackupDirectory()}${fileName}`;
+
+const ensureBackupDirectory = async (): Promise<void> => {
+  const directory = getAthleteBackupDirectory();
+  const info = await FileSystem.getInfoAsync(directory);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+  }
+};
+
+const readIndex = async (): Promise<BackupInfo[]> => {
+  try {
+    const indexJson = await AsyncStorage.getItem(athleteScopedName(BACKUP_INDEX_KEY));
+    if (!indexJson) return [];
+
+    const entries = JSON.parse(indexJson) as (Omit<BackupInfo, 'createdAt'> & { createdAt: string })[];
+    return entries.map(entry => ({ ...entry, createdAt: new Date(entry.createdAt) }));
+  } catch (error) {
+    console.error('Error reading backup index:', error);
+    return [];
+  }
+};
+
+const writeIndex = async (entries: BackupInfo[]): Promise<void> => {
+  await AsyncStorage.setItem(athleteScopedName(BACKUP_INDEX_KEY), JSON.stringify(entries));
+};
+
+const sortNewestFirst = (entries: BackupInfo[]): BackupInfo[] =>
+  [...entries].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+const isWithinWipeGracePeriod = (entry: BackupInfo): boolean =>
+  entry.reason === 'pre-wipe' && Date.now() - entry.createdAt.getTime() < WIPE_GRACE_PERIOD_MS;
+
+// Delete everything beyond the newest MAX_BACKUPS. Pre-wipe snapshots still inside
+// their grace period are kept and don't count towards the limit.
+const rotateBackups = async (entries: BackupInfo[]): Promise<BackupInfo[]> => {
+  const protectedEntries = entries.filter(isWithinWipeGracePeriod);
+  const rotating = sortNewestFirst(entries.filter(entry => !isWithinWipeGracePeriod(entry)));
+  const kept = sortNewestFirst([...protectedEntries, ...rotating.slice(0, MAX_BACKUPS)]);
+  const expired = rotating.slice(MAX_BACKUPS);
+
+  for (const entry of expired) {
+    await FileSystem.deleteAsync(getBackupUri(entry.fileName), { idempotent: true });
+    console.log('Rotated out backup:', entry.fileName);
+  }
+
+  return kept;
+};
+
+/**
+ * List backups, newest first. Entries whose file has gone missing are dropped.
+ */
+export const listBackups = async (): Promise<BackupInfo[]> => {
+  if (!isBackupSupported()) return [];
+
+  const entries = await readIndex();
+  const existing: BackupInfo[] = [];
+
+  for (const entry of entries) {
+    const info = await FileSystem.getInfoAsync(getBackupUri(entry.fileName));
+    if (info.exists) {
+      existing.push(entry);
+    }
+  }
+
+  if (existing.length !== entries.length) {
+    await writeIndex(existing);
+  }
+
+  return sortNewestFirst(existing);
+};
+
+/**
+ * Snapshot all user data into a new backup file
+ */
+export const createBackup = async (reason: BackupReason): Promise<BackupInfo> => {
+  if (!isBackupSupported()) {
+    throw new Error('Backups are not supported on this platform');
+  }
+
+  try {
+    await ensureBackupDirectory();
+
+    const exportDocument = await buildExportDocument({ encryptNotes: isNotesEncryptionActive() });
+    const createdAt = new Date();
+    const id = `backup_${createdAt.getTime()}`;
+    const fileName = `${id}.json`;
+    const contents = JSON.stringify(exportDocument);
+
+    await FileSystem.writeAsStringAsync(getBackupUri(fileName), contents, {
+      encoding: FileSystem.EncodingType.UTF8,
+    });
+
+    const fileInfo = await FileSystem.getInfoAsync(getBackupUri(fileName));
+    const backup: BackupInfo = {
+      id,
+      fileName,
+      createdAt,
+      size: fileInfo.exists ? fileInfo.size : contents.length,
+      techniqueCount: exportDocument.data.techniques.length,
+      sessionCount: exportDocument.data.sessions.length,
+      reason,
+    };
+
+    const entries = await rotateBackups([...(await readIndex()), backup]);
+    await writeIndex(entries);
+
+    console.log(`Created ${reason} backup with ${backup.techniqueCount} techniques and ${backup.sessionCount} sessions`);
+    return backup;
+  } catch (error) {
+    console.error('Error creating backup:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to create backup: ${errorMessage}`);
+  }
+};
+
+/**
+ * Take a backup if the newest one is older than the backup interval.
+ * Returns the new backup, or null when none was needed.
+ */
+export const runScheduledBackup = async (): Promise<BackupInfo | null> => {
+  if (!isBackupSupported()) return null;
+
+  try {
+    const [latest] = await listBackups();
+    if (latest && Date.now() - latest.createdAt.getTime() < BACKUP_INTERVAL_MS) {
+      return null;
+    }
+
+    return await createBackup('scheduled');
+  } catch (error) {
+    // A missed scheduled backup must never block app start
+    console.error('Error running scheduled backup:', error);
+    return null;
+  }
+};
+
+// Read and validate a backup, decrypting its notes. Null when `pin` can't decrypt them.
+const readBackup = async (
+  backupId: string,
+  pin?: string
+): Promise<{ backup: BackupInfo; data: ImportData } | null> => {
+  const entries = await listBackups();
+  const backup = entries.find(entry => entry.id === backupId);
+  if (!backup) {
+    throw new Error('Backup not found');
+  }
+
+  const contents = await FileSystem.readAsStringAsync(getBackupUri(backup.fileName), {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+
+  const { data: parsed, errors } = parseImportDocument(contents);
+  if (!parsed) {
+    console.error('Backup file failed validation:', errors);
+    throw new Error(`Backup file is damaged: ${errors[0]}`);
+  }
+
+  const data = await decryptImportNotes(parsed, pin);
+  return data ? { backup, data } : null;
+};
+
+const applyBackup = async ({ backup, data }: { backup: BackupInfo; data: ImportData }): Promise<void> => {
+  await applyImport(data, {
+    techniques: 'replace-all',
+    sessions: 'replace-all',
+    overwriteProfile: true,
+  });
+
+  // Any restore replaces the wiped state, so there is nothing left to undo
+  await AsyncStorage.removeItem(athleteScopedName(PENDING_WIPE_KEY));
+
+  console.log('Restored backup from', backup.createdAt.toISOString());
+};
+
+/**
+ * Replace all current data with the contents of a backup.
+ * A pre-restore backup is taken first so the restore itself can be undone.
+ * Returns null, changing nothing, when the backup's notes were encrypted under a PIN
+ * that is no longer set and `pin` is missing or wrong.
+ */
+export const restoreBackup = async (backupId: string, pin?: string): Promise<BackupInfo | null> => {
+  const restoring = await readBackup(backupId, pin);
+  if (!restoring) return null;
+
+  await createBackup('pre-restore');
+  await applyBackup(restoring);
+  return restoring.backup;
+};
+
+// Recovery for a database that can't be opened or read
+
+// Rename the database files so the next open starts an empty database. Nothing is deleted.
+const setAsideDatabase = async (): Promise<void> => {
+  await closeStorage();
+
+  const suffix = `.damaged-${getFileTimestamp()}`;
+  for (const fileSuffix of DATABASE_FILE_SUFFIXES) {
+    const uri = `${getAthleteDatabaseUri()}${fileSuffix}`;
+    if ((await FileSystem.getInfoAsync(uri)).exists) {
+      await FileSystem.moveAsync({ from: uri, to: `${uri}${suffix}` });
+    }
+  }
+  console.log('Set aside damaged database with suffix', suffix);
+};
+
+/**
+ * Restore a backup into a new, empty database, for when the current one can't be read.
+ * The old database files are renamed rather than deleted. No pre-restore backup is taken,
+ * as there is nothing readable to back up. Returns null, changing nothing, when `pin`
+ * can't decrypt the backup's notes.
+ */
+export const restoreBackupToNewDatabase = async (backupId: string, pin?: string): Promise<BackupInfo | null> => {
+  const restoring = await readBackup(backupId, pin);
+  if (!restoring) return null;
+
+  await setAsideDatabase();
+  await applyBackup(restoring);
+  return restoring.backup;
+};
+
+/**
+ * Share a copy of the raw SQLite database file, so data can still be recovered by hand
+ * when the app can't read it
+ */
+export const exportDatabaseFile = async (): Promise<void> => {
+  if (!isBackupSupported()) {
+    throw new Error('Exporting the database is not supported on this platform');
+  }
+
+  // Closing checkpoints the write-ahead log into the main file, when the database is open at all
+  await closeStorage();
+
+  const uri = getAthleteDatabaseUri();
+  if (!(await FileSystem.getInfoAsync(uri)).exists) {
+    throw new Error('No database file found');
+  }
+
+  await shareFileCopy(uri, `flow-roll-database-${getFileTimestamp()}.db`, 'application/x-sqlite3');
+};
+
+export const deleteBackup = async (backupId: string): Promise<void> => {
+  const entries = await readIndex();
+  const backup = entries.find(entry => entry.id === backupId);
+  if (!backup) return;
+
+  await FileSystem.deleteAsync(getBackupUri(backup.fileName), { idempotent: true });
+  await writeIndex(entries.filter(entry => entry.id !== backupId));
+};
+
+/**
+ * Remember the snapshot taken before a wipe so Settings can offer to undo it
+ */
+export const markWipeRecoverable = async (backupId: string): Promise<void> => {
+  await AsyncStorage.setItem(athleteScopedName(PENDING_WIPE_KEY), backupId);
+};
+
+/**
+ * The pre-wipe snapshot that can still undo the last wipe, or null once it has
+ * been restored, deleted or the grace period has run out.
+ */
+export const getRecoverableWipe = async (): Promise<BackupInfo | null> => {
+  if (!isBackupSupported()) return null;
+
+  try {
+    const backupId = await AsyncStorage.getItem(athleteScopedName(PENDING_WIPE_KEY));
+    if (!backupId) return null;
+
+    const backup = (await listBackups()).find(entry => entry.id === backupId);
+    if (!backup || !isWithinWipeGracePeriod(backup)) {
+      await AsyncStorage.removeItem(athleteScopedName(PENDING_WIPE_KEY));
+      return null;
+    }
+
+    return backup;
+  } catch (error) {
+    console.error('Error checking for recoverable wipe:', error);
+    return null;
+  }
+};
+
+export const getWipeGraceDeadline = (backup: BackupInfo): Date =>
+  new Date(backup.createdAt.getTime() + WIPE_GRACE_PERIOD_MS);
+
+/**
+ * Delete every backup, including any pre-wipe snapshot. For when data is erased for good,
+ * such as after a forgotten PIN.
+ */
+export const deleteAllBackups = async (): Promise<void> => {
+  if (!isBackupSupported()) return;
+
+  await FileSystem.deleteAsync(getAthleteBackupDirectory(), { idempotent: true });
+  await AsyncStorage.multiRemove([athleteScopedName(BACKUP_INDEX_KEY), athleteScopedName(PENDING_WIPE_KEY)]);
+  console.log('Deleted all backups');
+};
@@ -0,0 +1,83 @@
+import { Technique } from '@/types/technique';
+import { TrainingSession } from '@/types/session';
+import { SESSION_TYPES } from '@/constants/colors';
+import { toCsv } from '@/utils/csv';
+import { shareTextFile, getFileTimestamp } from '@/utils/fileSharing';
+
+const CSV_MIME_TYPE = 'text/csv';
+const CSV_UTI = 'public.comma-separated-values-text';
+
+// Local date and time in a form spreadsheets parse (e.g. "2024-01-15 18:30")
+const formatCsvDateTime = (date: Date): string => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const getSessionTypeLabel = (type: TrainingSession['type']): string =>
+  SESSION_TYPES.find(sessionType => sessionType.type === type)?.label ?? type;
+
+// Flatten submissions as "name×count", e.g. "Armbar×2; Triangle×1"
+const formatSubmissions = (session: TrainingSession): string =>
+  session.submissions
+    .map(name => `${name}×${session.submissionCounts[name] || 1}`)
+    .join('; ');
+
+export const sessionsToCsv = (sessions: TrainingSession[]): string => {
+  const headers = ['Date', 'Type', 'Location', 'Satisfaction', 'Submissions', 'Notes'];
+  const rows = sessions.map(session => [
+    formatCsvDateTime(session.date),
+    getSessionTypeLabel(session.type),
+    session.location,
+    session.satisfaction,
+    formatSubmissions(session),
+    session.notes,
+  ]);
+  return toCsv(headers, rows);
+};
+
+export const techniquesToCsv = (techniques: Technique[], sessions: TrainingSession[]): string => {
+  const sessionDates = new Map(sessions.map(session => [session.id, session.date]));
+  const headers = ['Name', 'Category', 'Tags', 'Links', 'Session Date', 'Notes', 'Added'];
+  const rows = techniques.map(technique => {
+    const sessionDate = technique.sessionId ? sessionDates.get(technique.sessionId) : undefined;
+    return [
+      technique.name,
+      technique.category,
+      technique.tags.join('; '),
+      // One URL per line within the cell
+      technique.links?.map(link => link.url).join('\n'),
+      sessionDate ? formatCsvDateTime(sessionDate) : '',
+      technique.notes,
+      formatCsvDateTime(technique.timestamp),
+    ];
+  });
+  return toCsv(headers, rows);
+};
+
+/**
+ * Share sessions as a CSV file. Pass the filtered list to export exactly what's on screen.
+ */
+export const exportSessionsCsv = async (sessions: TrainingSession[]): Promise<void> => {
+  await shareTextFile({
+    fileName: `flowroll-sessions-${getFileTimestamp()}.csv`,
+    contents: sessionsToCsv(sessions),
+    mimeType: CSV_MIME_TYPE,
+    uti: CSV_UTI,
+  });
+};
+
+/**
+ * Share techniques as a CSV file. Sessions are used to resolve each technique's session date.
+ */
+export const exportTechniquesCsv = async (
+  techniques: Technique[],
+  sessions: TrainingSession[]
+): Promise<void> => {
+  await shareTextFile({
+    fileName: `flowroll-techniques-${getFileTimestamp()}.csv`,
+    contents: techniquesToCsv(techniques, sessions),
+    mimeType: CSV_MIME_TYPE,
+    uti: CSV_UTI,
+  });
+};
@@ -0,0 +1,138 @@
+import { Technique } from '@/types/technique';
+import { TrainingSession } from '@/types/session';
+import { Promotion } from '@/types/profile';
+import {
+  ExportDocument,
+  ExportedTechnique,
+  ExportedSession,
+  ExportedPromotion,
+  ExportedTag,
+  EXPORT_FORMAT,
+  EXPORT_FORMAT_VERSION,
+} from '@/types/export';
+import { APP_VERSION } from '@/constants/app';
+import { getTechniques, getSessions, getProfile, getPromotions, getLocationRecords, getAllTags } from './storage';
+import { getActiveWrappedKey, encryptText } from './encryption';
+import { shareTextFile, getFileTimestamp } from '@/utils/fileSharing';
+
+// Serializers - convert domain objects to their export representation
+export const serializeTechnique = (technique: Technique): ExportedTechnique => ({
+  id: technique.id,
+  name: technique.name,
+  category: technique.category,
+  tags: [...technique.tags],
+  notes: technique.notes || undefined,
+  links: technique.links?.map(link => ({
+    id: link.id,
+    url: link.url,
+    title: link.title || undefined,
+    timestamp: link.timestamp.toISOString(),
+  })),
+  timestamp: technique.timestamp.toISOString(),
+  sessionId: technique.sessionId || undefined,
+  updatedAt: technique.updatedAt?.toISOString(),
+});
+
+export const serializeSession = (session: TrainingSession): ExportedSession => ({
+  id: session.id,
+  date: session.date.toISOString(),
+  location: session.location || undefined,
+  type: session.type,
+  submissions: [...session.submissions],
+  submissionCounts: { ...session.submissionCounts },
+  notes: session.notes || undefined,
+  satisfaction: session.satisfaction,
+  techniqueIds: [...session.techniqueIds],
+  updatedAt: session.updatedAt?.toISOString(),
+});
+
+export const serializePromotion = (promotion: Promotion): ExportedPromotion => ({
+  id: promotion.id,
+  beltRank: promotion.beltRank,
+  stripes: promotion.stripes,
+  date: promotion.date.toISOString(),
+  instructor: promotion.instructor || undefined,
+  notes: promotion.notes || undefined,
+});
+
+export interface ExportOptions {
+  // Encrypt notes with the notes data key. Importing the file then needs the PIN.
+  encryptNotes?: boolean;
+  // Put in the file name, so exports for different athletes can be told apart
+  athleteName?: string;
+}
+
+/**
+ * Collect every piece of user data into a versioned export document
+ */
+export const buildExportDocument = async (options: ExportOptions = {}): Promise<ExportDocument> => {
+  const notesEncryption = options.encryptNotes ? getActiveWrappedKey() : null;
+  if (options.encryptNotes && !notesEncryption) {
+    throw new Error('Notes can only be exported encrypted while the app lock is unlocked');
+  }
+
+  // Storage getters initialize the database, so they must run before the direct database reads
+  const [techniques, sessions, profile, promotions] = await Promise.all([
+    getTechniques(),
+    getSessions(),
+    getProfile(),
+    getPromotions(),
+  ]);
+
+  const [locations, tags] = await Promise.all([
+    getLocationRecords(),
+    getAllTags(),
+  ]);
+
+  // Only notes are encrypted; everything else in the file stays readable
+  const protectNotes = <T extends { notes?: string }>(record: T): T =>
+    notesEncryption && record.notes ? { ...record, notes: encryptText(record.notes) } : record;
+
+  return {
+    format: EXPORT_FORMAT,
+    formatVersion: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    appVersion: APP_VERSION,
+    ...(notesEncryption ? { notesEncryption } : {}),
+    data: {
+      techniques: techniques.map(technique => protectNotes(serializeTechnique(technique))),
+      sessions: sessions.map(session => protectNotes(serializeSession(session))),
+      profile,
+      promotions: promotions.map(promotion => protectNotes(serializePromotion(promotion))),
+      locations: locations.map(location => ({
+        name: location.name,
+        usageCount: location.usageCount,
+        lastUsed: location.lastUsed?.toISOString(),
+      })),
+      customTags: tags
+        .filter(tag => tag.isCustom)
+        .map(tag => ({ name: tag.name, category: tag.category as ExportedTag['category'] })),
+    },
+  };
+};
+
+// "Sam O'Neil" becomes "sam-o-neil-"
+const toFileNamePrefix = (name?: string): string => {
+  const slug = (name ?? '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return slug ? `${slug}-` : '';
+};
+
+/**
+ * Export all user data as a JSON file through the share sheet (or a download on web)
+ * Returns the number of techniques and sessions exported
+ */
+export const exportDataAsJson = async (options: ExportOptions = {}): Promise<{ techniques: number; sessions: number }> => {
+  const exportDocument = await buildExportDocument(options);
+
+  await shareTextFile({
+    fileName: `flowroll-export-${toFileNamePrefix(options.athleteName)}${getFileTimestamp()}.json`,
+    contents: JSON.stringify(exportDocument, null, 2),
+    mimeType: 'application/json',
+    uti: 'public.json',
+  });
+
+  return {
+    techniques: exportDocument.data.techniques.length,
+    sessions: exportDocument.data.sessions.length,
+  };
+};
@@ -0,0 +1,375 @@
+import { Technique, TagCategory } from '@/types/technique';
+import { TrainingSession } from '@/types/session';
+import { UserProfile, Promotion } from '@/types/profile';
+import { EXPORT_FORMAT, EXPORT_FORMAT_VERSION } from '@/types/export';
+import { WrappedDataKey } from '@/types/appLock';
+import {
+  UnknownRecord,
+  isRecord,
+  isNonEmptyString,
+  parseDate,
+  parseTechnique,
+  parseSession,
+  parseProfile,
+  parsePromotion,
+} from '@/utils/recordValidation';
+import { getTechniques, getSessions, getProfile, importData } from './storage';
+import { serializeTechnique, serializeSession } from './dataExport';
+import { getActiveWrappedKey, unwrapDataKey, decryptText, isEncryptedText } from './encryption';
+
+export type ImportStrategy = 'replace-all' | 'skip-existing' | 'newest-wins';
+
+export interface ImportData {
+  exportedAt: Date;
+  appVersion: string;
+  techniques: Technique[];
+  sessions: TrainingSession[];
+  profile: UserProfile | null;
+  promotions: Promotion[];
+  locations: { name: string; usageCount: number; lastUsed: Date | null }[];
+  customTags: { name: string; category: TagCategory }[];
+  // Set while the notes are still encrypted; see decryptImportNotes
+  notesEncryption: WrappedDataKey | null;
+}
+
+export interface EntityImportSummary {
+  total: number;
+  new: number;
+  // Already on this device with identical contents
+  unchanged: number;
+  // Already on this device with different contents
+  conflicts: number;
+}
+
+export interface ImportPreview {
+  techniques: EntityImportSummary;
+  sessions: EntityImportSummary;
+  hasProfile: boolean;
+  // The file's profile differs from the one on this device
+  profileConflict: boolean;
+}
+
+export interface ImportOptions {
+  techniques: ImportStrategy;
+  sessions: ImportStrategy;
+  overwriteProfile: boolean;
+}
+
+export interface ImportResult {
+  techniquesWritten: number;
+  sessionsWritten: number;
+  profileWritten: boolean;
+  // Differing records newest-wins left alone because one side has no edit time
+  conflictsKept: number;
+}
+
+const isHex = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length % 2 === 0 && /^[0-9a-f]+$/i.test(value);
+
+const parseNotesEncryption = (raw: unknown, errors: string[]): WrappedDataKey | null => {
+  if (raw === null || raw === undefined) return null;
+
+  if (
+    !isRecord(raw) ||
+    !isHex(raw.keyId) ||
+    !isHex(raw.salt) ||
+    !isHex(raw.wrappedKey) ||
+    !Number.isInteger(raw.iterations) ||
+    (raw.iterations as number) < 1
+  ) {
+    errors.push('notesEncryption: must describe the key the notes were encrypted with');
+    return null;
+  }
+
+  return {
+    keyId: raw.keyId,
+    salt: raw.salt,
+    iterations: raw.iterations as number,
+    wrappedKey: raw.wrappedKey,
+  };
+};
+
+const findDuplicateIds = (records: { id: string }[]): string[] => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const record of records) {
+    if (seen.has(record.id)) duplicates.add(record.id);
+    seen.add(record.id);
+  }
+  return [...duplicates];
+};
+
+/**
+ * Parse and validate an export document. Any invalid record fails the whole file,
+ * so nothing is imported from a document we don't fully understand.
+ */
+export const parseImportDocument = (json: string): { data: ImportData | null; errors: string[] } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { data: null, errors: ['File is not valid JSON'] };
+  }
+
+  if (!isRecord(raw) || raw.format !== EXPORT_FORMAT) {
+    return { data: null, errors: ['File is not a FlowRoll export'] };
+  }
+
+  if (typeof raw.formatVersion !== 'number' || raw.formatVersion > EXPORT_FORMAT_VERSION) {
+    return { data: null, errors: ['File was exported by a newer version of FlowRoll. Please update the app.'] };
+  }
+
+  if (!isRecord(raw.data)) {
+    return { data: null, errors: ['File has no data section'] };
+  }
+
+  const errors: string[] = [];
+  const data = raw.data;
+
+  const rawTechniques = Array.isArray(data.techniques) ? data.techniques : [];
+  const rawSessions = Array.isArray(data.sessions) ? data.sessions : [];
+  const rawPromotions = Array.isArray(data.promotions) ? data.promotions : [];
+  const rawLocations = Array.isArray(data.locations) ? data.locations : [];
+  const rawTags = Array.isArray(data.customTags) ? data.customTags : [];
+
+  const techniques = rawTechniques
+    .map((technique, index) => parseTechnique(technique, `techniques[${index}]`, errors))
+    .filter((technique): technique is Technique => technique !== null);
+
+  const sessions = rawSessions
+    .map((session, index) => parseSession(session, `sessions[${index}]`, errors))
+    .filter((session): session is TrainingSession => session !== null);
+
+  const profile = parseProfile(data.profile, 'profile', errors);
+
+  const promotions = rawPromotions
+    .map((promotion, index) => parsePromotion(promotion, `promotions[${index}]`, errors))
+    .filter((promotion): promotion is Promotion => promotion !== null)
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+
+  const notesEncryption = parseNotesEncryption(raw.notesEncryption, errors);
+  const hasEncryptedNotes = [...techniques, ...sessions, ...promotions].some(record => isEncryptedText(record.notes));
+  if (hasEncryptedNotes && (raw.notesEncryption === undefined || raw.notesEncryption === null)) {
+    errors.push('notesEncryption: file has encrypted notes but no key to decrypt them');
+  }
+
+  findDuplicateIds(techniques).forEach(id => errors.push(`techniques: duplicate id "${id}"`));
+  findDuplicateIds(sessions).forEach(id => errors.push(`sessions: duplicate id "${id}"`));
+  findDuplicateIds(promotions).forEach(id => errors.push(`promotions: duplicate id "${id}"`));
+
+  const locations = rawLocations
+    .filter((location): location is UnknownRecord => isRecord(location) && isNonEmptyString(location.name))
+    .map(location => ({
+      name: (location.name as string).trim(),
+      usageCount: Number.isInteger(location.usageCount) ? (location.usageCount as number) : 0,
+      lastUsed: parseDate(location.lastUsed),
+    }));
+
+  const customTags = rawTags
+    .filter((tag): tag is UnknownRecord => isRecord(tag) && isNonEmptyString(tag.name))
+    .map(tag => ({ name: (tag.name as string).trim(), category: 'custom' as TagCategory }));
+
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+
+  return {
+    data: {
+      exportedAt: parseDate(raw.exportedAt) ?? new Date(0),
+      appVersion: typeof raw.appVersion === 'string' ? raw.appVersion : 'unknown',
+      techniques,
+      sessions,
+      profile,
+      promotions,
+      locations,
+      customTags,
+      notesEncryption,
+    },
+    errors: [],
+  };
+};
+
+/**
+ * Whether an import's notes can be decrypted without asking for a PIN: they aren't
+ * encrypted, or they were encrypted with the data key this device has unlocked.
+ */
+export const canDecryptImportNotes = (data: ImportData): boolean =>
+  !data.notesEncryption || data.notesEncryption.keyId === getActiveWrappedKey()?.keyId;
+
+/**
+ * Decrypt an import's notes, unwrapping the file's data key with `pin` when this device
+ * doesn't hold it. Returns null when a PIN is needed and `pin` is missing or wrong.
+ * Notes are encrypted again as they are written if this device encrypts notes.
+ */
+export const decryptImportNotes = async (data: ImportData, pin?: string): Promise<ImportData | null> => {
+  if (!data.notesEncryption) return data;
+
+  let key: Uint8Array | undefined;
+  if (!canDecryptImportNotes(data)) {
+    const unwrapped = pin ? await unwrapDataKey(pin, data.notesEncryption) : null;
+    if (!unwrapped) return null;
+    key = unwrapped;
+  }
+
+  const decryptNotes = <T extends { notes?: string }>(record: T): T => {
+    if (!record.notes) return record;
+    try {
+      return { ...record, notes: decryptText(record.notes, key) };
+    } catch {
+      throw new Error('Encrypted notes in this file are damaged');
+    }
+  };
+
+  return {
+    ...data,
+    techniques: data.techniques.map(decryptNotes),
+    sessions: data.sessions.map(decryptNotes),
+    promotions: data.promotions.map(decryptNotes),
+    notesEncryption: null,
+  };
+};
+
+// Compare through the export representation so dates and ordering don't cause false conflicts.
+// Edit times are left out: the same contents saved at different times are unchanged.
+const techniqueFingerprint = (technique: Technique): string => {
+  const { updatedAt, ...serialized } = serializeTechnique(technique);
+  return JSON.stringify({ ...serialized, tags: [...serialized.tags].sort() });
+};
+
+const sessionFingerprint = (session: TrainingSession): string => {
+  const { updatedAt, ...serialized } = serializeSession(session);
+  return JSON.stringify({
+    ...serialized,
+    submissions: [...serialized.submissions].sort(),
+    techniqueIds: [...serialized.techniqueIds].sort(),
+  });
+};
+
+const summarize = <T extends { id: string }>(
+  incoming: T[],
+  existing: T[],
+  fingerprint: (record: T) => string
+): EntityImportSummary => {
+  const existingById = new Map(existing.map(record => [record.id, record]));
+  const summary: EntityImportSummary = { total: incoming.length, new: 0, unchanged: 0, conflicts: 0 };
+
+  for (const record of incoming) {
+    const current = existingById.get(record.id);
+    if (!current) {
+      summary.new++;
+    } else if (fingerprint(current) === fingerprint(record)) {
+      summary.unchanged++;
+    } else {
+      summary.conflicts++;
+    }
+  }
+
+  return summary;
+};
+
+const profilesEqual = (a: UserProfile, b: UserProfile): boolean =>
+  a.name === b.name && a.beltRank === b.beltRank && a.stripes === b.stripes;
+
+/**
+ * Compare an import against the data on this device without changing anything
+ */
+export const buildImportPreview = async (data: ImportData): Promise<ImportPreview> => {
+  const [techniques, sessions, profile] = await Promise.all([
+    getTechniques(),
+    getSessions(),
+    getProfile(),
+  ]);
+
+  return {
+    techniques: summarize(data.techniques, techniques, techniqueFingerprint),
+    sessions: summarize(data.sessions, sessions, sessionFingerprint),
+    hasProfile: data.profile !== null,
+    profileConflict: data.profile !== null && profile !== null && !profilesEqual(data.profile, profile),
+  };
+};
+
+// Pick which incoming records get written for a strategy
+const resolveRecords = <T extends { id: string; updatedAt?: Date }>(
+  incoming: T[],
+  existing: T[],
+  strategy: ImportStrategy,
+  fingerprint: (record: T) => string
+): { toWrite: T[]; conflictsKept: number } => {
+  if (strategy === 'replace-all') return { toWrite: incoming, conflictsKept: 0 };
+
+  const existingById = new Map(existing.map(record => [record.id, record]));
+  let conflictsKept = 0;
+
+  const toWrite = incoming.filter(record => {
+    const current = existingById.get(record.id);
+    if (!current) return true;
+    if (strategy === 'skip-existing' || fingerprint(current) === fingerprint(record)) return false;
+
+    // newest-wins compares edit times. Without one on both sides there's no telling which
+    // is newer, so the conflict keeps the data already on this device, as ties do.
+    if (!record.updatedAt || !current.updatedAt) {
+      conflictsKept++;
+      return false;
+    }
+    return record.updatedAt.getTime() > current.updatedAt.getTime();
+  });
+
+  return { toWrite, conflictsKept };
+};
+
+/**
+ * Apply an import using the chosen strategy for each kind of record.
+ * All database rows, the profile's included, are written in a single transaction.
+ */
+export const applyImport = async (data: ImportData, options: ImportOptions): Promise<ImportResult> => {
+  if (data.notesEncryption) {
+    throw new Error('Import notes must be decrypted before they are imported');
+  }
+
+  const [existingTechniques, existingSessions, existingProfile] = await Promise.all([
+    getTechniques(),
+    getSessions(),
+    getProfile(),
+  ]);
+
+  const techniques = resolveRecords(data.techniques, existingTechniques, options.techniques, techniqueFingerprint);
+  const sessions = resolveRecords(data.sessions, existingSessions, options.sessions, sessionFingerprint);
+  const techniquesToWrite = techniques.toWrite;
+  const sessionsToWrite = sessions.toWrite;
+
+  // Ids that will exist once the import commits - references to anything else are dropped
+  const finalTechniqueIds = new Set([
+    ...(options.techniques === 'replace-all' ? [] : existingTechniques.map(t => t.id)),
+    ...techniquesToWrite.map(t => t.id),
+  ]);
+  const finalSessionIds = new Set([
+    ...(options.sessions === 'replace-all' ? [] : existingSessions.map(s => s.id)),
+    ...sessionsToWrite.map(s => s.id),
+  ]);
+
+  const profileWritten = data.profile !== null && (existingProfile === null || options.overwriteProfile);
+
+  await importData({
+    replaceTechniques: options.techniques === 'replace-all',
+    replaceSessions: options.sessions === 'replace-all',
+    techniques: techniquesToWrite.map(technique => ({
+      ...technique,
+      sessionId: technique.sessionId && finalSessionIds.has(technique.sessionId) ? technique.sessionId : undefined,
+    })),
+    sessions: sessionsToWrite.map(session => ({
+      ...session,
+      techniqueIds: session.techniqueIds.filter(id => finalTechniqueIds.has(id)),
+    })),
+    locations: data.locations,
+    customTags: data.customTags,
+    // Files with a promotion history bring it along; older files only carry the current rank
+    profile: profileWritten ? { profile: data.profile!, promotions: data.promotions } : undefined,
+  });
+
+  return {
+    techniquesWritten: techniquesToWrite.length,
+    sessionsWritten: sessionsToWrite.length,
+    profileWritten,
+    conflictsKept: techniques.conflictsKept + sessions.conflictsKept,
+  };
+};
@@ -1,15 +1,70 @@
 import * as SQLite from 'expo-sqlite';
-import { Technique, TechniqueLink } from '@/types/technique';
+import { Technique, TechniqueLink, TechniqueRevision } from '@/types/technique';
 import { TrainingSession } from '@/types/session';
+import { TrashContents } from '@/types/trash';
+import { UserProfile, Promotion } from '@/types/profile';
+import { Page, PageCursor, DEFAULT_PAGE_SIZE } from '@/types/pagination';
+import {
+  SearchResult,
+  SnippetSegment,
+  NameMatch,
+  NameSearchResults,
+  DEFAULT_SEARCH_LIMIT,
+  DEFAULT_NAME_SEARCH_LIMIT
+} from '@/types/search';
+import { OutboxMutation, OutboxEntry } from '@/types/outbox';
+import { SyncMetadata, SyncEntity, SyncRecord, SyncConflict } from '@/types/sync';
+import { reviveTechnique, reviveSession, revivePromotion } from '@/utils/jsonRevivers';
+import { DatabaseStats, HealthTable, HEALTH_TABLES } from '@/types/health';
+import { QuarantineEntity, QuarantineSource, QuarantinedRecord, InvalidRecord } from '@/types/quarantine';
+import {
+  TechniquePageQuery,
+  SessionPageQuery,
+  PurgeTarget,
+  ImportBatch,
+  OutboxEntryUpdate,
+  SyncBase,
+  TagRecord,
+  LocationRecord
+} from '@/types/storage';
+import {
+  RecordParser,
+  partitionRecords,
+  assertValidRecord,
+  parseTechnique,
+  parseSession,
+  parseProfile
+} from '@/utils/recordValidation';
+import { runSchemaMigrations, getSchemaVersion, rebuildSearchIndex, LATEST_SCHEMA_VERSION } from './schemaMigrations';
+import { StorageNotInitializedError, toStorageError } from './storageErrors';
+import { sealNotes, openNotes, isEncryptedText, isNotesEncryptionActive, ENCRYPTED_PREFIX } from './encryption';
 
-// Database configuration
-const DB_NAME = 'bjj_tracker.db';
-const DB_VERSION = 1;
+// Database configuration. expo-sqlite keeps the file in the SQLite folder of the document directory.
+export const DB_NAME = 'bjj_tracker.db';
 
 // Initialize database
 let db: SQLite.SQLiteDatabase | null = null;
 
-export const initializeDatabase = async (): Promise<void> => {
+// Opens a database file with foreign keys on and its schema up to date
+const openDatabaseFile = async (databaseName: string): Promise<SQLite.SQLiteDatabase> => {
+  const database = await SQLite.openDatabaseAsync(databaseName);
+
+  try {
+    console.log('Enabling foreign key constraints...');
+    await database.execAsync('PRAGMA foreign_keys = ON;');
+
+    console.log('Running schema migrations...');
+    await runSchemaMigrations(database);
+    return database;
+  } catch (error) {
+    // Close it, so the file can be moved aside or reopened
+    await database.closeAsync().catch(() => {});
+    throw error;
+  }
+};
+
+// Opens the default athlete's database unless told otherwise; see services/athletes.ts
+export const initializeDatabase = async (databaseName: string = DB_NAME): Promise<void> => {
   if (db) {
     console.log('Database already initialized');
     return;
@@ -17,13 +72,7 @@ export const initializeDatabase = async (): Promise<void> => {
 
   try {
     console.log('Opening database...');
-    db = await SQLite.openDatabaseAsync(DB_NAME);
-    
-    console.log('Enabling foreign key constraints...');
-    await db.execAsync('PRAGMA foreign_keys = ON;');
-    
-    console.log('Creating tables...');
-    await createTables();
+    db = await openDatabaseFile(databaseName);
     
     console.log('Database initialized successfully');
   } catch (error) {
@@ -32,372 +81,547 @@ export const initializeDatabase = async (): Promise<void> => {
     const errorStack = error instanceof Error ? error.stack : undefined;
     console.error('Database initialization error details:', errorMessage, errorStack);
     db = null; // Reset db on failure
-    throw new Error(`Failed to initialize database: ${errorMessage}`);
-  }
-};
-
-const createTables = async (): Promise<void> => {
-  if (!db) throw new Error('Database not initialized');
-
-  try {
-    console.log('Executing table creation SQL...');
-    const createTablesSQL = `
-    -- Techniques table
-    CREATE TABLE IF NOT EXISTS techniques (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      category TEXT NOT NULL,
-      notes TEXT,
-      timestamp INTEGER NOT NULL,
-      session_id TEXT,
-      FOREIGN KEY (session_id) REFERENCES sessions (id) ON DELETE SET NULL
-    );
-
-    -- Sessions table
-    CREATE TABLE IF NOT EXISTS sessions (
-      id TEXT PRIMARY KEY,
-      date INTEGER NOT NULL,
-      location TEXT,
-      type TEXT NOT NULL,
-      notes TEXT,
-      satisfaction INTEGER NOT NULL CHECK (satisfaction >= 1 AND satisfaction <= 5)
-    );
-
-    -- Submissions table for session submissions
-    CREATE TABLE IF NOT EXISTS submissions (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      session_id TEXT NOT NULL,
-      name TEXT NOT NULL,
-      count INTEGER DEFAULT 1,
-      FOREIGN KEY (session_id) REFERENCES sessions (id) ON DELETE CASCADE
-    );
-
-    -- Junction table for session techniques (many-to-many relationship)
-    CREATE TABLE IF NOT EXISTS session_techniques (
-      session_id TEXT NOT NULL,
-      technique_id TEXT NOT NULL,
-      is_submission INTEGER DEFAULT 0,
-      PRIMARY KEY (session_id, technique_id),
-      FOREIGN KEY (session_id) REFERENCES sessions (id) ON DELETE CASCADE,
-      FOREIGN KEY (technique_id) REFERENCES techniques (id) ON DELETE CASCADE
-    );
-
-    -- Locations table for storing unique locations
-    CREATE TABLE IF NOT EXISTS locations (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL UNIQUE,
-      usage_count INTEGER DEFAULT 0,
-      last_used INTEGER
-    );
-
-    -- Tags table for storing available tags
-    CREATE TABLE IF NOT EXISTS tags (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL UNIQUE,
-      category TEXT NOT NULL CHECK (category IN ('position', 'attribute', 'style', 'custom')),
-      usage_count INTEGER DEFAULT 0,
-      created_at INTEGER NOT NULL,
-      is_custom INTEGER DEFAULT 0
-    );
-
-    -- Junction table for technique tags (many-to-many relationship)
-    CREATE TABLE IF NOT EXISTS technique_tags (
-      technique_id TEXT NOT NULL,
-      tag_name TEXT NOT NULL,
-      PRIMARY KEY (technique_id, tag_name),
-      FOREIGN KEY (technique_id) REFERENCES techniques (id) ON DELETE CASCADE,
-      FOREIGN KEY (tag_name) REFERENCES tags (name) ON DELETE CASCADE
-    );
-
-    -- Links table for technique references/resources
-    CREATE TABLE IF NOT EXISTS technique_links (
-      id TEXT PRIMARY KEY,
-      technique_id TEXT NOT NULL,
-      url TEXT NOT NULL,
-      title TEXT,
-      timestamp INTEGER NOT NULL,
-      FOREIGN KEY (technique_id) REFERENCES techniques (id) ON DELETE CASCADE
-    );
-
-    -- Indexes for better performance
-    CREATE INDEX IF NOT EXISTS idx_techniques_category ON techniques (category);
-    CREATE INDEX IF NOT EXISTS idx_techniques_timestamp ON techniques (timestamp);
-    CREATE INDEX IF NOT EXISTS idx_techniques_session_id ON techniques (session_id);
-    CREATE INDEX IF NOT EXISTS idx_sessions_date ON sessions (date);
-    CREATE INDEX IF NOT EXISTS idx_sessions_type ON sessions (type);
-    CREATE INDEX IF NOT EXISTS idx_submissions_session ON submissions (session_id);
-    CREATE INDEX IF NOT EXISTS idx_locations_usage_count ON locations (usage_count DESC);
-    CREATE INDEX IF NOT EXISTS idx_locations_last_used ON locations (last_used DESC);
-    CREATE INDEX IF NOT EXISTS idx_tags_category ON tags (category);
-    CREATE INDEX IF NOT EXISTS idx_tags_usage_count ON tags (usage_count DESC);
-    CREATE INDEX IF NOT EXISTS idx_tags_name ON tags (name);
-    CREATE INDEX IF NOT EXISTS idx_technique_tags_technique ON technique_tags (technique_id);
-    CREATE INDEX IF NOT EXISTS idx_technique_tags_tag ON technique_tags (tag_name);
-    CREATE INDEX IF NOT EXISTS idx_technique_links_technique ON technique_links (technique_id);
-    CREATE INDEX IF NOT EXISTS idx_technique_links_timestamp ON technique_links (timestamp);
-  `;
-
-    await db.execAsync(createTablesSQL);
-    console.log('Tables created successfully');
-    
-    // Handle schema migrations for existing databases
-    try {
-      console.log('Checking for schema migrations...');
-      
-      // Check if the old position column exists and remove it
-      const tableInfo = await db.getAllAsync('PRAGMA table_info(techniques)');
-      const hasPositionColumn = tableInfo.some((col: any) => col.name === 'position');
-      
-      if (hasPositionColumn) {
-        console.log('Found old position column, migrating techniques table...');
-        
-        // Create new table without position column
-        await db.execAsync(`
-          CREATE TABLE techniques_new (
-            id TEXT PRIMARY KEY,
-            name TEXT NOT NULL,
-            category TEXT NOT NULL,
-            notes TEXT,
-            timestamp INTEGER NOT NULL,
-            session_id TEXT,
-            FOREIGN KEY (session_id) REFERENCES sessions (id) ON DELETE SET NULL
-          );
-        `);
-        
-        // Copy data from old table (excluding position column)
-        await db.execAsync(`
-          INSERT INTO techniques_new (id, name, category, notes, timestamp, session_id)
-          SELECT id, name, category, notes, timestamp, session_id FROM techniques;
-        `);
-        
-        // Drop old table and rename new one
-        await db.execAsync('DROP TABLE techniques;');
-        await db.execAsync('ALTER TABLE techniques_new RENAME TO techniques;');
-        
-        // Recreate indexes
-        await db.execAsync(`
-          CREATE INDEX IF NOT EXISTS idx_techniques_category ON techniques (category);
-          CREATE INDEX IF NOT EXISTS idx_techniques_timestamp ON techniques (timestamp);
-          CREATE INDEX IF NOT EXISTS idx_techniques_session_id ON techniques (session_id);
-        `);
-        
-        console.log('Techniques table migration completed');
-      }
-      
-      // Add count column to submissions table if it doesn't exist
-      await db.execAsync(`
-        ALTER TABLE submissions ADD COLUMN count INTEGER DEFAULT 1;
-      `);
-      console.log('Schema migration completed');
-    } catch (error) {
-      // Column already exists or other error - this is expected for new databases
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.log('Schema migrations completed or not needed:', errorMessage);
-    }
-    
-    console.log('All table operations completed successfully');
-  } catch (error) {
-    console.error('Error creating tables:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    const errorStack = error instanceof Error ? error.stack : undefined;
-    console.error('Table creation error details:', errorMessage, errorStack);
-    throw new Error(`Failed to create tables: ${errorMessage}`);
+    throw toStorageError(error, 'Failed to initialize database', StorageNotInitializedError);
   }
 };
 
 export const getDatabase = (): SQLite.SQLiteDatabase => {
-  if (!db) throw new Error('Database not initialized. Call initializeDatabase() first.');
+  if (!db) throw new StorageNotInitializedError('Database not initialized. Call initializeDatabase() first.');
   return db;
 };
 
 // Technique operations
-export const saveTechniqueToDb = async (technique: Technique): Promise<void> => {
-  try {
-    const database = getDatabase();
-    
-    // Validate input
-    if (!technique.id || !technique.name || !technique.category) {
-      console.error('Invalid technique data:', technique);
-      throw new Error('Missing required technique fields');
+
+// Columns for reading live techniques. A technique learned in a trashed session reads as
+// unlinked until the session is restored; writeTechniqueRows keeps the link meanwhile.
+const TECHNIQUE_COLUMNS = `id, name, category, notes, timestamp, updated_at, version, deleted_at,
+  CASE WHEN EXISTS (
+    SELECT 1 FROM sessions s WHERE s.id = techniques.session_id AND s.deleted_at IS NULL
+  ) THEN session_id END AS session_id`;
+
+type SqlParam = string | number | null;
+
+// Sync metadata columns shared by techniques, sessions and links
+const readSyncMetadata = (row: any): SyncMetadata => ({
+  updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
+  deletedAt: row.deleted_at ? new Date(row.deleted_at) : undefined,
+  version: row.version ?? 0,
+});
+
+// Applies `map` to every non-empty `notes` string in a JSON value, however deeply nested
+const mapJsonNotes = (value: unknown, map: (notes: string) => string): unknown => {
+  if (Array.isArray(value)) return value.map(item => mapJsonNotes(item, map));
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    key === 'notes' && typeof item === 'string' && item ? map(item) : mapJsonNotes(item, map),
+  ]));
+};
+
+// Records kept as JSON, such as queued changes, have their notes sealed like the notes columns
+const stringifySealingNotes = (value: unknown): string =>
+  JSON.stringify(mapJsonNotes(JSON.parse(JSON.stringify(value ?? null)), notes => sealNotes(notes) ?? notes));
+
+const parseOpeningNotes = (json: string): any =>
+  mapJsonNotes(JSON.parse(json), notes => openNotes(notes) ?? notes);
+
+const groupByKey = <T, V>(rows: T[], getKey: (row: T) => string, getValue: (row: T) => V): Map<string, V[]> => {
+  const groups = new Map<string, V[]>();
+  for (const row of rows) {
+    const key = getKey(row);
+    const group = groups.get(key);
+    if (group) {
+      group.push(getValue(row));
+    } else {
+      groups.set(key, [getValue(row)]);
     }
+  }
+  return groups;
+};
 
-    // Ensure tags is an array
-    const tags = Array.isArray(technique.tags) ? technique.tags : [];
+// Quarantine a record again and it keeps its first detection time
+const writeQuarantineRows = async (
+  database: SQLite.SQLiteDatabase,
+  source: QuarantineSource,
+  entity: QuarantineEntity,
+  records: InvalidRecord[]
+): Promise<void> => {
+  for (const record of records) {
+    console.warn(`Quarantined invalid ${entity} "${record.entityId}" from ${source}:`, record.errors);
+    await database.runAsync(
+      `INSERT INTO quarantine (entity, entity_id, source, payload, errors, detected_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(entity, entity_id, source) DO UPDATE SET
+         payload = excluded.payload,
+         errors = excluded.errors`,
+      [entity, record.entityId, source, stringifySealingNotes(record.payload), JSON.stringify(record.errors), Date.now()]
+    );
+  }
+};
 
-    console.log('Saving technique:', technique.name, 'with tags:', tags);
+// A record written again replaces whatever was quarantined under its id, from any source
+const clearQuarantineRows = async (
+  database: SQLite.SQLiteDatabase,
+  entity: QuarantineEntity,
+  entityId: string
+): Promise<void> => {
+  await database.runAsync('DELETE FROM quarantine WHERE entity = ? AND entity_id = ?', [entity, entityId]);
+};
+
+// Rows that fail validation are quarantined and left out, so one bad row can't break a
+// screen. Failing to quarantine them still leaves them out.
+const withoutInvalidRows = async <T>(
+  database: SQLite.SQLiteDatabase,
+  entity: QuarantineEntity,
+  records: unknown[],
+  parse: RecordParser<T>
+): Promise<T[]> => {
+  const { valid, invalid } = partitionRecords(records, parse, entity);
+  if (invalid.length > 0) {
+    try {
+      await writeQuarantineRows(database, 'database', entity, invalid);
+    } catch (error) {
+      console.error('Error quarantining invalid rows:', error);
+    }
+  }
+  return valid;
+};
+
+/**
+ * Load the techniques whose ids `idQuery` selects, newest first, with their tags and links.
+ * Uses three set-based queries however many techniques match. Takes the database
+ * explicitly so the query benchmark can run it against a scratch database. Invalid
+ * techniques are quarantined and left out.
+ */
+export const queryTechniques = async (
+  database: SQLite.SQLiteDatabase,
+  idQuery: string,
+  params: SqlParam[] = []
+): Promise<Technique[]> => {
+  const techniqueRows = await database.getAllAsync<any>(
+    `SELECT ${TECHNIQUE_COLUMNS} FROM techniques WHERE id IN (${idQuery}) ORDER BY timestamp DESC`,
+    params
+  );
+  if (techniqueRows.length === 0) return [];
+
+  const tagRows = await database.getAllAsync<{ technique_id: string; tag_name: string }>(
+    `SELECT technique_id, tag_name FROM technique_tags WHERE technique_id IN (${idQuery}) ORDER BY rowid`,
+    params
+  );
+  const linkRows = await database.getAllAsync<any>(
+    `SELECT * FROM technique_links WHERE technique_id IN (${idQuery}) ORDER BY timestamp DESC`,
+    params
+  );
+
+  const tagsByTechnique = groupByKey(tagRows, row => row.technique_id, row => row.tag_name);
+  const linksByTechnique = groupByKey(linkRows, row => row.technique_id, (row): TechniqueLink => ({
+    id: row.id,
+    url: row.url,
+    title: row.title,
+    timestamp: new Date(row.timestamp),
+    ...readSyncMetadata(row)
+  }));
+
+  const techniques = techniqueRows.map(row => ({
+    id: row.id,
+    name: row.name,
+    category: row.category,
+    tags: tagsByTechnique.get(row.id) ?? [],
+    notes: openNotes(row.notes),
+    links: linksByTechnique.get(row.id),
+    timestamp: new Date(row.timestamp),
+    sessionId: row.session_id,
+    ...readSyncMetadata(row)
+  }));
+  return withoutInvalidRows(database, 'technique', techniques, parseTechnique);
+};
+
+// Paging
+
+// LIKE pattern matching `text` anywhere, with LIKE wildcards in the text taken literally.
+// Use with ESCAPE '\'.
+const containsPattern = (text: string): string => `%${text.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+
+// Query that selects the ids of a page of rows, in the given order
+const ID_LIST_QUERY = 'SELECT value FROM json_each(?)';
+
+const orderByIds = <T extends { id: string }>(items: T[], ids: string[]): T[] => {
+  const position = new Map(ids.map((id, index) => [id, index]));
+  return [...items].sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0));
+};
+
+/**
+ * Fetch one page of ids from `keyQuery`, which must select `id`, `sort_time` and
+ * `match_rank`. Rows are ordered by rank, then newest first, with id as the tie-break,
+ * so the cursor is stable even when rows share a timestamp.
+ */
+const fetchPageKeys = async (
+  database: SQLite.SQLiteDatabase,
+  keyQuery: string,
+  params: SqlParam[],
+  cursor: PageCursor | null | undefined,
+  limit: number
+): Promise<{ ids: string[]; nextCursor: PageCursor | null }> => {
+  const cursorSql = cursor
+    ? 'WHERE match_rank > ? OR (match_rank = ? AND (sort_time < ? OR (sort_time = ? AND id < ?)))'
+    : '';
+  const cursorParams: SqlParam[] = cursor
+    ? [cursor.rank ?? 0, cursor.rank ?? 0, cursor.time, cursor.time, cursor.id]
+    : [];
+
+  // One extra row tells us whether there is another page
+  const rows = await database.getAllAsync<{ id: string; sort_time: number; match_rank: number }>(
+    `SELECT id, sort_time, match_rank FROM (${keyQuery}) ${cursorSql}
+     ORDER BY match_rank ASC, sort_time DESC, id DESC LIMIT ?`,
+    [...params, ...cursorParams, limit + 1]
+  );
+
+  const pageRows = rows.slice(0, limit);
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    ids: pageRows.map(row => row.id),
+    nextCursor: rows.length > limit && last
+      ? { rank: last.match_rank, time: last.sort_time, id: last.id }
+      : null
+  };
+};
+
+// Writes a technique with its tags and links, edited at `updatedAt`. Callers own the transaction.
+const writeTechniqueRows = async (
+  database: SQLite.SQLiteDatabase,
+  technique: Technique,
+  updatedAt = Date.now()
+): Promise<void> => {
+  await clearQuarantineRows(database, 'technique', technique.id);
+
+  // Ensure tags is an array
+  const tags = Array.isArray(technique.tags) ? technique.tags : [];
+
+  // Upsert rather than INSERT OR REPLACE: a replace deletes the row first, which would
+  // cascade away the technique's session associations. A technique saved while its session
+  // is trashed was read without the session, so it keeps the one it has.
+  await database.runAsync(
+    `INSERT INTO techniques (id, name, category, notes, timestamp, session_id, updated_at) 
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET
+       name = excluded.name,
+       category = excluded.category,
+       notes = excluded.notes,
+       timestamp = excluded.timestamp,
+       session_id = CASE WHEN excluded.session_id IS NULL AND EXISTS (
+         SELECT 1 FROM sessions s WHERE s.id = techniques.session_id AND s.deleted_at IS NOT NULL
+       ) THEN techniques.session_id ELSE excluded.session_id END,
+       updated_at = excluded.updated_at,
+       deleted_at = NULL`,
+    [
+      technique.id,
+      technique.name,
+      technique.category,
+      sealNotes(technique.notes),
+      technique.timestamp.getTime(),
+      technique.sessionId || null,
+      updatedAt
+    ]
+  );
+
+  // Remove existing tag associations for this technique
+  await database.runAsync(
+    'DELETE FROM technique_tags WHERE technique_id = ?',
+    [technique.id]
+  );
+
+  // Add new tag associations only if there are tags
+  if (tags.length > 0) {
+    for (const tagName of tags) {
+      // Skip empty or invalid tag names
+      if (!tagName || typeof tagName !== 'string' || !tagName.trim()) {
+        console.warn('Skipping invalid tag:', tagName);
+        continue;
+      }
+
+      const cleanTagName = tagName.trim();
+
+      try {
+        // Ensure the tag exists in the tags table
+        await database.runAsync(
+          `INSERT OR IGNORE INTO tags (id, name, category, created_at, is_custom, updated_at) 
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [
+            cleanTagName.toLowerCase().replace(/\s+/g, '-'),
+            cleanTagName,
+            'custom',
+            Date.now(),
+            1,
+            Date.now()
+          ]
+        );
+
+        // Create technique-tag association
+        await database.runAsync(
+          'INSERT INTO technique_tags (technique_id, tag_name) VALUES (?, ?)',
+          [technique.id, cleanTagName]
+        );
+
+        // Update tag usage count
+        await database.runAsync(
+          'UPDATE tags SET usage_count = usage_count + 1 WHERE name = ?',
+          [cleanTagName]
+        );
+      } catch (tagError) {
+        console.error('Error processing tag:', cleanTagName, tagError);
+        // Continue with other tags even if one fails
+      }
+    }
+  }
+
+  // Remove existing links for this technique
+  await database.runAsync(
+    'DELETE FROM technique_links WHERE technique_id = ?',
+    [technique.id]
+  );
+
+  // Add new links if any
+  if (technique.links && technique.links.length > 0) {
+    for (const link of technique.links) {
+      if (!link.url || !link.url.trim()) {
+        console.warn('Skipping invalid link:', link);
+        continue;
+      }
 
-    await database.withTransactionAsync(async () => {
-      // Insert or replace technique
       await database.runAsync(
-        `INSERT OR REPLACE INTO techniques (id, name, category, notes, timestamp, session_id) 
-         VALUES (?, ?, ?, ?, ?, ?)`,
+        `INSERT INTO technique_links (id, technique_id, url, title, timestamp, updated_at, version) 
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
         [
+          link.id,
           technique.id,
-          technique.name,
-          technique.category,
-          technique.notes || null,
-          technique.timestamp.getTime(),
-          technique.sessionId || null
+          link.url.trim(),
+          link.title?.trim() || null,
+          link.timestamp.getTime(),
+          link.updatedAt?.getTime() ?? Date.now(),
+          link.version ?? 0
         ]
       );
+    }
+  }
+};
 
-      // Remove existing tag associations for this technique
-      await database.runAsync(
-        'DELETE FROM technique_tags WHERE technique_id = ?',
-        [technique.id]
-      );
+// Revision history
 
-      // Add new tag associations only if there are tags
-      if (tags.length > 0) {
-        for (const tagName of tags) {
-          // Skip empty or invalid tag names
-          if (!tagName || typeof tagName !== 'string' || !tagName.trim()) {
-            console.warn('Skipping invalid tag:', tagName);
-            continue;
-          }
-
-          const cleanTagName = tagName.trim();
-
-          try {
-            // Ensure the tag exists in the tags table
-            await database.runAsync(
-              `INSERT OR IGNORE INTO tags (id, name, category, created_at, is_custom) 
-               VALUES (?, ?, ?, ?, ?)`,
-              [
-                cleanTagName.toLowerCase().replace(/\s+/g, '-'),
-                cleanTagName,
-                'custom',
-                Date.now(),
-                1
-              ]
-            );
-
-            // Create technique-tag association
-            await database.runAsync(
-              'INSERT INTO technique_tags (technique_id, tag_name) VALUES (?, ?)',
-              [technique.id, cleanTagName]
-            );
-
-            // Update tag usage count
-            await database.runAsync(
-              'UPDATE tags SET usage_count = usage_count + 1 WHERE name = ?',
-              [cleanTagName]
-            );
-          } catch (tagError) {
-            console.error('Error processing tag:', cleanTagName, tagError);
-            // Continue with other tags even if one fails
-          }
-        }
-      }
+// What a revision records. Two versions with the same fingerprint need no new revision.
+const revisionFingerprint = (technique: Technique): string => JSON.stringify([
+  technique.name,
+  technique.category,
+  technique.notes || null,
+  technique.tags,
+  (technique.links ?? []).map(link => [link.url, link.title || null]),
+]);
 
-      // Remove existing links for this technique
-      await database.runAsync(
-        'DELETE FROM technique_links WHERE technique_id = ?',
-        [technique.id]
-      );
+const insertTechniqueRevision = async (
+  database: SQLite.SQLiteDatabase,
+  technique: Technique,
+  createdAt: number
+): Promise<void> => {
+  await database.runAsync(
+    `INSERT INTO technique_revisions (technique_id, name, category, notes, tags, links, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      technique.id,
+      technique.name,
+      technique.category,
+      sealNotes(technique.notes),
+      JSON.stringify(technique.tags),
+      JSON.stringify((technique.links ?? []).map(link => ({
+        id: link.id,
+        url: link.url,
+        title: link.title || null,
+        timestamp: link.timestamp.getTime()
+      }))),
+      createdAt
+    ]
+  );
+};
 
-      // Add new links if any
-      if (technique.links && technique.links.length > 0) {
-        for (const link of technique.links) {
-          if (!link.url || !link.url.trim()) {
-            console.warn('Skipping invalid link:', link);
-            continue;
-          }
+/**
+ * Records a revision when a save changed the technique as stored. The first change to a
+ * technique saved before revisions were kept also records the version it replaced, dated
+ * when the technique was added. Callers own the transaction.
+ */
+const recordTechniqueRevision = async (
+  database: SQLite.SQLiteDatabase,
+  previous: Technique | undefined,
+  techniqueId: string
+): Promise<void> => {
+  const [saved] = await queryTechniques(database, 'SELECT ?', [techniqueId]);
+  if (!saved) return;
+  if (previous && revisionFingerprint(previous) === revisionFingerprint(saved)) return;
 
-          await database.runAsync(
-            `INSERT INTO technique_links (id, technique_id, url, title, timestamp) 
-             VALUES (?, ?, ?, ?, ?)`,
-            [
-              link.id,
-              technique.id,
-              link.url.trim(),
-              link.title?.trim() || null,
-              link.timestamp.getTime()
-            ]
-          );
-        }
-      }
+  if (previous) {
+    const existing = await database.getFirstAsync<{ count: number }>(
+      'SELECT COUNT(*) AS count FROM technique_revisions WHERE technique_id = ?',
+      [techniqueId]
+    );
+    if (!existing?.count) {
+      await insertTechniqueRevision(database, previous, previous.timestamp.getTime());
+    }
+  }
+
+  await insertTechniqueRevision(database, saved, Date.now());
+};
+
+export const saveTechniqueToDb = async (technique: Technique): Promise<void> => {
+  try {
+    const database = getDatabase();
+    
+    assertValidRecord(technique, parseTechnique, 'technique');
+
+    // Ensure tags is an array
+    const tags = Array.isArray(technique.tags) ? technique.tags : [];
+
+    console.log('Saving technique:', technique.name, 'with tags:', tags);
+
+    await database.withTransactionAsync(async () => {
+      // Read back as stored, so tags and links are compared the way they were written
+      const [previous] = await queryTechniques(database, 'SELECT ?', [technique.id]);
+      await writeTechniqueRows(database, technique);
+      await recordTechniqueRevision(database, previous, technique.id);
     });
 
     console.log('Technique saved successfully with', tags.length, 'tags and', technique.links?.length || 0, 'links');
   } catch (error) {
-    console.error('Error saving technique to database:', error);
-    console.error('Technique data:', JSON.stringify(technique, null, 2));
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    throw new Error(`Failed to save technique: ${errorMessage}`);
+    // Only the id: the rest of the record has the notes in plain text
+    console.error('Error saving technique to database:', technique.id, error);
+    throw toStorageError(error, 'Failed to save technique');
   }
 };
 
-export const getTechniquesFromDb = async (): Promise<Technique[]> => {
+// Revisions of a technique, newest first
+export const getTechniqueRevisionsFromDb = async (techniqueId: string): Promise<TechniqueRevision[]> => {
   const database = getDatabase();
-  
+
   try {
-    const techniques = await database.getAllAsync(
-      'SELECT * FROM techniques ORDER BY timestamp DESC'
+    const rows = await database.getAllAsync<any>(
+      'SELECT * FROM technique_revisions WHERE technique_id = ? ORDER BY created_at DESC, id DESC',
+      [techniqueId]
     );
-    
-    const result: Technique[] = [];
-    
-    for (const techniqueRow of techniques) {
-      const row = techniqueRow as any;
-      
-      // Get tags for this technique
-      const tagRows = await database.getAllAsync(
-        'SELECT tag_name FROM technique_tags WHERE technique_id = ?',
-        [row.id]
-      );
-      
-      const tags = tagRows.map((tagRow: any) => tagRow.tag_name);
-      
-      // Get links for this technique
-      const linkRows = await database.getAllAsync(
-        'SELECT * FROM technique_links WHERE technique_id = ? ORDER BY timestamp DESC',
-        [row.id]
-      );
-      
-      const links = linkRows.map((linkRow: any) => ({
-        id: linkRow.id,
-        url: linkRow.url,
-        title: linkRow.title,
-        timestamp: new Date(linkRow.timestamp)
+
+    return rows.map(row => {
+      const links: TechniqueLink[] = JSON.parse(row.links).map((link: any) => ({
+        id: link.id,
+        url: link.url,
+        title: link.title ?? undefined,
+        timestamp: new Date(link.timestamp)
       }));
-      
-      result.push({
+
+      return {
         id: row.id,
+        techniqueId: row.technique_id,
         name: row.name,
         category: row.category,
-        tags,
-        notes: row.notes,
+        tags: JSON.parse(row.tags),
+        notes: openNotes(row.notes),
         links: links.length > 0 ? links : undefined,
-        timestamp: new Date(row.timestamp),
-        sessionId: row.session_id
-      });
-    }
-    
-    return result;
+        createdAt: new Date(row.created_at)
+      };
+    });
+  } catch (error) {
+    console.error('Error loading technique revisions from database:', error);
+    throw toStorageError(error, 'Failed to load technique history');
+  }
+};
+
+export const getTechniquesFromDb = async (): Promise<Technique[]> => {
+  const database = getDatabase();
+  
+  try {
+    return await queryTechniques(database, 'SELECT id FROM techniques WHERE deleted_at IS NULL');
   } catch (error) {
     console.error('Error loading techniques from database:', error);
-    return [];
+    throw toStorageError(error, 'Failed to load techniques');
   }
 };
 
-export const deleteTechniqueFromDb = async (techniqueId: string): Promise<void> => {
+/**
+ * One page of live techniques matching the search and filters. While searching, name
+ * matches come before tag-only matches; otherwise the newest come first.
+ */
+export const getTechniquesPageFromDb = async ({
+  search,
+  filters,
+  cursor,
+  limit = DEFAULT_PAGE_SIZE
+}: TechniquePageQuery = {}): Promise<Page<Technique>> => {
   const database = getDatabase();
   
   try {
-    await database.withTransactionAsync(async () => {
-      // Delete technique (cascade will handle technique_tags)
-      await database.runAsync('DELETE FROM techniques WHERE id = ?', [techniqueId]);
-    });
-    
-    // Clean up unused custom tags after deletion
-    const cleanedTags = await cleanupUnusedCustomTags();
-    if (cleanedTags > 0) {
-      console.log(`Cleaned up ${cleanedTags} unused custom tags after deleting technique`);
+    const conditions = ['deleted_at IS NULL'];
+    const params: SqlParam[] = [];
+    const term = search?.trim();
+
+    if (term) {
+      conditions.push(`(name LIKE ? ESCAPE '\\' OR EXISTS (
+        SELECT 1 FROM technique_tags tt WHERE tt.technique_id = techniques.id AND tt.tag_name LIKE ? ESCAPE '\\'
+      ))`);
+      params.push(containsPattern(term), containsPattern(term));
     }
+
+    if (filters?.category) {
+      conditions.push('category = ?');
+      params.push(filters.category);
+    }
+
+    // Every selected tag must be present
+    for (const tag of filters?.tags ?? []) {
+      conditions.push(`EXISTS (
+        SELECT 1 FROM technique_tags tt WHERE tt.technique_id = techniques.id AND lower(tt.tag_name) = lower(?)
+      )`);
+      params.push(tag);
+    }
+
+    const where = conditions.join(' AND ');
+    const rankSql = term ? `CASE WHEN name LIKE ? ESCAPE '\\' THEN 0 ELSE 1 END` : '0';
+    const rankParams: SqlParam[] = term ? [containsPattern(term)] : [];
+
+    const countRow = await database.getFirstAsync<{ count: number }>(
+      `SELECT COUNT(*) AS count FROM techniques WHERE ${where}`,
+      params
+    );
+
+    const { ids, nextCursor } = await fetchPageKeys(
+      database,
+      `SELECT id, timestamp AS sort_time, ${rankSql} AS match_rank FROM techniques WHERE ${where}`,
+      [...rankParams, ...params],
+      cursor,
+      limit
+    );
+
+    const items = ids.length > 0
+      ? await queryTechniques(database, ID_LIST_QUERY, [JSON.stringify(ids)])
+      : [];
+
+    return {
+      items: orderByIds(items, ids),
+      nextCursor,
+      totalCount: countRow?.count ?? 0
+    };
+  } catch (error) {
+    console.error('Error loading techniques page from database:', error);
+    throw toStorageError(error, 'Failed to load techniques');
+  }
+};
+
+// Moves a technique to the trash. Its tags, links and session links stay until it is purged.
+export const deleteTechniqueFromDb = async (techniqueId: string): Promise<void> => {
+  const database = getDatabase();
+  
+  try {
+    await database.runAsync(
+      'UPDATE techniques SET deleted_at = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL',
+      [Date.now(), Date.now(), techniqueId]
+    );
   } catch (error) {
     console.error('Error deleting technique from database:', error);
-    throw new Error('Failed to delete technique');
+    throw toStorageError(error, 'Failed to delete technique');
   }
 };
 
@@ -405,189 +629,788 @@ export const getTechniquesBySessionFromDb = async (sessionId: string): Promise<T
   const database = getDatabase();
   
   try {
-    const techniques = await database.getAllAsync(
-      'SELECT * FROM techniques WHERE session_id = ? ORDER BY timestamp DESC',
+    return await queryTechniques(
+      database,
+      'SELECT id FROM techniques WHERE session_id = ? AND deleted_at IS NULL',
       [sessionId]
     );
-    
-    const result: Technique[] = [];
-    
-    for (const techniqueRow of techniques) {
-      const row = techniqueRow as any;
-      
-      // Get tags for this technique
-      const tagRows = await database.getAllAsync(
-        'SELECT tag_name FROM technique_tags WHERE technique_id = ?',
-        [row.id]
-      );
-      
-      const tags = tagRows.map((tagRow: any) => tagRow.tag_name);
-      
-      // Get links for this technique
-      const linkRows = await database.getAllAsync(
-        'SELECT * FROM technique_links WHERE technique_id = ? ORDER BY timestamp DESC',
-        [row.id]
-      );
-      
-      const links = linkRows.map((linkRow: any) => ({
-        id: linkRow.id,
-        url: linkRow.url,
-        title: linkRow.title,
-        timestamp: new Date(linkRow.timestamp)
-      }));
-      
-      result.push({
+  } catch (error) {
+    console.error('Error loading techniques by session from database:', error);
+    throw toStorageError(error, 'Failed to load techniques for session');
+  }
+};
+
+// Session operations
+
+/**
+ * Load the sessions whose ids `idQuery` selects, newest first, with their technique links
+ * and submissions. Uses three set-based queries however many sessions match. Invalid
+ * sessions are quarantined and left out.
+ */
+export const querySessions = async (
+  database: SQLite.SQLiteDatabase,
+  idQuery: string,
+  params: SqlParam[] = []
+): Promise<TrainingSession[]> => {
+  const sessionRows = await database.getAllAsync<any>(
+    `SELECT * FROM sessions WHERE id IN (${idQuery}) ORDER BY date DESC`,
+    params
+  );
+  if (sessionRows.length === 0) return [];
+
+  // Links to trashed techniques are kept for restore but hidden here
+  const associationRows = await database.getAllAsync<{ session_id: string; technique_id: string }>(
+    `SELECT st.session_id, st.technique_id FROM session_techniques st 
+     JOIN techniques t ON t.id = st.technique_id 
+     WHERE st.session_id IN (${idQuery}) AND t.deleted_at IS NULL 
+     ORDER BY st.rowid`,
+    params
+  );
+  const submissionRows = await database.getAllAsync<{ session_id: string; name: string; count: number | null }>(
+    `SELECT session_id, name, count FROM submissions WHERE session_id IN (${idQuery}) ORDER BY id`,
+    params
+  );
+
+  const techniqueIdsBySession = groupByKey(associationRows, row => row.session_id, row => row.technique_id);
+  const submissionsBySession = groupByKey(submissionRows, row => row.session_id, row => row);
+
+  const sessions = sessionRows.map(row => {
+    const submissions = submissionsBySession.get(row.id) ?? [];
+    const submissionCounts: Record<string, number> = {};
+    submissions.forEach(sub => {
+      submissionCounts[sub.name] = sub.count || 1;
+    });
+
+    return {
+      id: row.id,
+      date: new Date(row.date),
+      location: row.location,
+      type: row.type,
+      notes: openNotes(row.notes),
+      satisfaction: row.satisfaction,
+      techniqueIds: techniqueIdsBySession.get(row.id) ?? [],
+      submissions: submissions.map(sub => sub.name),
+      submissionCounts,
+      ...readSyncMetadata(row)
+    };
+  });
+  return withoutInvalidRows(database, 'session', sessions, parseSession);
+};
+
+// Bumps usage for a session's location so it ranks higher in suggestions. Callers own the transaction.
+const touchLocationRow = async (database: SQLite.SQLiteDatabase, location?: string): Promise<void> => {
+  if (!location || !location.trim()) return;
+
+  const trimmedName = location.trim();
+  await database.runAsync(
+    `INSERT OR REPLACE INTO locations (name, usage_count, last_used) 
+     VALUES (?, COALESCE((SELECT usage_count FROM locations WHERE name = ?), 0) + 1, ?)`,
+    [trimmedName, trimmedName, Date.now()]
+  );
+};
+
+// Writes a session with its technique associations and submissions, edited at `updatedAt`.
+// Callers own the transaction.
+const writeSessionRows = async (
+  database: SQLite.SQLiteDatabase,
+  session: TrainingSession,
+  updatedAt = Date.now()
+): Promise<void> => {
+  await clearQuarantineRows(database, 'session', session.id);
+
+  // Upsert rather than INSERT OR REPLACE so techniques learned in this session keep their session_id
+  await database.runAsync(
+    `INSERT INTO sessions (id, date, location, type, notes, satisfaction, updated_at) 
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET
+       date = excluded.date,
+       location = excluded.location,
+       type = excluded.type,
+       notes = excluded.notes,
+       satisfaction = excluded.satisfaction,
+       updated_at = excluded.updated_at,
+       deleted_at = NULL`,
+    [
+      session.id,
+      session.date.getTime(),
+      session.location || null,
+      session.type,
+      sealNotes(session.notes),
+      session.satisfaction,
+      updatedAt
+    ]
+  );
+
+  // Remove existing technique associations, except to trashed techniques, which the
+  // caller can't see and which should come back linked if restored
+  await database.runAsync(
+    `DELETE FROM session_techniques 
+     WHERE session_id = ? 
+     AND technique_id NOT IN (SELECT id FROM techniques WHERE deleted_at IS NOT NULL)`,
+    [session.id]
+  );
+
+  // Remove existing submissions
+  await database.runAsync(
+    'DELETE FROM submissions WHERE session_id = ?',
+    [session.id]
+  );
+
+  // Add technique associations
+  for (const techniqueId of session.techniqueIds) {
+    await database.runAsync(
+      'INSERT OR IGNORE INTO session_techniques (session_id, technique_id, is_submission) VALUES (?, ?, ?)',
+      [session.id, techniqueId, 0]
+    );
+  }
+
+  // Add submissions with counts
+  for (const submissionName of session.submissions) {
+    const count = session.submissionCounts[submissionName] || 1;
+    await database.runAsync(
+      'INSERT INTO submissions (session_id, name, count) VALUES (?, ?, ?)',
+      [session.id, submissionName, count]
+    );
+  }
+};
+
+export const saveSessionToDb = async (session: TrainingSession): Promise<void> => {
+  const database = getDatabase();
+  
+  try {
+    assertValidRecord(session, parseSession, 'session');
+    await database.withTransactionAsync(async () => {
+      await writeSessionRows(database, session);
+      await touchLocationRow(database, session.location);
+    });
+  } catch (error) {
+    console.error('Error saving session to database:', error);
+    throw toStorageError(error, 'Failed to save session');
+  }
+};
+
+export const getSessionsFromDb = async (): Promise<TrainingSession[]> => {
+  const database = getDatabase();
+  
+  try {
+    return await querySessions(database, 'SELECT id FROM sessions WHERE deleted_at IS NULL');
+  } catch (error) {
+    console.error('Error loading sessions from database:', error);
+    throw toStorageError(error, 'Failed to load sessions');
+  }
+};
+
+/**
+ * One page of live sessions matching the search and filters, newest first
+ */
+export const getSessionsPageFromDb = async ({
+  search,
+  filters,
+  cursor,
+  limit = DEFAULT_PAGE_SIZE
+}: SessionPageQuery = {}): Promise<Page<TrainingSession>> => {
+  const database = getDatabase();
+  
+  try {
+    const conditions = ['deleted_at IS NULL'];
+    const params: SqlParam[] = [];
+    const term = search?.trim();
+
+    if (term) {
+      // Encrypted notes are left out, as in the search index: their ciphertext can't
+      // match what the user typed, only the prefix and random characters
+      conditions.push(`(location LIKE ? ESCAPE '\\'
+        OR (notes NOT GLOB ? AND notes LIKE ? ESCAPE '\\')
+        OR EXISTS (
+          SELECT 1 FROM submissions sub WHERE sub.session_id = sessions.id AND sub.name LIKE ? ESCAPE '\\'
+        ))`);
+      params.push(containsPattern(term), `${ENCRYPTED_PREFIX}*`, containsPattern(term), containsPattern(term));
+    }
+
+    if (filters?.dateRange.startDate) {
+      conditions.push('date >= ?');
+      params.push(filters.dateRange.startDate.getTime());
+    }
+
+    if (filters?.dateRange.endDate) {
+      // The end date is inclusive of the whole day
+      const endOfDay = new Date(filters.dateRange.endDate);
+      endOfDay.setHours(23, 59, 59, 999);
+      conditions.push('date <= ?');
+      params.push(endOfDay.getTime());
+    }
+
+    if (filters?.location.trim()) {
+      conditions.push('lower(location) = lower(?)');
+      params.push(filters.location);
+    }
+
+    if (filters && filters.sessionTypes.length > 0) {
+      conditions.push(`type IN (${filters.sessionTypes.map(() => '?').join(', ')})`);
+      params.push(...filters.sessionTypes);
+    }
+
+    if (filters?.submission.trim()) {
+      conditions.push(`EXISTS (
+        SELECT 1 FROM submissions sub WHERE sub.session_id = sessions.id AND sub.name LIKE ? ESCAPE '\\'
+      )`);
+      params.push(containsPattern(filters.submission));
+    }
+
+    if (filters && filters.satisfaction !== null) {
+      conditions.push('satisfaction >= ?');
+      params.push(filters.satisfaction);
+    }
+
+    const where = conditions.join(' AND ');
+
+    const countRow = await database.getFirstAsync<{ count: number }>(
+      `SELECT COUNT(*) AS count FROM sessions WHERE ${where}`,
+      params
+    );
+
+    const { ids, nextCursor } = await fetchPageKeys(
+      database,
+      `SELECT id, date AS sort_time, 0 AS match_rank FROM sessions WHERE ${where}`,
+      params,
+      cursor,
+      limit
+    );
+
+    const items = ids.length > 0
+      ? await querySessions(database, ID_LIST_QUERY, [JSON.stringify(ids)])
+      : [];
+
+    return {
+      items: orderByIds(items, ids),
+      nextCursor,
+      totalCount: countRow?.count ?? 0
+    };
+  } catch (error) {
+    console.error('Error loading sessions page from database:', error);
+    throw toStorageError(error, 'Failed to load sessions');
+  }
+};
+
+// Moves a session to the trash. Submissions and technique links stay until it is purged.
+export const deleteSessionFromDb = async (sessionId: string): Promise<void> => {
+  const database = getDatabase();
+  
+  try {
+    await database.runAsync(
+      'UPDATE sessions SET deleted_at = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL',
+      [Date.now(), Date.now(), sessionId]
+    );
+  } catch (error) {
+    console.error('Error deleting session from database:', error);
+    throw toStorageError(error, 'Failed to delete session');
+  }
+};
+
+// Full-text search
+
+// Control characters never appear in user text, so they can mark snippet highlights
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+const SNIPPET_TOKENS = 12;
+
+// bm25 column weights, one per column of each index in order
+const TECHNIQUE_WEIGHTS = '10.0, 4.0, 6.0, 2.0'; // name, notes, tags, links
+const SESSION_WEIGHTS = '3.0, 4.0, 5.0'; // location, notes, submissions
+
+/**
+ * Turn free text into an FTS5 query: every word must match, each as a prefix, so
+ * results narrow as the user types. Quoting each word keeps FTS5 syntax characters
+ * in the input from being parsed as operators.
+ */
+const toMatchQuery = (text: string): string | null => {
+  const words = text.split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 0);
+  if (words.length === 0) return null;
+  return words.map(word => `"${word}"*`).join(' ');
+};
+
+const parseSnippet = (snippet: string): SnippetSegment[] => {
+  const segments: SnippetSegment[] = [];
+  
+  snippet.split(HIGHLIGHT_START).forEach((part, index) => {
+    if (index === 0) {
+      if (part) segments.push({ text: part, highlighted: false });
+      return;
+    }
+    const [highlighted, rest] = part.split(HIGHLIGHT_END);
+    if (highlighted) segments.push({ text: highlighted, highlighted: true });
+    if (rest) segments.push({ text: rest, highlighted: false });
+  });
+
+  return segments;
+};
+
+/**
+ * Ranked full-text search across technique names, notes, tags and link titles and
+ * session locations, notes and submissions. Each result carries a snippet of the
+ * best-matching text with the matched words highlighted.
+ */
+export const searchFromDb = async (
+  query: string,
+  limit: number = DEFAULT_SEARCH_LIMIT
+): Promise<SearchResult[]> => {
+  const database = getDatabase();
+  const matchQuery = toMatchQuery(query);
+  if (!matchQuery) return [];
+
+  try {
+    const techniqueRows = await database.getAllAsync<any>(
+      `SELECT t.id, t.name, t.category, t.timestamp,
+        snippet(techniques_fts, -1, ?, ?, '…', ${SNIPPET_TOKENS}) AS snippet,
+        bm25(techniques_fts, ${TECHNIQUE_WEIGHTS}) AS score
+       FROM techniques_fts
+       JOIN techniques t ON t.rowid = techniques_fts.rowid
+       WHERE techniques_fts MATCH ? AND t.deleted_at IS NULL
+       ORDER BY score LIMIT ?`,
+      [HIGHLIGHT_START, HIGHLIGHT_END, matchQuery, limit]
+    );
+
+    const sessionRows = await database.getAllAsync<any>(
+      `SELECT s.id, s.type, s.location, s.date,
+        snippet(sessions_fts, -1, ?, ?, '…', ${SNIPPET_TOKENS}) AS snippet,
+        bm25(sessions_fts, ${SESSION_WEIGHTS}) AS score
+       FROM sessions_fts
+       JOIN sessions s ON s.rowid = sessions_fts.rowid
+       WHERE sessions_fts MATCH ? AND s.deleted_at IS NULL
+       ORDER BY score LIMIT ?`,
+      [HIGHLIGHT_START, HIGHLIGHT_END, matchQuery, limit]
+    );
+
+    const results: SearchResult[] = [
+      ...techniqueRows.map(row => ({
+        type: 'technique' as const,
         id: row.id,
         name: row.name,
         category: row.category,
-        tags,
-        notes: row.notes,
-        links: links.length > 0 ? links : undefined,
-        timestamp: new Date(row.timestamp),
-        sessionId: row.session_id
-      });
-    }
+        date: new Date(row.timestamp),
+        snippet: parseSnippet(row.snippet ?? ''),
+        score: row.score,
+      })),
+      ...sessionRows.map(row => ({
+        type: 'session' as const,
+        id: row.id,
+        sessionType: row.type,
+        location: row.location || undefined,
+        date: new Date(row.date),
+        snippet: parseSnippet(row.snippet ?? ''),
+        score: row.score,
+      })),
+    ];
+
+    // Both indexes score with bm25, so the lists merge on score; newer first on ties
+    return results
+      .sort((a, b) => a.score - b.score || b.date.getTime() - a.date.getTime())
+      .slice(0, limit);
+  } catch (error) {
+    console.error('Error searching database:', error);
+    throw toStorageError(error, 'Failed to search');
+  }
+};
+
+/**
+ * Tags, locations and submission names containing `query`, most used first. Counts
+ * cover live rows only, so every match leads to a non-empty filtered list.
+ */
+export const searchNamesFromDb = async (
+  query: string,
+  limit: number = DEFAULT_NAME_SEARCH_LIMIT
+): Promise<NameSearchResults> => {
+  const database = getDatabase();
+  const term = query.trim();
+  if (!term) return { tags: [], locations: [], submissions: [] };
+
+  const pattern = containsPattern(term);
+
+  try {
+    const tags = await database.getAllAsync<NameMatch>(
+      `SELECT tt.tag_name AS name, COUNT(*) AS count
+       FROM technique_tags tt
+       JOIN techniques t ON t.id = tt.technique_id AND t.deleted_at IS NULL
+       WHERE tt.tag_name LIKE ? ESCAPE '\\'
+       GROUP BY tt.tag_name
+       ORDER BY count DESC, name LIMIT ?`,
+      [pattern, limit]
+    );
+
+    const locations = await database.getAllAsync<NameMatch>(
+      `SELECT MIN(location) AS name, COUNT(*) AS count
+       FROM sessions
+       WHERE deleted_at IS NULL AND location LIKE ? ESCAPE '\\'
+       GROUP BY lower(location)
+       ORDER BY count DESC, name LIMIT ?`,
+      [pattern, limit]
+    );
+
+    const submissions = await database.getAllAsync<NameMatch>(
+      `SELECT MIN(sub.name) AS name, COUNT(DISTINCT sub.session_id) AS count
+       FROM submissions sub
+       JOIN sessions s ON s.id = sub.session_id AND s.deleted_at IS NULL
+       WHERE sub.name LIKE ? ESCAPE '\\'
+       GROUP BY lower(sub.name)
+       ORDER BY count DESC, name LIMIT ?`,
+      [pattern, limit]
+    );
+
+    return { tags, locations, submissions };
+  } catch (error) {
+    console.error('Error searching names in database:', error);
+    throw toStorageError(error, 'Failed to search');
+  }
+};
+
+// Trash operations
+export const getTrashFromDb = async (): Promise<TrashContents> => {
+  const database = getDatabase();
+  
+  try {
+    const techniqueRows = await database.getAllAsync(
+      'SELECT id, name, category, deleted_at FROM techniques WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC'
+    );
+    const sessionRows = await database.getAllAsync(
+      'SELECT id, date, type, location, deleted_at FROM sessions WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC'
+    );
     
-    return result;
+    return {
+      techniques: techniqueRows.map((row: any) => ({
+        id: row.id,
+        name: row.name,
+        category: row.category,
+        deletedAt: new Date(row.deleted_at)
+      })),
+      sessions: sessionRows.map((row: any) => ({
+        id: row.id,
+        date: new Date(row.date),
+        type: row.type,
+        location: row.location || undefined,
+        deletedAt: new Date(row.deleted_at)
+      }))
+    };
   } catch (error) {
-    console.error('Error loading techniques by session from database:', error);
-    return [];
+    console.error('Error loading trash from database:', error);
+    throw toStorageError(error, 'Failed to load trash');
   }
 };
 
-// Session operations
-export const saveSessionToDb = async (session: TrainingSession): Promise<void> => {
+export const restoreTechniqueFromDb = async (techniqueId: string): Promise<void> => {
   const database = getDatabase();
   
   try {
+    await database.runAsync('UPDATE techniques SET deleted_at = NULL, updated_at = ? WHERE id = ?', [Date.now(), techniqueId]);
+  } catch (error) {
+    console.error('Error restoring technique from trash:', error);
+    throw toStorageError(error, 'Failed to restore technique');
+  }
+};
+
+export const restoreSessionFromDb = async (sessionId: string): Promise<void> => {
+  const database = getDatabase();
+  
+  try {
+    await database.runAsync('UPDATE sessions SET deleted_at = NULL, updated_at = ? WHERE id = ?', [Date.now(), sessionId]);
+  } catch (error) {
+    console.error('Error restoring session from trash:', error);
+    throw toStorageError(error, 'Failed to restore session');
+  }
+};
+
+// Permanently deletes trashed rows. Live rows are never touched. Returns the number of rows purged.
+export const purgeTrashFromDb = async (target: PurgeTarget = {}): Promise<number> => {
+  const database = getDatabase();
+  const cutoff = target.deletedBefore ? target.deletedBefore.getTime() : Number.MAX_SAFE_INTEGER;
+  const byId = !!(target.techniqueIds || target.sessionIds);
+  
+  try {
+    let purgedSessions = 0;
+    let purgedTechniques = 0;
+
     await database.withTransactionAsync(async () => {
-      // Insert or replace session
-      await database.runAsync(
-        `INSERT OR REPLACE INTO sessions (id, date, location, type, notes, satisfaction) 
-         VALUES (?, ?, ?, ?, ?, ?)`,
-        [
-          session.id,
-          session.date.getTime(),
-          session.location || null,
-          session.type,
-          session.notes || null,
-          session.satisfaction
-        ]
-      );
+      const sessionIds = byId
+        ? target.sessionIds ?? []
+        : (await database.getAllAsync<{ id: string }>(
+            'SELECT id FROM sessions WHERE deleted_at <= ?',
+            [cutoff]
+          )).map(row => row.id);
 
-      // Save location if provided
-      if (session.location && session.location.trim()) {
-        const trimmedName = session.location.trim();
-        await database.runAsync(
-          `INSERT OR REPLACE INTO locations (name, usage_count, last_used) 
-           VALUES (?, COALESCE((SELECT usage_count FROM locations WHERE name = ?), 0) + 1, ?)`,
-          [trimmedName, trimmedName, Date.now()]
+      for (const sessionId of sessionIds) {
+        // Delete session (cascade will handle session_techniques and submissions)
+        const result = await database.runAsync(
+          'DELETE FROM sessions WHERE id = ? AND deleted_at IS NOT NULL',
+          [sessionId]
         );
+        if (result.changes > 0) {
+          // Update techniques that referenced this session
+          await database.runAsync('UPDATE techniques SET session_id = NULL WHERE session_id = ?', [sessionId]);
+          purgedSessions++;
+        }
       }
 
-      // Remove existing technique associations
-      await database.runAsync(
-        'DELETE FROM session_techniques WHERE session_id = ?',
-        [session.id]
-      );
+      const techniqueIds = byId
+        ? target.techniqueIds ?? []
+        : (await database.getAllAsync<{ id: string }>(
+            'SELECT id FROM techniques WHERE deleted_at <= ?',
+            [cutoff]
+          )).map(row => row.id);
 
-      // Remove existing submissions
-      await database.runAsync(
-        'DELETE FROM submissions WHERE session_id = ?',
-        [session.id]
-      );
+      for (const techniqueId of techniqueIds) {
+        // Delete technique (cascade will handle technique_tags and technique_links)
+        const result = await database.runAsync(
+          'DELETE FROM techniques WHERE id = ? AND deleted_at IS NOT NULL',
+          [techniqueId]
+        );
+        purgedTechniques += result.changes;
+      }
+    });
+
+    // Clean up custom tags only the purged techniques were using
+    if (purgedTechniques > 0) {
+      const cleanedTags = await cleanupUnusedCustomTags();
+      if (cleanedTags > 0) {
+        console.log(`Cleaned up ${cleanedTags} unused custom tags after purging techniques`);
+      }
+    }
+
+    return purgedSessions + purgedTechniques;
+  } catch (error) {
+    console.error('Error purging trash from database:', error);
+    throw toStorageError(error, 'Failed to purge trash');
+  }
+};
+
+// Import operations
+// Writes a whole import in one transaction so a failure leaves the database untouched
+export const importDataToDb = async (batch: ImportBatch): Promise<void> => {
+  const database = getDatabase();
+  
+  try {
+    await database.withTransactionAsync(async () => {
+      // Techniques and sessions reference each other, so check foreign keys at commit instead of per row
+      await database.execAsync('PRAGMA defer_foreign_keys = ON;');
+
+      if (batch.replaceSessions) {
+        await database.runAsync('DELETE FROM sessions');
+      }
+      if (batch.replaceTechniques) {
+        await database.runAsync('DELETE FROM techniques');
+      }
 
-      // Add technique associations
-      for (const techniqueId of session.techniqueIds) {
+      for (const tag of batch.customTags) {
         await database.runAsync(
-          'INSERT INTO session_techniques (session_id, technique_id, is_submission) VALUES (?, ?, ?)',
-          [session.id, techniqueId, 0]
+          `INSERT OR IGNORE INTO tags (id, name, category, created_at, is_custom, usage_count) 
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [tag.name.toLowerCase().replace(/\s+/g, '-'), tag.name, tag.category, Date.now(), 1, 0]
         );
       }
 
-      // Add submissions with counts
-      for (const submissionName of session.submissions) {
-        const count = session.submissionCounts[submissionName] || 1;
+      // Imported records keep the edit time they were exported with, so a later import can
+      // tell which copy is newer
+      for (const technique of batch.techniques) {
+        await writeTechniqueRows(database, technique, technique.updatedAt?.getTime());
+      }
+
+      for (const session of batch.sessions) {
+        await writeSessionRows(database, session, session.updatedAt?.getTime());
+      }
+
+      for (const location of batch.locations) {
         await database.runAsync(
-          'INSERT INTO submissions (session_id, name, count) VALUES (?, ?, ?)',
-          [session.id, submissionName, count]
+          `INSERT INTO locations (name, usage_count, last_used) VALUES (?, ?, ?)
+           ON CONFLICT(name) DO UPDATE SET
+             usage_count = MAX(usage_count, excluded.usage_count),
+             last_used = MAX(COALESCE(last_used, 0), COALESCE(excluded.last_used, 0))`,
+          [location.name, location.usageCount, location.lastUsed ? location.lastUsed.getTime() : null]
         );
       }
+
+      if (batch.profile) {
+        const { profile, promotions } = batch.profile;
+        if (promotions.length > 0) {
+          await replaceProfileRows(database, profile, promotions);
+        } else {
+          await writeProfileRows(database, profile);
+        }
+      }
     });
   } catch (error) {
-    console.error('Error saving session to database:', error);
-    throw new Error('Failed to save session');
+    console.error('Error importing data into database:', error);
+    throw toStorageError(error, 'Failed to import data');
   }
 };
 
-export const getSessionsFromDb = async (): Promise<TrainingSession[]> => {
+// Profile operations
+
+const insertPromotion = async (database: SQLite.SQLiteDatabase, promotion: Promotion): Promise<void> => {
+  await database.runAsync(
+    `INSERT INTO promotions (id, belt_rank, stripes, date, instructor, notes, created_at) 
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      promotion.id,
+      promotion.beltRank,
+      promotion.stripes,
+      promotion.date.getTime(),
+      promotion.instructor || null,
+      sealNotes(promotion.notes),
+      Date.now()
+    ]
+  );
+};
+
+// Latest promotion first. Promotions on the same day keep the order they were recorded in.
+const PROMOTION_ORDER = 'ORDER BY date DESC, created_at DESC, rowid DESC';
+
+export const getProfileFromDb = async (): Promise<UserProfile | null> => {
   const database = getDatabase();
   
   try {
-    const sessions = await database.getAllAsync(
-      'SELECT * FROM sessions ORDER BY date DESC'
+    const row = await database.getFirstAsync<any>(
+      `SELECT p.name, latest.belt_rank, latest.stripes
+       FROM profile p
+       LEFT JOIN (SELECT belt_rank, stripes FROM promotions ${PROMOTION_ORDER} LIMIT 1) latest
+       WHERE p.id = 1`
     );
-    
-    const result: TrainingSession[] = [];
-    
-    for (const sessionRow of sessions) {
-      const row = sessionRow as any; // Type assertion for database row
-      // Get technique associations for this session
-      const techniqueAssociations = await database.getAllAsync(
-        'SELECT technique_id FROM session_techniques WHERE session_id = ?',
-        [row.id]
-      );
-      
-      // Get submissions for this session
-      const submissionRows = await database.getAllAsync(
-        'SELECT name, count FROM submissions WHERE session_id = ?',
-        [row.id]
-      );
-      
-      const techniqueIds = techniqueAssociations.map((assoc: any) => assoc.technique_id);
-      const submissions = submissionRows.map((sub: any) => sub.name);
-      const submissionCounts: Record<string, number> = {};
-      submissionRows.forEach((sub: any) => {
-        submissionCounts[sub.name] = sub.count || 1;
-      });
-      
-      result.push({
-        id: row.id,
-        date: new Date(row.date),
-        location: row.location,
-        type: row.type,
-        notes: row.notes,
-        satisfaction: row.satisfaction,
-        techniqueIds,
-        submissions,
-        submissionCounts
-      });
-    }
-    
-    return result;
+
+    if (!row) return null;
+
+    // A profile without promotions is a white belt with no stripes
+    const [profile] = await withoutInvalidRows(database, 'profile', [{
+      name: row.name,
+      beltRank: row.belt_rank ?? 'white',
+      stripes: row.stripes ?? 0,
+    }], parseProfile);
+    return profile ?? null;
+  } catch (error) {
+    console.error('Error loading profile from database:', error);
+    throw toStorageError(error, 'Failed to load profile');
+  }
+};
+
+/**
+ * Save the profile name and record a rank change. With `promotion`, that promotion is
+ * appended as given. Without it, a promotion dated today is appended only when the
+ * profile's rank differs from the latest promotion, so saving an unchanged profile
+ * never adds history.
+ */
+const writeProfileRow = async (database: SQLite.SQLiteDatabase, profile: UserProfile): Promise<void> => {
+  await database.runAsync(
+    `INSERT INTO profile (id, name, created_at) VALUES (1, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET name = excluded.name`,
+    [profile.name, Date.now()]
+  );
+  await clearQuarantineRows(database, 'profile', '');
+};
+
+// Saves the profile, recording its rank as a promotion when it changed. Callers own the transaction.
+const writeProfileRows = async (
+  database: SQLite.SQLiteDatabase,
+  profile: UserProfile,
+  promotion?: Promotion
+): Promise<void> => {
+  await writeProfileRow(database, profile);
+
+  if (promotion) {
+    await insertPromotion(database, promotion);
+    return;
+  }
+
+  const latest = await database.getFirstAsync<{ belt_rank: string; stripes: number }>(
+    `SELECT belt_rank, stripes FROM promotions ${PROMOTION_ORDER} LIMIT 1`
+  );
+
+  if (!latest || latest.belt_rank !== profile.beltRank || latest.stripes !== profile.stripes) {
+    await insertPromotion(database, {
+      id: `promotion_${Date.now()}`,
+      beltRank: profile.beltRank,
+      stripes: profile.stripes,
+      date: new Date(),
+    });
+  }
+};
+
+// Saves the profile with a whole new promotion history. Callers own the transaction.
+const replaceProfileRows = async (
+  database: SQLite.SQLiteDatabase,
+  profile: UserProfile,
+  promotions: Promotion[]
+): Promise<void> => {
+  await writeProfileRow(database, profile);
+  await database.runAsync('DELETE FROM promotions');
+
+  // Oldest first so same-day promotions keep their order
+  for (const promotion of [...promotions].reverse()) {
+    await insertPromotion(database, promotion);
+  }
+};
+
+export const saveProfileToDb = async (profile: UserProfile, promotion?: Promotion): Promise<void> => {
+  const database = getDatabase();
+
+  try {
+    assertValidRecord(profile, parseProfile, 'profile');
+    await database.withTransactionAsync(() => writeProfileRows(database, profile, promotion));
+  } catch (error) {
+    console.error('Error saving profile to database:', error);
+    throw toStorageError(error, 'Failed to save profile');
+  }
+};
+
+// Replace the profile and its whole promotion history, as when restoring a backup
+export const replaceProfileInDb = async (profile: UserProfile, promotions: Promotion[]): Promise<void> => {
+  const database = getDatabase();
+
+  try {
+    await database.withTransactionAsync(() => replaceProfileRows(database, profile, promotions));
+  } catch (error) {
+    console.error('Error replacing profile in database:', error);
+    throw toStorageError(error, 'Failed to save profile');
+  }
+};
+
+export const deleteProfileFromDb = async (): Promise<void> => {
+  const database = getDatabase();
+  
+  try {
+    await database.withTransactionAsync(async () => {
+      await database.runAsync('DELETE FROM promotions');
+      await database.runAsync('DELETE FROM profile');
+    });
+  } catch (error) {
+    console.error('Error deleting profile from database:', error);
+    throw toStorageError(error, 'Failed to delete profile');
+  }
+};
+
+export const getPromotionsFromDb = async (): Promise<Promotion[]> => {
+  const database = getDatabase();
+  
+  try {
+    const rows = await database.getAllAsync<any>(`SELECT * FROM promotions ${PROMOTION_ORDER}`);
+
+    return rows.map(row => ({
+      id: row.id,
+      beltRank: row.belt_rank,
+      stripes: row.stripes,
+      date: new Date(row.date),
+      instructor: row.instructor || undefined,
+      notes: openNotes(row.notes),
+    }));
   } catch (error) {
-    console.error('Error loading sessions from database:', error);
-    return [];
+    console.error('Error loading promotions from database:', error);
+    throw toStorageError(error, 'Failed to load promotions');
   }
 };
 
-export const deleteSessionFromDb = async (sessionId: string): Promise<void> => {
+export const deletePromotionFromDb = async (promotionId: string): Promise<void> => {
   const database = getDatabase();
   
   try {
-    await database.withTransactionAsync(async () => {
-      // Delete session (cascade will handle session_techniques)
-      await database.runAsync('DELETE FROM sessions WHERE id = ?', [sessionId]);
-      
-      // Update techniques that referenced this session
-      await database.runAsync(
-        'UPDATE techniques SET session_id = NULL WHERE session_id = ?',
-        [sessionId]
-      );
-    });
+    await database.runAsync('DELETE FROM promotions WHERE id = ?', [promotionId]);
   } catch (error) {
-    console.error('Error deleting session from database:', error);
-    throw new Error('Failed to delete session');
+    console.error('Error deleting promotion from database:', error);
+    throw toStorageError(error, 'Failed to delete promotion');
   }
 };
 
@@ -596,53 +1419,14 @@ export const getRecentTechniquesFromDb = async (limit: number = 10): Promise<Tec
   const database = getDatabase();
   
   try {
-    const techniques = await database.getAllAsync(
-      'SELECT * FROM techniques ORDER BY timestamp DESC LIMIT ?',
+    return await queryTechniques(
+      database,
+      'SELECT id FROM techniques WHERE deleted_at IS NULL ORDER BY timestamp DESC LIMIT ?',
       [limit]
     );
-    
-    const result: Technique[] = [];
-    
-    for (const techniqueRow of techniques) {
-      const row = techniqueRow as any;
-      
-      // Get tags for this technique
-      const tagRows = await database.getAllAsync(
-        'SELECT tag_name FROM technique_tags WHERE technique_id = ?',
-        [row.id]
-      );
-      
-      const tags = tagRows.map((tagRow: any) => tagRow.tag_name);
-      
-      // Get links for this technique
-      const linkRows = await database.getAllAsync(
-        'SELECT * FROM technique_links WHERE technique_id = ? ORDER BY timestamp DESC',
-        [row.id]
-      );
-      
-      const links = linkRows.map((linkRow: any) => ({
-        id: linkRow.id,
-        url: linkRow.url,
-        title: linkRow.title,
-        timestamp: new Date(linkRow.timestamp)
-      }));
-      
-      result.push({
-        id: row.id,
-        name: row.name,
-        category: row.category,
-        tags,
-        notes: row.notes,
-        links: links.length > 0 ? links : undefined,
-        timestamp: new Date(row.timestamp),
-        sessionId: row.session_id
-      });
-    }
-    
-    return result;
   } catch (error) {
     console.error('Error loading recent techniques from database:', error);
-    return [];
+    throw toStorageError(error, 'Failed to load recent techniques');
   }
 };
 
@@ -675,7 +1459,26 @@ export const getLocationsFromDb = async (): Promise<string[]> => {
     return result.map((row: any) => row.name);
   } catch (error) {
     console.error('Error loading locations from database:', error);
-    return [];
+    throw toStorageError(error, 'Failed to load locations');
+  }
+};
+
+export const getLocationRecordsFromDb = async (): Promise<LocationRecord[]> => {
+  const database = getDatabase();
+  
+  try {
+    const result = await database.getAllAsync(
+      'SELECT name, usage_count, last_used FROM locations ORDER BY usage_count DESC, last_used DESC'
+    );
+    
+    return result.map((row: any) => ({
+      name: row.name,
+      usageCount: row.usage_count || 0,
+      lastUsed: row.last_used ? new Date(row.last_used) : null
+    }));
+  } catch (error) {
+    console.error('Error loading location records from database:', error);
+    throw toStorageError(error, 'Failed to load locations');
   }
 };
 
@@ -684,18 +1487,21 @@ export const getUniqueSubmissionsFromDb = async (): Promise<string[]> => {
   
   try {
     const result = await database.getAllAsync(
-      'SELECT DISTINCT name FROM submissions ORDER BY name ASC'
+      `SELECT DISTINCT sub.name FROM submissions sub 
+       JOIN sessions s ON s.id = sub.session_id 
+       WHERE s.deleted_at IS NULL 
+       ORDER BY sub.name ASC`
     );
     
     return result.map((row: any) => row.name);
   } catch (error) {
     console.error('Error loading unique submissions from database:', error);
-    return [];
+    throw toStorageError(error, 'Failed to load submissions');
   }
 };
 
 // Tag operations
-export const getAllTagsFromDb = async (): Promise<{ name: string; category: string; usageCount: number; isCustom: boolean }[]> => {
+export const getAllTagsFromDb = async (): Promise<TagRecord[]> => {
   const database = getDatabase();
   
   try {
@@ -711,7 +1517,7 @@ export const getAllTagsFromDb = async (): Promise<{ name: string; category: stri
     }));
   } catch (error) {
     console.error('Error loading tags from database:', error);
-    return [];
+    throw toStorageError(error, 'Failed to load tags');
   }
 };
 
@@ -727,7 +1533,7 @@ export const getPopularTagsFromDb = async (limit: number = 20): Promise<string[]
     return result.map((row: any) => row.name);
   } catch (error) {
     console.error('Error loading popular tags from database:', error);
-    return [];
+    throw toStorageError(error, 'Failed to load popular tags');
   }
 };
 
@@ -743,7 +1549,7 @@ export const searchTagsFromDb = async (query: string, limit: number = 10): Promi
     return result.map((row: any) => row.name);
   } catch (error) {
     console.error('Error searching tags from database:', error);
-    return [];
+    throw toStorageError(error, 'Failed to search tags');
   }
 };
 
@@ -765,7 +1571,7 @@ export const createCustomTagInDb = async (tagName: string): Promise<void> => {
     );
   } catch (error) {
     console.error('Error creating custom tag in database:', error);
-    throw new Error('Failed to create custom tag');
+    throw toStorageError(error, 'Failed to create custom tag');
   }
 };
 
@@ -790,7 +1596,7 @@ export const initializePredefinedTagsInDb = async (tags: { name: string; categor
     }
   } catch (error) {
     console.error('Error initializing predefined tags in database:', error);
-    throw new Error('Failed to initialize predefined tags');
+    throw toStorageError(error, 'Failed to initialize predefined tags');
   }
 };
 
@@ -833,6 +1639,542 @@ export const cleanupUnusedCustomTags = async (): Promise<number> => {
   }
 };
 
+// Delete every row in every user data table. Predefined tags are reseeded by the
+// next migration run.
+export const clearAllDataFromDb = async (): Promise<void> => {
+  const database = getDatabase();
+
+  try {
+    await database.withTransactionAsync(async () => {
+      await database.execAsync(`
+        DELETE FROM session_techniques;
+        DELETE FROM submissions;
+        DELETE FROM technique_revisions;
+        DELETE FROM technique_links;
+        DELETE FROM technique_tags;
+        DELETE FROM techniques;
+        DELETE FROM sessions;
+        DELETE FROM locations;
+        DELETE FROM tags;
+        DELETE FROM promotions;
+        DELETE FROM profile;
+        DELETE FROM outbox;
+        DELETE FROM sync_base;
+        DELETE FROM sync_conflicts;
+        DELETE FROM quarantine;
+      `);
+    });
+
+    console.log('All data cleared from database');
+  } catch (error) {
+    console.error('Error clearing database:', error);
+    throw toStorageError(error, 'Failed to clear database');
+  }
+};
+
+// Outbox operations
+
+// Payload dates come back from JSON as strings
+const parseOutboxMutation = (row: any): OutboxMutation => {
+  const payload = row.payload ? parseOpeningNotes(row.payload) : undefined;
+  const mutation = { entity: row.entity, operation: row.operation, entityId: row.entity_id, payload };
+
+  if (payload && row.entity === 'technique') {
+    mutation.payload = reviveTechnique(payload);
+  } else if (payload && row.entity === 'session') {
+    mutation.payload = reviveSession(payload);
+  } else if (payload?.promotion) {
+    mutation.payload = { ...payload, promotion: revivePromotion(payload.promotion) };
+  }
+
+  return mutation as OutboxMutation;
+};
+
+// Returns the new entry's id
+export const addOutboxEntryToDb = async (mutation: OutboxMutation): Promise<number> => {
+  const database = getDatabase();
+  
+  try {
+    const now = Date.now();
+    const result = await database.runAsync(
+      `INSERT INTO outbox (entity, operation, entity_id, payload, next_attempt_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        mutation.entity,
+        mutation.operation,
+        mutation.entityId,
+        'payload' in mutation ? stringifySealingNotes(mutation.payload) : null,
+        now,
+        now
+      ]
+    );
+    return result.lastInsertRowId;
+  } catch (error) {
+    console.error('Error adding outbox entry to database:', error);
+    throw toStorageError(error, 'Failed to queue change');
+  }
+};
+
+// Every entry, oldest first, which is the order they are sent in
+export const getOutboxFromDb = async (): Promise<OutboxEntry[]> => {
+  const database = getDatabase();
+  
+  try {
+    const rows = await database.getAllAsync<any>('SELECT * FROM outbox ORDER BY id');
+    return rows.map(row => ({
+      ...parseOutboxMutation(row),
+      id: row.id,
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: new Date(row.next_attempt_at),
+      lastError: row.last_error || undefined,
+      createdAt: new Date(row.created_at),
+    }));
+  } catch (error) {
+    console.error('Error loading outbox from database:', error);
+    throw toStorageError(error, 'Failed to load queued changes');
+  }
+};
+
+export const updateOutboxEntryInDb = async (entryId: number, update: OutboxEntryUpdate): Promise<void> => {
+  const database = getDatabase();
+  
+  try {
+    await database.runAsync(
+      'UPDATE outbox SET status = ?, attempts = ?, next_attempt_at = ?, last_error = ? WHERE id = ?',
+      [update.status, update.attempts, update.nextAttemptAt.getTime(), update.lastError ?? null, entryId]
+    );
+  } catch (error) {
+    console.error('Error updating outbox entry:', error);
+    throw toStorageError(error, 'Failed to update queued change');
+  }
+};
+
+export const deleteOutboxEntryFromDb = async (entryId: number): Promise<void> => {
+  const database = getDatabase();
+  
+  try {
+    await database.runAsync('DELETE FROM outbox WHERE id = ?', [entryId]);
+  } catch (error) {
+    console.error('Error deleting outbox entry:', error);
+    throw toStorageError(error, 'Failed to remove queued change');
+  }
+};
+
+// Sync operations
+
+const SYNC_TABLES: Record<SyncEntity, string> = {
+  technique: 'techniques',
+  session: 'sessions',
+};
+
+const reviveSyncRecord = (entity: SyncEntity, data: any): SyncRecord =>
+  entity === 'technique' ? reviveTechnique(data) : reviveSession(data);
+
+// A technique or session as stored, trashed or not. Null if it isn't on this device.
+export const getSyncRecordFromDb = async (entity: SyncEntity, entityId: string): Promise<SyncRecord | null> => {
+  const database = getDatabase();
+  
+  try {
+    const [record] = entity === 'technique'
+      ? await queryTechniques(database, 'SELECT ?', [entityId])
+      : await querySessions(database, 'SELECT ?', [entityId]);
+    return record ?? null;
+  } catch (error) {
+    console.error('Error loading record for sync:', error);
+    throw toStorageError(error, `Failed to load ${entity}`);
+  }
+};
+
+/**
+ * Writes records pulled from the server, keeping their version, update time and deletion.
+ * Techniques and sessions reference each other, so references to records this device
+ * doesn't have are dropped rather than failing the whole batch.
+ */
+export const applySyncedRecordsToDb = async (
+  techniques: Technique[],
+  sessions: TrainingSession[]
+): Promise<void> => {
+  const database = getDatabase();
+
+  const writeMetadata = async (entity: SyncEntity, record: SyncRecord) => {
+    await database.runAsync(
+      `UPDATE ${SYNC_TABLES[entity]} SET version = ?, updated_at = ?, deleted_at = ? WHERE id = ?`,
+      [
+        record.version ?? 0,
+        record.updatedAt?.getTime() ?? Date.now(),
+        record.deletedAt?.getTime() ?? null,
+        record.id
+      ]
+    );
+  };
+  
+  try {
+    await database.withTransactionAsync(async () => {
+      await database.execAsync('PRAGMA defer_foreign_keys = ON;');
+
+      for (const session of sessions) {
+        await writeSessionRows(database, session);
+        await writeMetadata('session', session);
+      }
+
+      for (const technique of techniques) {
+        const [previous] = await queryTechniques(database, 'SELECT ?', [technique.id]);
+        await writeTechniqueRows(database, technique);
+        await writeMetadata('technique', technique);
+        await recordTechniqueRevision(database, previous, technique.id);
+      }
+
+      await database.execAsync(`
+        DELETE FROM session_techniques WHERE technique_id NOT IN (SELECT id FROM techniques);
+        UPDATE techniques SET session_id = NULL
+        WHERE session_id IS NOT NULL AND session_id NOT IN (SELECT id FROM sessions);
+      `);
+    });
+  } catch (error) {
+    console.error('Error applying synced records to database:', error);
+    throw toStorageError(error, 'Failed to apply synced changes');
+  }
+};
+
+// Records the server's version of a record after it accepted a write
+export const setRecordVersionInDb = async (entity: SyncEntity, entityId: string, version: number): Promise<void> => {
+  const database = getDatabase();
+  
+  try {
+    await database.runAsync(
+      `UPDATE ${SYNC_TABLES[entity]} SET version = ? WHERE id = ?`,
+      [version, entityId]
+    );
+  } catch (error) {
+    console.error('Error updating record version:', error);
+    throw toStorageError(error, `Failed to update ${entity} version`);
+  }
+};
+
+// The last server version of a record this device has merged with
+export const getSyncBaseFromDb = async (entity: SyncEntity, entityId: string): Promise<SyncBase | null> => {
+  const database = getDatabase();
+  
+  try {
+    const row = await database.getFirstAsync<{ version: number; data: string | null }>(
+      'SELECT version, data FROM sync_base WHERE entity = ? AND entity_id = ?',
+      [entity, entityId]
+    );
+    if (!row) return null;
+    return {
+      version: row.version,
+      record: row.data ? reviveSyncRecord(entity, parseOpeningNotes(row.data)) : null,
+    };
+  } catch (error) {
+    console.error('Error loading sync base:', error);
+    throw toStorageError(error, 'Failed to load sync base');
+  }
+};
+
+export const setSyncBaseInDb = async (entity: SyncEntity, record: SyncRecord): Promise<void> => {
+  const database = getDatabase();
+  
+  try {
+    await database.runAsync(
+      `INSERT OR REPLACE INTO sync_base (entity, entity_id, version, data) VALUES (?, ?, ?, ?)`,
+      [entity, record.id, record.version ?? 0, record.deletedAt ? null : stringifySealingNotes(record)]
+    );
+  } catch (error) {
+    console.error('Error saving sync base:', error);
+    throw toStorageError(error, 'Failed to save sync base');
+  }
+};
+
+const parseSyncConflict = (row: any): SyncConflict => ({
+  id: row.id,
+  entity: row.entity,
+  entityId: row.entity_id,
+  local: reviveSyncRecord(row.entity, parseOpeningNotes(row.local)),
+  remote: reviveSyncRecord(row.entity, parseOpeningNotes(row.remote)),
+  merged: reviveSyncRecord(row.entity, parseOpeningNotes(row.merged)),
+  fields: JSON.parse(row.fields),
+  detectedAt: new Date(row.detected_at),
+});
+
+// Replaces any open conflict for the same record
+export const saveSyncConflictToDb = async (conflict: Omit<SyncConflict, 'id'>): Promise<void> => {
+  const database = getDatabase();
+  
+  try {
+    await database.runAsync(
+      `INSERT OR REPLACE INTO sync_conflicts (entity, entity_id, local, remote, merged, fields, detected_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        conflict.entity,
+        conflict.entityId,
+        stringifySealingNotes(conflict.local),
+        stringifySealingNotes(conflict.remote),
+        stringifySealingNotes(conflict.merged),
+        JSON.stringify(conflict.fields),
+        conflict.detectedAt.getTime()
+      ]
+    );
+  } catch (error) {
+    console.error('Error saving sync conflict:', error);
+    throw toStorageError(error, 'Failed to save sync conflict');
+  }
+};
+
+// Open conflicts, oldest first
+export const getSyncConflictsFromDb = async (): Promise<SyncConflict[]> => {
+  const database = getDatabase();
+  
+  try {
+    const rows = await database.getAllAsync<any>('SELECT * FROM sync_conflicts ORDER BY detected_at, id');
+    return rows.map(parseSyncConflict);
+  } catch (error) {
+    console.error('Error loading sync conflicts:', error);
+    throw toStorageError(error, 'Failed to load sync conflicts');
+  }
+};
+
+export const getSyncConflictFromDb = async (entity: SyncEntity, entityId: string): Promise<SyncConflict | null> => {
+  const database = getDatabase();
+  
+  try {
+    const row = await database.getFirstAsync<any>(
+      'SELECT * FROM sync_conflicts WHERE entity = ? AND entity_id = ?',
+      [entity, entityId]
+    );
+    return row ? parseSyncConflict(row) : null;
+  } catch (error) {
+    console.error('Error loading sync conflict:', error);
+    throw toStorageError(error, 'Failed to load sync conflict');
+  }
+};
+
+export const deleteSyncConflictFromDb = async (conflictId: number): Promise<void> => {
+  const database = getDatabase();
+  
+  try {
+    await database.runAsync('DELETE FROM sync_conflicts WHERE id = ?', [conflictId]);
+  } catch (error) {
+    console.error('Error deleting sync conflict:', error);
+    throw toStorageError(error, 'Failed to remove sync conflict');
+  }
+};
+
+// Quarantine operations
+
+// Records from the server that failed validation. They are kept only here.
+export const quarantineRecordsInDb = async (
+  source: QuarantineSource,
+  entity: QuarantineEntity,
+  records: InvalidRecord[]
+): Promise<void> => {
+  const database = getDatabase();
+  
+  try {
+    await writeQuarantineRows(database, source, entity, records);
+  } catch (error) {
+    console.error('Error quarantining records:', error);
+    throw toStorageError(error, 'Failed to quarantine records');
+  }
+};
+
+// Newest first
+export const getQuarantinedRecordsFromDb = async (): Promise<QuarantinedRecord[]> => {
+  const database = getDatabase();
+  
+  try {
+    const rows = await database.getAllAsync<any>('SELECT * FROM quarantine ORDER BY detected_at DESC, id DESC');
+    return rows.map(row => ({
+      id: row.id,
+      entity: row.entity,
+      entityId: row.entity_id,
+      source: row.source,
+      payload: parseOpeningNotes(row.payload),
+      errors: JSON.parse(row.errors),
+      detectedAt: new Date(row.detected_at),
+    }));
+  } catch (error) {
+    console.error('Error loading quarantined records:', error);
+    throw toStorageError(error, 'Failed to load quarantined records');
+  }
+};
+
+/**
+ * Drop a quarantined record. A record read from this device's database is deleted from
+ * it too, trashed or not, with everything that belongs to it; otherwise it would fail
+ * validation again on the next read.
+ */
+export const discardQuarantinedRecordFromDb = async (recordId: number): Promise<void> => {
+  const database = getDatabase();
+  
+  try {
+    let deletedTechnique = false;
+
+    await database.withTransactionAsync(async () => {
+      const row = await database.getFirstAsync<{ entity: QuarantineEntity; entity_id: string; source: QuarantineSource }>(
+        'SELECT entity, entity_id, source FROM quarantine WHERE id = ?',
+        [recordId]
+      );
+      if (!row) return;
+
+      if (row.source === 'database') {
+        switch (row.entity) {
+          case 'technique':
+            // Cascades to its tags, links, revisions and session associations
+            deletedTechnique = (await database.runAsync('DELETE FROM techniques WHERE id = ?', [row.entity_id])).changes > 0;
+            break;
+          case 'session':
+            await database.runAsync('DELETE FROM sessions WHERE id = ?', [row.entity_id]);
+            await database.runAsync('UPDATE techniques SET session_id = NULL WHERE session_id = ?', [row.entity_id]);
+            break;
+          case 'profile':
+            await database.runAsync('DELETE FROM promotions');
+            await database.runAsync('DELETE FROM profile');
+            break;
+        }
+      }
+
+      await database.runAsync('DELETE FROM quarantine WHERE id = ?', [recordId]);
+    });
+
+    if (deletedTechnique) {
+      await cleanupUnusedCustomTags();
+    }
+  } catch (error) {
+    console.error('Error discarding quarantined record:', error);
+    throw toStorageError(error, 'Failed to discard record');
+  }
+};
+
+// Notes encryption
+
+// Every table with a notes column. Each is keyed by `id`.
+const NOTES_TABLES = ['techniques', 'sessions', 'technique_revisions', 'promotions'];
+
+// Every column holding records as JSON with notes inside
+const JSON_NOTES_COLUMNS: [table: string, column: string][] = [
+  ['outbox', 'payload'],
+  ['sync_base', 'data'],
+  ['sync_conflicts', 'local'],
+  ['sync_conflicts', 'remote'],
+  ['sync_conflicts', 'merged'],
+  ['quarantine', 'payload'],
+];
+
+/**
+ * Rewrite every stored note in the form sealNotes writes now, after notes encryption is
+ * turned on or off. Notes are rewritten in one transaction, then the database is vacuumed
+ * so the old form of each note doesn't linger in free pages. Returns the notes rewritten.
+ */
+export const rewriteNotesInDb = async (database: SQLite.SQLiteDatabase = getDatabase()): Promise<number> => {
+  const encrypting = isNotesEncryptionActive();
+
+  try {
+    let rewritten = 0;
+
+    await database.withTransactionAsync(async () => {
+      for (const table of NOTES_TABLES) {
+        const rows = await database.getAllAsync<{ id: string | number; notes: string }>(
+          `SELECT id, notes FROM ${table} WHERE notes IS NOT NULL AND notes != ''`
+        );
+
+        for (const row of rows) {
+          if (isEncryptedText(row.notes) === encrypting) continue;
+          await database.runAsync(
+            `UPDATE ${table} SET notes = ? WHERE id = ?`,
+            [sealNotes(openNotes(row.notes)), row.id]
+          );
+          rewritten++;
+        }
+      }
+
+      for (const [table, column] of JSON_NOTES_COLUMNS) {
+        const rows = await database.getAllAsync<{ id: number; json: string }>(
+          `SELECT rowid AS id, ${column} AS json FROM ${table} WHERE ${column} IS NOT NULL`
+        );
+
+        for (const row of rows) {
+          const notes: string[] = [];
+          mapJsonNotes(JSON.parse(row.json), note => {
+            notes.push(note);
+            return note;
+          });
+          if (notes.every(note => isEncryptedText(note) === encrypting)) continue;
+          await database.runAsync(
+            `UPDATE ${table} SET ${column} = ? WHERE rowid = ?`,
+            [stringifySealingNotes(parseOpeningNotes(row.json)), row.id]
+          );
+          rewritten += notes.length;
+        }
+      }
+    });
+
+    try {
+      await database.execAsync('VACUUM; PRAGMA wal_checkpoint(TRUNCATE);');
+    } catch (vacuumError) {
+      // The notes are rewritten either way; only the free pages are left as they were
+      console.warn('Failed to vacuum database after rewriting notes:', vacuumError);
+    }
+    // VACUUM can renumber the rowids that key the search index
+    await database.withTransactionAsync(() => rebuildSearchIndex(database));
+
+    console.log(`Rewrote ${rewritten} notes ${encrypting ? 'encrypted' : 'as plain text'}`);
+    return rewritten;
+  } catch (error) {
+    console.error('Error rewriting notes in database:', error);
+    throw toStorageError(error, 'Failed to rewrite notes');
+  }
+};
+
+/**
+ * Rewrite the notes in a database file other than the open one. It gets a handle of its
+ * own, so the open database stays in use meanwhile.
+ */
+export const rewriteNotesInDbFile = async (databaseName: string): Promise<number> => {
+  let database: SQLite.SQLiteDatabase;
+  try {
+    database = await openDatabaseFile(databaseName);
+  } catch (error) {
+    console.error('Error opening database to rewrite notes:', error);
+    throw toStorageError(error, 'Failed to rewrite notes', StorageNotInitializedError);
+  }
+
+  try {
+    return await rewriteNotesInDb(database);
+  } finally {
+    await database.closeAsync();
+  }
+};
+
+// Health
+
+// Facts for a local health report. Techniques and sessions count live rows only.
+export const getDatabaseStatsFromDb = async (): Promise<DatabaseStats> => {
+  const database = getDatabase();
+  
+  try {
+    const rowCounts = {} as Record<HealthTable, number>;
+    for (const table of HEALTH_TABLES) {
+      const liveOnly = table === 'techniques' || table === 'sessions' ? ' WHERE deleted_at IS NULL' : '';
+      const row = await database.getFirstAsync<{ count: number }>(`SELECT COUNT(*) AS count FROM ${table}${liveOnly}`);
+      rowCounts[table] = row?.count ?? 0;
+    }
+
+    const pageCount = await database.getFirstAsync<{ page_count: number }>('PRAGMA page_count');
+    const pageSize = await database.getFirstAsync<{ page_size: number }>('PRAGMA page_size');
+
+    return {
+      schemaVersion: await getSchemaVersion(database),
+      latestSchemaVersion: LATEST_SCHEMA_VERSION,
+      rowCounts,
+      fileSizeBytes: (pageCount?.page_count ?? 0) * (pageSize?.page_size ?? 0),
+    };
+  } catch (error) {
+    console.error('Error reading database stats:', error);
+    throw toStorageError(error, 'Failed to read database stats');
+  }
+};
+
 // Database cleanup
 export const closeDatabase = async (): Promise<void> => {
   if (db) {
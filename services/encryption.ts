@@ -0,0 +1,149 @@
+import { getRandomBytes } from 'expo-crypto';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { bytesToHex, hexToBytes, utf8ToBytes, bytesToUtf8, concatBytes } from '@noble/ciphers/utils';
+import { WrappedDataKey } from '@/types/appLock';
+
+/**
+ * Notes encryption
+ *
+ * Notes are sealed with a random 256-bit data key using XChaCha20-Poly1305. The data key
+ * is only ever stored wrapped by a key derived from the PIN with PBKDF2-SHA256, so
+ * changing the PIN re-wraps the data key without touching any notes. Once unwrapped, the
+ * data key stays in memory until the app is closed.
+ *
+ * Sealed text is ENCRYPTED_PREFIX followed by the hex encoded nonce and ciphertext.
+ * Reads open sealed and plain notes alike, so a database part way through being
+ * encrypted or decrypted still reads correctly.
+ */
+
+export const ENCRYPTED_PREFIX = 'enc:v1:';
+
+const KEY_BYTES = 32;
+const NONCE_BYTES = 24;
+const SALT_BYTES = 16;
+const KEY_ID_BYTES = 8;
+
+// PBKDF2 runs in JavaScript here, so the count is kept low enough to unlock in about a second.
+// The wrapped key lives in the device keychain; the count matters most for exported files.
+const KEY_DERIVATION_ITERATIONS = 60000;
+
+interface DataKey {
+  key: Uint8Array;
+  wrapped: WrappedDataKey;
+}
+
+let activeKey: DataKey | null = null;
+let encryptOnWrite = false;
+
+const seal = (key: Uint8Array, plaintext: Uint8Array): string => {
+  const nonce = getRandomBytes(NONCE_BYTES);
+  return bytesToHex(concatBytes(nonce, xchacha20poly1305(key, nonce).encrypt(plaintext)));
+};
+
+// Throws if the key is wrong or the sealed bytes were changed
+const open = (key: Uint8Array, sealed: string): Uint8Array => {
+  const bytes = hexToBytes(sealed);
+  return xchacha20poly1305(key, bytes.subarray(0, NONCE_BYTES)).decrypt(bytes.subarray(NONCE_BYTES));
+};
+
+const deriveWrappingKey = (pin: string, salt: string, iterations: number): Promise<Uint8Array> =>
+  pbkdf2Async(sha256, pin, hexToBytes(salt), { c: iterations, dkLen: KEY_BYTES });
+
+const wrapDataKey = async (key: Uint8Array, keyId: string, pin: string): Promise<WrappedDataKey> => {
+  const salt = bytesToHex(getRandomBytes(SALT_BYTES));
+  const wrappingKey = await deriveWrappingKey(pin, salt, KEY_DERIVATION_ITERATIONS);
+  return {
+    keyId,
+    salt,
+    iterations: KEY_DERIVATION_ITERATIONS,
+    wrappedKey: seal(wrappingKey, key),
+  };
+};
+
+/**
+ * Unwrap a data key with a PIN. Returns null when the PIN is wrong.
+ */
+export const unwrapDataKey = async (pin: string, wrapped: WrappedDataKey): Promise<Uint8Array | null> => {
+  const wrappingKey = await deriveWrappingKey(pin, wrapped.salt, wrapped.iterations);
+  try {
+    return open(wrappingKey, wrapped.wrappedKey);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Generate a new data key wrapped with `pin` and make it the active key
+ */
+export const createDataKey = async (pin: string): Promise<WrappedDataKey> => {
+  const key = getRandomBytes(KEY_BYTES);
+  const wrapped = await wrapDataKey(key, bytesToHex(getRandomBytes(KEY_ID_BYTES)), pin);
+  activeKey = { key, wrapped };
+  return wrapped;
+};
+
+/**
+ * Unwrap a stored data key and make it the active key. Returns false when the PIN is wrong.
+ */
+export const activateDataKey = async (pin: string, wrapped: WrappedDataKey): Promise<boolean> => {
+  const key = await unwrapDataKey(pin, wrapped);
+  if (!key) return false;
+
+  activeKey = { key, wrapped };
+  return true;
+};
+
+// Wrap the active data key with a new PIN. Sealed notes stay readable.
+export const rewrapActiveDataKey = async (pin: string): Promise<WrappedDataKey> => {
+  if (!activeKey) throw new Error('No data key is unlocked');
+
+  const wrapped = await wrapDataKey(activeKey.key, activeKey.wrapped.keyId, pin);
+  activeKey = { key: activeKey.key, wrapped };
+  return wrapped;
+};
+
+export const clearDataKey = (): void => {
+  activeKey = null;
+  encryptOnWrite = false;
+};
+
+export const getActiveWrappedKey = (): WrappedDataKey | null => activeKey?.wrapped ?? null;
+
+// Whether notes are sealed as they are written
+export const setNotesEncryptionActive = (active: boolean): void => {
+  if (active && !activeKey) throw new Error('No data key is unlocked');
+  encryptOnWrite = active;
+};
+
+export const isNotesEncryptionActive = (): boolean => encryptOnWrite;
+
+export const isEncryptedText = (value: string | null | undefined): boolean =>
+  typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+
+// Seal text with the active data key, whether or not notes are encrypted on write
+export const encryptText = (text: string): string => {
+  if (!activeKey) throw new Error('No data key is unlocked');
+  if (isEncryptedText(text)) return text;
+  return ENCRYPTED_PREFIX + seal(activeKey.key, utf8ToBytes(text));
+};
+
+// Open sealed text with `key`, or the active data key. Plain text is returned as it is.
+export const decryptText = (text: string, key?: Uint8Array): string => {
+  if (!isEncryptedText(text)) return text;
+
+  const openingKey = key ?? activeKey?.key;
+  if (!openingKey) throw new Error('Notes are encrypted and no data key is unlocked');
+  return bytesToUtf8(open(openingKey, text.slice(ENCRYPTED_PREFIX.length)));
+};
+
+// Notes as they should be stored: sealed while notes encryption is on, null when empty
+export const sealNotes = (notes: string | null | undefined): string | null => {
+  if (!notes) return null;
+  return encryptOnWrite ? encryptText(notes) : notes;
+};
+
+// Notes as read from the database, opened if sealed
+export const openNotes = (stored: string | null | undefined): string | undefined =>
+  stored ? decryptText(stored) : undefined;
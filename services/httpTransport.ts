@@ -0,0 +1,133 @@
+import { ApiError, ApiNetworkError, ApiTimeoutError, ApiServerError, errorForStatus } from './apiErrors';
+
+/**
+ * HTTP transport for the remote API
+ *
+ * Requests go to `${baseUrl}/api/${apiVersion}${path}` with JSON bodies and the version
+ * headers the server uses to tell clients apart. Each request is aborted once it runs
+ * past the timeout. Non-2xx responses are thrown as the typed errors in ./apiErrors.
+ */
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface HttpTransportConfig {
+  baseUrl: string;
+  apiVersion: string;
+  clientVersion: string;
+  timeout: number; // ms
+  // Extra headers worked out for each request, such as which athlete the data belongs to
+  getHeaders?: () => Record<string, string>;
+}
+
+type QueryValue = string | number | boolean | null | undefined;
+
+/**
+ * Build a query string from the params that have a value, e.g. `?limit=10&q=arm%20bar`
+ */
+export const buildQuery = (params: Record<string, QueryValue | QueryValue[]>): string => {
+  const parts: string[] = [];
+  for (const [key, value] of Object.entries(params)) {
+    const values = Array.isArray(value) ? value : [value];
+    for (const item of values) {
+      if (item === null || item === undefined || item === '') continue;
+      parts.push(`${encodeURIComponent(key)}=${encodeURIComponent(String(item))}`);
+    }
+  }
+  return parts.length > 0 ? `?${parts.join('&')}` : '';
+};
+
+// The server's message for a failed request, from `{ error: { message, code } }` or `{ message, code }`
+const readErrorBody = async (response: Response): Promise<{ message: string | null; code: string | null }> => {
+  try {
+    const body = await response.json();
+    const detail = body && typeof body.error === 'object' && body.error !== null ? body.error : body;
+    return {
+      message: typeof detail?.message === 'string' ? detail.message : null,
+      code: typeof detail?.code === 'string' ? detail.code : null,
+    };
+  } catch {
+    return { message: null, code: null };
+  }
+};
+
+export class HttpTransport {
+  private config: HttpTransportConfig;
+
+  constructor(config: HttpTransportConfig) {
+    this.config = config;
+  }
+
+  setApiVersion(apiVersion: string): void {
+    this.config = { ...this.config, apiVersion };
+  }
+
+  /**
+   * A transport for the same server that adds `headers` to those worked out for each request
+   */
+  withHeaders(headers: Record<string, string>): HttpTransport {
+    const { getHeaders } = this.config;
+    return new HttpTransport({ ...this.config, getHeaders: () => ({ ...getHeaders?.(), ...headers }) });
+  }
+
+  get<T>(path: string): Promise<T> {
+    return this.request<T>('GET', path);
+  }
+
+  post<T>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>('POST', path, body);
+  }
+
+  put<T>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>('PUT', path, body);
+  }
+
+  delete<T = void>(path: string): Promise<T> {
+    return this.request<T>('DELETE', path);
+  }
+
+  /**
+   * Send a request and parse the JSON response. Responses without a body resolve to undefined.
+   */
+  async request<T>(method: HttpMethod, path: string, body?: unknown): Promise<T> {
+    const { baseUrl, apiVersion, clientVersion, timeout, getHeaders } = this.config;
+    const url = `${baseUrl.replace(/\/+$/, '')}/api/${apiVersion}${path}`;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          Accept: 'application/json',
+          ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          'X-API-Version': apiVersion,
+          'X-Client-Version': clientVersion,
+          ...getHeaders?.(),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const { message, code } = await readErrorBody(response);
+        throw errorForStatus(response.status, path, message ?? `Request failed with status ${response.status}`, code);
+      }
+
+      // Reading the body is covered by the timeout too
+      const text = response.status === 204 ? '' : await response.text();
+      if (!text) return undefined as T;
+
+      try {
+        return JSON.parse(text) as T;
+      } catch {
+        throw new ApiServerError('Response was not valid JSON', path, response.status);
+      }
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      if (controller.signal.aborted) throw new ApiTimeoutError(path, timeout);
+      throw new ApiNetworkError(path, error instanceof Error ? error.message : undefined);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,265 @@
+import * as SQLite from 'expo-sqlite';
+import { IntegrityIssue, IntegrityIssueKind, IntegrityReport, IntegrityRepairResult } from '@/types/integrity';
+import { getDatabase } from './database';
+
+/**
+ * Database integrity checks
+ *
+ * Runs SQLite's own checks plus checks for the ways rows in this schema go stale, and
+ * repairs what can be repaired without losing anything the user wrote. Trashed rows are
+ * not problems: they keep their associations until they are purged.
+ */
+
+const EXAMPLE_LIMIT = 5;
+
+// Child tables whose orphaned rows are deleted, as ON DELETE CASCADE would have done
+const CASCADE_TABLES = ['submissions', 'technique_links', 'technique_tags', 'technique_revisions'];
+
+interface ForeignKeyViolation {
+  table: string;
+  rowid: number;
+  parent: string;
+}
+
+interface DomainCheck {
+  kind: IntegrityIssueKind;
+  title: string;
+  description: string;
+  // One label per affected row or name
+  find: (database: SQLite.SQLiteDatabase) => Promise<string[]>;
+  // Returns the number of rows changed. Runs inside the repair transaction.
+  repair: (database: SQLite.SQLiteDatabase) => Promise<number>;
+}
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const ORPHANED_SESSION_TECHNIQUES = `NOT EXISTS (SELECT 1 FROM techniques t WHERE t.id = session_techniques.technique_id)
+  OR NOT EXISTS (SELECT 1 FROM sessions s WHERE s.id = session_techniques.session_id)`;
+
+const MISSING_TECHNIQUE_SESSIONS = `session_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM sessions s WHERE s.id = techniques.session_id)`;
+
+// Tags of techniques that still exist; a missing technique is an orphaned row instead
+const MISSING_TAGS = `EXISTS (SELECT 1 FROM techniques t WHERE t.id = technique_tags.technique_id)
+  AND NOT EXISTS (SELECT 1 FROM tags WHERE tags.name = technique_tags.tag_name)`;
+
+// Location usage counts live sessions. Session locations are matched trimmed, as they are recorded.
+const LOCATION_SESSION_COUNT = `(SELECT COUNT(*) FROM sessions s
+  WHERE trim(s.location) = locations.name AND s.deleted_at IS NULL)`;
+
+const UNRECORDED_LOCATIONS = `deleted_at IS NULL AND trim(location) != ''
+  AND NOT EXISTS (SELECT 1 FROM locations l WHERE l.name = trim(sessions.location))`;
+
+const DOMAIN_CHECKS: DomainCheck[] = [
+  {
+    kind: 'orphaned_session_techniques',
+    title: 'Broken session links',
+    description: 'Sessions linked to techniques that no longer exist, or techniques linked to missing sessions. Repair removes the broken links.',
+    find: async (database) => {
+      const rows = await database.getAllAsync<{ session_date: number | null; technique_name: string | null }>(
+        `SELECT s.date AS session_date, t.name AS technique_name
+         FROM session_techniques
+         LEFT JOIN sessions s ON s.id = session_techniques.session_id
+         LEFT JOIN techniques t ON t.id = session_techniques.technique_id
+         WHERE ${ORPHANED_SESSION_TECHNIQUES}`
+      );
+      return rows.map(row =>
+        row.technique_name !== null
+          ? `"${row.technique_name}" linked to a missing session`
+          : row.session_date !== null
+            ? `Session on ${formatDate(row.session_date)} linked to a missing technique`
+            : 'Link between a missing session and a missing technique'
+      );
+    },
+    repair: async (database) => {
+      const result = await database.runAsync(`DELETE FROM session_techniques WHERE ${ORPHANED_SESSION_TECHNIQUES}`);
+      return result.changes;
+    },
+  },
+  {
+    kind: 'missing_technique_sessions',
+    title: 'Techniques learned in missing sessions',
+    description: 'Techniques that point at a session that no longer exists. Repair unlinks them; the techniques are kept.',
+    find: async (database) => {
+      const rows = await database.getAllAsync<{ name: string }>(
+        `SELECT name FROM techniques WHERE ${MISSING_TECHNIQUE_SESSIONS} ORDER BY name`
+      );
+      return rows.map(row => `"${row.name}"`);
+    },
+    repair: async (database) => {
+      const result = await database.runAsync(`UPDATE techniques SET session_id = NULL WHERE ${MISSING_TECHNIQUE_SESSIONS}`);
+      return result.changes;
+    },
+  },
+  {
+    kind: 'missing_tags',
+    title: 'Missing tags',
+    description: 'Tags used by techniques that are missing from the tag list. Repair adds them back as custom tags.',
+    find: async (database) => {
+      const rows = await database.getAllAsync<{ tag_name: string; uses: number }>(
+        `SELECT tag_name, COUNT(*) AS uses FROM technique_tags WHERE ${MISSING_TAGS}
+         GROUP BY tag_name ORDER BY tag_name`
+      );
+      return rows.map(row => `${row.tag_name} (${row.uses} technique${row.uses === 1 ? '' : 's'})`);
+    },
+    repair: async (database) => {
+      const rows = await database.getAllAsync<{ tag_name: string; uses: number }>(
+        `SELECT tag_name, COUNT(*) AS uses FROM technique_tags WHERE ${MISSING_TAGS} GROUP BY tag_name`
+      );
+
+      for (const row of rows) {
+        // Same id scheme as tags created on save, made unique if a differently cased tag has it
+        const baseId = row.tag_name.toLowerCase().replace(/\s+/g, '-');
+        let id = baseId;
+        for (let suffix = 2; await database.getFirstAsync('SELECT 1 FROM tags WHERE id = ?', [id]); suffix++) {
+          id = `${baseId}-${suffix}`;
+        }
+
+        await database.runAsync(
+          `INSERT INTO tags (id, name, category, usage_count, created_at, is_custom)
+           VALUES (?, ?, 'custom', ?, ?, 1)`,
+          [id, row.tag_name, row.uses, Date.now()]
+        );
+      }
+      return rows.length;
+    },
+  },
+  {
+    kind: 'location_usage_drift',
+    title: 'Location usage counts out of date',
+    description: 'Locations whose usage count doesn\'t match the sessions recorded there, which affects location suggestions. Repair recounts them.',
+    find: async (database) => {
+      const rows = await database.getAllAsync<{ name: string; recorded: number | null; actual: number }>(
+        `SELECT name, usage_count AS recorded, ${LOCATION_SESSION_COUNT} AS actual
+         FROM locations WHERE usage_count IS NOT ${LOCATION_SESSION_COUNT}
+         UNION ALL
+         SELECT trim(location), NULL, COUNT(*) FROM sessions WHERE ${UNRECORDED_LOCATIONS}
+         GROUP BY trim(location)
+         ORDER BY name`
+      );
+      return rows.map(row =>
+        row.recorded === null
+          ? `${row.name}: not recorded, ${row.actual} sessions`
+          : `${row.name}: counted ${row.recorded}, ${row.actual} sessions`
+      );
+    },
+    repair: async (database) => {
+      const updated = await database.runAsync(
+        `UPDATE locations SET usage_count = ${LOCATION_SESSION_COUNT} WHERE usage_count IS NOT ${LOCATION_SESSION_COUNT}`
+      );
+      const inserted = await database.runAsync(
+        `INSERT INTO locations (name, usage_count, last_used)
+         SELECT trim(location), COUNT(*), MAX(date) FROM sessions WHERE ${UNRECORDED_LOCATIONS}
+         GROUP BY trim(location)`
+      );
+      return updated.changes + inserted.changes;
+    },
+  },
+];
+
+// Foreign key violations the domain checks don't already explain
+const findOrphanedRows = async (database: SQLite.SQLiteDatabase): Promise<ForeignKeyViolation[]> => {
+  const violations = await database.getAllAsync<ForeignKeyViolation>('PRAGMA foreign_key_check');
+  return violations.filter(violation =>
+    violation.table !== 'session_techniques' &&
+    !(violation.table === 'techniques' && violation.parent === 'sessions') &&
+    !(violation.table === 'technique_tags' && violation.parent === 'tags')
+  );
+};
+
+const orphanedRowsIssue = (violations: ForeignKeyViolation[]): IntegrityIssue => {
+  const countsByTable = new Map<string, number>();
+  violations.forEach(violation => countsByTable.set(violation.table, (countsByTable.get(violation.table) ?? 0) + 1));
+
+  return {
+    kind: 'orphaned_rows',
+    title: 'Orphaned rows',
+    description: 'Rows left behind by deleted techniques or sessions, such as tags, links, submissions or revisions. Repair deletes them.',
+    count: violations.length,
+    examples: Array.from(countsByTable, ([table, count]) => `${count} in ${table}`).slice(0, EXAMPLE_LIMIT),
+    repairable: violations.every(violation => CASCADE_TABLES.includes(violation.table)),
+  };
+};
+
+const findCorruption = async (database: SQLite.SQLiteDatabase): Promise<IntegrityIssue | null> => {
+  const rows = await database.getAllAsync<{ integrity_check: string }>('PRAGMA integrity_check');
+  const problems = rows.map(row => row.integrity_check).filter(message => message !== 'ok');
+  if (problems.length === 0) return null;
+
+  return {
+    kind: 'corruption',
+    title: 'Database file damaged',
+    description: 'SQLite found damage in the database file. It can\'t be repaired in place; export your data and restore it from a backup if anything looks wrong.',
+    count: problems.length,
+    examples: problems.slice(0, EXAMPLE_LIMIT),
+    repairable: false,
+  };
+};
+
+const buildReport = async (database: SQLite.SQLiteDatabase): Promise<IntegrityReport> => {
+  const issues: IntegrityIssue[] = [];
+
+  const corruption = await findCorruption(database);
+  if (corruption) issues.push(corruption);
+
+  for (const check of DOMAIN_CHECKS) {
+    const affected = await check.find(database);
+    if (affected.length > 0) {
+      issues.push({
+        kind: check.kind,
+        title: check.title,
+        description: check.description,
+        count: affected.length,
+        examples: affected.slice(0, EXAMPLE_LIMIT),
+        repairable: true,
+      });
+    }
+  }
+
+  const orphanedRows = await findOrphanedRows(database);
+  if (orphanedRows.length > 0) issues.push(orphanedRowsIssue(orphanedRows));
+
+  return { checkedAt: new Date(), issues };
+};
+
+export const checkDatabaseIntegrity = async (): Promise<IntegrityReport> => {
+  try {
+    return await buildReport(getDatabase());
+  } catch (error) {
+    console.error('Error checking database integrity:', error);
+    throw new Error('Failed to check database integrity');
+  }
+};
+
+/**
+ * Repair every repairable issue in one transaction, so a failure leaves the database as it
+ * was. Orphaned rows go first, so a missing tag is only recreated for a technique that
+ * still exists.
+ */
+export const repairDatabaseIntegrity = async (): Promise<IntegrityRepairResult> => {
+  const database = getDatabase();
+
+  try {
+    let rowsRepaired = 0;
+
+    await database.withTransactionAsync(async () => {
+      for (const violation of await findOrphanedRows(database)) {
+        // Table names come from SQLite, but only known child tables are ever deleted from
+        if (!CASCADE_TABLES.includes(violation.table)) continue;
+        const result = await database.runAsync(`DELETE FROM ${violation.table} WHERE rowid = ?`, [violation.rowid]);
+        rowsRepaired += result.changes;
+      }
+
+      for (const check of DOMAIN_CHECKS) {
+        rowsRepaired += await check.repair(database);
+      }
+    });
+
+    console.log(`Integrity repair changed ${rowsRepaired} rows`);
+    return { rowsRepaired, report: await buildReport(database) };
+  } catch (error) {
+    console.error('Error repairing database integrity:', error);
+    throw new Error('Failed to repair database integrity');
+  }
+};
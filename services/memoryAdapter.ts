@@ -0,0 +1,1065 @@
+import {
+  StorageAdapter,
+  TechniquePageQuery,
+  SessionPageQuery,
+  PurgeTarget,
+  TagRecord,
+  LocationRecord,
+  ImportBatch,
+  SyncBase,
+} from '@/types/storage';
+import { Technique, TechniqueLink, TechniqueRevision, PREDEFINED_TAGS } from '@/types/technique';
+import { TrainingSession } from '@/types/session';
+import { UserProfile, Promotion } from '@/types/profile';
+import { PageCursor, DEFAULT_PAGE_SIZE } from '@/types/pagination';
+import { SearchResult, SnippetSegment, NameMatch, DEFAULT_SEARCH_LIMIT, DEFAULT_NAME_SEARCH_LIMIT } from '@/types/search';
+import { OutboxEntry } from '@/types/outbox';
+import { SyncEntity, SyncRecord, SyncConflict } from '@/types/sync';
+import { QuarantineEntity, QuarantineSource, QuarantinedRecord, InvalidRecord } from '@/types/quarantine';
+import { HealthTable } from '@/types/health';
+import {
+  RecordParser,
+  assertValidRecord,
+  partitionRecords,
+  parseTechnique,
+  parseSession,
+  parseProfile,
+} from '@/utils/recordValidation';
+import { LATEST_SCHEMA_VERSION } from './schemaMigrations';
+
+interface StoredTag extends TagRecord {
+  id: string;
+}
+
+interface StoredPromotion {
+  promotion: Promotion;
+  createdAt: number;
+  seq: number; // Insertion order, the tie-break for promotions recorded at the same time
+}
+
+// Techniques and sessions are kept as written: a technique's session id and a session's
+// technique ids are only resolved against live rows when read, as the SQLite joins do
+interface MemoryState {
+  techniques: Map<string, Technique>;
+  sessions: Map<string, TrainingSession>;
+  revisions: TechniqueRevision[];
+  profileName: string | null;
+  promotions: StoredPromotion[];
+  tags: StoredTag[];
+  locations: Map<string, LocationRecord>;
+  outbox: OutboxEntry[];
+  syncBases: Map<string, SyncBase>;
+  conflicts: SyncConflict[];
+  quarantine: QuarantinedRecord[];
+}
+
+const emptyState = (): MemoryState => ({
+  techniques: new Map(),
+  sessions: new Map(),
+  revisions: [],
+  profileName: null,
+  promotions: [],
+  tags: [],
+  locations: new Map(),
+  outbox: [],
+  syncBases: new Map(),
+  conflicts: [],
+  quarantine: [],
+});
+
+// Stored records are replaced, never changed in place, so copying the collections is
+// enough to roll a failed write back
+const copyState = (state: MemoryState): MemoryState => ({
+  ...state,
+  techniques: new Map(state.techniques),
+  sessions: new Map(state.sessions),
+  revisions: [...state.revisions],
+  promotions: [...state.promotions],
+  tags: [...state.tags],
+  locations: new Map(state.locations),
+  outbox: [...state.outbox],
+  syncBases: new Map(state.syncBases),
+  conflicts: [...state.conflicts],
+  quarantine: [...state.quarantine],
+});
+
+const tagId = (name: string): string => name.toLowerCase().replace(/\s+/g, '-');
+
+// Case-insensitive substring match, as LIKE '%text%' is for ASCII text
+const contains = (value: string | undefined, term: string): boolean =>
+  !!value && value.toLowerCase().includes(term.toLowerCase());
+
+const byName = (a: { name: string }, b: { name: string }): number =>
+  a.name < b.name ? -1 : a.name > b.name ? 1 : 0;
+
+const revisionFingerprint = (technique: Technique): string => JSON.stringify([
+  technique.name,
+  technique.category,
+  technique.notes || null,
+  technique.tags,
+  (technique.links ?? []).map(link => [link.url, link.title || null]),
+]);
+
+// Search
+
+const SNIPPET_TOKENS = 12;
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Search weights per field, matching the bm25 column weights of the SQLite indexes
+const TECHNIQUE_WEIGHTS = { name: 10, notes: 4, tags: 6, links: 2 };
+const SESSION_WEIGHTS = { location: 3, notes: 4, submissions: 5 };
+
+interface SearchField {
+  text: string;
+  weight: number;
+}
+
+const toQueryWords = (text: string): string[] =>
+  text.split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 0).map(word => word.toLowerCase());
+
+const matchesWord = (token: string, words: string[]): boolean =>
+  words.some(word => token.toLowerCase().startsWith(word));
+
+/**
+ * Scores a record the way the FTS5 query does: every word must match the start of a
+ * word somewhere in the record. Lower is better. The snippet comes from the field with
+ * the most weighted matches.
+ */
+const scoreFields = (
+  fields: SearchField[],
+  words: string[]
+): { score: number; snippet: SnippetSegment[] } | null => {
+  const tokensByField = fields.map(field => Array.from(field.text.matchAll(WORD_PATTERN)));
+  const allTokens = tokensByField.flat().map(match => match[0]);
+  if (!words.every(word => allTokens.some(token => token.toLowerCase().startsWith(word)))) return null;
+
+  let score = 0;
+  let best = { index: 0, weight: -1 };
+  fields.forEach((field, index) => {
+    const hits = tokensByField[index].filter(match => matchesWord(match[0], words)).length;
+    score -= hits * field.weight;
+    if (hits > 0 && hits * field.weight > best.weight) best = { index, weight: hits * field.weight };
+  });
+
+  return { score, snippet: buildSnippet(fields[best.index].text, tokensByField[best.index], words) };
+};
+
+const buildSnippet = (text: string, tokens: RegExpMatchArray[], words: string[]): SnippetSegment[] => {
+  const firstHit = Math.max(0, tokens.findIndex(match => matchesWord(match[0], words)));
+  const start = tokens.length > SNIPPET_TOKENS ? Math.max(0, Math.min(firstHit, tokens.length - SNIPPET_TOKENS)) : 0;
+  const shown = tokens.slice(start, start + SNIPPET_TOKENS);
+  if (shown.length === 0) return [];
+
+  const segments: SnippetSegment[] = [];
+  const push = (segment: string, highlighted: boolean) => {
+    if (!segment) return;
+    const last = segments[segments.length - 1];
+    if (last && last.highlighted === highlighted) {
+      last.text += segment;
+    } else {
+      segments.push({ text: segment, highlighted });
+    }
+  };
+
+  const end = start + shown.length < tokens.length
+    ? shown[shown.length - 1].index! + shown[shown.length - 1][0].length
+    : text.length;
+  let position = start > 0 ? shown[0].index! : 0;
+  if (start > 0) push('…', false);
+
+  for (const match of shown) {
+    push(text.slice(position, match.index), false);
+    push(match[0], matchesWord(match[0], words));
+    position = match.index! + match[0].length;
+  }
+  push(text.slice(position, end), false);
+  if (end < text.length) push('…', false);
+
+  return segments;
+};
+
+// Paging
+
+interface PageKey<T> {
+  record: T;
+  rank: number;
+  time: number;
+}
+
+// Same order and cursor as the SQLite pages: rank, then newest first, then id descending
+const pageOf = <T extends { id: string }>(
+  keys: PageKey<T>[],
+  cursor: PageCursor | null | undefined,
+  limit: number
+): { records: T[]; nextCursor: PageCursor | null } => {
+  const sorted = [...keys].sort((a, b) =>
+    a.rank - b.rank || b.time - a.time || (a.record.id < b.record.id ? 1 : a.record.id > b.record.id ? -1 : 0)
+  );
+  const after = cursor
+    ? sorted.filter(key => {
+        const rank = cursor.rank ?? 0;
+        return key.rank > rank || (key.rank === rank &&
+          (key.time < cursor.time || (key.time === cursor.time && key.record.id < cursor.id)));
+      })
+    : sorted;
+
+  const pageKeys = after.slice(0, limit);
+  const last = pageKeys[pageKeys.length - 1];
+
+  return {
+    records: pageKeys.map(key => key.record),
+    nextCursor: after.length > limit && last
+      ? { rank: last.rank, time: last.time, id: last.record.id }
+      : null,
+  };
+};
+
+/**
+ * Keeps everything in memory and nothing on disk: for tests, previews and demo mode.
+ * Reads and writes behave as the SQLite adapter's do, including the trash, revision
+ * history and quarantine, but data is gone once the adapter is dropped. Notes are kept
+ * as plain text, whatever the notes encryption setting.
+ */
+export const createMemoryAdapter = (): StorageAdapter => {
+  let state = emptyState();
+  let nextRowId = 1;
+
+  // Runs `work` against the state, restoring it if `work` throws
+  const transaction = <T>(work: () => T): T => {
+    const snapshot = copyState(state);
+    try {
+      return work();
+    } catch (error) {
+      state = snapshot;
+      throw error;
+    }
+  };
+
+  // Quarantine
+
+  const writeQuarantine = (source: QuarantineSource, entity: QuarantineEntity, records: InvalidRecord[]) => {
+    for (const record of records) {
+      console.warn(`Quarantined invalid ${entity} "${record.entityId}" from ${source}:`, record.errors);
+      const existing = state.quarantine.find(row =>
+        row.entity === entity && row.entityId === record.entityId && row.source === source
+      );
+      const row: QuarantinedRecord = {
+        id: existing?.id ?? nextRowId++,
+        entity,
+        entityId: record.entityId,
+        source,
+        payload: record.payload,
+        errors: record.errors,
+        detectedAt: existing?.detectedAt ?? new Date(),
+      };
+      state.quarantine = [...state.quarantine.filter(other => other !== existing), row];
+    }
+  };
+
+  const clearQuarantine = (entity: QuarantineEntity, entityId: string) => {
+    state.quarantine = state.quarantine.filter(row => row.entity !== entity || row.entityId !== entityId);
+  };
+
+  const withoutInvalid = <T>(entity: QuarantineEntity, records: unknown[], parse: RecordParser<T>): T[] => {
+    const { valid, invalid } = partitionRecords(records, parse, entity);
+    if (invalid.length > 0) writeQuarantine('database', entity, invalid);
+    return valid;
+  };
+
+  // Tags
+
+  const insertTag = (name: string, category: string, isCustom: boolean) => {
+    const id = tagId(name);
+    if (state.tags.some(tag => tag.id === id || tag.name === name)) return;
+    state.tags = [...state.tags, { id, name, category, usageCount: 0, isCustom }];
+  };
+
+  const cleanupUnusedCustomTags = () => {
+    const used = new Set(Array.from(state.techniques.values()).flatMap(technique => technique.tags));
+    state.tags = state.tags.filter(tag => !tag.isCustom || used.has(tag.name));
+  };
+
+  const sortedTags = (): StoredTag[] =>
+    [...state.tags].sort((a, b) => b.usageCount - a.usageCount || byName(a, b));
+
+  // Techniques
+
+  const isLiveSession = (sessionId: string | undefined): boolean => {
+    const session = sessionId ? state.sessions.get(sessionId) : undefined;
+    return !!session && !session.deletedAt;
+  };
+
+  // Reads techniques as stored, newest first. Invalid ones are quarantined and left out.
+  const readTechniques = (techniques: Technique[]): Technique[] => withoutInvalid(
+    'technique',
+    [...techniques]
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .map(technique => ({
+        ...technique,
+        tags: [...technique.tags],
+        links: technique.links
+          ?.map(link => ({ ...link }))
+          .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()),
+        sessionId: isLiveSession(technique.sessionId) ? technique.sessionId : undefined,
+      })),
+    parseTechnique
+  );
+
+  const liveTechniques = (): Technique[] =>
+    Array.from(state.techniques.values()).filter(technique => !technique.deletedAt);
+
+  const readTechnique = (techniqueId: string): Technique | undefined => {
+    const stored = state.techniques.get(techniqueId);
+    return stored ? readTechniques([stored])[0] : undefined;
+  };
+
+  // Writes a technique edited at `updatedAt`
+  const writeTechnique = (technique: Technique, updatedAt = new Date()) => {
+    clearQuarantine('technique', technique.id);
+    const now = Date.now();
+
+    const tags: string[] = [];
+    for (const tagName of Array.isArray(technique.tags) ? technique.tags : []) {
+      if (!tagName || typeof tagName !== 'string' || !tagName.trim()) {
+        console.warn('Skipping invalid tag:', tagName);
+        continue;
+      }
+      const cleanTagName = tagName.trim();
+      insertTag(cleanTagName, 'custom', true);
+      tags.push(cleanTagName);
+      state.tags = state.tags.map(tag =>
+        tag.name === cleanTagName ? { ...tag, usageCount: tag.usageCount + 1 } : tag
+      );
+    }
+
+    const links: TechniqueLink[] = (technique.links ?? [])
+      .filter(link => {
+        if (link.url && link.url.trim()) return true;
+        console.warn('Skipping invalid link:', link);
+        return false;
+      })
+      .map(link => ({
+        id: link.id,
+        url: link.url.trim(),
+        title: link.title?.trim() || undefined,
+        timestamp: link.timestamp,
+        updatedAt: link.updatedAt ?? new Date(now),
+        version: link.version ?? 0,
+      }));
+
+    // A technique saved while its session is trashed was read without the session, so it
+    // keeps the one it has
+    const currentSessionId = state.techniques.get(technique.id)?.sessionId;
+    const trashedSessionId = currentSessionId && state.sessions.get(currentSessionId)?.deletedAt
+      ? currentSessionId
+      : undefined;
+
+    state.techniques.set(technique.id, {
+      id: technique.id,
+      name: technique.name,
+      category: technique.category,
+      tags,
+      notes: technique.notes || undefined,
+      links: links.length > 0 ? links : undefined,
+      timestamp: technique.timestamp,
+      sessionId: technique.sessionId || trashedSessionId,
+      updatedAt,
+      version: state.techniques.get(technique.id)?.version ?? 0,
+      deletedAt: undefined,
+    });
+  };
+
+  const insertRevision = (technique: Technique, createdAt: number) => {
+    state.revisions = [...state.revisions, {
+      id: nextRowId++,
+      techniqueId: technique.id,
+      name: technique.name,
+      category: technique.category,
+      tags: [...technique.tags],
+      notes: technique.notes || undefined,
+      links: technique.links?.map(link => ({
+        id: link.id,
+        url: link.url,
+        title: link.title || undefined,
+        timestamp: link.timestamp,
+      })),
+      createdAt: new Date(createdAt),
+    }];
+  };
+
+  const recordRevision = (previous: Technique | undefined, techniqueId: string) => {
+    const saved = readTechnique(techniqueId);
+    if (!saved) return;
+    if (previous && revisionFingerprint(previous) === revisionFingerprint(saved)) return;
+
+    if (previous && !state.revisions.some(revision => revision.techniqueId === techniqueId)) {
+      insertRevision(previous, previous.timestamp.getTime());
+    }
+    insertRevision(saved, Date.now());
+  };
+
+  // Sessions
+
+  const readSessions = (sessions: TrainingSession[]): TrainingSession[] => withoutInvalid(
+    'session',
+    [...sessions]
+      .sort((a, b) => b.date.getTime() - a.date.getTime())
+      .map(session => ({
+        ...session,
+        // Links to trashed techniques are kept for restore but hidden here
+        techniqueIds: session.techniqueIds.filter(id => {
+          const technique = state.techniques.get(id);
+          return !!technique && !technique.deletedAt;
+        }),
+        submissions: [...session.submissions],
+        submissionCounts: { ...session.submissionCounts },
+      })),
+    parseSession
+  );
+
+  const liveSessions = (): TrainingSession[] =>
+    Array.from(state.sessions.values()).filter(session => !session.deletedAt);
+
+  // Writes a session edited at `updatedAt`
+  const writeSession = (session: TrainingSession, updatedAt = new Date()) => {
+    clearQuarantine('session', session.id);
+    const existing = state.sessions.get(session.id);
+
+    // Links to trashed techniques stay, so they come back linked if restored
+    const techniqueIds = (existing?.techniqueIds ?? []).filter(id => !!state.techniques.get(id)?.deletedAt);
+    for (const techniqueId of session.techniqueIds) {
+      if (!techniqueIds.includes(techniqueId)) techniqueIds.push(techniqueId);
+    }
+
+    const submissionCounts: Record<string, number> = {};
+    session.submissions.forEach(name => {
+      submissionCounts[name] = session.submissionCounts[name] || 1;
+    });
+
+    state.sessions.set(session.id, {
+      id: session.id,
+      date: session.date,
+      location: session.location || undefined,
+      type: session.type,
+      notes: session.notes || undefined,
+      satisfaction: session.satisfaction,
+      techniqueIds,
+      submissions: [...session.submissions],
+      submissionCounts,
+      updatedAt,
+      version: existing?.version ?? 0,
+      deletedAt: undefined,
+    });
+  };
+
+  const touchLocation = (location?: string) => {
+    if (!location || !location.trim()) return;
+    const name = location.trim();
+    state.locations.set(name, {
+      name,
+      usageCount: (state.locations.get(name)?.usageCount ?? 0) + 1,
+      lastUsed: new Date(),
+    });
+  };
+
+  // Drops a session and the techniques' references to it
+  const removeSession = (sessionId: string): boolean => {
+    if (!state.sessions.delete(sessionId)) return false;
+    for (const technique of state.techniques.values()) {
+      if (technique.sessionId === sessionId) {
+        state.techniques.set(technique.id, { ...technique, sessionId: undefined });
+      }
+    }
+    return true;
+  };
+
+  // Drops a technique with its revisions and session links
+  const removeTechnique = (techniqueId: string): boolean => {
+    if (!state.techniques.delete(techniqueId)) return false;
+    state.revisions = state.revisions.filter(revision => revision.techniqueId !== techniqueId);
+    for (const session of state.sessions.values()) {
+      if (session.techniqueIds.includes(techniqueId)) {
+        state.sessions.set(session.id, {
+          ...session,
+          techniqueIds: session.techniqueIds.filter(id => id !== techniqueId),
+        });
+      }
+    }
+    return true;
+  };
+
+  // Profile
+
+  // Latest promotion first. Promotions on the same day keep the order they were recorded in.
+  const sortedPromotions = (): Promotion[] =>
+    [...state.promotions]
+      .sort((a, b) =>
+        b.promotion.date.getTime() - a.promotion.date.getTime() || b.createdAt - a.createdAt || b.seq - a.seq
+      )
+      .map(row => ({ ...row.promotion }));
+
+  const insertPromotion = (promotion: Promotion) => {
+    state.promotions = [...state.promotions, { promotion: { ...promotion }, createdAt: Date.now(), seq: nextRowId++ }];
+  };
+
+  // Saves the profile, recording its rank as a promotion when it changed
+  const writeProfileRows = (profile: UserProfile, promotion?: Promotion) => {
+    state.profileName = profile.name;
+    clearQuarantine('profile', '');
+
+    if (promotion) {
+      insertPromotion(promotion);
+      return;
+    }
+
+    const [latest] = sortedPromotions();
+    if (!latest || latest.beltRank !== profile.beltRank || latest.stripes !== profile.stripes) {
+      insertPromotion({
+        id: `promotion_${Date.now()}`,
+        beltRank: profile.beltRank,
+        stripes: profile.stripes,
+        date: new Date(),
+      });
+    }
+  };
+
+  const replaceProfileRows = (profile: UserProfile, promotions: Promotion[]) => {
+    state.profileName = profile.name;
+    clearQuarantine('profile', '');
+    state.promotions = [];
+
+    // Oldest first so same-day promotions keep their order
+    [...promotions].reverse().forEach(insertPromotion);
+  };
+
+  const syncBaseKey = (entity: SyncEntity, entityId: string) => `${entity}:${entityId}`;
+
+  return {
+    isPersistent: false,
+
+    initialize: async () => {
+      const predefined = [
+        ...PREDEFINED_TAGS.POSITIONS.map(name => ({ name, category: 'position' })),
+        ...PREDEFINED_TAGS.ATTRIBUTES.map(name => ({ name, category: 'attribute' })),
+        ...PREDEFINED_TAGS.STYLES.map(name => ({ name, category: 'style' })),
+      ];
+      predefined.forEach(tag => insertTag(tag.name, tag.category, false));
+    },
+    // The data outlives close, so reopening finds it as it was
+    close: async () => {},
+
+    saveTechnique: async technique => {
+      assertValidRecord(technique, parseTechnique, 'technique');
+      transaction(() => {
+        const previous = readTechnique(technique.id);
+        writeTechnique(technique);
+        recordRevision(previous, technique.id);
+      });
+    },
+
+    getTechniques: async () => readTechniques(liveTechniques()),
+
+    getTechniquesPage: async ({ search, filters, cursor, limit = DEFAULT_PAGE_SIZE }: TechniquePageQuery = {}) => {
+      const term = search?.trim();
+      const matching = liveTechniques().filter(technique =>
+        (!term || contains(technique.name, term) || technique.tags.some(tag => contains(tag, term))) &&
+        (!filters?.category || technique.category === filters.category) &&
+        (filters?.tags ?? []).every(selected =>
+          technique.tags.some(tag => tag.toLowerCase() === selected.toLowerCase())
+        )
+      );
+
+      const { records, nextCursor } = pageOf(
+        matching.map(technique => ({
+          record: technique,
+          rank: term && !contains(technique.name, term) ? 1 : 0,
+          time: technique.timestamp.getTime(),
+        })),
+        cursor,
+        limit
+      );
+
+      const items = readTechniques(records);
+      return {
+        items: records.flatMap(record => items.filter(item => item.id === record.id)),
+        nextCursor,
+        totalCount: matching.length,
+      };
+    },
+
+    getTechniquesBySession: async sessionId =>
+      readTechniques(liveTechniques().filter(technique => technique.sessionId === sessionId)),
+
+    getRecentTechniques: async (limit = 10) => readTechniques(liveTechniques()).slice(0, limit),
+
+    getTechniqueRevisions: async techniqueId =>
+      state.revisions
+        .filter(revision => revision.techniqueId === techniqueId)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+        .map(revision => ({ ...revision, tags: [...revision.tags] })),
+
+    deleteTechnique: async techniqueId => {
+      const technique = state.techniques.get(techniqueId);
+      if (!technique || technique.deletedAt) return;
+      state.techniques.set(techniqueId, { ...technique, deletedAt: new Date(), updatedAt: new Date() });
+    },
+
+    saveSession: async session => {
+      assertValidRecord(session, parseSession, 'session');
+      transaction(() => {
+        writeSession(session);
+        touchLocation(session.location);
+      });
+    },
+
+    getSessions: async () => readSessions(liveSessions()),
+
+    getSessionsPage: async ({ search, filters, cursor, limit = DEFAULT_PAGE_SIZE }: SessionPageQuery = {}) => {
+      const term = search?.trim();
+      const startTime = filters?.dateRange.startDate?.getTime();
+      let endTime: number | undefined;
+      if (filters?.dateRange.endDate) {
+        // The end date is inclusive of the whole day
+        const endOfDay = new Date(filters.dateRange.endDate);
+        endOfDay.setHours(23, 59, 59, 999);
+        endTime = endOfDay.getTime();
+      }
+
+      const matching = liveSessions().filter(session => {
+        const time = session.date.getTime();
+        return (!term || contains(session.location, term) || contains(session.notes, term) ||
+            session.submissions.some(name => contains(name, term))) &&
+          (startTime === undefined || time >= startTime) &&
+          (endTime === undefined || time <= endTime) &&
+          (!filters?.location.trim() || session.location?.toLowerCase() === filters.location.toLowerCase()) &&
+          (!filters || filters.sessionTypes.length === 0 || filters.sessionTypes.includes(session.type)) &&
+          (!filters?.submission.trim() || session.submissions.some(name => contains(name, filters.submission))) &&
+          (!filters || filters.satisfaction === null || session.satisfaction >= filters.satisfaction);
+      });
+
+      const { records, nextCursor } = pageOf(
+        matching.map(session => ({ record: session, rank: 0, time: session.date.getTime() })),
+        cursor,
+        limit
+      );
+
+      const items = readSessions(records);
+      return {
+        items: records.flatMap(record => items.filter(item => item.id === record.id)),
+        nextCursor,
+        totalCount: matching.length,
+      };
+    },
+
+    deleteSession: async sessionId => {
+      const session = state.sessions.get(sessionId);
+      if (!session || session.deletedAt) return;
+      state.sessions.set(sessionId, { ...session, deletedAt: new Date(), updatedAt: new Date() });
+    },
+
+    search: async (query, limit = DEFAULT_SEARCH_LIMIT) => {
+      const words = toQueryWords(query);
+      if (words.length === 0) return [];
+
+      const results: SearchResult[] = [];
+
+      for (const technique of readTechniques(liveTechniques())) {
+        const match = scoreFields([
+          { text: technique.name, weight: TECHNIQUE_WEIGHTS.name },
+          { text: technique.notes ?? '', weight: TECHNIQUE_WEIGHTS.notes },
+          { text: technique.tags.join(' '), weight: TECHNIQUE_WEIGHTS.tags },
+          { text: (technique.links ?? []).map(link => link.title ?? '').join(' '), weight: TECHNIQUE_WEIGHTS.links },
+        ], words);
+        if (!match) continue;
+        results.push({
+          type: 'technique',
+          id: technique.id,
+          name: technique.name,
+          category: technique.category,
+          date: technique.timestamp,
+          ...match,
+        });
+      }
+
+      for (const session of readSessions(liveSessions())) {
+        const match = scoreFields([
+          { text: session.location ?? '', weight: SESSION_WEIGHTS.location },
+          { text: session.notes ?? '', weight: SESSION_WEIGHTS.notes },
+          { text: session.submissions.join(' '), weight: SESSION_WEIGHTS.submissions },
+        ], words);
+        if (!match) continue;
+        results.push({
+          type: 'session',
+          id: session.id,
+          sessionType: session.type,
+          location: session.location,
+          date: session.date,
+          ...match,
+        });
+      }
+
+      return results
+        .sort((a, b) => a.score - b.score || b.date.getTime() - a.date.getTime())
+        .slice(0, limit);
+    },
+
+    searchNames: async (query, limit = DEFAULT_NAME_SEARCH_LIMIT) => {
+      const term = query.trim();
+      if (!term) return { tags: [], locations: [], submissions: [] };
+
+      // Counts the records using each name, by lowercased name unless `caseSensitive`. The
+      // reported name is the lowest spelling, as MIN() gives.
+      const countNames = (namesByRecord: string[][], caseSensitive: boolean): NameMatch[] => {
+        const matches = new Map<string, NameMatch>();
+        for (const names of namesByRecord) {
+          const counted = new Set<string>();
+          for (const name of names) {
+            if (!contains(name, term)) continue;
+            const key = caseSensitive ? name : name.toLowerCase();
+            const match = matches.get(key) ?? { name, count: 0 };
+            if (name < match.name) match.name = name;
+            if (!counted.has(key)) {
+              counted.add(key);
+              match.count++;
+            }
+            matches.set(key, match);
+          }
+        }
+        return Array.from(matches.values())
+          .sort((a, b) => b.count - a.count || byName(a, b))
+          .slice(0, limit);
+      };
+
+      const sessions = liveSessions();
+      return {
+        tags: countNames(liveTechniques().map(technique => technique.tags), true),
+        locations: countNames(sessions.map(session => (session.location ? [session.location] : [])), false),
+        submissions: countNames(sessions.map(session => session.submissions), false),
+      };
+    },
+
+    getTrash: async () => ({
+      techniques: Array.from(state.techniques.values())
+        .filter(technique => technique.deletedAt)
+        .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime())
+        .map(technique => ({
+          id: technique.id,
+          name: technique.name,
+          category: technique.category,
+          deletedAt: technique.deletedAt!,
+        })),
+      sessions: Array.from(state.sessions.values())
+        .filter(session => session.deletedAt)
+        .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime())
+        .map(session => ({
+          id: session.id,
+          date: session.date,
+          type: session.type,
+          location: session.location,
+          deletedAt: session.deletedAt!,
+        })),
+    }),
+
+    restoreTechnique: async techniqueId => {
+      const technique = state.techniques.get(techniqueId);
+      if (technique) state.techniques.set(techniqueId, { ...technique, deletedAt: undefined, updatedAt: new Date() });
+    },
+
+    restoreSession: async sessionId => {
+      const session = state.sessions.get(sessionId);
+      if (session) state.sessions.set(sessionId, { ...session, deletedAt: undefined, updatedAt: new Date() });
+    },
+
+    purgeTrash: async (target: PurgeTarget = {}) => {
+      const cutoff = target.deletedBefore ? target.deletedBefore.getTime() : Number.MAX_SAFE_INTEGER;
+      const byId = !!(target.techniqueIds || target.sessionIds);
+      const isPurgeable = (record: { deletedAt?: Date }) =>
+        !!record.deletedAt && (byId || record.deletedAt.getTime() <= cutoff);
+
+      return transaction(() => {
+        const sessionIds = byId
+          ? target.sessionIds ?? []
+          : Array.from(state.sessions.values()).filter(isPurgeable).map(session => session.id);
+        const purgedSessions = sessionIds.filter(sessionId => {
+          const session = state.sessions.get(sessionId);
+          return !!session && isPurgeable(session) && removeSession(sessionId);
+        }).length;
+
+        const techniqueIds = byId
+          ? target.techniqueIds ?? []
+          : Array.from(state.techniques.values()).filter(isPurgeable).map(technique => technique.id);
+        const purgedTechniques = techniqueIds.filter(techniqueId => {
+          const technique = state.techniques.get(techniqueId);
+          return !!technique && isPurgeable(technique) && removeTechnique(techniqueId);
+        }).length;
+
+        // Clean up custom tags only the purged techniques were using
+        if (purgedTechniques > 0) cleanupUnusedCustomTags();
+
+        return purgedSessions + purgedTechniques;
+      });
+    },
+
+    getProfile: async () => {
+      if (state.profileName === null) return null;
+
+      // A profile without promotions is a white belt with no stripes
+      const [latest] = sortedPromotions();
+      const [profile] = withoutInvalid<UserProfile>('profile', [{
+        name: state.profileName,
+        beltRank: latest?.beltRank ?? 'white',
+        stripes: latest?.stripes ?? 0,
+      }], parseProfile);
+      return profile ?? null;
+    },
+
+    saveProfile: async (profile, promotion) => {
+      assertValidRecord(profile, parseProfile, 'profile');
+      writeProfileRows(profile, promotion);
+    },
+
+    replaceProfile: async (profile, promotions) => {
+      replaceProfileRows(profile, promotions);
+    },
+
+    deleteProfile: async () => {
+      state.promotions = [];
+      state.profileName = null;
+    },
+
+    getPromotions: async () => sortedPromotions(),
+
+    deletePromotion: async promotionId => {
+      state.promotions = state.promotions.filter(row => row.promotion.id !== promotionId);
+    },
+
+    getAllTags: async () =>
+      sortedTags().map(({ name, category, usageCount, isCustom }) => ({ name, category, usageCount, isCustom })),
+
+    getPopularTags: async (limit = 20) =>
+      sortedTags().filter(tag => tag.usageCount > 0).slice(0, limit).map(tag => tag.name),
+
+    searchTags: async (query, limit = 10) =>
+      sortedTags().filter(tag => contains(tag.name, query)).slice(0, limit).map(tag => tag.name),
+
+    createCustomTag: async tagName => {
+      insertTag(tagName, 'custom', true);
+    },
+
+    getLocations: async () =>
+      Array.from(state.locations.values())
+        .sort((a, b) => b.usageCount - a.usageCount || (b.lastUsed?.getTime() ?? 0) - (a.lastUsed?.getTime() ?? 0))
+        .map(location => location.name),
+
+    getLocationRecords: async () =>
+      Array.from(state.locations.values())
+        .sort((a, b) => b.usageCount - a.usageCount || (b.lastUsed?.getTime() ?? 0) - (a.lastUsed?.getTime() ?? 0))
+        .map(location => ({ ...location })),
+
+    getUniqueSubmissions: async () =>
+      Array.from(new Set(liveSessions().flatMap(session => session.submissions))).sort(),
+
+    importData: async (batch: ImportBatch) => {
+      transaction(() => {
+        if (batch.replaceSessions) {
+          Array.from(state.sessions.keys()).forEach(removeSession);
+        }
+        if (batch.replaceTechniques) {
+          Array.from(state.techniques.keys()).forEach(removeTechnique);
+        }
+
+        batch.customTags.forEach(tag => insertTag(tag.name, tag.category, true));
+        // Imported records keep the edit time they were exported with, so a later import can
+        // tell which copy is newer
+        batch.techniques.forEach(technique => writeTechnique(technique, technique.updatedAt));
+        batch.sessions.forEach(session => writeSession(session, session.updatedAt));
+
+        for (const location of batch.locations) {
+          const existing = state.locations.get(location.name);
+          const lastUsed = Math.max(existing?.lastUsed?.getTime() ?? 0, location.lastUsed?.getTime() ?? 0);
+          state.locations.set(location.name, {
+            name: location.name,
+            usageCount: Math.max(existing?.usageCount ?? 0, location.usageCount),
+            lastUsed: lastUsed > 0 ? new Date(lastUsed) : null,
+          });
+        }
+
+        if (batch.profile) {
+          const { profile, promotions } = batch.profile;
+          if (promotions.length > 0) {
+            replaceProfileRows(profile, promotions);
+          } else {
+            writeProfileRows(profile);
+          }
+        }
+      });
+    },
+
+    // Predefined tags are reseeded when storage next initializes
+    clearAllData: async () => {
+      state = emptyState();
+    },
+
+    addOutboxEntry: async mutation => {
+      const now = new Date();
+      const entry = {
+        ...mutation,
+        id: nextRowId++,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now,
+      } as OutboxEntry;
+      state.outbox = [...state.outbox, entry];
+      return entry.id;
+    },
+
+    getOutbox: async () => state.outbox.map(entry => ({ ...entry })),
+
+    updateOutboxEntry: async (entryId, update) => {
+      state.outbox = state.outbox.map(entry =>
+        entry.id === entryId ? { ...entry, ...update, lastError: update.lastError } : entry
+      );
+    },
+
+    deleteOutboxEntry: async entryId => {
+      state.outbox = state.outbox.filter(entry => entry.id !== entryId);
+    },
+
+    getSyncRecord: async (entity, entityId) => {
+      if (entity === 'technique') return readTechnique(entityId) ?? null;
+      const stored = state.sessions.get(entityId);
+      return stored ? readSessions([stored])[0] ?? null : null;
+    },
+
+    applySyncedRecords: async (techniques, sessions) => {
+      const withMetadata = <T extends SyncRecord>(stored: T | undefined, record: SyncRecord): T | undefined =>
+        stored && {
+          ...stored,
+          version: record.version ?? 0,
+          updatedAt: record.updatedAt ?? new Date(),
+          deletedAt: record.deletedAt,
+        };
+
+      transaction(() => {
+        for (const session of sessions) {
+          writeSession(session);
+          state.sessions.set(session.id, withMetadata(state.sessions.get(session.id), session)!);
+        }
+
+        for (const technique of techniques) {
+          const previous = readTechnique(technique.id);
+          writeTechnique(technique);
+          state.techniques.set(technique.id, withMetadata(state.techniques.get(technique.id), technique)!);
+          recordRevision(previous, technique.id);
+        }
+
+        // References to records this device doesn't have are dropped
+        for (const session of state.sessions.values()) {
+          if (session.techniqueIds.some(id => !state.techniques.has(id))) {
+            state.sessions.set(session.id, {
+              ...session,
+              techniqueIds: session.techniqueIds.filter(id => state.techniques.has(id)),
+            });
+          }
+        }
+        for (const technique of state.techniques.values()) {
+          if (technique.sessionId && !state.sessions.has(technique.sessionId)) {
+            state.techniques.set(technique.id, { ...technique, sessionId: undefined });
+          }
+        }
+      });
+    },
+
+    setRecordVersion: async (entity, entityId, version) => {
+      if (entity === 'technique') {
+        const technique = state.techniques.get(entityId);
+        if (technique) state.techniques.set(entityId, { ...technique, version });
+      } else {
+        const session = state.sessions.get(entityId);
+        if (session) state.sessions.set(entityId, { ...session, version });
+      }
+    },
+
+    getSyncBase: async (entity, entityId) => state.syncBases.get(syncBaseKey(entity, entityId)) ?? null,
+
+    setSyncBase: async (entity, record) => {
+      state.syncBases.set(syncBaseKey(entity, record.id), {
+        version: record.version ?? 0,
+        record: record.deletedAt ? null : record,
+      });
+    },
+
+    saveSyncConflict: async conflict => {
+      state.conflicts = [
+        ...state.conflicts.filter(other => other.entity !== conflict.entity || other.entityId !== conflict.entityId),
+        { ...conflict, id: nextRowId++ },
+      ];
+    },
+
+    getSyncConflicts: async () =>
+      [...state.conflicts].sort((a, b) => a.detectedAt.getTime() - b.detectedAt.getTime() || a.id - b.id),
+
+    getSyncConflict: async (entity, entityId) =>
+      state.conflicts.find(conflict => conflict.entity === entity && conflict.entityId === entityId) ?? null,
+
+    deleteSyncConflict: async conflictId => {
+      state.conflicts = state.conflicts.filter(conflict => conflict.id !== conflictId);
+    },
+
+    quarantineRecords: async (source, entity, records) => {
+      writeQuarantine(source, entity, records);
+    },
+
+    getQuarantinedRecords: async () =>
+      [...state.quarantine].sort((a, b) => b.detectedAt.getTime() - a.detectedAt.getTime() || b.id - a.id),
+
+    discardQuarantinedRecord: async recordId => {
+      const row = state.quarantine.find(record => record.id === recordId);
+      if (!row) return;
+
+      if (row.source === 'database') {
+        switch (row.entity) {
+          case 'technique':
+            if (removeTechnique(row.entityId)) cleanupUnusedCustomTags();
+            break;
+          case 'session':
+            removeSession(row.entityId);
+            break;
+          case 'profile':
+            state.promotions = [];
+            state.profileName = null;
+            break;
+        }
+      }
+
+      state.quarantine = state.quarantine.filter(record => record.id !== recordId);
+    },
+
+    // Nothing here can drift apart the way separate tables can
+    checkIntegrity: async () => ({ checkedAt: new Date(), issues: [] }),
+    repairIntegrity: async () => ({ rowsRepaired: 0, report: { checkedAt: new Date(), issues: [] } }),
+    // Notes are never sealed in memory, so there is nothing to rewrite
+    rewriteNotes: async () => 0,
+
+    getStats: async () => {
+      const rowCounts: Record<HealthTable, number> = {
+        techniques: liveTechniques().length,
+        sessions: liveSessions().length,
+        technique_revisions: state.revisions.length,
+        tags: state.tags.length,
+        promotions: state.promotions.length,
+        outbox: state.outbox.length,
+        sync_conflicts: state.conflicts.length,
+        quarantine: state.quarantine.length,
+      };
+
+      return {
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        latestSchemaVersion: LATEST_SCHEMA_VERSION,
+        rowCounts,
+        fileSizeBytes: 0,
+      };
+    },
+  };
+};
@@ -1,26 +1,43 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { initializeDatabase, saveTechniqueToDb, saveSessionToDb, initializePredefinedTagsInDb } from './database';
+import {
+  initializeDatabase,
+  saveTechniqueToDb,
+  saveSessionToDb,
+  initializePredefinedTagsInDb,
+  getProfileFromDb,
+  saveProfileToDb
+} from './database';
+import { StorageNotInitializedError, toStorageError } from './storageErrors';
 import { Technique, PREDEFINED_TAGS } from '@/types/technique';
 import { TrainingSession } from '@/types/session';
+import { UserProfile } from '@/types/profile';
 
 // AsyncStorage keys (from the old storage system)
 const TECHNIQUES_KEY = 'bjj_techniques';
 const SESSIONS_KEY = 'bjj_sessions';
 const MIGRATION_COMPLETE_KEY = 'bjj_migration_complete';
 const TAG_MIGRATION_COMPLETE_KEY = 'bjj_tag_migration_complete';
+const PROFILE_KEY = 'flow_roll_user_profile';
 
-export const runMigration = async (): Promise<void> => {
+// Data older versions left in AsyncStorage predates athletes, so only the default athlete's
+// database takes it in; other athletes' databases just get the predefined tags
+export const runMigration = async (includeLegacyData: boolean = true): Promise<void> => {
   try {
     // Initialize the database first
     await initializeDatabase();
     
     console.log('Database initialized, starting migrations...');
 
-    // Run AsyncStorage to SQLite migration if needed
-    await runAsyncStorageMigration();
+    if (includeLegacyData) {
+      // Run AsyncStorage to SQLite migration if needed
+      await runAsyncStorageMigration();
 
-    // Run position to tags migration if needed
-    await runTagMigration();
+      // Run position to tags migration if needed
+      await runTagMigration();
+
+      // Move the profile out of AsyncStorage if it is still there
+      await runProfileMigration();
+    }
 
     // Initialize predefined tags (after main migrations to avoid conflicts)
     await initializePredefinedTags();
@@ -28,7 +45,8 @@ export const runMigration = async (): Promise<void> => {
     console.log('All migrations completed successfully!');
   } catch (error) {
     console.error('Error during migration:', error);
-    throw new Error('Migration failed');
+    // The store can't be used until its migrations have run
+    throw toStorageError(error, 'Migration failed', StorageNotInitializedError);
   }
 };
 
@@ -57,7 +75,7 @@ const runAsyncStorageMigration = async (): Promise<void> => {
     console.log('AsyncStorage migration completed successfully!');
   } catch (error) {
     console.error('Error during AsyncStorage migration:', error);
-    throw new Error('AsyncStorage migration failed');
+    throw toStorageError(error, 'AsyncStorage migration failed');
   }
 };
 
@@ -81,7 +99,33 @@ const runTagMigration = async (): Promise<void> => {
     console.log('Tag migration completed successfully!');
   } catch (error) {
     console.error('Error during tag migration:', error);
-    throw new Error('Tag migration failed');
+    throw toStorageError(error, 'Tag migration failed');
+  }
+};
+
+// The AsyncStorage key itself marks the migration as pending; it is removed once the
+// profile is in the database
+const runProfileMigration = async (): Promise<void> => {
+  try {
+    const profileJson = await AsyncStorage.getItem(PROFILE_KEY);
+    if (!profileJson) {
+      return;
+    }
+
+    console.log('Moving profile from AsyncStorage to SQLite...');
+
+    // A profile already in the database is newer than the blob
+    if (!(await getProfileFromDb())) {
+      const profile = JSON.parse(profileJson) as UserProfile;
+      // The date of the existing rank is unknown, so it is recorded as a promotion today
+      await saveProfileToDb(profile);
+    }
+
+    await AsyncStorage.removeItem(PROFILE_KEY);
+    console.log('Profile migration completed successfully!');
+  } catch (error) {
+    console.error('Error during profile migration:', error);
+    throw toStorageError(error, 'Profile migration failed');
   }
 };
 
@@ -183,6 +227,24 @@ export const resetMigration = async (): Promise<void> => {
   }
 };
 
+// Forget every migration flag along with any legacy AsyncStorage data, so a wiped
+// install behaves like a fresh one instead of re-importing the old records
+export const resetMigrationState = async (): Promise<void> => {
+  try {
+    await AsyncStorage.multiRemove([
+      TECHNIQUES_KEY,
+      SESSIONS_KEY,
+      MIGRATION_COMPLETE_KEY,
+      TAG_MIGRATION_COMPLETE_KEY,
+      PROFILE_KEY,
+    ]);
+    console.log('Migration state reset');
+  } catch (error) {
+    console.error('Error resetting migration state:', error);
+    throw toStorageError(error, 'Failed to reset migration state');
+  }
+};
+
 const initializePredefinedTags = async (): Promise<void> => {
   try {
     // Check if tags are already initialized by checking for a few key tags
@@ -0,0 +1,244 @@
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { OutboxMutation, OutboxEntity, OutboxEntry, OutboxCounts, MAX_OUTBOX_ATTEMPTS } from '@/types/outbox';
+import { ApiNotFoundError, isTransientApiError } from './apiErrors';
+import { addOutboxEntry, getOutbox, updateOutboxEntry, deleteOutboxEntry, runForActiveAthlete } from './storage';
+import { getActiveAthleteId } from './athletes';
+
+/**
+ * Offline outbox
+ *
+ * In remote mode every write is applied to the local database straight away and queued
+ * here, then sent to the server in the order it was made. Sending stops at the first
+ * transient failure (offline, timeout, 5xx) and resumes after an exponential backoff, or
+ * as soon as the device reconnects. A write the server rejects, or one that keeps failing,
+ * is marked failed. Later writes to the same record wait behind it until it is retried or
+ * discarded, so the server never sees them out of order. Each athlete has a queue of their
+ * own, and switching athlete waits for a run to finish.
+ */
+
+const BASE_RETRY_DELAY_MS = 2 * 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// Sends a write made for `athleteId`, whichever athlete is active by then
+type OutboxSender = (mutation: OutboxMutation, athleteId: string) => Promise<void>;
+type OutboxListener = (counts: OutboxCounts) => void;
+
+let sender: OutboxSender | null = null;
+let processing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<OutboxListener>();
+
+// 2s after the first failure, doubling each time, up to 5 minutes
+const retryDelay = (attempts: number): number =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+
+// Entries for the same record have to reach the server in order
+const recordKey = (mutation: OutboxMutation): string => `${mutation.entity}:${mutation.entityId}`;
+
+const countEntries = (entries: OutboxEntry[]): OutboxCounts => ({
+  pending: entries.filter(entry => entry.status === 'pending').length,
+  failed: entries.filter(entry => entry.status === 'failed').length,
+});
+
+// The counts are only shown, so failing to read them doesn't fail the write that changed them
+const notifyListeners = async (): Promise<void> => {
+  if (listeners.size === 0) return;
+  let counts: OutboxCounts;
+  try {
+    counts = await getOutboxCounts();
+  } catch (error) {
+    console.warn('Failed to read outbox counts:', error instanceof Error ? error.message : error);
+    return;
+  }
+  listeners.forEach(listener => listener(counts));
+};
+
+const scheduleRetry = (at: Date): void => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    processOutbox();
+  }, Math.max(0, at.getTime() - Date.now()));
+};
+
+/**
+ * Set how queued writes reach the server. Nothing is sent until this is called.
+ */
+export const setOutboxSender = (send: OutboxSender): void => {
+  sender = send;
+};
+
+/**
+ * Queue a write that has already been applied locally, and start sending it
+ */
+export const enqueueMutation = async (mutation: OutboxMutation): Promise<void> => {
+  await addOutboxEntry(mutation);
+  await notifyListeners();
+  processOutbox();
+};
+
+export const getOutboxEntries = (): Promise<OutboxEntry[]> => getOutbox();
+
+export const getOutboxCounts = async (): Promise<OutboxCounts> => countEntries(await getOutbox());
+
+/**
+ * Call `listener` with the pending and failed counts whenever they change.
+ * Returns a function that stops listening.
+ */
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  getOutboxCounts().then(listener, error => {
+    console.warn('Failed to read outbox counts:', error instanceof Error ? error.message : error);
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Sends `athleteId`'s queue. It runs as their work (see runForActiveAthlete), so their
+// store stays the open one until it is done.
+const sendEntries = async (athleteId: string, ignoreBackoff: boolean): Promise<void> => {
+  if (!sender) return;
+
+  const entries = await getOutbox();
+  // Records with a failed entry; their later entries wait
+  const blocked = new Set<string>();
+
+  for (const entry of entries) {
+    // Entry ids are only unique within one athlete's queue
+    if (getActiveAthleteId() !== athleteId) return;
+
+    const key = recordKey(entry);
+    if (entry.status === 'failed' || blocked.has(key)) {
+      blocked.add(key);
+      continue;
+    }
+
+    if (!ignoreBackoff && entry.nextAttemptAt.getTime() > Date.now()) {
+      scheduleRetry(entry.nextAttemptAt);
+      return;
+    }
+
+    try {
+      await sender(entry, athleteId);
+      await deleteOutboxEntry(entry.id);
+    } catch (error) {
+      // Deleting something the server no longer has already got the result we wanted
+      if ((entry.operation === 'delete' || entry.operation === 'purge') && error instanceof ApiNotFoundError) {
+        await deleteOutboxEntry(entry.id);
+        continue;
+      }
+
+      const attempts = entry.attempts + 1;
+      const lastError = error instanceof Error ? error.message : 'Unknown error';
+
+      if (isTransientApiError(error) && attempts < MAX_OUTBOX_ATTEMPTS) {
+        const nextAttemptAt = new Date(Date.now() + retryDelay(attempts));
+        await updateOutboxEntry(entry.id, { status: 'pending', attempts, nextAttemptAt, lastError });
+        console.log(`Outbox send failed (attempt ${attempts}), retrying at ${nextAttemptAt.toISOString()}`);
+        scheduleRetry(nextAttemptAt);
+        return;
+      }
+
+      await updateOutboxEntry(entry.id, { status: 'failed', attempts, nextAttemptAt: new Date(), lastError });
+      console.error(`Outbox entry ${entry.id} failed:`, error);
+      blocked.add(key);
+    }
+  }
+};
+
+/**
+ * Send queued writes, oldest first. Only one run happens at a time; calls made during a
+ * run wait for it. `ignoreBackoff` sends right away even if a retry is scheduled for later.
+ */
+export const processOutbox = async ({ ignoreBackoff = false }: { ignoreBackoff?: boolean } = {}): Promise<void> => {
+  if (processing) return processing;
+
+  processing = (async () => {
+    try {
+      await runForActiveAthlete(athleteId => sendEntries(athleteId, ignoreBackoff));
+    } catch (error) {
+      console.error('Error sending outbox:', error);
+    } finally {
+      processing = null;
+      await notifyListeners();
+    }
+  })();
+
+  return processing;
+};
+
+/**
+ * Put a failed entry back in the queue and try it now
+ */
+export const retryOutboxEntry = async (entryId: number): Promise<void> => {
+  await updateOutboxEntry(entryId, { status: 'pending', attempts: 0, nextAttemptAt: new Date() });
+  await notifyListeners();
+  await processOutbox({ ignoreBackoff: true });
+};
+
+/**
+ * Drop an entry without sending it. The local change it made stays until the next refresh
+ * from the server. Writes queued behind it can go out again.
+ */
+export const discardOutboxEntry = async (entryId: number): Promise<void> => {
+  await deleteOutboxEntry(entryId);
+  await notifyListeners();
+  processOutbox();
+};
+
+/**
+ * Drop every queued write for one record, failed or not, and queue `mutation` in their
+ * place if given. Sync uses this once it has merged the record with the server's copy.
+ */
+export const replaceQueuedMutations = async (
+  entity: OutboxEntity,
+  entityId: string,
+  mutation?: OutboxMutation
+): Promise<void> => {
+  const entries = await getOutbox();
+  for (const entry of entries) {
+    if (entry.entity === entity && entry.entityId === entityId) {
+      await deleteOutboxEntry(entry.id);
+    }
+  }
+  if (mutation) {
+    await addOutboxEntry(mutation);
+  }
+  await notifyListeners();
+};
+
+/**
+ * Send queued writes now, and again whenever the device reconnects or the app returns
+ * to the foreground. Returns a function that stops watching.
+ */
+export const startOutbox = (): (() => void) => {
+  let wasConnected: boolean | null = null;
+
+  const unsubscribeNetInfo = NetInfo.addEventListener(state => {
+    const isConnected = state.isConnected === true && state.isInternetReachable !== false;
+    if (isConnected && wasConnected === false) {
+      console.log('Back online, sending queued changes');
+      processOutbox({ ignoreBackoff: true });
+    }
+    wasConnected = isConnected;
+  });
+
+  const appStateSubscription = AppState.addEventListener('change', nextState => {
+    if (nextState === 'active') {
+      processOutbox();
+    }
+  });
+
+  processOutbox();
+
+  return () => {
+    unsubscribeNetInfo();
+    appStateSubscription.remove();
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+};
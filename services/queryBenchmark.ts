@@ -0,0 +1,267 @@
+import * as SQLite from 'expo-sqlite';
+import { Technique } from '@/types/technique';
+import { TrainingSession, SESSION_TYPE_VALUES } from '@/types/session';
+import { runSchemaMigrations } from './schemaMigrations';
+import { queryTechniques, querySessions } from './database';
+
+/**
+ * Query benchmark (development only)
+ *
+ * Seeds a scratch database with a synthetic training history and times the set-based
+ * loaders in database.ts against the per-row (N+1) loaders they replaced. The user's
+ * database is never opened; the scratch database is deleted afterwards.
+ */
+
+const BENCHMARK_DB_NAME = 'flowroll_benchmark.db';
+export const BENCHMARK_SESSION_COUNT = 5000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BENCHMARK_TAGS = ['Closed Guard', 'Half Guard', 'Mount', 'Side Control', 'Back Control'];
+const BENCHMARK_LOCATIONS = ['Main Academy', 'Downtown Gym', 'Open Mat Club'];
+const BENCHMARK_SUBMISSIONS = ['Armbar', 'Triangle', 'Rear Naked Choke', 'Kimura'];
+
+export interface LoaderTiming {
+  rows: number;
+  legacyMs: number;
+  currentMs: number;
+}
+
+export interface QueryBenchmarkResult {
+  sessionCount: number;
+  techniqueCount: number;
+  seedMs: number;
+  sessions: LoaderTiming;
+  techniques: LoaderTiming;
+}
+
+// One technique for every two sessions, each with two tags, every fifth with a link
+const seedDatabase = async (db: SQLite.SQLiteDatabase, sessionCount: number): Promise<number> => {
+  const techniqueCount = Math.ceil(sessionCount / 2);
+  const start = Date.now() - sessionCount * DAY_MS;
+
+  await db.withTransactionAsync(async () => {
+    await db.execAsync(`
+      DELETE FROM session_techniques;
+      DELETE FROM submissions;
+      DELETE FROM technique_links;
+      DELETE FROM technique_tags;
+      DELETE FROM techniques;
+      DELETE FROM sessions;
+      DELETE FROM tags;
+    `);
+
+    for (const tag of BENCHMARK_TAGS) {
+      await db.runAsync(
+        'INSERT INTO tags (id, name, category, created_at, is_custom) VALUES (?, ?, ?, ?, ?)',
+        [tag.toLowerCase().replace(/\s+/g, '-'), tag, 'position', start, 0]
+      );
+    }
+
+    const insertSession = await db.prepareAsync(
+      'INSERT INTO sessions (id, date, location, type, notes, satisfaction) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+    const insertSubmission = await db.prepareAsync(
+      'INSERT INTO submissions (session_id, name, count) VALUES (?, ?, ?)'
+    );
+    const insertTechnique = await db.prepareAsync(
+      'INSERT INTO techniques (id, name, category, notes, timestamp, session_id) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+    const insertTechniqueTag = await db.prepareAsync(
+      'INSERT INTO technique_tags (technique_id, tag_name) VALUES (?, ?)'
+    );
+    const insertLink = await db.prepareAsync(
+      'INSERT INTO technique_links (id, technique_id, url, title, timestamp) VALUES (?, ?, ?, ?, ?)'
+    );
+    const insertSessionTechnique = await db.prepareAsync(
+      'INSERT INTO session_techniques (session_id, technique_id, is_submission) VALUES (?, ?, 0)'
+    );
+
+    try {
+      for (let i = 0; i < sessionCount; i++) {
+        const sessionId = `bench_session_${i}`;
+        await insertSession.executeAsync([
+          sessionId,
+          start + i * DAY_MS,
+          BENCHMARK_LOCATIONS[i % BENCHMARK_LOCATIONS.length],
+          SESSION_TYPE_VALUES[i % SESSION_TYPE_VALUES.length],
+          `Synthetic session ${i}`,
+          (i % 5) + 1,
+        ]);
+
+        for (let s = 0; s < i % 3; s++) {
+          await insertSubmission.executeAsync([sessionId, BENCHMARK_SUBMISSIONS[(i + s) % BENCHMARK_SUBMISSIONS.length], s + 1]);
+        }
+      }
+
+      for (let i = 0; i < techniqueCount; i++) {
+        const techniqueId = `bench_technique_${i}`;
+        const sessionId = `bench_session_${i * 2}`;
+        await insertTechnique.executeAsync([
+          techniqueId,
+          `Technique ${i}`,
+          'Other',
+          `Synthetic notes ${i}`,
+          start + i * 2 * DAY_MS,
+          sessionId,
+        ]);
+
+        // Insert tags in name order so both loaders see them in the same order
+        const tags = [BENCHMARK_TAGS[i % BENCHMARK_TAGS.length], BENCHMARK_TAGS[(i + 1) % BENCHMARK_TAGS.length]].sort();
+        for (const tag of tags) {
+          await insertTechniqueTag.executeAsync([techniqueId, tag]);
+        }
+
+        if (i % 5 === 0) {
+          await insertLink.executeAsync([`bench_link_${i}`, techniqueId, `https://example.com/${i}`, null, start + i * DAY_MS]);
+        }
+
+        await insertSessionTechnique.executeAsync([sessionId, techniqueId]);
+      }
+    } finally {
+      await insertSession.finalizeAsync();
+      await insertSubmission.finalizeAsync();
+      await insertTechnique.finalizeAsync();
+      await insertTechniqueTag.finalizeAsync();
+      await insertLink.finalizeAsync();
+      await insertSessionTechnique.finalizeAsync();
+    }
+  });
+
+  return techniqueCount;
+};
+
+// The loaders as they were before associations were fetched in bulk: two queries per row
+const legacyLoadTechniques = async (db: SQLite.SQLiteDatabase): Promise<Technique[]> => {
+  const techniques = await db.getAllAsync<any>('SELECT * FROM techniques ORDER BY timestamp DESC');
+  const result: Technique[] = [];
+
+  for (const row of techniques) {
+    const tagRows = await db.getAllAsync<any>('SELECT tag_name FROM technique_tags WHERE technique_id = ?', [row.id]);
+    const linkRows = await db.getAllAsync<any>(
+      'SELECT * FROM technique_links WHERE technique_id = ? ORDER BY timestamp DESC',
+      [row.id]
+    );
+    const links = linkRows.map(linkRow => ({
+      id: linkRow.id,
+      url: linkRow.url,
+      title: linkRow.title,
+      timestamp: new Date(linkRow.timestamp),
+    }));
+
+    result.push({
+      id: row.id,
+      name: row.name,
+      category: row.category,
+      tags: tagRows.map(tagRow => tagRow.tag_name),
+      notes: row.notes,
+      links: links.length > 0 ? links : undefined,
+      timestamp: new Date(row.timestamp),
+      sessionId: row.session_id,
+    });
+  }
+
+  return result;
+};
+
+const legacyLoadSessions = async (db: SQLite.SQLiteDatabase): Promise<TrainingSession[]> => {
+  const sessions = await db.getAllAsync<any>('SELECT * FROM sessions ORDER BY date DESC');
+  const result: TrainingSession[] = [];
+
+  for (const row of sessions) {
+    const associations = await db.getAllAsync<any>(
+      'SELECT technique_id FROM session_techniques WHERE session_id = ?',
+      [row.id]
+    );
+    const submissionRows = await db.getAllAsync<any>(
+      'SELECT name, count FROM submissions WHERE session_id = ?',
+      [row.id]
+    );
+    const submissionCounts: Record<string, number> = {};
+    submissionRows.forEach(sub => {
+      submissionCounts[sub.name] = sub.count || 1;
+    });
+
+    result.push({
+      id: row.id,
+      date: new Date(row.date),
+      location: row.location,
+      type: row.type,
+      notes: row.notes,
+      satisfaction: row.satisfaction,
+      techniqueIds: associations.map(assoc => assoc.technique_id),
+      submissions: submissionRows.map(sub => sub.name),
+      submissionCounts,
+    });
+  }
+
+  return result;
+};
+
+// The current loaders also return sync metadata, read missing values as undefined rather
+// than null and build records with their keys in another order. Records are compared as
+// JSON without those differences.
+const SYNC_METADATA_KEYS = new Set(['updatedAt', 'deletedAt', 'version']);
+
+const normalizedJson = (rows: unknown[]): string =>
+  JSON.stringify(rows, (_key, value) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key, item]) => item !== null && item !== undefined && !SYNC_METADATA_KEYS.has(key))
+        .sort(([a], [b]) => a.localeCompare(b))
+    );
+  });
+
+const timeLoaders = async <T>(
+  legacy: () => Promise<T[]>,
+  current: () => Promise<T[]>,
+  label: string
+): Promise<LoaderTiming> => {
+  const legacyStart = Date.now();
+  const legacyRows = await legacy();
+  const legacyMs = Date.now() - legacyStart;
+
+  const currentStart = Date.now();
+  const currentRows = await current();
+  const currentMs = Date.now() - currentStart;
+
+  // A faster loader is only an improvement if it returns the same data
+  if (normalizedJson(legacyRows) !== normalizedJson(currentRows)) {
+    throw new Error(`Benchmark ${label} loaders returned different results`);
+  }
+
+  return { rows: currentRows.length, legacyMs, currentMs };
+};
+
+export const runQueryBenchmark = async (
+  sessionCount: number = BENCHMARK_SESSION_COUNT
+): Promise<QueryBenchmarkResult> => {
+  const db = await SQLite.openDatabaseAsync(BENCHMARK_DB_NAME);
+
+  try {
+    await db.execAsync('PRAGMA foreign_keys = ON;');
+    await runSchemaMigrations(db);
+
+    const seedStart = Date.now();
+    const techniqueCount = await seedDatabase(db, sessionCount);
+    const seedMs = Date.now() - seedStart;
+
+    const sessions = await timeLoaders(
+      () => legacyLoadSessions(db),
+      () => querySessions(db, 'SELECT id FROM sessions WHERE deleted_at IS NULL'),
+      'session'
+    );
+    const techniques = await timeLoaders(
+      () => legacyLoadTechniques(db),
+      () => queryTechniques(db, 'SELECT id FROM techniques WHERE deleted_at IS NULL'),
+      'technique'
+    );
+
+    const result = { sessionCount, techniqueCount, seedMs, sessions, techniques };
+    console.log('Query benchmark:', JSON.stringify(result));
+    return result;
+  } finally {
+    await db.closeAsync();
+    await SQLite.deleteDatabaseAsync(BENCHMARK_DB_NAME);
+  }
+};
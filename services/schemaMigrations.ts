@@ -0,0 +1,618 @@
+import * as SQLite from 'expo-sqlite';
+
+/**
+ * Versioned schema migrations
+ *
+ * The schema version of a device's database is stored in `PRAGMA user_version`.
+ * Each migration runs in its own transaction and bumps the version on success,
+ * so a failed migration is rolled back and leaves the database in the last
+ * known-good shape. Never edit a migration that has shipped - append a new one.
+ */
+
+export interface SchemaMigration {
+  version: number;
+  description: string;
+  // Table rebuilds must run with foreign keys off, otherwise DROP TABLE cascades
+  disableForeignKeys?: boolean;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+const hasColumn = async (
+  db: SQLite.SQLiteDatabase,
+  table: string,
+  column: string
+): Promise<boolean> => {
+  const tableInfo = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  return tableInfo.some(col => col.name === column);
+};
+
+// How each version of the search index was built. Before version 8, notes were indexed
+// as stored; since then encrypted notes are indexed as empty, so their ciphertext can't
+// match a search. Before version 13, index rows carried the record id in an UNINDEXED
+// column, which FTS5 can only look up by scanning every row; since then they share the
+// record's rowid, so triggers find them directly.
+interface SearchIndexShape {
+  skipEncrypted: boolean;
+  keyedByRowid: boolean;
+}
+
+const indexedNotesSql = (column: string, { skipEncrypted }: SearchIndexShape): string =>
+  skipEncrypted
+    ? `CASE WHEN ${column} GLOB 'enc:v1:*' THEN '' ELSE COALESCE(${column}, '') END`
+    : `COALESCE(${column}, '')`;
+
+// Remove the index row of one record, found by its rowid or by its id, whichever keys the index
+const deleteIndexRowSql = (
+  index: string,
+  key: { rowid: string; idColumn: string; id: string },
+  shape: SearchIndexShape
+): string =>
+  shape.keyedByRowid
+    ? `DELETE FROM ${index} WHERE rowid = ${key.rowid};`
+    : `DELETE FROM ${index} WHERE ${key.idColumn} = ${key.id};`;
+
+// Rebuild the search index row of one technique from its current state. Trashed
+// techniques have no row, so they drop out of search until restored.
+const reindexTechniqueSql = (idExpr: string, shape: SearchIndexShape): string => `
+  ${deleteIndexRowSql('techniques_fts', { rowid: `(SELECT rowid FROM techniques WHERE id = ${idExpr})`, idColumn: 'technique_id', id: idExpr }, shape)}
+  INSERT INTO techniques_fts (${shape.keyedByRowid ? 'rowid' : 'technique_id'}, name, notes, tags, links)
+  SELECT ${shape.keyedByRowid ? 't.rowid' : 't.id'}, t.name, ${indexedNotesSql('t.notes', shape)},
+    COALESCE((SELECT group_concat(tag_name, ' ') FROM technique_tags WHERE technique_id = t.id), ''),
+    COALESCE((SELECT group_concat(title, ' ') FROM technique_links WHERE technique_id = t.id), '')
+  FROM techniques t WHERE t.id = ${idExpr} AND t.deleted_at IS NULL;
+`;
+
+const reindexSessionSql = (idExpr: string, shape: SearchIndexShape): string => `
+  ${deleteIndexRowSql('sessions_fts', { rowid: `(SELECT rowid FROM sessions WHERE id = ${idExpr})`, idColumn: 'session_id', id: idExpr }, shape)}
+  INSERT INTO sessions_fts (${shape.keyedByRowid ? 'rowid' : 'session_id'}, location, notes, submissions)
+  SELECT ${shape.keyedByRowid ? 's.rowid' : 's.id'}, COALESCE(s.location, ''), ${indexedNotesSql('s.notes', shape)},
+    COALESCE((SELECT group_concat(name, ' ') FROM submissions WHERE session_id = s.id), '')
+  FROM sessions s WHERE s.id = ${idExpr} AND s.deleted_at IS NULL;
+`;
+
+const SEARCH_TRIGGERS = [
+  'techniques_fts_insert', 'techniques_fts_update', 'techniques_fts_delete',
+  'technique_tags_fts_insert', 'technique_tags_fts_delete',
+  'technique_links_fts_insert', 'technique_links_fts_update', 'technique_links_fts_delete',
+  'sessions_fts_insert', 'sessions_fts_update', 'sessions_fts_delete',
+  'submissions_fts_insert', 'submissions_fts_update', 'submissions_fts_delete',
+];
+
+// Triggers keep the index in step with every write path, including imports and restores
+const createSearchTriggersSql = (shape: SearchIndexShape): string => `
+  CREATE TRIGGER IF NOT EXISTS techniques_fts_insert AFTER INSERT ON techniques BEGIN
+    ${reindexTechniqueSql('NEW.id', shape)}
+  END;
+  CREATE TRIGGER IF NOT EXISTS techniques_fts_update AFTER UPDATE ON techniques BEGIN
+    ${deleteIndexRowSql('techniques_fts', { rowid: 'OLD.rowid', idColumn: 'technique_id', id: 'OLD.id' }, shape)}
+    ${reindexTechniqueSql('NEW.id', shape)}
+  END;
+  CREATE TRIGGER IF NOT EXISTS techniques_fts_delete AFTER DELETE ON techniques BEGIN
+    ${deleteIndexRowSql('techniques_fts', { rowid: 'OLD.rowid', idColumn: 'technique_id', id: 'OLD.id' }, shape)}
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS technique_tags_fts_insert AFTER INSERT ON technique_tags BEGIN
+    ${reindexTechniqueSql('NEW.technique_id', shape)}
+  END;
+  CREATE TRIGGER IF NOT EXISTS technique_tags_fts_delete AFTER DELETE ON technique_tags BEGIN
+    ${reindexTechniqueSql('OLD.technique_id', shape)}
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS technique_links_fts_insert AFTER INSERT ON technique_links BEGIN
+    ${reindexTechniqueSql('NEW.technique_id', shape)}
+  END;
+  CREATE TRIGGER IF NOT EXISTS technique_links_fts_update AFTER UPDATE ON technique_links BEGIN
+    ${reindexTechniqueSql('OLD.technique_id', shape)}
+    ${reindexTechniqueSql('NEW.technique_id', shape)}
+  END;
+  CREATE TRIGGER IF NOT EXISTS technique_links_fts_delete AFTER DELETE ON technique_links BEGIN
+    ${reindexTechniqueSql('OLD.technique_id', shape)}
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS sessions_fts_insert AFTER INSERT ON sessions BEGIN
+    ${reindexSessionSql('NEW.id', shape)}
+  END;
+  CREATE TRIGGER IF NOT EXISTS sessions_fts_update AFTER UPDATE ON sessions BEGIN
+    ${deleteIndexRowSql('sessions_fts', { rowid: 'OLD.rowid', idColumn: 'session_id', id: 'OLD.id' }, shape)}
+    ${reindexSessionSql('NEW.id', shape)}
+  END;
+  CREATE TRIGGER IF NOT EXISTS sessions_fts_delete AFTER DELETE ON sessions BEGIN
+    ${deleteIndexRowSql('sessions_fts', { rowid: 'OLD.rowid', idColumn: 'session_id', id: 'OLD.id' }, shape)}
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS submissions_fts_insert AFTER INSERT ON submissions BEGIN
+    ${reindexSessionSql('NEW.session_id', shape)}
+  END;
+  CREATE TRIGGER IF NOT EXISTS submissions_fts_update AFTER UPDATE ON submissions BEGIN
+    ${reindexSessionSql('OLD.session_id', shape)}
+    ${reindexSessionSql('NEW.session_id', shape)}
+  END;
+  CREATE TRIGGER IF NOT EXISTS submissions_fts_delete AFTER DELETE ON submissions BEGIN
+    ${reindexSessionSql('OLD.session_id', shape)}
+  END;
+`;
+
+// Index what is already there
+const rebuildSearchIndexSql = (shape: SearchIndexShape): string => `
+  DELETE FROM techniques_fts;
+  INSERT INTO techniques_fts (${shape.keyedByRowid ? 'rowid' : 'technique_id'}, name, notes, tags, links)
+  SELECT ${shape.keyedByRowid ? 't.rowid' : 't.id'}, t.name, ${indexedNotesSql('t.notes', shape)},
+    COALESCE((SELECT group_concat(tag_name, ' ') FROM technique_tags WHERE technique_id = t.id), ''),
+    COALESCE((SELECT group_concat(title, ' ') FROM technique_links WHERE technique_id = t.id), '')
+  FROM techniques t WHERE t.deleted_at IS NULL;
+
+  DELETE FROM sessions_fts;
+  INSERT INTO sessions_fts (${shape.keyedByRowid ? 'rowid' : 'session_id'}, location, notes, submissions)
+  SELECT ${shape.keyedByRowid ? 's.rowid' : 's.id'}, COALESCE(s.location, ''), ${indexedNotesSql('s.notes', shape)},
+    COALESCE((SELECT group_concat(name, ' ') FROM submissions WHERE session_id = s.id), '')
+  FROM sessions s WHERE s.deleted_at IS NULL;
+`;
+
+const CURRENT_SEARCH_INDEX: SearchIndexShape = { skipEncrypted: true, keyedByRowid: true };
+
+/**
+ * Re-index every live technique and session. The index is keyed by rowid, and VACUUM
+ * can renumber the rowids of tables without an INTEGER PRIMARY KEY, so this must run
+ * after every VACUUM.
+ */
+export const rebuildSearchIndex = (db: SQLite.SQLiteDatabase): Promise<void> =>
+  db.execAsync(rebuildSearchIndexSql(CURRENT_SEARCH_INDEX));
+
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    description: 'Create initial tables and indexes',
+    up: async (db) => {
+      await db.execAsync(`
+        -- Techniques table
+        CREATE TABLE IF NOT EXISTS techniques (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          category TEXT NOT NULL,
+          notes TEXT,
+          timestamp INTEGER NOT NULL,
+          session_id TEXT,
+          FOREIGN KEY (session_id) REFERENCES sessions (id) ON DELETE SET NULL
+        );
+
+        -- Sessions table
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          date INTEGER NOT NULL,
+          location TEXT,
+          type TEXT NOT NULL,
+          notes TEXT,
+          satisfaction INTEGER NOT NULL CHECK (satisfaction >= 1 AND satisfaction <= 5)
+        );
+
+        -- Submissions table for session submissions
+        CREATE TABLE IF NOT EXISTS submissions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          count INTEGER DEFAULT 1,
+          FOREIGN KEY (session_id) REFERENCES sessions (id) ON DELETE CASCADE
+        );
+
+        -- Junction table for session techniques (many-to-many relationship)
+        CREATE TABLE IF NOT EXISTS session_techniques (
+          session_id TEXT NOT NULL,
+          technique_id TEXT NOT NULL,
+          is_submission INTEGER DEFAULT 0,
+          PRIMARY KEY (session_id, technique_id),
+          FOREIGN KEY (session_id) REFERENCES sessions (id) ON DELETE CASCADE,
+          FOREIGN KEY (technique_id) REFERENCES techniques (id) ON DELETE CASCADE
+        );
+
+        -- Locations table for storing unique locations
+        CREATE TABLE IF NOT EXISTS locations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          usage_count INTEGER DEFAULT 0,
+          last_used INTEGER
+        );
+
+        -- Tags table for storing available tags
+        CREATE TABLE IF NOT EXISTS tags (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE,
+          category TEXT NOT NULL CHECK (category IN ('position', 'attribute', 'style', 'custom')),
+          usage_count INTEGER DEFAULT 0,
+          created_at INTEGER NOT NULL,
+          is_custom INTEGER DEFAULT 0
+        );
+
+        -- Junction table for technique tags (many-to-many relationship)
+        CREATE TABLE IF NOT EXISTS technique_tags (
+          technique_id TEXT NOT NULL,
+          tag_name TEXT NOT NULL,
+          PRIMARY KEY (technique_id, tag_name),
+          FOREIGN KEY (technique_id) REFERENCES techniques (id) ON DELETE CASCADE,
+          FOREIGN KEY (tag_name) REFERENCES tags (name) ON DELETE CASCADE
+        );
+
+        -- Links table for technique references/resources
+        CREATE TABLE IF NOT EXISTS technique_links (
+          id TEXT PRIMARY KEY,
+          technique_id TEXT NOT NULL,
+          url TEXT NOT NULL,
+          title TEXT,
+          timestamp INTEGER NOT NULL,
+          FOREIGN KEY (technique_id) REFERENCES techniques (id) ON DELETE CASCADE
+        );
+
+        -- Indexes for better performance
+        CREATE INDEX IF NOT EXISTS idx_sessions_date ON sessions (date);
+        CREATE INDEX IF NOT EXISTS idx_sessions_type ON sessions (type);
+        CREATE INDEX IF NOT EXISTS idx_submissions_session ON submissions (session_id);
+        CREATE INDEX IF NOT EXISTS idx_locations_usage_count ON locations (usage_count DESC);
+        CREATE INDEX IF NOT EXISTS idx_locations_last_used ON locations (last_used DESC);
+        CREATE INDEX IF NOT EXISTS idx_tags_category ON tags (category);
+        CREATE INDEX IF NOT EXISTS idx_tags_usage_count ON tags (usage_count DESC);
+        CREATE INDEX IF NOT EXISTS idx_tags_name ON tags (name);
+        CREATE INDEX IF NOT EXISTS idx_technique_tags_technique ON technique_tags (technique_id);
+        CREATE INDEX IF NOT EXISTS idx_technique_tags_tag ON technique_tags (tag_name);
+        CREATE INDEX IF NOT EXISTS idx_technique_links_technique ON technique_links (technique_id);
+        CREATE INDEX IF NOT EXISTS idx_technique_links_timestamp ON technique_links (timestamp);
+      `);
+    },
+  },
+  {
+    // Databases created before tags replaced positions still carry techniques.position
+    version: 2,
+    description: 'Drop legacy position column from techniques',
+    disableForeignKeys: true,
+    up: async (db) => {
+      if (await hasColumn(db, 'techniques', 'position')) {
+        await db.execAsync(`
+          CREATE TABLE techniques_new (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            category TEXT NOT NULL,
+            notes TEXT,
+            timestamp INTEGER NOT NULL,
+            session_id TEXT,
+            FOREIGN KEY (session_id) REFERENCES sessions (id) ON DELETE SET NULL
+          );
+
+          INSERT INTO techniques_new (id, name, category, notes, timestamp, session_id)
+          SELECT id, name, category, notes, timestamp, session_id FROM techniques;
+
+          DROP TABLE techniques;
+          ALTER TABLE techniques_new RENAME TO techniques;
+        `);
+      }
+
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_techniques_category ON techniques (category);
+        CREATE INDEX IF NOT EXISTS idx_techniques_timestamp ON techniques (timestamp);
+        CREATE INDEX IF NOT EXISTS idx_techniques_session_id ON techniques (session_id);
+      `);
+    },
+  },
+  {
+    // Early databases created the submissions table before counts were tracked
+    version: 3,
+    description: 'Add count column to submissions',
+    up: async (db) => {
+      if (!(await hasColumn(db, 'submissions', 'count'))) {
+        await db.execAsync('ALTER TABLE submissions ADD COLUMN count INTEGER DEFAULT 1;');
+      }
+    },
+  },
+  {
+    // Deleted techniques and sessions go to the trash; NULL means the row is live
+    version: 4,
+    description: 'Add soft-delete columns to techniques and sessions',
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE techniques ADD COLUMN deleted_at INTEGER;
+        ALTER TABLE sessions ADD COLUMN deleted_at INTEGER;
+
+        CREATE INDEX IF NOT EXISTS idx_techniques_deleted_at ON techniques (deleted_at);
+        CREATE INDEX IF NOT EXISTS idx_sessions_deleted_at ON sessions (deleted_at);
+      `);
+    },
+  },
+  {
+    // The porter tokenizer matches word stems, so "shields" finds "shield".
+    version: 5,
+    description: 'Add full-text search index over techniques and sessions',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS techniques_fts USING fts5(
+          technique_id UNINDEXED, name, notes, tags, links,
+          tokenize = 'porter unicode61 remove_diacritics 2'
+        );
+
+        CREATE VIRTUAL TABLE IF NOT EXISTS sessions_fts USING fts5(
+          session_id UNINDEXED, location, notes, submissions,
+          tokenize = 'porter unicode61 remove_diacritics 2'
+        );
+
+        ${createSearchTriggersSql({ skipEncrypted: false, keyedByRowid: false })}
+        ${rebuildSearchIndexSql({ skipEncrypted: false, keyedByRowid: false })}
+      `);
+    },
+  },
+  {
+    // The profile used to be a JSON blob in AsyncStorage; migration.ts moves it in.
+    // There is at most one profile row. Rank comes from the latest promotion.
+    version: 6,
+    description: 'Add profile and belt promotion tables',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS profile (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          name TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS promotions (
+          id TEXT PRIMARY KEY,
+          belt_rank TEXT NOT NULL CHECK (belt_rank IN ('white', 'blue', 'purple', 'brown', 'black')),
+          stripes INTEGER NOT NULL CHECK (stripes >= 0 AND stripes <= 4),
+          date INTEGER NOT NULL,
+          instructor TEXT,
+          notes TEXT,
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_promotions_date ON promotions (date);
+      `);
+    },
+  },
+  {
+    // Revisions are snapshots, so restoring one never depends on the rows it came from.
+    // Tags and links are stored as JSON.
+    version: 7,
+    description: 'Add technique revision history',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS technique_revisions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          technique_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          category TEXT NOT NULL,
+          notes TEXT,
+          tags TEXT NOT NULL,
+          links TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          FOREIGN KEY (technique_id) REFERENCES techniques (id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_technique_revisions_technique
+          ON technique_revisions (technique_id, created_at);
+      `);
+    },
+  },
+  {
+    // Notes can now be stored encrypted. Triggers can't be altered, so they are recreated.
+    version: 8,
+    description: 'Leave encrypted notes out of the search index',
+    up: async (db) => {
+      await db.execAsync(`
+        ${SEARCH_TRIGGERS.map(trigger => `DROP TRIGGER IF EXISTS ${trigger};`).join('\n')}
+        ${createSearchTriggersSql({ skipEncrypted: true, keyedByRowid: false })}
+        ${rebuildSearchIndexSql({ skipEncrypted: true, keyedByRowid: false })}
+      `);
+    },
+  },
+  {
+    // Writes made in remote mode wait here until the server has them. Payloads are JSON.
+    version: 9,
+    description: 'Add outbox for writes waiting to be sent to the server',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS outbox (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          entity TEXT NOT NULL,
+          operation TEXT NOT NULL CHECK (operation IN ('create', 'update', 'delete')),
+          entity_id TEXT NOT NULL,
+          payload TEXT,
+          status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'failed')),
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at INTEGER NOT NULL,
+          last_error TEXT,
+          created_at INTEGER NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    // updated_at is backfilled from the best timestamp each row already has. version is the
+    // server's version of the row, so everything starts unsynced at 0. sync_base keeps the
+    // last version both sides agreed on, for three-way merges.
+    version: 10,
+    description: 'Add sync metadata, merge bases and conflicts',
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE techniques ADD COLUMN updated_at INTEGER;
+        ALTER TABLE techniques ADD COLUMN version INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE sessions ADD COLUMN updated_at INTEGER;
+        ALTER TABLE sessions ADD COLUMN version INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE technique_links ADD COLUMN updated_at INTEGER;
+        ALTER TABLE technique_links ADD COLUMN version INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE tags ADD COLUMN updated_at INTEGER;
+        ALTER TABLE tags ADD COLUMN version INTEGER NOT NULL DEFAULT 0;
+
+        UPDATE techniques SET updated_at = COALESCE(deleted_at, timestamp);
+        UPDATE sessions SET updated_at = COALESCE(deleted_at, date);
+        UPDATE technique_links SET updated_at = timestamp;
+        UPDATE tags SET updated_at = created_at;
+
+        CREATE TABLE IF NOT EXISTS sync_base (
+          entity TEXT NOT NULL,
+          entity_id TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          data TEXT,
+          PRIMARY KEY (entity, entity_id)
+        );
+
+        CREATE TABLE IF NOT EXISTS sync_conflicts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          entity TEXT NOT NULL,
+          entity_id TEXT NOT NULL,
+          local TEXT NOT NULL,
+          remote TEXT NOT NULL,
+          merged TEXT NOT NULL,
+          fields TEXT NOT NULL,
+          detected_at INTEGER NOT NULL,
+          UNIQUE (entity, entity_id)
+        );
+      `);
+    },
+  },
+  {
+    // Records that fail validation when read. payload and errors are JSON. A record is
+    // quarantined once per source; failing again only refreshes its payload and errors.
+    version: 11,
+    description: 'Add quarantine for records that fail validation',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS quarantine (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          entity TEXT NOT NULL,
+          entity_id TEXT NOT NULL,
+          source TEXT NOT NULL CHECK (source IN ('database', 'server')),
+          payload TEXT NOT NULL,
+          errors TEXT NOT NULL,
+          detected_at INTEGER NOT NULL,
+          UNIQUE (entity, entity_id, source)
+        );
+      `);
+    },
+  },
+  {
+    // Restoring and purging trash are queued like other writes. A CHECK constraint can't
+    // be altered, so the outbox is rebuilt with its entries.
+    version: 12,
+    description: 'Allow restore and purge operations in the outbox',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE outbox_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          entity TEXT NOT NULL,
+          operation TEXT NOT NULL CHECK (operation IN ('create', 'update', 'delete', 'restore', 'purge')),
+          entity_id TEXT NOT NULL,
+          payload TEXT,
+          status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'failed')),
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at INTEGER NOT NULL,
+          last_error TEXT,
+          created_at INTEGER NOT NULL
+        );
+
+        INSERT INTO outbox_new (id, entity, operation, entity_id, payload, status, attempts, next_attempt_at, last_error, created_at)
+        SELECT id, entity, operation, entity_id, payload, status, attempts, next_attempt_at, last_error, created_at FROM outbox;
+
+        DROP TABLE outbox;
+        ALTER TABLE outbox_new RENAME TO outbox;
+      `);
+    },
+  },
+  {
+    // Index rows now share their record's rowid. FTS5 columns can't be dropped, so the
+    // index tables are recreated without the id columns, along with their triggers.
+    version: 13,
+    description: 'Key the search index by rowid',
+    up: async (db) => {
+      await db.execAsync(`
+        ${SEARCH_TRIGGERS.map(trigger => `DROP TRIGGER IF EXISTS ${trigger};`).join('\n')}
+        DROP TABLE IF EXISTS techniques_fts;
+        DROP TABLE IF EXISTS sessions_fts;
+
+        CREATE VIRTUAL TABLE techniques_fts USING fts5(
+          name, notes, tags, links,
+          tokenize = 'porter unicode61 remove_diacritics 2'
+        );
+
+        CREATE VIRTUAL TABLE sessions_fts USING fts5(
+          location, notes, submissions,
+          tokenize = 'porter unicode61 remove_diacritics 2'
+        );
+
+        ${createSearchTriggersSql(CURRENT_SEARCH_INDEX)}
+        ${rebuildSearchIndexSql(CURRENT_SEARCH_INDEX)}
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+export const getSchemaVersion = async (db: SQLite.SQLiteDatabase): Promise<number> => {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return row?.user_version ?? 0;
+};
+
+const runMigrationStep = async (
+  db: SQLite.SQLiteDatabase,
+  migration: SchemaMigration
+): Promise<void> => {
+  await db.withTransactionAsync(async () => {
+    await migration.up(db);
+
+    if (migration.disableForeignKeys) {
+      // Foreign keys were not enforced during the step, so verify nothing was orphaned
+      const violations = await db.getAllAsync('PRAGMA foreign_key_check');
+      if (violations.length > 0) {
+        throw new Error(`${violations.length} foreign key violation(s) after migration`);
+      }
+    }
+
+    // user_version lives in the database header, so it rolls back with the transaction
+    await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+  });
+};
+
+/**
+ * Apply every migration newer than the database's current version, in order.
+ * Returns the schema version the database ends up at.
+ */
+export const runSchemaMigrations = async (db: SQLite.SQLiteDatabase): Promise<number> => {
+  const currentVersion = await getSchemaVersion(db);
+
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${currentVersion} is newer than this app supports (${LATEST_SCHEMA_VERSION})`
+    );
+  }
+
+  const pending = SCHEMA_MIGRATIONS
+    .filter(migration => migration.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  if (pending.length === 0) {
+    console.log(`Database schema is up to date (version ${currentVersion})`);
+    return currentVersion;
+  }
+
+  console.log(`Migrating database schema from version ${currentVersion} to ${LATEST_SCHEMA_VERSION}...`);
+
+  for (const migration of pending) {
+    console.log(`Applying schema migration ${migration.version}: ${migration.description}`);
+
+    if (migration.disableForeignKeys) {
+      // PRAGMA foreign_keys is a no-op inside a transaction, so toggle it around the step
+      await db.execAsync('PRAGMA foreign_keys = OFF;');
+    }
+
+    try {
+      await runMigrationStep(db, migration);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Schema migration ${migration.version} failed and was rolled back:`, error);
+      throw new Error(
+        `Schema migration ${migration.version} (${migration.description}) failed and was rolled back: ${errorMessage}`
+      );
+    } finally {
+      if (migration.disableForeignKeys) {
+        await db.execAsync('PRAGMA foreign_keys = ON;');
+      }
+    }
+  }
+
+  console.log(`Database schema migrated to version ${LATEST_SCHEMA_VERSION}`);
+  return LATEST_SCHEMA_VERSION;
+};
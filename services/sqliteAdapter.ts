@@ -0,0 +1,152 @@
+import { StorageAdapter } from '@/types/storage';
+import { DEFAULT_ATHLETE_ID } from '@/types/athlete';
+import {
+  initializeDatabase,
+  closeDatabase,
+  saveTechniqueToDb,
+  getTechniquesFromDb,
+  getTechniquesPageFromDb,
+  getTechniquesBySessionFromDb,
+  getRecentTechniquesFromDb,
+  getTechniqueRevisionsFromDb,
+  deleteTechniqueFromDb,
+  saveSessionToDb,
+  getSessionsFromDb,
+  getSessionsPageFromDb,
+  deleteSessionFromDb,
+  searchFromDb,
+  searchNamesFromDb,
+  getTrashFromDb,
+  restoreTechniqueFromDb,
+  restoreSessionFromDb,
+  purgeTrashFromDb,
+  getProfileFromDb,
+  saveProfileToDb,
+  replaceProfileInDb,
+  deleteProfileFromDb,
+  getPromotionsFromDb,
+  deletePromotionFromDb,
+  getAllTagsFromDb,
+  getPopularTagsFromDb,
+  searchTagsFromDb,
+  createCustomTagInDb,
+  getLocationsFromDb,
+  getLocationRecordsFromDb,
+  getUniqueSubmissionsFromDb,
+  importDataToDb,
+  clearAllDataFromDb,
+  addOutboxEntryToDb,
+  getOutboxFromDb,
+  updateOutboxEntryInDb,
+  deleteOutboxEntryFromDb,
+  getSyncRecordFromDb,
+  applySyncedRecordsToDb,
+  setRecordVersionInDb,
+  getSyncBaseFromDb,
+  setSyncBaseInDb,
+  saveSyncConflictToDb,
+  getSyncConflictsFromDb,
+  getSyncConflictFromDb,
+  deleteSyncConflictFromDb,
+  quarantineRecordsInDb,
+  getQuarantinedRecordsFromDb,
+  discardQuarantinedRecordFromDb,
+  rewriteNotesInDb,
+  rewriteNotesInDbFile,
+  getDatabaseStatsFromDb
+} from './database';
+import { runMigration, resetMigrationState } from './migration';
+import { checkDatabaseIntegrity, repairDatabaseIntegrity } from './integrity';
+import { getAthleteDatabaseName } from './athletes';
+
+/**
+ * An athlete's SQLite database on the device. Opening it runs the schema migrations and
+ * seeds the predefined tags; the default athlete's also takes in data older versions left
+ * in AsyncStorage. Only one is open at a time.
+ */
+export const createSqliteAdapter = (athleteId: string = DEFAULT_ATHLETE_ID): StorageAdapter => ({
+  isPersistent: true,
+
+  initialize: async () => {
+    await initializeDatabase(getAthleteDatabaseName(athleteId));
+    await runMigration(athleteId === DEFAULT_ATHLETE_ID);
+  },
+  close: closeDatabase,
+
+  saveTechnique: saveTechniqueToDb,
+  getTechniques: getTechniquesFromDb,
+  getTechniquesPage: getTechniquesPageFromDb,
+  getTechniquesBySession: getTechniquesBySessionFromDb,
+  getRecentTechniques: getRecentTechniquesFromDb,
+  getTechniqueRevisions: getTechniqueRevisionsFromDb,
+  deleteTechnique: deleteTechniqueFromDb,
+
+  saveSession: saveSessionToDb,
+  getSessions: getSessionsFromDb,
+  getSessionsPage: getSessionsPageFromDb,
+  deleteSession: deleteSessionFromDb,
+
+  search: searchFromDb,
+  searchNames: searchNamesFromDb,
+
+  getTrash: getTrashFromDb,
+  restoreTechnique: restoreTechniqueFromDb,
+  restoreSession: restoreSessionFromDb,
+  purgeTrash: purgeTrashFromDb,
+
+  getProfile: getProfileFromDb,
+  saveProfile: saveProfileToDb,
+  replaceProfile: replaceProfileInDb,
+  deleteProfile: deleteProfileFromDb,
+  getPromotions: getPromotionsFromDb,
+  deletePromotion: deletePromotionFromDb,
+
+  getAllTags: getAllTagsFromDb,
+  getPopularTags: getPopularTagsFromDb,
+  searchTags: searchTagsFromDb,
+  createCustomTag: createCustomTagInDb,
+
+  getLocations: getLocationsFromDb,
+  getLocationRecords: getLocationRecordsFromDb,
+  getUniqueSubmissions: getUniqueSubmissionsFromDb,
+
+  importData: importDataToDb,
+  // Data older versions left in AsyncStorage goes too, with the migration flags
+  clearAllData: async () => {
+    await clearAllDataFromDb();
+    if (athleteId === DEFAULT_ATHLETE_ID) {
+      await resetMigrationState();
+    }
+  },
+
+  addOutboxEntry: addOutboxEntryToDb,
+  getOutbox: getOutboxFromDb,
+  updateOutboxEntry: updateOutboxEntryInDb,
+  deleteOutboxEntry: deleteOutboxEntryFromDb,
+
+  getSyncRecord: getSyncRecordFromDb,
+  applySyncedRecords: applySyncedRecordsToDb,
+  setRecordVersion: setRecordVersionInDb,
+  getSyncBase: getSyncBaseFromDb,
+  setSyncBase: setSyncBaseInDb,
+  saveSyncConflict: saveSyncConflictToDb,
+  getSyncConflicts: getSyncConflictsFromDb,
+  getSyncConflict: getSyncConflictFromDb,
+  deleteSyncConflict: deleteSyncConflictFromDb,
+
+  quarantineRecords: quarantineRecordsInDb,
+  getQuarantinedRecords: getQuarantinedRecordsFromDb,
+  discardQuarantinedRecord: discardQuarantinedRecordFromDb,
+
+  checkIntegrity: checkDatabaseIntegrity,
+  repairIntegrity: repairDatabaseIntegrity,
+  rewriteNotes: () => rewriteNotesInDb(),
+  getStats: getDatabaseStatsFromDb,
+});
+
+/**
+ * Rewrite the notes in the database of an athlete other than the open one, without
+ * closing the open one
+ */
+export const rewriteAthleteNotes = (athleteId: string): Promise<number> =>
+  rewriteNotesInDbFile(getAthleteDatabaseName(athleteId));
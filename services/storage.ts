@@ -1,24 +1,75 @@
-import { Technique } from '@/types/technique';
+import { Technique, TechniqueRevision } from '@/types/technique';
 import { TrainingSession } from '@/types/session';
-import { UserProfile } from '@/types/profile';
-import { 
-  initializeDatabase,
-  saveTechniqueToDb,
-  getTechniquesFromDb,
-  deleteTechniqueFromDb,
-  getTechniquesBySessionFromDb,
-  saveSessionToDb,
-  getSessionsFromDb,
-  deleteSessionFromDb,
-  getRecentTechniquesFromDb
-} from './database';
-import { runMigration } from './migration';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-// Initialize database and run migration on first import
+import { UserProfile, Promotion } from '@/types/profile';
+import { TrashContents, TRASH_RETENTION_DAYS } from '@/types/trash';
+import { Page } from '@/types/pagination';
+import { SearchResult, NameSearchResults, DEFAULT_SEARCH_LIMIT, DEFAULT_NAME_SEARCH_LIMIT } from '@/types/search';
+import { IntegrityReport, IntegrityRepairResult } from '@/types/integrity';
+import { DatabaseStats } from '@/types/health';
+import { OutboxMutation, OutboxEntry } from '@/types/outbox';
+import { SyncEntity, SyncRecord, SyncConflict } from '@/types/sync';
+import { QuarantineEntity, QuarantineSource, QuarantinedRecord, InvalidRecord } from '@/types/quarantine';
+import {
+  StorageAdapter,
+  TechniquePageQuery,
+  SessionPageQuery,
+  OutboxEntryUpdate,
+  SyncBase,
+  TagRecord,
+  LocationRecord,
+  ImportBatch
+} from '@/types/storage';
+import { DEFAULT_ATHLETE_ID } from '@/types/athlete';
+import { createSqliteAdapter, rewriteAthleteNotes } from './sqliteAdapter';
+import { createMemoryAdapter } from './memoryAdapter';
+import { StorageNotInitializedError, toStorageError } from './storageErrors';
+import { loadActiveAthleteId, getActiveAthleteId, setActiveAthleteId, listAthletes, deleteAthleteFiles } from './athletes';
+
+// Demo mode keeps everything in memory, so trying the app never touches the real database
+const DEMO_MODE = process.env.EXPO_PUBLIC_DEMO_MODE === 'true';
+
+// Demo mode keeps each athlete's store until the app closes, so switching back finds their data
+const memoryAdapters = new Map<string, StorageAdapter>();
+
+const adapterForAthlete = (athleteId: string): StorageAdapter => {
+  if (!DEMO_MODE) return createSqliteAdapter(athleteId);
+
+  let memoryAdapter = memoryAdapters.get(athleteId);
+  if (!memoryAdapter) {
+    memoryAdapter = createMemoryAdapter();
+    memoryAdapters.set(athleteId, memoryAdapter);
+  }
+  return memoryAdapter;
+};
+
+let adapter: StorageAdapter = adapterForAthlete(DEFAULT_ATHLETE_ID);
+// Which athlete was active last time is only read on first use
+let athleteResolved = false;
+
+// Initialize the adapter on first use
 let initialized = false;
 let initializing = false;
 
+// Set while openAthleteStorage switches athlete
+let switching: Promise<void> | null = null;
+// Work running against the open athlete's data, which a switch waits for
+const athleteWork = new Set<Promise<unknown>>();
+
+const trackAthleteWork = async <T>(work: Promise<T>): Promise<T> => {
+  athleteWork.add(work);
+  try {
+    return await work;
+  } finally {
+    athleteWork.delete(work);
+  }
+};
+
+const waitForSwitch = async (): Promise<void> => {
+  while (switching) {
+    await switching.catch(() => {});
+  }
+};
+
 const ensureInitialized = async () => {
   if (initialized) return;
   
@@ -33,52 +84,83 @@ const ensureInitialized = async () => {
   initializing = true;
   
   try {
-    await initializeDatabase();
-    await runMigration();
+    if (!athleteResolved) {
+      const athleteId = await loadActiveAthleteId();
+      if (athleteId !== DEFAULT_ATHLETE_ID) {
+        adapter = adapterForAthlete(athleteId);
+      }
+      athleteResolved = true;
+    }
+
+    await adapter.initialize();
+    await purgeExpiredTrash();
     initialized = true;
     console.log('Storage successfully initialized');
   } catch (error) {
     console.error('Failed to initialize storage:', error);
-    throw error;
+    throw toStorageError(error, 'Failed to open storage', StorageNotInitializedError);
   } finally {
     initializing = false;
   }
 };
 
+// Trash older than the retention period is purged on start. Failing to purge is not fatal.
+const purgeExpiredTrash = async () => {
+  try {
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const purged = await adapter.purgeTrash({ deletedBefore: cutoff });
+    if (purged > 0) {
+      console.log(`Purged ${purged} expired items from trash`);
+    }
+  } catch (error) {
+    console.error('Failed to purge expired trash:', error);
+  }
+};
+
 // Technique Storage
 export const saveTechnique = async (technique: Technique): Promise<void> => {
   try {
     console.log('Storage: Starting to save technique:', technique.name);
     await ensureInitialized();
-    console.log('Storage: Database initialized, calling saveTechniqueToDb');
-    await saveTechniqueToDb(technique);
+    console.log('Storage: Initialized, saving technique');
+    await adapter.saveTechnique(technique);
     console.log('Storage: Technique saved successfully');
   } catch (error) {
     console.error('Error saving technique in storage layer:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     const errorStack = error instanceof Error ? error.stack : undefined;
     console.error('Storage error details:', errorMessage, errorStack);
-    throw new Error(`Failed to save technique: ${errorMessage}`);
+    throw toStorageError(error, 'Failed to save technique');
   }
 };
 
 export const getTechniques = async (): Promise<Technique[]> => {
   try {
     await ensureInitialized();
-    return await getTechniquesFromDb();
+    return await adapter.getTechniques();
   } catch (error) {
     console.error('Error loading techniques:', error);
-    return [];
+    throw toStorageError(error, 'Failed to load techniques');
+  }
+};
+
+export const getTechniquesPage = async (query: TechniquePageQuery = {}): Promise<Page<Technique>> => {
+  try {
+    await ensureInitialized();
+    return await adapter.getTechniquesPage(query);
+  } catch (error) {
+    console.error('Error loading techniques page:', error);
+    throw toStorageError(error, 'Failed to load techniques');
   }
 };
 
 export const deleteTechnique = async (techniqueId: string): Promise<void> => {
   try {
     await ensureInitialized();
-    await deleteTechniqueFromDb(techniqueId);
+    await adapter.deleteTechnique(techniqueId);
   } catch (error) {
     console.error('Error deleting technique:', error);
-    throw new Error('Failed to delete technique');
+    throw toStorageError(error, 'Failed to delete technique');
   }
 };
 
@@ -88,7 +170,7 @@ export const updateTechnique = async (updatedTechnique: Technique): Promise<void
     await saveTechnique(updatedTechnique);
   } catch (error) {
     console.error('Error updating technique:', error);
-    throw new Error('Failed to update technique');
+    throw toStorageError(error, 'Failed to update technique');
   }
 };
 
@@ -96,30 +178,40 @@ export const updateTechnique = async (updatedTechnique: Technique): Promise<void
 export const saveSession = async (session: TrainingSession): Promise<void> => {
   try {
     await ensureInitialized();
-    await saveSessionToDb(session);
+    await adapter.saveSession(session);
   } catch (error) {
     console.error('Error saving session:', error);
-    throw new Error('Failed to save session');
+    throw toStorageError(error, 'Failed to save session');
   }
 };
 
 export const getSessions = async (): Promise<TrainingSession[]> => {
   try {
     await ensureInitialized();
-    return await getSessionsFromDb();
+    return await adapter.getSessions();
   } catch (error) {
     console.error('Error loading sessions:', error);
-    return [];
+    throw toStorageError(error, 'Failed to load sessions');
+  }
+};
+
+export const getSessionsPage = async (query: SessionPageQuery = {}): Promise<Page<TrainingSession>> => {
+  try {
+    await ensureInitialized();
+    return await adapter.getSessionsPage(query);
+  } catch (error) {
+    console.error('Error loading sessions page:', error);
+    throw toStorageError(error, 'Failed to load sessions');
   }
 };
 
 export const deleteSession = async (sessionId: string): Promise<void> => {
   try {
     await ensureInitialized();
-    await deleteSessionFromDb(sessionId);
+    await adapter.deleteSession(sessionId);
   } catch (error) {
     console.error('Error deleting session:', error);
-    throw new Error('Failed to delete session');
+    throw toStorageError(error, 'Failed to delete session');
   }
 };
 
@@ -127,53 +219,573 @@ export const deleteSession = async (sessionId: string): Promise<void> => {
 export const getTechniquesBySession = async (sessionId: string): Promise<Technique[]> => {
   try {
     await ensureInitialized();
-    return await getTechniquesBySessionFromDb(sessionId);
+    return await adapter.getTechniquesBySession(sessionId);
   } catch (error) {
     console.error('Error loading techniques by session:', error);
-    return [];
+    throw toStorageError(error, 'Failed to load techniques for session');
+  }
+};
+
+export const getTechniqueRevisions = async (techniqueId: string): Promise<TechniqueRevision[]> => {
+  try {
+    await ensureInitialized();
+    return await adapter.getTechniqueRevisions(techniqueId);
+  } catch (error) {
+    console.error('Error loading technique revisions:', error);
+    throw toStorageError(error, 'Failed to load technique history');
   }
 };
 
 export const getRecentTechniques = async (limit: number = 10): Promise<Technique[]> => {
   try {
     await ensureInitialized();
-    return await getRecentTechniquesFromDb(limit);
+    return await adapter.getRecentTechniques(limit);
   } catch (error) {
     console.error('Error loading recent techniques:', error);
-    return [];
+    throw toStorageError(error, 'Failed to load recent techniques');
   }
 };
 
-// Profile Storage
-const PROFILE_STORAGE_KEY = 'flow_roll_user_profile';
+// Trash Storage
+export const search = async (query: string, limit: number = DEFAULT_SEARCH_LIMIT): Promise<SearchResult[]> => {
+  try {
+    await ensureInitialized();
+    return await adapter.search(query, limit);
+  } catch (error) {
+    console.error('Error searching:', error);
+    throw toStorageError(error, 'Failed to search');
+  }
+};
+
+export const searchNames = async (
+  query: string,
+  limit: number = DEFAULT_NAME_SEARCH_LIMIT
+): Promise<NameSearchResults> => {
+  try {
+    await ensureInitialized();
+    return await adapter.searchNames(query, limit);
+  } catch (error) {
+    console.error('Error searching names:', error);
+    throw toStorageError(error, 'Failed to search');
+  }
+};
+
+export const getTrash = async (): Promise<TrashContents> => {
+  try {
+    await ensureInitialized();
+    return await adapter.getTrash();
+  } catch (error) {
+    console.error('Error loading trash:', error);
+    throw toStorageError(error, 'Failed to load trash');
+  }
+};
+
+export const restoreTechnique = async (techniqueId: string): Promise<void> => {
+  try {
+    await ensureInitialized();
+    await adapter.restoreTechnique(techniqueId);
+  } catch (error) {
+    console.error('Error restoring technique:', error);
+    throw toStorageError(error, 'Failed to restore technique');
+  }
+};
+
+export const restoreSession = async (sessionId: string): Promise<void> => {
+  try {
+    await ensureInitialized();
+    await adapter.restoreSession(sessionId);
+  } catch (error) {
+    console.error('Error restoring session:', error);
+    throw toStorageError(error, 'Failed to restore session');
+  }
+};
+
+export const purgeTechnique = async (techniqueId: string): Promise<void> => {
+  try {
+    await ensureInitialized();
+    await adapter.purgeTrash({ techniqueIds: [techniqueId] });
+  } catch (error) {
+    console.error('Error purging technique:', error);
+    throw toStorageError(error, 'Failed to permanently delete technique');
+  }
+};
+
+export const purgeSession = async (sessionId: string): Promise<void> => {
+  try {
+    await ensureInitialized();
+    await adapter.purgeTrash({ sessionIds: [sessionId] });
+  } catch (error) {
+    console.error('Error purging session:', error);
+    throw toStorageError(error, 'Failed to permanently delete session');
+  }
+};
+
+export const emptyTrash = async (): Promise<number> => {
+  try {
+    await ensureInitialized();
+    return await adapter.purgeTrash();
+  } catch (error) {
+    console.error('Error emptying trash:', error);
+    throw toStorageError(error, 'Failed to empty trash');
+  }
+};
+
+// Diagnostics
+export const checkIntegrity = async (): Promise<IntegrityReport> => {
+  try {
+    await ensureInitialized();
+    return await adapter.checkIntegrity();
+  } catch (error) {
+    console.error('Error checking data integrity:', error);
+    throw toStorageError(error, 'Failed to check data integrity');
+  }
+};
+
+// Opens the database if needed, so a failure here means it can't be opened
+export const getDatabaseStats = async (): Promise<DatabaseStats> => {
+  try {
+    await ensureInitialized();
+    return await adapter.getStats();
+  } catch (error) {
+    console.error('Error reading database stats:', error);
+    throw toStorageError(error, 'Database unavailable');
+  }
+};
+
+export const repairIntegrity = async (): Promise<IntegrityRepairResult> => {
+  try {
+    await ensureInitialized();
+    return await adapter.repairIntegrity();
+  } catch (error) {
+    console.error('Error repairing data integrity:', error);
+    throw toStorageError(error, 'Failed to repair data integrity');
+  }
+};
+
+// Demo mode's stores are all in memory already; SQLite ones are opened apart from the active one
+const rewriteOtherAthleteNotes = (athleteId: string): Promise<number> =>
+  DEMO_MODE ? adapterForAthlete(athleteId).rewriteNotes() : rewriteAthleteNotes(athleteId);
+
+/**
+ * Rewrite stored notes after notes encryption is turned on or off. Every athlete's notes
+ * are rewritten, since they all share the one data key. The active athlete's store stays
+ * open throughout, and switching athlete waits until every store is done.
+ */
+export const rewriteNotes = async (): Promise<number> => {
+  try {
+    await waitForSwitch();
+    return await trackAthleteWork((async () => {
+      await ensureInitialized();
+      let rewritten = await adapter.rewriteNotes();
+
+      const activeAthleteId = getActiveAthleteId();
+      for (const athlete of await listAthletes()) {
+        if (athlete.id !== activeAthleteId) {
+          rewritten += await rewriteOtherAthleteNotes(athlete.id);
+        }
+      }
+      return rewritten;
+    })());
+  } catch (error) {
+    console.error('Error rewriting notes:', error);
+    throw toStorageError(error, 'Failed to rewrite notes');
+  }
+};
+
+// Outbox Storage
+export const addOutboxEntry = async (mutation: OutboxMutation): Promise<number> => {
+  try {
+    await ensureInitialized();
+    return await adapter.addOutboxEntry(mutation);
+  } catch (error) {
+    console.error('Error queuing change:', error);
+    throw toStorageError(error, 'Failed to queue change');
+  }
+};
+
+export const getOutbox = async (): Promise<OutboxEntry[]> => {
+  try {
+    await ensureInitialized();
+    return await adapter.getOutbox();
+  } catch (error) {
+    console.error('Error loading outbox:', error);
+    throw toStorageError(error, 'Failed to load queued changes');
+  }
+};
+
+export const updateOutboxEntry = async (entryId: number, update: OutboxEntryUpdate): Promise<void> => {
+  try {
+    await ensureInitialized();
+    await adapter.updateOutboxEntry(entryId, update);
+  } catch (error) {
+    console.error('Error updating queued change:', error);
+    throw toStorageError(error, 'Failed to update queued change');
+  }
+};
+
+export const deleteOutboxEntry = async (entryId: number): Promise<void> => {
+  try {
+    await ensureInitialized();
+    await adapter.deleteOutboxEntry(entryId);
+  } catch (error) {
+    console.error('Error removing queued change:', error);
+    throw toStorageError(error, 'Failed to remove queued change');
+  }
+};
+
+// Sync Storage
+export const getSyncRecord = async (entity: SyncEntity, entityId: string): Promise<SyncRecord | null> => {
+  try {
+    await ensureInitialized();
+    return await adapter.getSyncRecord(entity, entityId);
+  } catch (error) {
+    console.error('Error loading record for sync:', error);
+    throw toStorageError(error, `Failed to load ${entity}`);
+  }
+};
+
+export const applySyncedRecords = async (techniques: Technique[], sessions: TrainingSession[]): Promise<void> => {
+  try {
+    await ensureInitialized();
+    await adapter.applySyncedRecords(techniques, sessions);
+  } catch (error) {
+    console.error('Error applying synced changes:', error);
+    throw toStorageError(error, 'Failed to apply synced changes');
+  }
+};
+
+export const setRecordVersion = async (entity: SyncEntity, entityId: string, version: number): Promise<void> => {
+  try {
+    await ensureInitialized();
+    await adapter.setRecordVersion(entity, entityId, version);
+  } catch (error) {
+    console.error('Error updating record version:', error);
+    throw toStorageError(error, `Failed to update ${entity} version`);
+  }
+};
+
+export const getSyncBase = async (entity: SyncEntity, entityId: string): Promise<SyncBase | null> => {
+  try {
+    await ensureInitialized();
+    return await adapter.getSyncBase(entity, entityId);
+  } catch (error) {
+    console.error('Error loading sync base:', error);
+    throw toStorageError(error, 'Failed to load sync base');
+  }
+};
+
+export const setSyncBase = async (entity: SyncEntity, record: SyncRecord): Promise<void> => {
+  try {
+    await ensureInitialized();
+    await adapter.setSyncBase(entity, record);
+  } catch (error) {
+    console.error('Error saving sync base:', error);
+    throw toStorageError(error, 'Failed to save sync base');
+  }
+};
+
+export const saveSyncConflict = async (conflict: Omit<SyncConflict, 'id'>): Promise<void> => {
+  try {
+    await ensureInitialized();
+    await adapter.saveSyncConflict(conflict);
+  } catch (error) {
+    console.error('Error saving sync conflict:', error);
+    throw toStorageError(error, 'Failed to save sync conflict');
+  }
+};
+
+export const getSyncConflicts = async (): Promise<SyncConflict[]> => {
+  try {
+    await ensureInitialized();
+    return await adapter.getSyncConflicts();
+  } catch (error) {
+    console.error('Error loading sync conflicts:', error);
+    throw toStorageError(error, 'Failed to load sync conflicts');
+  }
+};
+
+export const getSyncConflict = async (entity: SyncEntity, entityId: string): Promise<SyncConflict | null> => {
+  try {
+    await ensureInitialized();
+    return await adapter.getSyncConflict(entity, entityId);
+  } catch (error) {
+    console.error('Error loading sync conflict:', error);
+    throw toStorageError(error, 'Failed to load sync conflict');
+  }
+};
+
+export const deleteSyncConflict = async (conflictId: number): Promise<void> => {
+  try {
+    await ensureInitialized();
+    await adapter.deleteSyncConflict(conflictId);
+  } catch (error) {
+    console.error('Error removing sync conflict:', error);
+    throw toStorageError(error, 'Failed to remove sync conflict');
+  }
+};
 
-export const saveProfile = async (profile: UserProfile): Promise<void> => {
+// Quarantine Storage
+export const quarantineRecords = async (
+  source: QuarantineSource,
+  entity: QuarantineEntity,
+  records: InvalidRecord[]
+): Promise<void> => {
   try {
-    await AsyncStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profile));
+    await ensureInitialized();
+    await adapter.quarantineRecords(source, entity, records);
+  } catch (error) {
+    console.error('Error quarantining records:', error);
+    throw toStorageError(error, 'Failed to quarantine records');
+  }
+};
+
+export const getQuarantinedRecords = async (): Promise<QuarantinedRecord[]> => {
+  try {
+    await ensureInitialized();
+    return await adapter.getQuarantinedRecords();
+  } catch (error) {
+    console.error('Error loading quarantined records:', error);
+    throw toStorageError(error, 'Failed to load quarantined records');
+  }
+};
+
+export const discardQuarantinedRecord = async (recordId: number): Promise<void> => {
+  try {
+    await ensureInitialized();
+    await adapter.discardQuarantinedRecord(recordId);
+  } catch (error) {
+    console.error('Error discarding quarantined record:', error);
+    throw toStorageError(error, 'Failed to discard record');
+  }
+};
+
+// Profile Storage
+export const saveProfile = async (profile: UserProfile, promotion?: Promotion): Promise<void> => {
+  try {
+    await ensureInitialized();
+    await adapter.saveProfile(profile, promotion);
   } catch (error) {
     console.error('Error saving profile:', error);
-    throw new Error('Failed to save profile');
+    throw toStorageError(error, 'Failed to save profile');
   }
 };
 
 export const getProfile = async (): Promise<UserProfile | null> => {
   try {
-    const profileJson = await AsyncStorage.getItem(PROFILE_STORAGE_KEY);
-    if (profileJson) {
-      return JSON.parse(profileJson) as UserProfile;
-    }
-    return null;
+    await ensureInitialized();
+    return await adapter.getProfile();
   } catch (error) {
     console.error('Error loading profile:', error);
-    return null;
+    throw toStorageError(error, 'Failed to load profile');
+  }
+};
+
+export const replaceProfile = async (profile: UserProfile, promotions: Promotion[]): Promise<void> => {
+  try {
+    await ensureInitialized();
+    await adapter.replaceProfile(profile, promotions);
+  } catch (error) {
+    console.error('Error replacing profile:', error);
+    throw toStorageError(error, 'Failed to save profile');
   }
 };
 
 export const deleteProfile = async (): Promise<void> => {
   try {
-    await AsyncStorage.removeItem(PROFILE_STORAGE_KEY);
+    await ensureInitialized();
+    await adapter.deleteProfile();
   } catch (error) {
     console.error('Error deleting profile:', error);
-    throw new Error('Failed to delete profile');
+    throw toStorageError(error, 'Failed to delete profile');
   }
-};
\ No newline at end of file
+};
+
+export const getPromotions = async (): Promise<Promotion[]> => {
+  try {
+    await ensureInitialized();
+    return await adapter.getPromotions();
+  } catch (error) {
+    console.error('Error loading promotions:', error);
+    throw toStorageError(error, 'Failed to load promotions');
+  }
+};
+
+export const deletePromotion = async (promotionId: string): Promise<void> => {
+  try {
+    await ensureInitialized();
+    await adapter.deletePromotion(promotionId);
+  } catch (error) {
+    console.error('Error deleting promotion:', error);
+    throw toStorageError(error, 'Failed to delete promotion');
+  }
+};
+
+// Tag Storage
+export const getAllTags = async (): Promise<TagRecord[]> => {
+  try {
+    await ensureInitialized();
+    return await adapter.getAllTags();
+  } catch (error) {
+    console.error('Error loading tags:', error);
+    throw toStorageError(error, 'Failed to load tags');
+  }
+};
+
+export const getPopularTags = async (limit: number = 20): Promise<string[]> => {
+  try {
+    await ensureInitialized();
+    return await adapter.getPopularTags(limit);
+  } catch (error) {
+    console.error('Error loading popular tags:', error);
+    throw toStorageError(error, 'Failed to load popular tags');
+  }
+};
+
+export const searchTags = async (query: string, limit: number = 10): Promise<string[]> => {
+  try {
+    await ensureInitialized();
+    return await adapter.searchTags(query, limit);
+  } catch (error) {
+    console.error('Error searching tags:', error);
+    throw toStorageError(error, 'Failed to search tags');
+  }
+};
+
+export const createCustomTag = async (tagName: string): Promise<void> => {
+  try {
+    await ensureInitialized();
+    await adapter.createCustomTag(tagName);
+  } catch (error) {
+    console.error('Error creating custom tag:', error);
+    throw toStorageError(error, 'Failed to create custom tag');
+  }
+};
+
+// Location Storage
+export const getLocations = async (): Promise<string[]> => {
+  try {
+    await ensureInitialized();
+    return await adapter.getLocations();
+  } catch (error) {
+    console.error('Error loading locations:', error);
+    throw toStorageError(error, 'Failed to load locations');
+  }
+};
+
+export const getLocationRecords = async (): Promise<LocationRecord[]> => {
+  try {
+    await ensureInitialized();
+    return await adapter.getLocationRecords();
+  } catch (error) {
+    console.error('Error loading location records:', error);
+    throw toStorageError(error, 'Failed to load locations');
+  }
+};
+
+export const getUniqueSubmissions = async (): Promise<string[]> => {
+  try {
+    await ensureInitialized();
+    return await adapter.getUniqueSubmissions();
+  } catch (error) {
+    console.error('Error loading submissions:', error);
+    throw toStorageError(error, 'Failed to load submissions');
+  }
+};
+
+// Import Storage
+export const importData = async (batch: ImportBatch): Promise<void> => {
+  try {
+    await ensureInitialized();
+    await adapter.importData(batch);
+  } catch (error) {
+    console.error('Error importing data:', error);
+    throw toStorageError(error, 'Failed to import data');
+  }
+};
+
+// Wipe everything: database tables, profile and migration flags
+export const clearAllData = async (): Promise<void> => {
+  await ensureInitialized();
+
+  try {
+    await adapter.clearAllData();
+
+    // Initialize again on next access to reseed predefined tags
+    initialized = false;
+  } catch (error) {
+    console.error('Error clearing all data:', error);
+    throw toStorageError(error, 'Failed to clear all data');
+  }
+};
+
+// Close the database so its file can be moved or copied. The next storage call opens it again.
+export const closeStorage = async (): Promise<void> => {
+  await adapter.close();
+  initialized = false;
+};
+
+/**
+ * Keep data somewhere else from now on, such as an in-memory adapter for tests and
+ * previews. The current adapter is closed and the new one is opened on next use.
+ */
+export const setStorageAdapter = async (next: StorageAdapter): Promise<void> => {
+  await closeStorage();
+  adapter = next;
+  athleteResolved = true;
+};
+
+// Athlete Storage
+
+/**
+ * Run background work, such as sending the outbox, against the active athlete's data.
+ * Switching athlete waits for it, so nothing it reads or writes lands in another athlete's
+ * store. Work started while a switch is under way is skipped and resolves to undefined.
+ */
+export const runForActiveAthlete = async <T>(work: (athleteId: string) => Promise<T>): Promise<T | undefined> => {
+  await ensureInitialized();
+  if (switching) return undefined;
+  return trackAthleteWork(work(getActiveAthleteId()));
+};
+
+// Switch to an athlete's data once work for the current one is done. Their store is opened on next use.
+export const openAthleteStorage = async (athleteId: string): Promise<void> => {
+  await waitForSwitch();
+  switching = (async () => {
+    await Promise.allSettled([...athleteWork]);
+    await setStorageAdapter(adapterForAthlete(athleteId));
+    await setActiveAthleteId(athleteId);
+  })();
+
+  try {
+    await switching;
+  } finally {
+    switching = null;
+  }
+};
+
+// Delete an athlete other than the active one, with everything logged for them
+export const deleteAthleteStorage = async (athleteId: string): Promise<void> => {
+  try {
+    await deleteAthleteFiles(athleteId);
+    memoryAdapters.delete(athleteId);
+  } catch (error) {
+    console.error('Error deleting athlete:', error);
+    throw toStorageError(error, 'Failed to delete profile');
+  }
+};
+
+/**
+ * Delete every athlete but the default one and switch to the default athlete, whose data
+ * the caller clears. Used when a forgotten PIN means nothing on the device is kept.
+ */
+export const deleteOtherAthleteStorage = async (): Promise<void> => {
+  await openAthleteStorage(DEFAULT_ATHLETE_ID);
+  for (const athlete of await listAthletes()) {
+    if (athlete.id !== DEFAULT_ATHLETE_ID) {
+      await deleteAthleteStorage(athlete.id);
+    }
+  }
+};
+
+// False in demo mode and with other in-memory adapters, where nothing outlives the app
+export const isStoragePersistent = (): boolean => adapter.isPersistent;
@@ -0,0 +1,91 @@
+import { DataError, DataErrorKind } from '@/types/dataError';
+import { RecordValidationError } from '@/utils/recordValidation';
+import { ApiError, ApiNetworkError, ApiTimeoutError, ApiValidationError } from './apiErrors';
+
+/**
+ * Errors thrown by the local storage layer. Reads used to return empty results when they
+ * failed, which looked exactly like having no data; these say what went wrong instead.
+ */
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+// The database couldn't be opened or migrated, or was used before it was
+export class StorageNotInitializedError extends StorageError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageNotInitializedError';
+  }
+}
+
+// SQLite reports the file as damaged, or not a database at all
+export class StorageCorruptError extends StorageError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageCorruptError';
+  }
+}
+
+// A write broke a constraint: a duplicate key, a missing parent row or a CHECK
+export class StorageConstraintError extends StorageError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageConstraintError';
+  }
+}
+
+// A record failed validation before it was written
+export class StorageValidationError extends StorageError {
+  readonly errors: string[];
+
+  constructor(message: string, errors: string[]) {
+    super(message);
+    this.name = 'StorageValidationError';
+    this.errors = errors;
+  }
+}
+
+const CORRUPT_PATTERN = /SQLITE_CORRUPT|SQLITE_NOTADB|malformed|not a database/i;
+const CONSTRAINT_PATTERN = /SQLITE_CONSTRAINT|constraint failed/i;
+
+/**
+ * The typed error for a failure while `message` was being done. Storage errors pass through
+ * unchanged, so wrapping again on the way up keeps the original kind. Others are classified
+ * from the SQLite message, falling back to `Fallback`.
+ */
+export const toStorageError = (
+  error: unknown,
+  message: string,
+  Fallback: new (message: string) => StorageError = StorageError
+): StorageError => {
+  if (error instanceof StorageError) return error;
+
+  const detail = error instanceof Error ? error.message : 'Unknown error';
+  const fullMessage = `${message}: ${detail}`;
+
+  if (error instanceof RecordValidationError) {
+    return new StorageValidationError(fullMessage, error.errors);
+  }
+  if (CORRUPT_PATTERN.test(detail)) return new StorageCorruptError(fullMessage);
+  if (CONSTRAINT_PATTERN.test(detail)) return new StorageConstraintError(fullMessage);
+  return new Fallback(fullMessage);
+};
+
+const dataErrorKind = (error: unknown): DataErrorKind => {
+  if (error instanceof StorageNotInitializedError) return 'not-initialized';
+  if (error instanceof StorageCorruptError) return 'corrupt';
+  if (error instanceof StorageConstraintError) return 'constraint';
+  if (error instanceof StorageValidationError || error instanceof ApiValidationError) return 'validation';
+  if (error instanceof ApiNetworkError || error instanceof ApiTimeoutError) return 'network';
+  if (error instanceof ApiError) return 'server';
+  return 'unknown';
+};
+
+// Reduce whatever a load threw, local or remote, to what the error screen needs
+export const toDataError = (error: unknown): DataError => ({
+  kind: dataErrorKind(error),
+  message: error instanceof Error ? error.message : 'Unknown error',
+});
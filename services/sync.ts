@@ -0,0 +1,299 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { Technique } from '@/types/technique';
+import { TrainingSession } from '@/types/session';
+import { OutboxEntry, OutboxMutation } from '@/types/outbox';
+import { SyncEntity, SyncRecord, SyncConflict, SyncStatus, SyncResult, ConflictSide } from '@/types/sync';
+import { getChanges } from './api';
+import { getOutboxEntries, processOutbox, replaceQueuedMutations, startOutbox } from './outbox';
+import { mergeRecord, applyConflictChoices, sameContent } from './syncMerge';
+import * as Storage from './storage';
+import { athleteScopedName } from './athletes';
+
+/**
+ * Two-way sync
+ *
+ * Pulls techniques and sessions other devices changed since the last sync cursor, then
+ * pushes this device's queued writes through the outbox. A pulled record with no local
+ * changes replaces the local copy. One with local changes is merged field by field
+ * against the last version both sides agreed on (see ./syncMerge), and the queued writes
+ * for it are replaced by one write of the merged record. Fields both sides changed
+ * differently are kept as a conflict for the user to settle; until then nothing is
+ * sent for that record.
+ */
+
+// Each athlete syncs separately; these keys are scoped to the active one
+const SYNC_CURSOR_KEY = 'flow_roll_sync_cursor';
+const LAST_SYNCED_KEY = 'flow_roll_last_synced_at';
+const SYNC_PAGE_SIZE = 200;
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+type SyncListener = (status: SyncStatus) => void;
+
+let syncing: Promise<SyncResult> | null = null;
+let onPulled: (() => void) | null = null;
+const listeners = new Set<SyncListener>();
+
+export const getSyncStatus = async (): Promise<SyncStatus> => {
+  const lastSyncedAt = await AsyncStorage.getItem(athleteScopedName(LAST_SYNCED_KEY));
+  return {
+    lastSyncedAt: lastSyncedAt ? new Date(lastSyncedAt) : null,
+    isSyncing: syncing !== null,
+    conflicts: (await Storage.getSyncConflicts()).length,
+  };
+};
+
+// The status is only shown, so failing to read it doesn't fail the sync that changed it
+const notifyListeners = async (): Promise<void> => {
+  if (listeners.size === 0) return;
+  let status: SyncStatus;
+  try {
+    status = await getSyncStatus();
+  } catch (error) {
+    console.warn('Failed to read sync status:', error instanceof Error ? error.message : error);
+    return;
+  }
+  listeners.forEach(listener => listener(status));
+};
+
+/**
+ * Call `listener` with the sync status whenever it changes. Returns a function that
+ * stops listening.
+ */
+export const subscribeToSync = (listener: SyncListener): (() => void) => {
+  listeners.add(listener);
+  getSyncStatus().then(listener, error => {
+    console.warn('Failed to read sync status:', error instanceof Error ? error.message : error);
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getSyncConflicts = (): Promise<SyncConflict[]> => Storage.getSyncConflicts();
+
+// The one write that takes a record from the server's version to `record`, if any
+const mutationFor = (entity: SyncEntity, record: SyncRecord, remote: SyncRecord): OutboxMutation | undefined => {
+  if (record.deletedAt) {
+    return remote.deletedAt ? undefined : { entity, operation: 'delete', entityId: record.id };
+  }
+  if (!remote.deletedAt && sameContent(entity, record, remote)) return undefined;
+  return { entity, operation: 'update', entityId: record.id, payload: record } as OutboxMutation;
+};
+
+// What pulling one record does: a row to write, then bookkeeping once it's written
+interface Reconciliation {
+  outcome: 'skipped' | 'applied' | 'merged' | 'conflict';
+  write?: SyncRecord;
+  settle?: () => Promise<void>;
+}
+
+const reconcile = async (entity: SyncEntity, remote: SyncRecord, queued: OutboxEntry[]): Promise<Reconciliation> => {
+  const base = await Storage.getSyncBase(entity, remote.id);
+  if (base && (remote.version ?? 0) <= base.version) {
+    return { outcome: 'skipped' };
+  }
+
+  const hasLocalChanges = queued.some(entry => entry.entity === entity && entry.entityId === remote.id);
+  const openConflict = await Storage.getSyncConflict(entity, remote.id);
+
+  if (!hasLocalChanges && !openConflict) {
+    return { outcome: 'applied', write: remote, settle: () => Storage.setSyncBase(entity, remote) };
+  }
+
+  // A record missing here was removed on this device
+  const local = (await Storage.getSyncRecord(entity, remote.id)) ?? { ...remote, deletedAt: new Date() };
+  const { merged, conflicts } = mergeRecord(entity, base?.record ?? null, local, remote);
+
+  if (conflicts.length > 0) {
+    return {
+      outcome: 'conflict',
+      settle: async () => {
+        await Storage.saveSyncConflict({
+          entity,
+          entityId: remote.id,
+          local,
+          remote,
+          merged,
+          fields: conflicts,
+          detectedAt: new Date(),
+        });
+        // Held back until the user picks; they'd be turned down as stale anyway
+        await replaceQueuedMutations(entity, remote.id);
+      },
+    };
+  }
+
+  return {
+    outcome: 'merged',
+    write: merged,
+    settle: async () => {
+      await Storage.setSyncBase(entity, remote);
+      await replaceQueuedMutations(entity, remote.id, mutationFor(entity, merged, remote));
+      if (openConflict) await Storage.deleteSyncConflict(openConflict.id);
+    },
+  };
+};
+
+const pullChanges = async (athleteId: string): Promise<SyncResult> => {
+  const result: SyncResult = { pulled: 0, merged: 0, conflicts: 0 };
+  let cursor = await AsyncStorage.getItem(athleteScopedName(SYNC_CURSOR_KEY, athleteId));
+  let hasMore = true;
+
+  while (hasMore) {
+    const changes = await getChanges(cursor, SYNC_PAGE_SIZE);
+    const queued = await getOutboxEntries();
+    const techniques: Technique[] = [];
+    const sessions: TrainingSession[] = [];
+    const settles: (() => Promise<void>)[] = [];
+
+    const pulled: [SyncEntity, SyncRecord][] = [
+      ...changes.techniques.map((technique): [SyncEntity, SyncRecord] => ['technique', technique]),
+      ...changes.sessions.map((session): [SyncEntity, SyncRecord] => ['session', session]),
+    ];
+
+    for (const [entity, remote] of pulled) {
+      const { outcome, write, settle } = await reconcile(entity, remote, queued);
+      if (outcome === 'skipped') continue;
+
+      result.pulled++;
+      if (outcome === 'merged') result.merged++;
+      if (outcome === 'conflict') result.conflicts++;
+      if (write && entity === 'technique') techniques.push(write as Technique);
+      if (write && entity === 'session') sessions.push(write as TrainingSession);
+      if (settle) settles.push(settle);
+    }
+
+    // Write the whole page first, so a failure leaves the cursor where it was
+    await Storage.applySyncedRecords(techniques, sessions);
+    for (const settle of settles) {
+      await settle();
+    }
+
+    cursor = changes.cursor;
+    await AsyncStorage.setItem(athleteScopedName(SYNC_CURSOR_KEY, athleteId), cursor);
+    hasMore = changes.hasMore;
+  }
+
+  return result;
+};
+
+// Syncs the active athlete's data; switching athlete waits for it
+const syncActiveAthlete = (): Promise<SyncResult | undefined> =>
+  Storage.runForActiveAthlete(async athleteId => {
+    const result = await pullChanges(athleteId);
+    await processOutbox({ ignoreBackoff: true });
+    await AsyncStorage.setItem(athleteScopedName(LAST_SYNCED_KEY, athleteId), new Date().toISOString());
+    return result;
+  });
+
+/**
+ * Pull changes from the server, then push this device's queued writes. Only one sync
+ * runs at a time; calls made during a sync wait for it. Rejects if the server can't
+ * be reached. Nothing is synced while athletes are being switched.
+ */
+export const syncNow = async (): Promise<SyncResult> => {
+  if (syncing) return syncing;
+
+  syncing = (async () => {
+    try {
+      const result = await syncActiveAthlete() ?? { pulled: 0, merged: 0, conflicts: 0 };
+      if (result.pulled > 0) onPulled?.();
+      console.log(`Sync complete: ${result.pulled} pulled, ${result.merged} merged, ${result.conflicts} conflicts`);
+      return result;
+    } finally {
+      syncing = null;
+      await notifyListeners();
+    }
+  })();
+
+  await notifyListeners();
+  return syncing;
+};
+
+/**
+ * Settle a conflict with the user's pick for each conflicting field, then send the result.
+ * The record is merged again against this device's current copy first, so edits made
+ * since the conflict was found are kept.
+ */
+export const resolveSyncConflict = async (
+  conflict: SyncConflict,
+  choices: Record<string, ConflictSide>
+): Promise<void> => {
+  const { entity, entityId, remote } = conflict;
+  const base = await Storage.getSyncBase(entity, entityId);
+  const local = (await Storage.getSyncRecord(entity, entityId)) ?? conflict.local;
+
+  const result = mergeRecord(entity, base?.record ?? null, local, remote);
+  const resolved: SyncRecord = {
+    ...applyConflictChoices(
+      result,
+      local.deletedAt ? null : local,
+      remote.deletedAt ? null : remote,
+      choices
+    ),
+    version: remote.version,
+    updatedAt: new Date(),
+  };
+
+  await Storage.applySyncedRecords(
+    entity === 'technique' ? [resolved as Technique] : [],
+    entity === 'session' ? [resolved as TrainingSession] : []
+  );
+  await Storage.setSyncBase(entity, remote);
+  await replaceQueuedMutations(entity, entityId, mutationFor(entity, resolved, remote));
+  await Storage.deleteSyncConflict(conflict.id);
+  await notifyListeners();
+  // Sent without holding up the conflict screen; the outbox retries if it fails
+  processOutbox({ ignoreBackoff: true }).catch(error => {
+    console.warn('Failed to send resolved conflict:', error instanceof Error ? error.message : error);
+  });
+};
+
+const syncInBackground = (): void => {
+  syncNow().catch(error => {
+    console.warn('Sync failed:', error instanceof Error ? error.message : error);
+  });
+};
+
+/**
+ * Sync now, then every minute while the app is open, and whenever the device reconnects
+ * or the app returns to the foreground. Queued writes are also sent as they are made.
+ * `onChanges` is called after a sync changes local data. Returns a function that stops.
+ */
+export const startSync = (onChanges: () => void): (() => void) => {
+  onPulled = onChanges;
+  const stopOutbox = startOutbox();
+  let wasConnected: boolean | null = null;
+
+  const unsubscribeNetInfo = NetInfo.addEventListener(state => {
+    const isConnected = state.isConnected === true && state.isInternetReachable !== false;
+    if (isConnected && wasConnected === false) {
+      syncInBackground();
+    }
+    wasConnected = isConnected;
+  });
+
+  const appStateSubscription = AppState.addEventListener('change', nextState => {
+    if (nextState === 'active') {
+      syncInBackground();
+    }
+  });
+
+  const interval = setInterval(() => {
+    if (AppState.currentState === 'active') {
+      syncInBackground();
+    }
+  }, SYNC_INTERVAL_MS);
+
+  syncInBackground();
+
+  return () => {
+    onPulled = null;
+    stopOutbox();
+    unsubscribeNetInfo();
+    appStateSubscription.remove();
+    clearInterval(interval);
+  };
+};
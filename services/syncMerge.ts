@@ -0,0 +1,250 @@
+import { Technique, TechniqueLink } from '@/types/technique';
+import { TrainingSession } from '@/types/session';
+import { SyncEntity, SyncRecord, ConflictSide } from '@/types/sync';
+
+/**
+ * Three-way merge of a record changed on this device and on the server
+ *
+ * `base` is the last server version both sides agreed on, or null if there isn't one.
+ * A field only one side changed takes that side's value. Tag sets, a session's
+ * techniques and its submissions merge item by item, and submission counts add up
+ * both sides' changes per name. Links merge by id, with the later edit winning a clash.
+ * Any other field both sides changed to different values is a conflict for the user.
+ */
+
+export interface MergeResult<T extends SyncRecord = SyncRecord> {
+  merged: T;
+  conflicts: string[]; // Field names, or 'deleted' for a delete/edit clash
+}
+
+// Notes saved empty read back as null; treat them the same
+const normalize = (value: unknown): unknown => {
+  if (value instanceof Date) return value.getTime();
+  if (value === undefined || value === '') return null;
+  return value;
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => normalize(a) === normalize(b);
+
+const later = (a?: Date, b?: Date): Date | undefined => {
+  if (!a || !b) return a ?? b;
+  return a.getTime() >= b.getTime() ? a : b;
+};
+
+const mergeField = <T extends SyncRecord, K extends keyof T>(
+  field: K,
+  base: T | null,
+  local: T,
+  remote: T,
+  conflicts: string[]
+): T[K] => {
+  if (sameValue(local[field], remote[field])) return local[field];
+  if (base && sameValue(base[field], local[field])) return remote[field];
+  if (base && sameValue(base[field], remote[field])) return local[field];
+  conflicts.push(String(field));
+  return remote[field];
+};
+
+/**
+ * Keeps items either side added, drops items either side removed. Local order first,
+ * then remote additions. Without a base nothing counts as removed.
+ */
+export const mergeSets = (base: string[] | null, local: string[], remote: string[]): string[] => {
+  const combined = [...local, ...remote.filter(item => !local.includes(item))];
+  if (!base) return combined;
+
+  const removed = new Set(base.filter(item => !local.includes(item) || !remote.includes(item)));
+  return combined.filter(item => !removed.has(item));
+};
+
+const submissionCountsOf = (session: TrainingSession): Record<string, number> =>
+  Object.fromEntries(session.submissions.map(name => [name, session.submissionCounts[name] || 1]));
+
+/**
+ * Adds both sides' changes to each submission count, so two devices that each logged
+ * another armbar end up with both. Names that reach zero are dropped. Without a base the
+ * higher count wins, since the two may have logged the same submissions.
+ */
+export const mergeSubmissionCounts = (
+  base: TrainingSession | null,
+  local: TrainingSession,
+  remote: TrainingSession
+): Record<string, number> => {
+  const baseCounts = base ? submissionCountsOf(base) : null;
+  const localCounts = submissionCountsOf(local);
+  const remoteCounts = submissionCountsOf(remote);
+  const names = mergeSets(null, local.submissions, remote.submissions);
+
+  const merged: Record<string, number> = {};
+  for (const name of names) {
+    const localCount = localCounts[name] ?? 0;
+    const remoteCount = remoteCounts[name] ?? 0;
+    const count = baseCounts
+      ? localCount + remoteCount - (baseCounts[name] ?? 0)
+      : Math.max(localCount, remoteCount);
+    if (count > 0) merged[name] = count;
+  }
+  return merged;
+};
+
+const sameLink = (a: TechniqueLink, b: TechniqueLink): boolean =>
+  sameValue(a.url, b.url) && sameValue(a.title, b.title);
+
+const mergeLinks = (
+  base: TechniqueLink[] | null,
+  local: TechniqueLink[],
+  remote: TechniqueLink[]
+): TechniqueLink[] => {
+  const ids = mergeSets(null, local.map(link => link.id), remote.map(link => link.id));
+  const merged: TechniqueLink[] = [];
+
+  for (const id of ids) {
+    const baseLink = base?.find(link => link.id === id);
+    const localLink = local.find(link => link.id === id);
+    const remoteLink = remote.find(link => link.id === id);
+
+    if (localLink && remoteLink) {
+      const newer = (localLink.updatedAt?.getTime() ?? 0) > (remoteLink.updatedAt?.getTime() ?? 0)
+        ? localLink
+        : remoteLink;
+      const pick = <K extends 'url' | 'title'>(field: K): TechniqueLink[K] => {
+        if (sameValue(localLink[field], remoteLink[field])) return localLink[field];
+        if (baseLink && sameValue(baseLink[field], localLink[field])) return remoteLink[field];
+        if (baseLink && sameValue(baseLink[field], remoteLink[field])) return localLink[field];
+        return newer[field];
+      };
+      merged.push({ ...newer, url: pick('url'), title: pick('title') });
+      continue;
+    }
+
+    // Only one side has it: either the other side removed it, or this side added it.
+    // An edit beats a removal.
+    const link = (localLink ?? remoteLink)!;
+    if (!baseLink || !sameLink(baseLink, link)) {
+      merged.push(link);
+    }
+  }
+
+  return merged;
+};
+
+const mergeTechniques = (base: Technique | null, local: Technique, remote: Technique): MergeResult<Technique> => {
+  const conflicts: string[] = [];
+  const merged: Technique = {
+    ...remote,
+    name: mergeField('name', base, local, remote, conflicts),
+    category: mergeField('category', base, local, remote, conflicts),
+    notes: mergeField('notes', base, local, remote, conflicts),
+    timestamp: mergeField('timestamp', base, local, remote, conflicts),
+    sessionId: mergeField('sessionId', base, local, remote, conflicts),
+    tags: mergeSets(base?.tags ?? null, local.tags, remote.tags),
+    links: mergeLinks(base ? base.links ?? [] : null, local.links ?? [], remote.links ?? []),
+    updatedAt: later(local.updatedAt, remote.updatedAt),
+  };
+  return { merged, conflicts };
+};
+
+const mergeSessions = (
+  base: TrainingSession | null,
+  local: TrainingSession,
+  remote: TrainingSession
+): MergeResult<TrainingSession> => {
+  const conflicts: string[] = [];
+  const submissionCounts = mergeSubmissionCounts(base, local, remote);
+  const merged: TrainingSession = {
+    ...remote,
+    date: mergeField('date', base, local, remote, conflicts),
+    location: mergeField('location', base, local, remote, conflicts),
+    type: mergeField('type', base, local, remote, conflicts),
+    notes: mergeField('notes', base, local, remote, conflicts),
+    satisfaction: mergeField('satisfaction', base, local, remote, conflicts),
+    techniqueIds: mergeSets(base?.techniqueIds ?? null, local.techniqueIds, remote.techniqueIds),
+    submissions: Object.keys(submissionCounts),
+    submissionCounts,
+    updatedAt: later(local.updatedAt, remote.updatedAt),
+  };
+  return { merged, conflicts };
+};
+
+// Everything the user can edit, for telling whether a record changed since the base
+const contentOf = (entity: SyncEntity, record: SyncRecord): string => {
+  if (entity === 'technique') {
+    const technique = record as Technique;
+    return JSON.stringify([
+      technique.name,
+      technique.category,
+      normalize(technique.notes),
+      normalize(technique.timestamp),
+      normalize(technique.sessionId),
+      technique.tags,
+      (technique.links ?? []).map(link => [link.id, link.url, normalize(link.title)]),
+    ]);
+  }
+  const session = record as TrainingSession;
+  return JSON.stringify([
+    normalize(session.date),
+    normalize(session.location),
+    session.type,
+    normalize(session.notes),
+    session.satisfaction,
+    session.techniqueIds,
+    submissionCountsOf(session),
+  ]);
+};
+
+// Whether two versions of a record have the same content, ignoring sync metadata
+export const sameContent = (entity: SyncEntity, a: SyncRecord, b: SyncRecord): boolean =>
+  contentOf(entity, a) === contentOf(entity, b);
+
+const changedSince = (entity: SyncEntity, base: SyncRecord | null, record: SyncRecord): boolean =>
+  !base || !sameContent(entity, base, record);
+
+/**
+ * Merge a record changed on both sides. A side with `deletedAt` set deleted the record;
+ * the deletion stands unless the other side edited it since the base, which is a conflict.
+ */
+export const mergeRecord = (
+  entity: SyncEntity,
+  base: SyncRecord | null,
+  local: SyncRecord,
+  remote: SyncRecord
+): MergeResult => {
+  if (local.deletedAt && remote.deletedAt) {
+    return { merged: remote, conflicts: [] };
+  }
+
+  if (local.deletedAt || remote.deletedAt) {
+    const [deleted, edited] = local.deletedAt ? [local, remote] : [remote, local];
+    return changedSince(entity, base, edited)
+      ? { merged: { ...edited, version: remote.version, deletedAt: undefined }, conflicts: ['deleted'] }
+      : { merged: { ...deleted, version: remote.version }, conflicts: [] };
+  }
+
+  return entity === 'technique'
+    ? mergeTechniques(base as Technique | null, local as Technique, remote as Technique)
+    : mergeSessions(base as TrainingSession | null, local as TrainingSession, remote as TrainingSession);
+};
+
+/**
+ * Settle a merge's conflicts with the user's choices. A field without a choice keeps
+ * this device's value. `local` or `remote` is null when that side deleted the record.
+ */
+export const applyConflictChoices = (
+  result: MergeResult,
+  local: SyncRecord | null,
+  remote: SyncRecord | null,
+  choices: Record<string, ConflictSide>
+): SyncRecord => {
+  let resolved: SyncRecord = { ...result.merged };
+
+  for (const field of result.conflicts) {
+    const chosen = (choices[field] ?? 'local') === 'local' ? local : remote;
+    if (field === 'deleted') {
+      resolved = chosen ? { ...resolved, deletedAt: undefined } : { ...resolved, deletedAt: new Date() };
+    } else if (chosen) {
+      resolved = { ...resolved, [field]: chosen[field as keyof SyncRecord] };
+    }
+  }
+
+  return resolved;
+};
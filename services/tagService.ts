@@ -1,17 +1,13 @@
-import { 
-  getAllTagsFromDb, 
-  getPopularTagsFromDb, 
-  searchTagsFromDb, 
-  createCustomTagInDb 
-} from './database';
+import { getAllTags, getPopularTags, searchTags, createCustomTag } from './storage';
 import { TAG_VALIDATION } from '@/types/technique';
+import { TagRecord } from '@/types/storage';
 
 // Tag Service - centralized tag management
 export class TagService {
   // Get all available tags
-  static async getAllTags(): Promise<{ name: string; category: string; usageCount: number; isCustom: boolean }[]> {
+  static async getAllTags(): Promise<TagRecord[]> {
     try {
-      return await getAllTagsFromDb();
+      return await getAllTags();
     } catch (error) {
       console.error('Error fetching all tags:', error);
       return [];
@@ -21,7 +17,7 @@ export class TagService {
   // Get popular tags based on usage
   static async getPopularTags(limit: number = 20): Promise<string[]> {
     try {
-      return await getPopularTagsFromDb(limit);
+      return await getPopularTags(limit);
     } catch (error) {
       console.error('Error fetching popular tags:', error);
       return [];
@@ -32,7 +28,7 @@ export class TagService {
   static async searchTags(query: string, limit: number = 10): Promise<string[]> {
     try {
       if (!query.trim()) return [];
-      return await searchTagsFromDb(query.trim(), limit);
+      return await searchTags(query.trim(), limit);
     } catch (error) {
       console.error('Error searching tags:', error);
       return [];
@@ -49,7 +45,7 @@ export class TagService {
         throw new Error('Invalid tag name');
       }
 
-      await createCustomTagInDb(trimmed);
+      await createCustomTag(trimmed);
       return true;
     } catch (error) {
       console.error('Error creating custom tag:', error);
@@ -0,0 +1,43 @@
+import { Technique } from '@/types/technique';
+import { TrainingSession } from '@/types/session';
+import { UserProfile, Promotion } from '@/types/profile';
+
+// Valid records for tests; pass only the fields a test cares about
+
+export const makeTechnique = (overrides: Partial<Technique> = {}): Technique => ({
+  id: 'technique_1',
+  name: 'Armbar',
+  category: 'Submission',
+  tags: ['closed guard'],
+  notes: 'Pinch the knees',
+  timestamp: new Date('2025-03-01T10:00:00.000Z'),
+  ...overrides,
+});
+
+export const makeSession = (overrides: Partial<TrainingSession> = {}): TrainingSession => ({
+  id: 'session_1',
+  date: new Date('2025-03-01T18:00:00.000Z'),
+  location: 'Main Academy',
+  type: 'gi',
+  submissions: [],
+  submissionCounts: {},
+  notes: 'Good rounds',
+  satisfaction: 4,
+  techniqueIds: [],
+  ...overrides,
+});
+
+export const makeProfile = (overrides: Partial<UserProfile> = {}): UserProfile => ({
+  name: 'Sam',
+  beltRank: 'blue',
+  stripes: 2,
+  ...overrides,
+});
+
+export const makePromotion = (overrides: Partial<Promotion> = {}): Promotion => ({
+  id: 'promotion_1',
+  beltRank: 'blue',
+  stripes: 2,
+  date: new Date('2025-01-15T00:00:00.000Z'),
+  ...overrides,
+});
@@ -0,0 +1,257 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Stand-in for the remote API, for tests
+ *
+ * Serves the v1 endpoints for techniques, sessions, the trash and the profile the way the
+ * real server does, keeping each athlete's records in memory as the JSON the client sent.
+ * Saving a technique or session bumps its version, and a write against an older version
+ * is turned down with a 409. Deleting one moves it to the trash. Tests can make the next
+ * requests fail, stall or get a canned answer, and read back every request that came in.
+ */
+
+type JsonRecord = Record<string, unknown> & { id: string };
+
+export interface StandInRequest {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+}
+
+interface AthleteData {
+  techniques: Map<string, JsonRecord>;
+  sessions: Map<string, JsonRecord>;
+  profile: unknown | null;
+  promotions: JsonRecord[];
+}
+
+export interface StandInServer {
+  baseUrl: string;
+  requests: StandInRequest[];
+  // Saved techniques or sessions for an athlete, newest first, trashed ones included
+  records: (collection: 'techniques' | 'sessions', athleteId?: string) => JsonRecord[];
+  // The next `count` requests get `status` without being handled
+  failNext: (status: number, count?: number) => void;
+  // The next request is answered after `ms`
+  stallNext: (ms: number) => void;
+  // The next request gets `body` with a 200 without being handled
+  replyNext: (body: unknown) => void;
+  reset: () => void;
+  close: () => Promise<void>;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly code: string) {
+    super(message);
+  }
+}
+
+const sortKeys: Record<'techniques' | 'sessions', string> = {
+  techniques: 'timestamp',
+  sessions: 'date',
+};
+
+const newestFirst = (records: Iterable<JsonRecord>, key: string): JsonRecord[] =>
+  [...records].sort((a, b) => String(b[key]).localeCompare(String(a[key])));
+
+const readBody = (request: http.IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let text = '';
+    request.on('data', chunk => { text += chunk; });
+    request.on('end', () => {
+      try {
+        resolve(text ? JSON.parse(text) : undefined);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    request.on('error', reject);
+  });
+
+export const startStandInServer = async (): Promise<StandInServer> => {
+  let athletes = new Map<string, AthleteData>();
+  const requests: StandInRequest[] = [];
+  let failures: number[] = [];
+  let stallMs = 0;
+  let replies: unknown[] = [];
+
+  const dataFor = (athleteId: string): AthleteData => {
+    let data = athletes.get(athleteId);
+    if (!data) {
+      data = { techniques: new Map(), sessions: new Map(), profile: null, promotions: [] };
+      athletes.set(athleteId, data);
+    }
+    return data;
+  };
+
+  // Create or update a technique or session, checking the version the client wrote against
+  const saveRecord = (records: Map<string, JsonRecord>, body: unknown, id?: string): JsonRecord => {
+    const record = body as JsonRecord & { version?: number };
+    if (!record || typeof record.id !== 'string' || (id && record.id !== id)) {
+      throw new HttpError(400, 'Record id is missing or does not match the URL', 'invalid_record');
+    }
+
+    const existing = records.get(record.id) as (JsonRecord & { version: number }) | undefined;
+    if (existing && (record.version ?? 0) !== existing.version) {
+      throw new HttpError(409, 'Record changed on the server', 'version_conflict');
+    }
+
+    const saved = { ...record, version: (existing?.version ?? 0) + 1 };
+    records.set(record.id, saved);
+    return saved;
+  };
+
+  // Records in or out of the trash
+  const liveRecords = (records: Map<string, JsonRecord>, live: boolean): JsonRecord[] =>
+    [...records.values()].filter(record => !record.deletedAt === live);
+
+  const findRecord = (records: Map<string, JsonRecord>, id: string, live: boolean): JsonRecord => {
+    const record = records.get(id);
+    if (!record || !record.deletedAt !== live) {
+      throw new HttpError(404, `No ${live ? '' : 'trashed '}record ${id}`, 'not_found');
+    }
+    return record;
+  };
+
+  const route = (method: string, path: string, data: AthleteData, body: unknown): { status: number; body?: unknown } => {
+    const [, collection, id, extra, action] = path.split('/');
+
+    if (collection === 'techniques' || collection === 'sessions') {
+      const records = data[collection];
+      if (method === 'GET' && !id) return { status: 200, body: newestFirst(liveRecords(records, true), sortKeys[collection]) };
+      if (method === 'POST' && !id) return { status: 201, body: saveRecord(records, body) };
+      if (method === 'PUT' && id && !extra) return { status: 200, body: saveRecord(records, body, id) };
+      if (method === 'DELETE' && id && !extra) {
+        const record = findRecord(records, id, true);
+        records.set(id, { ...record, deletedAt: new Date().toISOString() });
+        return { status: 204 };
+      }
+    }
+
+    if (collection === 'trash') {
+      if (method === 'GET' && !id) {
+        return {
+          status: 200,
+          body: { techniques: liveRecords(data.techniques, false), sessions: liveRecords(data.sessions, false) },
+        };
+      }
+      if ((id === 'techniques' || id === 'sessions') && extra) {
+        const records = data[id];
+        const record = findRecord(records, extra, false);
+        if (method === 'POST' && action === 'restore') {
+          const { deletedAt, ...restored } = record;
+          records.set(extra, restored as JsonRecord);
+          return { status: 200, body: restored };
+        }
+        if (method === 'DELETE' && !action) {
+          records.delete(extra);
+          return { status: 204 };
+        }
+      }
+    }
+
+    if (collection === 'profile') {
+      if (!id) {
+        if (method === 'GET') {
+          if (!data.profile) throw new HttpError(404, 'No profile saved', 'not_found');
+          return { status: 200, body: data.profile };
+        }
+        if (method === 'POST') {
+          const { profile, promotion } = body as { profile: unknown; promotion?: JsonRecord };
+          data.profile = profile;
+          if (promotion) data.promotions = [promotion, ...data.promotions];
+          return { status: 200, body: profile };
+        }
+        if (method === 'DELETE') {
+          data.profile = null;
+          data.promotions = [];
+          return { status: 204 };
+        }
+      }
+      if (id === 'promotions') {
+        if (method === 'GET' && !extra) return { status: 200, body: data.promotions };
+        if (method === 'DELETE' && extra) {
+          data.promotions = data.promotions.filter(promotion => promotion.id !== extra);
+          return { status: 204 };
+        }
+      }
+    }
+
+    throw new HttpError(404, `No route for ${method} ${path}`, 'not_found');
+  };
+
+  const server = http.createServer(async (request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const method = request.method ?? 'GET';
+    const path = url.pathname.replace(/^\/api\/v1/, '');
+
+    const send = (status: number, body?: unknown) => {
+      response.writeHead(status, body === undefined ? {} : { 'Content-Type': 'application/json' });
+      response.end(body === undefined ? undefined : JSON.stringify(body));
+    };
+
+    try {
+      const body = await readBody(request);
+      requests.push({ method, path: `${path}${url.search}`, headers: request.headers, body });
+
+      if (stallMs > 0) {
+        const ms = stallMs;
+        stallMs = 0;
+        await new Promise(resolve => setTimeout(resolve, ms));
+      }
+
+      const failure = failures.shift();
+      if (failure !== undefined) {
+        send(failure, { error: { message: `Stand-in failure ${failure}`, code: 'stand_in' } });
+        return;
+      }
+
+      if (replies.length > 0) {
+        send(200, replies.shift());
+        return;
+      }
+
+      const athleteId = String(request.headers['x-athlete-id'] ?? 'default');
+      const result = route(method, path, dataFor(athleteId), body);
+      send(result.status, result.body);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        send(error.status, { error: { message: error.message, code: error.code } });
+      } else {
+        send(500, { message: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    records: (collection, athleteId = 'default') =>
+      newestFirst(dataFor(athleteId)[collection].values(), sortKeys[collection]),
+    failNext: (status, count = 1) => {
+      failures = [...failures, ...Array<number>(count).fill(status)];
+    },
+    stallNext: ms => {
+      stallMs = ms;
+    },
+    replyNext: body => {
+      replies = [...replies, body];
+    },
+    reset: () => {
+      athletes = new Map();
+      requests.length = 0;
+      failures = [];
+      stallMs = 0;
+      replies = [];
+    },
+    close: () => {
+      server.closeAllConnections();
+      return new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+};
@@ -0,0 +1,43 @@
+export const PIN_MIN_LENGTH = 4;
+export const PIN_MAX_LENGTH = 6;
+
+// Wrong PINs allowed before entry is locked out. Each further wrong PIN doubles the lockout.
+export const MAX_PIN_ATTEMPTS = 5;
+
+// How long the app can sit in the background before it locks again
+export const LOCK_TIMEOUT_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: 'Immediately' },
+  { value: 60 * 1000, label: 'After 1 minute' },
+  { value: 5 * 60 * 1000, label: 'After 5 minutes' },
+  { value: 15 * 60 * 1000, label: 'After 15 minutes' },
+  { value: 60 * 60 * 1000, label: 'After 1 hour' },
+];
+
+export const DEFAULT_LOCK_TIMEOUT = 60 * 1000;
+
+// The notes data key, encrypted with a key derived from a PIN. Byte values are hex encoded.
+export interface WrappedDataKey {
+  keyId: string; // Tells exports sealed with this key apart from ones sealed with another
+  salt: string;
+  iterations: number;
+  wrappedKey: string;
+}
+
+export interface AppLockSettings {
+  enabled: boolean;
+  pinLength: number;
+  timeoutMs: number;
+  encryptNotes: boolean;
+}
+
+export const APP_LOCK_OFF: AppLockSettings = {
+  enabled: false,
+  pinLength: 0,
+  timeoutMs: DEFAULT_LOCK_TIMEOUT,
+  encryptNotes: false,
+};
+
+export type PinCheckResult =
+  | { status: 'unlocked' }
+  | { status: 'wrong-pin'; attemptsLeft: number } // Attempts left before a lockout starts
+  | { status: 'locked-out'; until: Date };
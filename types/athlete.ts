@@ -0,0 +1,11 @@
+// Someone whose training is logged on this device. Each athlete has their own techniques,
+// sessions, tags, locations and profile.
+export interface Athlete {
+  id: string;
+  name: string;
+  createdAt: Date;
+}
+
+// Data logged before there could be more than one athlete belongs to this one
+export const DEFAULT_ATHLETE_ID = 'default';
+export const DEFAULT_ATHLETE_NAME = 'My Profile';
@@ -0,0 +1,14 @@
+// Why loading data failed, as far as choosing a recovery goes
+export type DataErrorKind =
+  | 'not-initialized' // The local database couldn't be opened
+  | 'corrupt' // The local database file is damaged
+  | 'constraint' // A write conflicted with data already stored
+  | 'validation' // A record was rejected as invalid
+  | 'network' // The server couldn't be reached
+  | 'server' // The server answered with an error
+  | 'unknown';
+
+export interface DataError {
+  kind: DataErrorKind;
+  message: string;
+}
@@ -0,0 +1,79 @@
+import { TechniqueCategory, TagCategory } from './technique';
+import { SessionType } from './session';
+import { UserProfile, BeltRank } from './profile';
+import { WrappedDataKey } from './appLock';
+
+// Identifies a FlowRoll export file and the shape of its contents.
+// Version 2 added notesEncryption; files from version 1 never have encrypted notes.
+export const EXPORT_FORMAT = 'flowroll-export';
+export const EXPORT_FORMAT_VERSION = 2;
+
+// Dates are serialized as ISO 8601 strings in export documents
+export interface ExportedTechniqueLink {
+  id: string;
+  url: string;
+  title?: string;
+  timestamp: string;
+}
+
+export interface ExportedTechnique {
+  id: string;
+  name: string;
+  category: TechniqueCategory;
+  tags: string[];
+  notes?: string;
+  links?: ExportedTechniqueLink[];
+  timestamp: string;
+  sessionId?: string;
+  updatedAt?: string; // Last edit; missing from older files
+}
+
+export interface ExportedSession {
+  id: string;
+  date: string;
+  location?: string;
+  type: SessionType;
+  submissions: string[];
+  submissionCounts: Record<string, number>;
+  notes?: string;
+  satisfaction: 1 | 2 | 3 | 4 | 5;
+  techniqueIds: string[];
+  updatedAt?: string; // Last edit; missing from older files
+}
+
+export interface ExportedPromotion {
+  id: string;
+  beltRank: BeltRank;
+  stripes: number;
+  date: string;
+  instructor?: string;
+  notes?: string;
+}
+
+export interface ExportedLocation {
+  name: string;
+  usageCount: number;
+  lastUsed?: string;
+}
+
+export interface ExportedTag {
+  name: string;
+  category: TagCategory;
+}
+
+export interface ExportDocument {
+  format: typeof EXPORT_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  appVersion: string;
+  // Set when notes are encrypted. The data key is wrapped with the PIN set at export time.
+  notesEncryption?: WrappedDataKey;
+  data: {
+    techniques: ExportedTechnique[];
+    sessions: ExportedSession[];
+    profile: UserProfile | null;
+    promotions: ExportedPromotion[]; // Latest first; missing from files exported before promotions existed
+    locations: ExportedLocation[];
+    customTags: ExportedTag[];
+  };
+}
@@ -0,0 +1,46 @@
+export type HealthStatus = 'healthy' | 'degraded' | 'down';
+
+// Tables counted in a local health report
+export const HEALTH_TABLES = [
+  'techniques',
+  'sessions',
+  'technique_revisions',
+  'tags',
+  'promotions',
+  'outbox',
+  'sync_conflicts',
+  'quarantine',
+] as const;
+
+export type HealthTable = (typeof HEALTH_TABLES)[number];
+
+export interface DatabaseStats {
+  schemaVersion: number;
+  latestSchemaVersion: number; // The version this build migrates to
+  rowCounts: Record<HealthTable, number>;
+  fileSizeBytes: number; // Page count times page size, without the write-ahead log
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  isLocal: boolean;
+  version: string; // API version
+  timestamp: string;
+  issues: string[]; // Why the status isn't healthy, one line each
+  latencyMs?: number; // Remote only: round trip of the health request
+  services?: Record<string, HealthStatus>; // Remote only: status of each part of the backend
+  database?: DatabaseStats; // Local only; missing if the database couldn't be opened
+}
+
+export interface CompatibilityReport {
+  compatible: boolean;
+  upgradeRequired: boolean;
+  minClientVersion?: string; // Unknown in local mode and when the server couldn't be asked
+  currentVersion: string; // This build's app version
+  apiVersion: string;
+  checked: boolean; // False when the server couldn't be asked, so the rest is assumed
+  latestClientVersion?: string;
+  updateAvailable: boolean; // A newer version than this build is out, required or not
+  updateUrl?: string; // Store page for the update, if the server gives one
+  message?: string;
+}
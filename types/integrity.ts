@@ -0,0 +1,26 @@
+export type IntegrityIssueKind =
+  | 'corruption' // PRAGMA integrity_check
+  | 'orphaned_session_techniques'
+  | 'missing_technique_sessions'
+  | 'missing_tags'
+  | 'location_usage_drift'
+  | 'orphaned_rows'; // PRAGMA foreign_key_check rows the checks above don't cover
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  title: string;
+  description: string;
+  count: number;
+  examples: string[]; // A few affected rows, for the report
+  repairable: boolean;
+}
+
+export interface IntegrityReport {
+  checkedAt: Date;
+  issues: IntegrityIssue[];
+}
+
+export interface IntegrityRepairResult {
+  rowsRepaired: number;
+  report: IntegrityReport; // The database as it is after the repair
+}
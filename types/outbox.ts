@@ -0,0 +1,37 @@
+import { Technique } from './technique';
+import { TrainingSession } from './session';
+import { UserProfile, Promotion } from './profile';
+
+// A write made in remote mode, applied locally right away and sent to the server later.
+// `delete` moves a technique or session to the trash, `restore` brings it back and
+// `purge` deletes it for good.
+export type OutboxMutation =
+  | { entity: 'technique'; operation: 'create' | 'update'; entityId: string; payload: Technique }
+  | { entity: 'technique'; operation: 'delete' | 'restore' | 'purge'; entityId: string }
+  | { entity: 'session'; operation: 'create' | 'update'; entityId: string; payload: TrainingSession }
+  | { entity: 'session'; operation: 'delete' | 'restore' | 'purge'; entityId: string }
+  | { entity: 'profile'; operation: 'update'; entityId: 'profile'; payload: { profile: UserProfile; promotion?: Promotion } }
+  | { entity: 'profile'; operation: 'delete'; entityId: 'profile' }
+  | { entity: 'promotion'; operation: 'delete'; entityId: string };
+
+export type OutboxEntity = OutboxMutation['entity'];
+
+// `failed` entries wait for the user to retry or discard them
+export type OutboxStatus = 'pending' | 'failed';
+
+export type OutboxEntry = OutboxMutation & {
+  id: number;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  createdAt: Date;
+};
+
+export interface OutboxCounts {
+  pending: number;
+  failed: number;
+}
+
+// Transient failures are retried this many times before the entry is marked failed
+export const MAX_OUTBOX_ATTEMPTS = 8;
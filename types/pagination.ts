@@ -0,0 +1,16 @@
+// Keyset cursor: the sort key of the last item on the previous page. `time` is the
+// session date or technique timestamp in ms; `rank` is set when results are ranked by
+// search relevance before time.
+export interface PageCursor {
+  rank?: number;
+  time: number;
+  id: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: PageCursor | null; // null on the last page
+  totalCount: number; // Matching items across all pages
+}
+
+export const DEFAULT_PAGE_SIZE = 30;
@@ -1,11 +1,21 @@
 export type BeltRank = 'white' | 'blue' | 'purple' | 'brown' | 'black';
 
+// Rank is derived from the latest promotion; editing the profile never overwrites history
 export interface UserProfile {
   name: string;
   beltRank: BeltRank;
   stripes: number; // 0-4 stripes
 }
 
+export interface Promotion {
+  id: string;
+  beltRank: BeltRank;
+  stripes: number;
+  date: Date;
+  instructor?: string;
+  notes?: string;
+}
+
 export const BELT_RANKS: { value: BeltRank; label: string; color: string }[] = [
   { value: 'white', label: 'White Belt', color: '#ffffff' },
   { value: 'blue', label: 'Blue Belt', color: '#3b82f6' },
@@ -14,4 +24,14 @@ export const BELT_RANKS: { value: BeltRank; label: string; color: string }[] = [
   { value: 'black', label: 'Black Belt', color: '#000000' },
 ];
 
-export const MAX_STRIPES = 4;
\ No newline at end of file
+export const MAX_STRIPES = 4;
+
+// Typical time and mat time between promotions at each belt, used to estimate the next
+// promotion until the user has a promotion history of their own
+export const ACADEMY_PACE: Record<BeltRank, { daysPerStripe: number; sessionsPerStripe: number }> = {
+  white: { daysPerStripe: 120, sessionsPerStripe: 40 },
+  blue: { daysPerStripe: 180, sessionsPerStripe: 60 },
+  purple: { daysPerStripe: 180, sessionsPerStripe: 60 },
+  brown: { daysPerStripe: 120, sessionsPerStripe: 45 },
+  black: { daysPerStripe: 1095, sessionsPerStripe: 300 },
+};
@@ -0,0 +1,23 @@
+export type QuarantineEntity = 'technique' | 'session' | 'profile';
+
+// Where the record was read from. Database records stay in their tables but are hidden;
+// server records are never written anywhere else.
+export type QuarantineSource = 'database' | 'server';
+
+// A record that failed its parser, kept as it arrived
+export interface InvalidRecord {
+  entityId: string; // Empty when the record has no usable id
+  payload: unknown;
+  errors: string[];
+}
+
+// A record that failed validation, kept out of the app until it is fixed or discarded
+export interface QuarantinedRecord {
+  id: number;
+  entity: QuarantineEntity;
+  entityId: string; // Empty when the record had no usable id
+  source: QuarantineSource;
+  payload: unknown; // The record as it was read
+  errors: string[]; // One line per invalid field
+  detectedAt: Date; // First time it failed
+}
@@ -0,0 +1,44 @@
+import { TechniqueCategory } from './technique';
+import { SessionType } from './session';
+
+// A run of snippet text; `highlighted` runs are the words that matched the query
+export interface SnippetSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+interface BaseSearchResult {
+  id: string;
+  date: Date; // Technique timestamp or session date
+  snippet: SnippetSegment[];
+  score: number; // Lower is a better match
+}
+
+export interface TechniqueSearchResult extends BaseSearchResult {
+  type: 'technique';
+  name: string;
+  category: TechniqueCategory;
+}
+
+export interface SessionSearchResult extends BaseSearchResult {
+  type: 'session';
+  sessionType: SessionType;
+  location?: string;
+}
+
+export type SearchResult = TechniqueSearchResult | SessionSearchResult;
+
+// A tag, location or submission name and how many live techniques or sessions use it
+export interface NameMatch {
+  name: string;
+  count: number;
+}
+
+export interface NameSearchResults {
+  tags: NameMatch[];
+  locations: NameMatch[];
+  submissions: NameMatch[];
+}
+
+export const DEFAULT_SEARCH_LIMIT = 50;
+export const DEFAULT_NAME_SEARCH_LIMIT = 10;
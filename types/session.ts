@@ -1,4 +1,6 @@
-export interface TrainingSession {
+import { SyncMetadata } from './sync';
+
+export interface TrainingSession extends SyncMetadata {
   id: string;
   date: Date;
   location?: string;
@@ -10,4 +12,25 @@ export interface TrainingSession {
   techniqueIds: string[]; // References to techniques learned in this session
 }
 
-export type SessionType = 'gi' | 'nogi' | 'open-mat' | 'wrestling';
\ No newline at end of file
+export type SessionType = 'gi' | 'nogi' | 'open-mat' | 'wrestling';
+
+export const SESSION_TYPE_VALUES: SessionType[] = ['gi', 'nogi', 'open-mat', 'wrestling'];
+
+export interface SessionFilters {
+  dateRange: {
+    startDate: Date | null;
+    endDate: Date | null;
+  };
+  location: string;
+  sessionTypes: SessionType[];
+  submission: string;
+  satisfaction: number | null;
+}
+
+export const EMPTY_SESSION_FILTERS: SessionFilters = {
+  dateRange: { startDate: null, endDate: null },
+  location: '',
+  sessionTypes: [],
+  submission: '',
+  satisfaction: null,
+};
@@ -0,0 +1,160 @@
+import { Technique, TechniqueFilters, TechniqueRevision } from './technique';
+import { TrainingSession, SessionFilters } from './session';
+import { UserProfile, Promotion } from './profile';
+import { TrashContents } from './trash';
+import { Page, PageCursor } from './pagination';
+import { SearchResult, NameSearchResults } from './search';
+import { OutboxMutation, OutboxEntry, OutboxStatus } from './outbox';
+import { SyncEntity, SyncRecord, SyncConflict } from './sync';
+import { QuarantineEntity, QuarantineSource, QuarantinedRecord, InvalidRecord } from './quarantine';
+import { IntegrityReport, IntegrityRepairResult } from './integrity';
+import { DatabaseStats } from './health';
+
+export interface TechniquePageQuery {
+  search?: string;
+  filters?: TechniqueFilters;
+  cursor?: PageCursor | null;
+  limit?: number;
+}
+
+export interface SessionPageQuery {
+  search?: string;
+  filters?: SessionFilters;
+  cursor?: PageCursor | null;
+  limit?: number;
+}
+
+export interface PurgeTarget {
+  // Purge only these rows; when omitted, everything trashed before `deletedBefore` is purged
+  techniqueIds?: string[];
+  sessionIds?: string[];
+  deletedBefore?: Date;
+}
+
+export interface TagRecord {
+  name: string;
+  category: string;
+  usageCount: number;
+  isCustom: boolean;
+}
+
+export interface LocationRecord {
+  name: string;
+  usageCount: number;
+  lastUsed: Date | null;
+}
+
+export interface ImportBatch {
+  // When set, every existing row of that kind is removed before the batch is written
+  replaceTechniques: boolean;
+  replaceSessions: boolean;
+  techniques: Technique[];
+  sessions: TrainingSession[];
+  locations: LocationRecord[];
+  customTags: { name: string; category: string }[];
+  // Written with the rest of the batch. Promotions replace the whole history; with none,
+  // the profile is saved as saveProfile would save it.
+  profile?: { profile: UserProfile; promotions: Promotion[] };
+}
+
+export interface OutboxEntryUpdate {
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+}
+
+export interface SyncBase {
+  version: number;
+  record: SyncRecord | null; // Null when the server last had it deleted
+}
+
+/**
+ * Where the app's data lives. `services/storage.ts` sends every read and write through
+ * the active adapter: SQLite on devices, or memory for tests, previews and demo mode.
+ * Reads that fail reject with the errors in `services/storageErrors.ts` rather than
+ * returning nothing. Invalid records are quarantined and left out of reads.
+ */
+export interface StorageAdapter {
+  // False when data is gone once the app closes. Backups are only taken of persistent data.
+  readonly isPersistent: boolean;
+
+  // Open the store and bring it up to date. Called before first use and again after close.
+  initialize(): Promise<void>;
+  close(): Promise<void>;
+
+  // Techniques. Reads return live techniques, newest first.
+  saveTechnique(technique: Technique): Promise<void>;
+  getTechniques(): Promise<Technique[]>;
+  getTechniquesPage(query: TechniquePageQuery): Promise<Page<Technique>>;
+  getTechniquesBySession(sessionId: string): Promise<Technique[]>;
+  getRecentTechniques(limit: number): Promise<Technique[]>;
+  getTechniqueRevisions(techniqueId: string): Promise<TechniqueRevision[]>; // Newest first
+  deleteTechnique(techniqueId: string): Promise<void>; // Moves it to the trash
+
+  // Sessions. Reads return live sessions, newest first.
+  saveSession(session: TrainingSession): Promise<void>;
+  getSessions(): Promise<TrainingSession[]>;
+  getSessionsPage(query: SessionPageQuery): Promise<Page<TrainingSession>>;
+  deleteSession(sessionId: string): Promise<void>; // Moves it to the trash
+
+  search(query: string, limit: number): Promise<SearchResult[]>;
+  searchNames(query: string, limit: number): Promise<NameSearchResults>;
+
+  // Trash
+  getTrash(): Promise<TrashContents>;
+  restoreTechnique(techniqueId: string): Promise<void>;
+  restoreSession(sessionId: string): Promise<void>;
+  purgeTrash(target?: PurgeTarget): Promise<number>; // Returns the number of rows purged
+
+  // Profile. Rank comes from the latest promotion.
+  getProfile(): Promise<UserProfile | null>;
+  saveProfile(profile: UserProfile, promotion?: Promotion): Promise<void>;
+  replaceProfile(profile: UserProfile, promotions: Promotion[]): Promise<void>;
+  deleteProfile(): Promise<void>;
+  getPromotions(): Promise<Promotion[]>; // Latest first
+  deletePromotion(promotionId: string): Promise<void>;
+
+  // Tags, most used first
+  getAllTags(): Promise<TagRecord[]>;
+  getPopularTags(limit: number): Promise<string[]>;
+  searchTags(query: string, limit: number): Promise<string[]>;
+  createCustomTag(tagName: string): Promise<void>;
+
+  // Locations, most used first, and submission names from live sessions
+  getLocations(): Promise<string[]>;
+  getLocationRecords(): Promise<LocationRecord[]>;
+  getUniqueSubmissions(): Promise<string[]>;
+
+  // Writes the whole batch or, on failure, nothing
+  importData(batch: ImportBatch): Promise<void>;
+  clearAllData(): Promise<void>;
+
+  // Outbox, oldest first
+  addOutboxEntry(mutation: OutboxMutation): Promise<number>; // Returns the new entry's id
+  getOutbox(): Promise<OutboxEntry[]>;
+  updateOutboxEntry(entryId: number, update: OutboxEntryUpdate): Promise<void>;
+  deleteOutboxEntry(entryId: number): Promise<void>;
+
+  // Sync
+  getSyncRecord(entity: SyncEntity, entityId: string): Promise<SyncRecord | null>; // Trashed or not
+  applySyncedRecords(techniques: Technique[], sessions: TrainingSession[]): Promise<void>;
+  setRecordVersion(entity: SyncEntity, entityId: string, version: number): Promise<void>;
+  getSyncBase(entity: SyncEntity, entityId: string): Promise<SyncBase | null>;
+  setSyncBase(entity: SyncEntity, record: SyncRecord): Promise<void>;
+  saveSyncConflict(conflict: Omit<SyncConflict, 'id'>): Promise<void>; // Replaces one for the same record
+  getSyncConflicts(): Promise<SyncConflict[]>; // Oldest first
+  getSyncConflict(entity: SyncEntity, entityId: string): Promise<SyncConflict | null>;
+  deleteSyncConflict(conflictId: number): Promise<void>;
+
+  // Quarantine, newest first
+  quarantineRecords(source: QuarantineSource, entity: QuarantineEntity, records: InvalidRecord[]): Promise<void>;
+  getQuarantinedRecords(): Promise<QuarantinedRecord[]>;
+  discardQuarantinedRecord(recordId: number): Promise<void>;
+
+  // Maintenance
+  checkIntegrity(): Promise<IntegrityReport>;
+  repairIntegrity(): Promise<IntegrityRepairResult>;
+  rewriteNotes(): Promise<number>; // After notes encryption is turned on or off
+  getStats(): Promise<DatabaseStats>;
+}
@@ -0,0 +1,54 @@
+import { Technique } from './technique';
+import { TrainingSession } from './session';
+
+// Bookkeeping for records that sync between devices. Storage and the sync engine set it;
+// screens can ignore it. Records created on this device have none until first saved.
+export interface SyncMetadata {
+  updatedAt?: Date; // Last change on any device
+  deletedAt?: Date; // Set while trashed, and on deletions the server sends
+  version?: number; // Server version of the record; 0 until it has been synced
+}
+
+export type SyncEntity = 'technique' | 'session';
+
+export type SyncRecord = Technique | TrainingSession;
+
+// One page of changes from GET /sync/changes, oldest first
+export interface SyncChanges {
+  techniques: Technique[];
+  sessions: TrainingSession[];
+  cursor: string; // Pass back as `since` to get the changes after these
+  hasMore: boolean;
+}
+
+// Which side's value to keep for a conflicting field
+export type ConflictSide = 'local' | 'remote';
+
+/**
+ * A record the sync engine couldn't merge. `fields` names the fields both devices changed
+ * to different values since they last agreed; `deleted` means one side deleted the record
+ * (its `deletedAt` is set) while the other edited it. `merged` has every field that merged
+ * cleanly, with the remote value in the conflicting ones until the user picks.
+ */
+export interface SyncConflict {
+  id: number;
+  entity: SyncEntity;
+  entityId: string;
+  local: SyncRecord;
+  remote: SyncRecord;
+  merged: SyncRecord;
+  fields: string[];
+  detectedAt: Date;
+}
+
+export interface SyncStatus {
+  lastSyncedAt: Date | null;
+  isSyncing: boolean;
+  conflicts: number;
+}
+
+export interface SyncResult {
+  pulled: number; // Remote changes applied locally
+  merged: number; // Of those, records that also had local changes
+  conflicts: number; // Records left for the user to review
+}
@@ -1,4 +1,6 @@
-export interface Technique {
+import { SyncMetadata } from './sync';
+
+export interface Technique extends SyncMetadata {
   id: string;
   name: string;
   category: TechniqueCategory;
@@ -9,7 +11,24 @@ export interface Technique {
   sessionId?: string; // Optional reference to the session where this was learned
 }
 
-export interface TechniqueLink {
+// A saved version of a technique's name, category, tags, notes and links
+export interface TechniqueRevision {
+  id: number;
+  techniqueId: string;
+  name: string;
+  category: TechniqueCategory;
+  tags: string[];
+  notes?: string;
+  links?: TechniqueLink[];
+  createdAt: Date;
+}
+
+export interface TechniqueFilters {
+  category: TechniqueCategory | null;
+  tags: string[]; // All selected tags must be present
+}
+
+export interface TechniqueLink extends SyncMetadata {
   id: string;
   url: string;
   title?: string;
@@ -25,6 +44,16 @@ export type TechniqueCategory =
   | 'Defense'
   | 'Other';
 
+export const TECHNIQUE_CATEGORIES: TechniqueCategory[] = [
+  'Submission',
+  'Sweep',
+  'Escape',
+  'Guard Pass',
+  'Takedown',
+  'Defense',
+  'Other',
+];
+
 // Available predefined tags
 export const PREDEFINED_TAGS = {
   // Position tags (from existing positions)
@@ -78,7 +107,7 @@ export const PREDEFINED_TAGS = {
 export type TagCategory = 'position' | 'attribute' | 'style' | 'custom';
 
 // Interface for tag with metadata
-export interface Tag {
+export interface Tag extends SyncMetadata {
   id: string;
   name: string;
   category: TagCategory;
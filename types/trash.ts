@@ -0,0 +1,25 @@
+import { TechniqueCategory } from './technique';
+import { SessionType } from './session';
+
+// Trashed items are purged automatically once they have been deleted this long
+export const TRASH_RETENTION_DAYS = 30;
+
+export interface TrashedTechnique {
+  id: string;
+  name: string;
+  category: TechniqueCategory;
+  deletedAt: Date;
+}
+
+export interface TrashedSession {
+  id: string;
+  date: Date;
+  type: SessionType;
+  location?: string;
+  deletedAt: Date;
+}
+
+export interface TrashContents {
+  techniques: TrashedTechnique[];
+  sessions: TrashedSession[];
+}
@@ -0,0 +1,28 @@
+/**
+ * CSV formatting utilities (RFC 4180)
+ */
+
+export type CsvValue = string | number | null | undefined;
+
+/**
+ * Escape a single CSV field. Fields containing commas, quotes, line breaks or
+ * surrounding whitespace are quoted, and embedded quotes are doubled.
+ */
+export const escapeCsvField = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+
+  const text = String(value);
+  if (/[",\r\n]/.test(text) || text !== text.trim()) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+/**
+ * Build a CSV document from a header row and data rows.
+ * Starts with a UTF-8 byte order mark so spreadsheet apps detect the encoding.
+ */
+export const toCsv = (headers: string[], rows: CsvValue[][]): string => {
+  const lines = [headers, ...rows].map(row => row.map(escapeCsvField).join(','));
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
@@ -0,0 +1,103 @@
+/**
+ * File sharing utilities
+ * Hands generated files to the platform share sheet (or downloads them on web)
+ * and reads user-picked files back in
+ */
+
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+
+export interface ShareableFile {
+  fileName: string;
+  contents: string;
+  mimeType: string;
+  // iOS Uniform Type Identifier, e.g. 'public.json'
+  uti?: string;
+}
+
+/**
+ * Build a filesystem-safe timestamp for export file names (e.g. "2024-01-15-103000")
+ */
+export const getFileTimestamp = (date: Date = new Date()): string => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+};
+
+const downloadOnWeb = (file: ShareableFile): void => {
+  const blob = new Blob([file.contents], { type: file.mimeType });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = file.fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  document.body.removeChild(anchor);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Share a text file through the share sheet (native) or as a download (web)
+ */
+export const shareTextFile = async (file: ShareableFile): Promise<void> => {
+  if (Platform.OS === 'web') {
+    downloadOnWeb(file);
+    return;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const fileUri = `${FileSystem.cacheDirectory}${file.fileName}`;
+  await FileSystem.writeAsStringAsync(fileUri, file.contents, {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+
+  // Left in the cache directory: the receiving app may still be reading it after shareAsync resolves
+  await Sharing.shareAsync(fileUri, {
+    mimeType: file.mimeType,
+    UTI: file.uti,
+    dialogTitle: file.fileName,
+  });
+};
+
+/**
+ * Share a copy of a file already on disk, named `fileName`. Native only.
+ */
+export const shareFileCopy = async (sourceUri: string, fileName: string, mimeType: string): Promise<void> => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.copyAsync({ from: sourceUri, to: fileUri });
+
+  await Sharing.shareAsync(fileUri, { mimeType, dialogTitle: fileName });
+};
+
+/**
+ * Let the user pick a text file and return its contents, or null if they cancelled
+ */
+export const pickTextFile = async (
+  mimeTypes: string[]
+): Promise<{ fileName: string; contents: string } | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: mimeTypes,
+    copyToCacheDirectory: true,
+    multiple: false,
+  });
+
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+
+  const asset = result.assets[0];
+  const contents = Platform.OS === 'web' && asset.file
+    ? await asset.file.text()
+    : await FileSystem.readAsStringAsync(asset.uri, { encoding: FileSystem.EncodingType.UTF8 });
+
+  return { fileName: asset.name, contents };
+};
@@ -3,6 +3,8 @@
  * Provides security against code injection and ensures data quality
  */
 
+import { PIN_MIN_LENGTH, PIN_MAX_LENGTH } from '@/types/appLock';
+
 // Character limits
 export const INPUT_LIMITS = {
   SEARCH: 30,
@@ -13,6 +15,8 @@ export const INPUT_LIMITS = {
   URL: 100,
   TAG: 30,
   PROFILE_NAME: 50,
+  INSTRUCTOR: 50,
+  PROMOTION_NOTES: 500,
 } as const;
 
 // Regex patterns for validation
@@ -202,4 +206,27 @@ export const validateProfileName = (name: string): { isValid: boolean; error?: s
   }
   
   return { isValid: true };
-};
\ No newline at end of file
+};
+
+/**
+ * Validate a new app lock PIN and its confirmation
+ */
+export const validatePin = (pin: string, confirmation: string): { isValid: boolean; error?: string } => {
+  if (!/^\d+$/.test(pin)) {
+    return { isValid: false, error: 'PIN must contain only digits' };
+  }
+
+  if (pin.length < PIN_MIN_LENGTH || pin.length > PIN_MAX_LENGTH) {
+    return { isValid: false, error: `PIN must be ${PIN_MIN_LENGTH} to ${PIN_MAX_LENGTH} digits` };
+  }
+
+  if (/^(\d)\1+$/.test(pin)) {
+    return { isValid: false, error: 'PIN can\'t be the same digit repeated' };
+  }
+
+  if (pin !== confirmation) {
+    return { isValid: false, error: 'PINs don\'t match' };
+  }
+
+  return { isValid: true };
+};
@@ -0,0 +1,41 @@
+import { Technique } from '@/types/technique';
+import { TrainingSession } from '@/types/session';
+import { Promotion } from '@/types/profile';
+import { TrashContents } from '@/types/trash';
+import { SyncMetadata } from '@/types/sync';
+
+/**
+ * Dates become ISO strings when records go through JSON, in API responses and in the
+ * outbox. These put the Date objects back. Values that are already Dates pass through.
+ */
+
+const reviveSyncMetadata = <T extends SyncMetadata>(record: T): T => ({
+  ...record,
+  updatedAt: record.updatedAt ? new Date(record.updatedAt) : undefined,
+  deletedAt: record.deletedAt ? new Date(record.deletedAt) : undefined,
+});
+
+export const reviveTechnique = (technique: Technique): Technique => ({
+  ...reviveSyncMetadata(technique),
+  timestamp: new Date(technique.timestamp),
+  links: technique.links?.map(link => ({ ...reviveSyncMetadata(link), timestamp: new Date(link.timestamp) })),
+});
+
+export const reviveSession = (session: TrainingSession): TrainingSession => ({
+  ...reviveSyncMetadata(session),
+  date: new Date(session.date),
+});
+
+export const revivePromotion = (promotion: Promotion): Promotion => ({
+  ...promotion,
+  date: new Date(promotion.date),
+});
+
+export const reviveTrash = (trash: TrashContents): TrashContents => ({
+  techniques: trash.techniques.map(technique => ({ ...technique, deletedAt: new Date(technique.deletedAt) })),
+  sessions: trash.sessions.map(session => ({
+    ...session,
+    date: new Date(session.date),
+    deletedAt: new Date(session.deletedAt),
+  })),
+});
@@ -0,0 +1,140 @@
+import { BeltRank, Promotion, BELT_RANKS, MAX_STRIPES, ACADEMY_PACE } from '@/types/profile';
+import { TrainingSession } from '@/types/session';
+import { getStartOfDay } from '@/utils/dateFormatters';
+
+/**
+ * Rank progress calculations
+ * Derives the promotion timeline and time-in-grade statistics from the promotion history
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RankStep {
+  beltRank: BeltRank;
+  stripes: number;
+}
+
+export interface TimelineSegment {
+  promotion: Promotion;
+  endDate: Date; // The next promotion, or now for the current rank
+  days: number;
+  sessions: number;
+}
+
+export interface RankProgress {
+  current: Promotion;
+  timeline: TimelineSegment[]; // Oldest first
+  daysAtCurrentStripe: number;
+  sessionsSinceLastPromotion: number;
+  averageDaysPerStripe: number;
+  averageSessionsPerStripe: number;
+  paceSource: 'personal' | 'academy';
+  next: {
+    rank: RankStep;
+    estimatedDate: Date;
+    sessionsRemaining: number;
+  } | null;
+}
+
+export const formatBeltRank = (beltRank: BeltRank, stripes: number): string => {
+  const label = BELT_RANKS.find(belt => belt.value === beltRank)?.label ?? beltRank;
+  return stripes > 0 ? `${label} · ${stripes} stripe${stripes === 1 ? '' : 's'}` : label;
+};
+
+/**
+ * Format a time in grade (e.g., "12 days", "5 months", "2.5 years")
+ */
+export const formatTimeInGrade = (days: number): string => {
+  if (days < 31) return `${days} day${days === 1 ? '' : 's'}`;
+  if (days < 365) {
+    const months = Math.floor(days / 30.44);
+    return `${months} month${months === 1 ? '' : 's'}`;
+  }
+  const years = Math.round((days / 365.25) * 10) / 10;
+  return `${years} year${years === 1 ? '' : 's'}`;
+};
+
+// Position on a single ladder of stripes; a belt promotion is one step on from four stripes
+const rankIndex = (rank: RankStep): number =>
+  BELT_RANKS.findIndex(belt => belt.value === rank.beltRank) * (MAX_STRIPES + 1) + rank.stripes;
+
+export const getNextRank = (rank: RankStep): RankStep | null => {
+  if (rank.stripes < MAX_STRIPES) {
+    return { beltRank: rank.beltRank, stripes: rank.stripes + 1 };
+  }
+  const nextBelt = BELT_RANKS[BELT_RANKS.findIndex(belt => belt.value === rank.beltRank) + 1];
+  return nextBelt ? { beltRank: nextBelt.value, stripes: 0 } : null;
+};
+
+const daysBetween = (start: Date, end: Date): number =>
+  Math.max(0, Math.floor((getStartOfDay(end).getTime() - getStartOfDay(start).getTime()) / DAY_MS));
+
+export const calculateRankProgress = (
+  promotions: Promotion[],
+  sessions: TrainingSession[],
+  now: Date = new Date()
+): RankProgress | null => {
+  if (promotions.length === 0) return null;
+
+  const ordered = [...promotions].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const sessionTimes = sessions.map(session => new Date(session.date).getTime());
+  const countSessions = (start: Date, end: Date | null) => {
+    const from = getStartOfDay(start).getTime();
+    const to = end ? getStartOfDay(end).getTime() : Infinity;
+    return sessionTimes.filter(time => time >= from && time < to).length;
+  };
+
+  const timeline: TimelineSegment[] = ordered.map((promotion, index) => {
+    const nextPromotion = ordered[index + 1];
+    const endDate = nextPromotion ? nextPromotion.date : now;
+    return {
+      promotion,
+      endDate,
+      days: daysBetween(promotion.date, endDate),
+      sessions: countSessions(promotion.date, nextPromotion ? nextPromotion.date : null),
+    };
+  });
+
+  const currentSegment = timeline[timeline.length - 1];
+  const current = currentSegment.promotion;
+
+  // The user's own pace comes from completed grades; skipped stripes count as steps
+  let steps = 0;
+  let completedDays = 0;
+  let completedSessions = 0;
+  timeline.slice(0, -1).forEach((segment, index) => {
+    const stepCount = rankIndex(timeline[index + 1].promotion) - rankIndex(segment.promotion);
+    if (stepCount <= 0) return;
+    steps += stepCount;
+    completedDays += segment.days;
+    completedSessions += segment.sessions;
+  });
+
+  const paceSource = steps > 0 ? 'personal' : 'academy';
+  const academyPace = ACADEMY_PACE[current.beltRank];
+  const averageDaysPerStripe = steps > 0 ? Math.round(completedDays / steps) : academyPace.daysPerStripe;
+  const averageSessionsPerStripe = steps > 0
+    ? Math.round((completedSessions / steps) * 10) / 10
+    : academyPace.sessionsPerStripe;
+
+  const nextRank = getNextRank(current);
+  const dueDate = new Date(getStartOfDay(current.date).getTime() + averageDaysPerStripe * DAY_MS);
+
+  return {
+    current,
+    timeline,
+    daysAtCurrentStripe: currentSegment.days,
+    sessionsSinceLastPromotion: currentSegment.sessions,
+    averageDaysPerStripe,
+    averageSessionsPerStripe,
+    paceSource,
+    next: nextRank
+      ? {
+          rank: nextRank,
+          // Once the usual time has passed the promotion is simply due
+          estimatedDate: dueDate > now ? dueDate : now,
+          sessionsRemaining: Math.max(0, Math.ceil(averageSessionsPerStripe - currentSegment.sessions)),
+        }
+      : null,
+  };
+};
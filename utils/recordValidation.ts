@@ -0,0 +1,382 @@
+import { Technique, TechniqueLink, TechniqueRevision, TECHNIQUE_CATEGORIES } from '@/types/technique';
+import { TrainingSession, SESSION_TYPE_VALUES } from '@/types/session';
+import { SearchResult, SnippetSegment, NameMatch } from '@/types/search';
+import { UserProfile, Promotion, BELT_RANKS, MAX_STRIPES } from '@/types/profile';
+import { SyncMetadata } from '@/types/sync';
+import { InvalidRecord } from '@/types/quarantine';
+
+/**
+ * Runtime checks for records that come from outside the type system: database rows,
+ * server responses and import files. Each parser takes an unknown value and returns the
+ * typed record, with dates revived, or null after pushing one error per bad field. Errors
+ * are prefixed with `path` so a report can say which record and field was wrong.
+ */
+
+export type UnknownRecord = Record<string, unknown>;
+
+export type RecordParser<T> = (raw: unknown, path: string, errors: string[]) => T | null;
+
+export const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+export const isOptionalString = (value: unknown): value is string | undefined | null =>
+  value === undefined || value === null || typeof value === 'string';
+
+// Dates arrive as Dates from the database and as ISO strings or epoch times through JSON
+export const parseDate = (value: unknown): Date | null => {
+  if (!(value instanceof Date) && typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const isOptionalDate = (value: unknown): boolean =>
+  value === undefined || value === null || parseDate(value) !== null;
+
+// Sync metadata is optional everywhere: export files and new records don't have it
+const parseSyncMetadata = (raw: UnknownRecord, path: string, errors: string[]): SyncMetadata => {
+  if (!isOptionalDate(raw.updatedAt)) errors.push(`${path}.updatedAt: must be a valid date`);
+  if (!isOptionalDate(raw.deletedAt)) errors.push(`${path}.deletedAt: must be a valid date`);
+  if (raw.version !== undefined && raw.version !== null && (!Number.isInteger(raw.version) || (raw.version as number) < 0)) {
+    errors.push(`${path}.version: must be a whole number`);
+  }
+
+  return {
+    updatedAt: parseDate(raw.updatedAt) ?? undefined,
+    deletedAt: parseDate(raw.deletedAt) ?? undefined,
+    version: (raw.version as number | null) ?? undefined,
+  };
+};
+
+export const parseLink: RecordParser<TechniqueLink> = (raw, path, errors) => {
+  if (!isRecord(raw)) {
+    errors.push(`${path}: link must be an object`);
+    return null;
+  }
+
+  const errorCount = errors.length;
+  const timestamp = parseDate(raw.timestamp);
+  if (!isNonEmptyString(raw.id)) errors.push(`${path}.id: must be a non-empty string`);
+  if (!isNonEmptyString(raw.url)) errors.push(`${path}.url: must be a non-empty string`);
+  if (!isOptionalString(raw.title)) errors.push(`${path}.title: must be a string`);
+  if (!timestamp) errors.push(`${path}.timestamp: must be a valid date`);
+  const syncMetadata = parseSyncMetadata(raw, path, errors);
+
+  if (errors.length > errorCount) return null;
+
+  return {
+    id: raw.id as string,
+    url: raw.url as string,
+    title: (raw.title as string | null) || undefined,
+    timestamp: timestamp!,
+    ...syncMetadata,
+  };
+};
+
+const parseLinks = (raw: unknown, path: string, errors: string[]): TechniqueLink[] | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!Array.isArray(raw)) {
+    errors.push(`${path}: must be an array`);
+    return undefined;
+  }
+  return raw
+    .map((link, index) => parseLink(link, `${path}[${index}]`, errors))
+    .filter((link): link is TechniqueLink => link !== null);
+};
+
+export const parseTechnique: RecordParser<Technique> = (raw, path, errors) => {
+  if (!isRecord(raw)) {
+    errors.push(`${path}: technique must be an object`);
+    return null;
+  }
+
+  const errorCount = errors.length;
+  const timestamp = parseDate(raw.timestamp);
+
+  if (!isNonEmptyString(raw.id)) errors.push(`${path}.id: must be a non-empty string`);
+  if (!isNonEmptyString(raw.name)) errors.push(`${path}.name: must be a non-empty string`);
+  if (!TECHNIQUE_CATEGORIES.includes(raw.category as Technique['category'])) {
+    errors.push(`${path}.category: unknown category "${String(raw.category)}"`);
+  }
+  if (!Array.isArray(raw.tags) || !raw.tags.every(isNonEmptyString)) {
+    errors.push(`${path}.tags: must be an array of tag names`);
+  }
+  if (!isOptionalString(raw.notes)) errors.push(`${path}.notes: must be a string`);
+  if (!isOptionalString(raw.sessionId)) errors.push(`${path}.sessionId: must be a string`);
+  if (!timestamp) errors.push(`${path}.timestamp: must be a valid date`);
+  const syncMetadata = parseSyncMetadata(raw, path, errors);
+  const links = parseLinks(raw.links, `${path}.links`, errors);
+
+  if (errors.length > errorCount) return null;
+
+  return {
+    id: raw.id as string,
+    name: (raw.name as string).trim(),
+    category: raw.category as Technique['category'],
+    tags: raw.tags as string[],
+    notes: (raw.notes as string | null) || undefined,
+    links: links && links.length > 0 ? links : undefined,
+    timestamp: timestamp!,
+    sessionId: (raw.sessionId as string | null) || undefined,
+    ...syncMetadata,
+  };
+};
+
+export const parseSession: RecordParser<TrainingSession> = (raw, path, errors) => {
+  if (!isRecord(raw)) {
+    errors.push(`${path}: session must be an object`);
+    return null;
+  }
+
+  const errorCount = errors.length;
+  const date = parseDate(raw.date);
+
+  if (!isNonEmptyString(raw.id)) errors.push(`${path}.id: must be a non-empty string`);
+  if (!date) errors.push(`${path}.date: must be a valid date`);
+  if (!SESSION_TYPE_VALUES.includes(raw.type as TrainingSession['type'])) {
+    errors.push(`${path}.type: unknown session type "${String(raw.type)}"`);
+  }
+  if (!Number.isInteger(raw.satisfaction) || (raw.satisfaction as number) < 1 || (raw.satisfaction as number) > 5) {
+    errors.push(`${path}.satisfaction: must be a whole number from 1 to 5`);
+  }
+  if (!isOptionalString(raw.location)) errors.push(`${path}.location: must be a string`);
+  if (!isOptionalString(raw.notes)) errors.push(`${path}.notes: must be a string`);
+  if (!Array.isArray(raw.techniqueIds) || !raw.techniqueIds.every(isNonEmptyString)) {
+    errors.push(`${path}.techniqueIds: must be an array of technique ids`);
+  }
+  if (!Array.isArray(raw.submissions) || !raw.submissions.every(isNonEmptyString)) {
+    errors.push(`${path}.submissions: must be an array of submission names`);
+  }
+  if (
+    !isRecord(raw.submissionCounts) ||
+    !Object.values(raw.submissionCounts).every(count => Number.isInteger(count) && (count as number) > 0)
+  ) {
+    errors.push(`${path}.submissionCounts: must map submission names to positive whole numbers`);
+  }
+  const syncMetadata = parseSyncMetadata(raw, path, errors);
+
+  if (errors.length > errorCount) return null;
+
+  return {
+    id: raw.id as string,
+    date: date!,
+    location: (raw.location as string | null) || undefined,
+    type: raw.type as TrainingSession['type'],
+    submissions: raw.submissions as string[],
+    submissionCounts: raw.submissionCounts as Record<string, number>,
+    notes: (raw.notes as string | null) || undefined,
+    satisfaction: raw.satisfaction as TrainingSession['satisfaction'],
+    techniqueIds: raw.techniqueIds as string[],
+    ...syncMetadata,
+  };
+};
+
+// A missing profile is not an error: null or undefined parses to null without one
+export const parseProfile: RecordParser<UserProfile> = (raw, path, errors) => {
+  if (raw === null || raw === undefined) return null;
+
+  if (!isRecord(raw)) {
+    errors.push(`${path}: must be an object`);
+    return null;
+  }
+
+  const errorCount = errors.length;
+  if (!isNonEmptyString(raw.name)) errors.push(`${path}.name: must be a non-empty string`);
+  if (!BELT_RANKS.some(belt => belt.value === raw.beltRank)) {
+    errors.push(`${path}.beltRank: unknown belt "${String(raw.beltRank)}"`);
+  }
+  if (!Number.isInteger(raw.stripes) || (raw.stripes as number) < 0 || (raw.stripes as number) > MAX_STRIPES) {
+    errors.push(`${path}.stripes: must be a whole number from 0 to ${MAX_STRIPES}`);
+  }
+
+  if (errors.length > errorCount) return null;
+
+  return {
+    name: raw.name as string,
+    beltRank: raw.beltRank as UserProfile['beltRank'],
+    stripes: raw.stripes as number,
+  };
+};
+
+export const parsePromotion: RecordParser<Promotion> = (raw, path, errors) => {
+  if (!isRecord(raw)) {
+    errors.push(`${path}: promotion must be an object`);
+    return null;
+  }
+
+  const errorCount = errors.length;
+  const date = parseDate(raw.date);
+
+  if (!isNonEmptyString(raw.id)) errors.push(`${path}.id: must be a non-empty string`);
+  if (!BELT_RANKS.some(belt => belt.value === raw.beltRank)) {
+    errors.push(`${path}.beltRank: unknown belt "${String(raw.beltRank)}"`);
+  }
+  if (!Number.isInteger(raw.stripes) || (raw.stripes as number) < 0 || (raw.stripes as number) > MAX_STRIPES) {
+    errors.push(`${path}.stripes: must be a whole number from 0 to ${MAX_STRIPES}`);
+  }
+  if (!date) errors.push(`${path}.date: must be a valid date`);
+  if (!isOptionalString(raw.instructor)) errors.push(`${path}.instructor: must be a string`);
+  if (!isOptionalString(raw.notes)) errors.push(`${path}.notes: must be a string`);
+
+  if (errors.length > errorCount) return null;
+
+  return {
+    id: raw.id as string,
+    beltRank: raw.beltRank as Promotion['beltRank'],
+    stripes: raw.stripes as number,
+    date: date!,
+    instructor: (raw.instructor as string | null) || undefined,
+    notes: (raw.notes as string | null) || undefined,
+  };
+};
+
+export const parseRevision: RecordParser<TechniqueRevision> = (raw, path, errors) => {
+  if (!isRecord(raw)) {
+    errors.push(`${path}: revision must be an object`);
+    return null;
+  }
+
+  const errorCount = errors.length;
+  const createdAt = parseDate(raw.createdAt);
+
+  if (!Number.isInteger(raw.id)) errors.push(`${path}.id: must be a whole number`);
+  if (!isNonEmptyString(raw.techniqueId)) errors.push(`${path}.techniqueId: must be a non-empty string`);
+  if (!isNonEmptyString(raw.name)) errors.push(`${path}.name: must be a non-empty string`);
+  if (!TECHNIQUE_CATEGORIES.includes(raw.category as Technique['category'])) {
+    errors.push(`${path}.category: unknown category "${String(raw.category)}"`);
+  }
+  if (!Array.isArray(raw.tags) || !raw.tags.every(isNonEmptyString)) {
+    errors.push(`${path}.tags: must be an array of tag names`);
+  }
+  if (!isOptionalString(raw.notes)) errors.push(`${path}.notes: must be a string`);
+  if (!createdAt) errors.push(`${path}.createdAt: must be a valid date`);
+  const links = parseLinks(raw.links, `${path}.links`, errors);
+
+  if (errors.length > errorCount) return null;
+
+  return {
+    id: raw.id as number,
+    techniqueId: raw.techniqueId as string,
+    name: raw.name as string,
+    category: raw.category as Technique['category'],
+    tags: raw.tags as string[],
+    notes: (raw.notes as string | null) || undefined,
+    links: links && links.length > 0 ? links : undefined,
+    createdAt: createdAt!,
+  };
+};
+
+const isSnippetSegment = (value: unknown): value is SnippetSegment =>
+  isRecord(value) && typeof value.text === 'string' && typeof value.highlighted === 'boolean';
+
+export const parseSearchResult: RecordParser<SearchResult> = (raw, path, errors) => {
+  if (!isRecord(raw)) {
+    errors.push(`${path}: search result must be an object`);
+    return null;
+  }
+
+  const errorCount = errors.length;
+  const date = parseDate(raw.date);
+
+  if (raw.type !== 'technique' && raw.type !== 'session') {
+    errors.push(`${path}.type: unknown result type "${String(raw.type)}"`);
+  }
+  if (!isNonEmptyString(raw.id)) errors.push(`${path}.id: must be a non-empty string`);
+  if (!date) errors.push(`${path}.date: must be a valid date`);
+  if (!Array.isArray(raw.snippet) || !raw.snippet.every(isSnippetSegment)) {
+    errors.push(`${path}.snippet: must be an array of text segments`);
+  }
+  if (typeof raw.score !== 'number' || !Number.isFinite(raw.score)) errors.push(`${path}.score: must be a number`);
+  if (raw.type === 'technique') {
+    if (!isNonEmptyString(raw.name)) errors.push(`${path}.name: must be a non-empty string`);
+    if (!TECHNIQUE_CATEGORIES.includes(raw.category as Technique['category'])) {
+      errors.push(`${path}.category: unknown category "${String(raw.category)}"`);
+    }
+  }
+  if (raw.type === 'session') {
+    if (!SESSION_TYPE_VALUES.includes(raw.sessionType as TrainingSession['type'])) {
+      errors.push(`${path}.sessionType: unknown session type "${String(raw.sessionType)}"`);
+    }
+    if (!isOptionalString(raw.location)) errors.push(`${path}.location: must be a string`);
+  }
+
+  if (errors.length > errorCount) return null;
+
+  const base = {
+    id: raw.id as string,
+    date: date!,
+    snippet: (raw.snippet as SnippetSegment[]).map(segment => ({ text: segment.text, highlighted: segment.highlighted })),
+    score: raw.score as number,
+  };
+  return raw.type === 'technique'
+    ? { ...base, type: 'technique', name: raw.name as string, category: raw.category as Technique['category'] }
+    : {
+        ...base,
+        type: 'session',
+        sessionType: raw.sessionType as TrainingSession['type'],
+        location: (raw.location as string | null) || undefined,
+      };
+};
+
+export const parseNameMatch: RecordParser<NameMatch> = (raw, path, errors) => {
+  if (!isRecord(raw)) {
+    errors.push(`${path}: name match must be an object`);
+    return null;
+  }
+
+  const errorCount = errors.length;
+  if (!isNonEmptyString(raw.name)) errors.push(`${path}.name: must be a non-empty string`);
+  if (!Number.isInteger(raw.count) || (raw.count as number) < 0) errors.push(`${path}.count: must be a whole number`);
+
+  if (errors.length > errorCount) return null;
+
+  return { name: raw.name as string, count: raw.count as number };
+};
+
+export class RecordValidationError extends Error {
+  readonly errors: string[];
+
+  constructor(label: string, errors: string[]) {
+    super(`Invalid ${label}: ${errors.length > 0 ? errors.join('; ') : 'missing'}`);
+    this.name = 'RecordValidationError';
+    this.errors = errors;
+  }
+}
+
+// For records about to be written: throws with every error when `record` doesn't parse
+export const assertValidRecord = <T>(record: unknown, parse: RecordParser<T>, label: string): T => {
+  const errors: string[] = [];
+  const parsed = parse(record, label, errors);
+  if (!parsed) {
+    throw new RecordValidationError(label, errors);
+  }
+  return parsed;
+};
+
+/**
+ * Split `items` into the records that parse and the ones that don't. Errors are prefixed
+ * with `label`, such as "technique".
+ */
+export const partitionRecords = <T>(
+  items: unknown[],
+  parse: RecordParser<T>,
+  label: string
+): { valid: T[]; invalid: InvalidRecord[] } => {
+  const valid: T[] = [];
+  const invalid: InvalidRecord[] = [];
+
+  for (const item of items) {
+    const errors: string[] = [];
+    const record = parse(item, label, errors);
+    if (record) {
+      valid.push(record);
+    } else {
+      const id = isRecord(item) && isNonEmptyString(item.id) ? item.id : '';
+      invalid.push({ entityId: id, payload: item, errors });
+    }
+  }
+
+  return { valid, invalid };
+};
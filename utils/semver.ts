@@ -0,0 +1,64 @@
+/**
+ * Semantic version comparison for app versions like "1.4.2". A leading "v" and build
+ * metadata ("+42") are ignored. Pre-releases ("1.4.2-beta.1") come before their release.
+ */
+
+interface ParsedVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+const VERSION_PATTERN = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+// Missing minor and patch numbers read as 0, so "2" is "2.0.0"
+export const parseVersion = (version: string): ParsedVersion | null => {
+  const match = VERSION_PATTERN.exec(version.trim());
+  if (!match) return null;
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2] ?? 0),
+    patch: Number(match[3] ?? 0),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+};
+
+const comparePrereleaseIds = (a: string, b: string): number => {
+  const aIsNumber = /^\d+$/.test(a);
+  const bIsNumber = /^\d+$/.test(b);
+  if (aIsNumber && bIsNumber) return Number(a) - Number(b);
+  if (aIsNumber) return -1;
+  if (bIsNumber) return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+/**
+ * Negative if `a` is older than `b`, positive if newer, 0 if the same.
+ * Throws on a string that isn't a version.
+ */
+export const compareVersions = (a: string, b: string): number => {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) {
+    throw new Error(`Invalid version: ${!left ? a : b}`);
+  }
+
+  const core = left.major - right.major || left.minor - right.minor || left.patch - right.patch;
+  if (core !== 0) return Math.sign(core);
+
+  // A release is newer than any of its pre-releases
+  if (left.prerelease.length === 0 || right.prerelease.length === 0) {
+    return Math.sign(right.prerelease.length - left.prerelease.length);
+  }
+
+  for (let i = 0; i < Math.min(left.prerelease.length, right.prerelease.length); i++) {
+    const result = comparePrereleaseIds(left.prerelease[i], right.prerelease[i]);
+    if (result !== 0) return Math.sign(result);
+  }
+  return Math.sign(left.prerelease.length - right.prerelease.length);
+};
+
+export const isVersionAtLeast = (version: string, minimum: string): boolean =>
+  compareVersions(version, minimum) >= 0;
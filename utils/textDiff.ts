@@ -0,0 +1,111 @@
+/**
+ * Text diffing for revision history
+ * Diffs notes line by line, aligned for side-by-side display, and marks the changed words
+ * within lines that were edited rather than added or removed
+ */
+
+export interface DiffOp<T> {
+  type: 'equal' | 'removed' | 'added';
+  value: T;
+}
+
+export interface DiffSegment {
+  text: string;
+  changed: boolean;
+}
+
+export interface SideBySideRow {
+  type: 'equal' | 'changed' | 'removed' | 'added';
+  before: DiffSegment[] | null; // null when the line only exists after
+  after: DiffSegment[] | null; // null when the line only exists before
+}
+
+// Longest common subsequence diff. Notes are short, so the quadratic table is fine.
+export const diffSequences = <T>(before: T[], after: T[]): DiffOp<T>[] => {
+  const lcs: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp<T>[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      ops.push({ type: 'equal', value: before[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: 'removed', value: before[i++] });
+    } else {
+      ops.push({ type: 'added', value: after[j++] });
+    }
+  }
+  while (i < before.length) ops.push({ type: 'removed', value: before[i++] });
+  while (j < after.length) ops.push({ type: 'added', value: after[j++] });
+
+  return ops;
+};
+
+const splitLines = (text: string): string[] => (text ? text.split('\n') : []);
+
+// Joins neighbouring segments that are both changed or both unchanged
+const appendSegment = (segments: DiffSegment[], text: string, changed: boolean) => {
+  const last = segments[segments.length - 1];
+  if (last && last.changed === changed) {
+    last.text += text;
+  } else {
+    segments.push({ text, changed });
+  }
+};
+
+const diffWords = (before: string, after: string): { before: DiffSegment[]; after: DiffSegment[] } => {
+  // Splitting on a captured group keeps the whitespace, so the segments rebuild each line exactly
+  const ops = diffSequences(before.split(/(\s+)/), after.split(/(\s+)/));
+  const result = { before: [] as DiffSegment[], after: [] as DiffSegment[] };
+
+  for (const op of ops) {
+    if (op.type !== 'added') appendSegment(result.before, op.value, op.type === 'removed');
+    if (op.type !== 'removed') appendSegment(result.after, op.value, op.type === 'added');
+  }
+
+  return result;
+};
+
+export const diffLinesSideBySide = (before: string, after: string): SideBySideRow[] => {
+  const ops = diffSequences(splitLines(before), splitLines(after));
+  const rows: SideBySideRow[] = [];
+
+  let index = 0;
+  while (index < ops.length) {
+    const op = ops[index];
+    if (op.type === 'equal') {
+      const segments = [{ text: op.value, changed: false }];
+      rows.push({ type: 'equal', before: segments, after: segments });
+      index++;
+      continue;
+    }
+
+    // Pair each run of removed lines with the added lines that replaced them
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < ops.length && ops[index].type !== 'equal') {
+      (ops[index].type === 'removed' ? removed : added).push(ops[index].value);
+      index++;
+    }
+
+    for (let row = 0; row < Math.max(removed.length, added.length); row++) {
+      if (row < removed.length && row < added.length) {
+        rows.push({ type: 'changed', ...diffWords(removed[row], added[row]) });
+      } else if (row < removed.length) {
+        rows.push({ type: 'removed', before: [{ text: removed[row], changed: true }], after: null });
+      } else {
+        rows.push({ type: 'added', before: null, after: [{ text: added[row], changed: true }] });
+      }
+    }
+  }
+
+  return rows;
+};